@@ -0,0 +1,163 @@
+// edge-dev.ts - Runs, serves and tests edge functions locally, outside a deployed project.
+//
+//   npm run edge -- run ./functions/hello.js --fixture ./fixtures/post.json --env .env
+//   npm run edge -- serve ./functions/hello.js --port 8787 --db postgres://localhost/dev
+//   npm run edge -- test ./functions
+//
+// $db goes to --db (or DATABASE_URL) when given and is mocked (empty results) otherwise.
+// Cascata.queue.send() is recorded instead of reaching a queue. Exits 1 when tests fail.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import process from 'process';
+
+const USAGE = `Usage: npm run edge -- <command> [options]
+
+Commands:
+  run <file>        Runs the function once and prints the response
+  serve <file>      Serves the function on http://127.0.0.1:<port>, re-reading the file on every request
+  test [paths...]   Runs *.test.js / *.test.mjs files (default: current directory)
+
+Options:
+  --env <file>        Env vars for the function (.env format)
+  --db <url>          Local Postgres for $db (default: DATABASE_URL; mocked when neither is set)
+  --init-db           Creates the project roles and schemas in that database when missing
+  --fixture <file>    Request fixture for run (JSON: method, path, query, headers, body, user)
+  --user <json>       JWT claims for run and serve, e.g. '{"sub":"u1","role":"authenticated"}'
+  --port <n>          Port for serve (default 8787)
+  --timeout <ms>      Function timeout (default 5000)
+  --timezone <tz>     Project timezone (default UTC)
+  --read-only         Runs $db in read-only transactions, like the read_only governance mode
+`;
+
+const FLAGS = ['--init-db', '--read-only', '--help'];
+
+const parseArgs = (argv: string[]) => {
+    const positional: string[] = [];
+    const options: Record<string, string | true> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) { positional.push(arg); continue; }
+        if (FLAGS.includes(arg)) { options[arg.slice(2)] = true; continue; }
+        const value = argv[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        options[arg.slice(2)] = value;
+    }
+    return { positional, options };
+};
+
+const fail = (message: string): never => {
+    console.error(`[edge-dev] ${message}`);
+    process.exit(1);
+};
+
+// npm runs scripts from the package directory; paths on the command line are relative to where it was typed
+const base = process.env.INIT_CWD || process.cwd();
+const resolvePath = (p: string) => path.resolve(base, p);
+
+let parsed: ReturnType<typeof parseArgs>;
+try {
+    parsed = parseArgs(process.argv.slice(2));
+} catch (e: any) {
+    parsed = fail(e.message);
+}
+const { positional, options } = parsed;
+const [command, ...targets] = positional;
+if (!command || options.help) {
+    console.log(USAGE);
+    process.exit(command ? 0 : 1);
+}
+
+// The services import the server config, which demands a system database and prepares server directories.
+// Nothing here reaches the system database, so placeholders keep the config quiet.
+const scratch = path.join(os.tmpdir(), 'cascata-edge-dev');
+process.env.SYSTEM_DATABASE_URL ||= 'postgres://edge-dev@127.0.0.1:1/unused';
+process.env.SYSTEM_JWT_SECRET ||= 'edge-dev-local-secret-not-used-for-anything';
+process.env.STORAGE_ROOT ||= path.join(scratch, 'storage');
+process.env.TEMP_UPLOAD_ROOT ||= path.join(scratch, 'uploads');
+process.env.NGINX_DYNAMIC_ROOT ||= path.join(scratch, 'nginx');
+
+const { EdgeDevService } = await import('../services/EdgeDevService.js');
+const { EdgeTestRunner } = await import('../services/EdgeTestRunner.js');
+
+const readJson = (file: string, label: string) => {
+    try {
+        return JSON.parse(fs.readFileSync(resolvePath(file), 'utf8'));
+    } catch (e: any) {
+        return fail(`Could not read ${label} ${file}: ${e.message}`);
+    }
+};
+
+const numberOption = (name: string, fallback: number) => {
+    if (options[name] === undefined) return fallback;
+    const value = Number(options[name]);
+    if (!Number.isInteger(value) || value <= 0) fail(`--${name} must be a positive integer`);
+    return value;
+};
+
+const dbUrl = typeof options.db === 'string' ? options.db : process.env.DATABASE_URL;
+let db: Awaited<ReturnType<typeof EdgeDevService.connect>> | undefined;
+try {
+    if (dbUrl) db = await EdgeDevService.connect(dbUrl, options['init-db'] === true);
+} catch (e: any) {
+    fail(`Database: ${e.message}`);
+}
+if (!dbUrl) console.log('[edge-dev] No --db or DATABASE_URL: $db is mocked and returns no rows.');
+
+const devOptions = {
+    env: typeof options.env === 'string' ? EdgeDevService.loadEnv(resolvePath(options.env)) : {},
+    db,
+    timeoutMs: numberOption('timeout', 5000),
+    timezone: typeof options.timezone === 'string' ? options.timezone : undefined,
+    readOnly: options['read-only'] === true,
+    user: typeof options.user === 'string' ? (() => { try { return JSON.parse(options.user as string); } catch (e) { return fail('--user must be JSON'); } })() : undefined
+};
+
+const load = (file: string | undefined) => {
+    if (!file) return fail(`${command} needs a function file`);
+    if (!fs.existsSync(resolvePath(file))) return fail(`No such file: ${file}`);
+    try {
+        return EdgeDevService.load(resolvePath(file), devOptions);
+    } catch (e: any) {
+        return fail(e.message);
+    }
+};
+
+let exitCode = 0;
+switch (command) {
+    case 'run': {
+        const fn = load(targets[0]);
+        const fixture = typeof options.fixture === 'string' ? readJson(options.fixture, 'fixture') : {};
+        const response = await fn.fetch(fixture);
+        console.log(`\nHTTP ${response.status}`);
+        for (const [name, value] of Object.entries(response.headers)) console.log(`${name}: ${value}`);
+        console.log('');
+        console.log(typeof response.body === 'string' ? response.body : JSON.stringify(response.body, null, 2));
+        if (fn.sent.length) console.log(`\nQueued messages:\n${JSON.stringify(fn.sent, null, 2)}`);
+        exitCode = response.status >= 500 ? 1 : 0;
+        break;
+    }
+    case 'serve': {
+        const fn = load(targets[0]);
+        const port = numberOption('port', 8787);
+        await EdgeDevService.serve(fn, port).catch((e: any) => fail(`Could not listen on ${port}: ${e.message}`));
+        console.log(`[edge-dev] Serving ${path.relative(base, fn.file)} on http://127.0.0.1:${port} (Ctrl+C to stop)`);
+        // Runs until interrupted
+        await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+        break;
+    }
+    case 'test': {
+        const files = EdgeTestRunner.discover((targets.length ? targets : ['.']).map(resolvePath));
+        if (files.length === 0) fail('No *.test.js or *.test.mjs files found');
+        const summary = await EdgeTestRunner.run(files, devOptions);
+        exitCode = summary.failed > 0 ? 1 : 0;
+        break;
+    }
+    default:
+        console.log(USAGE);
+        exitCode = 1;
+}
+
+if (db) await db.end().catch(() => { });
+process.exit(exitCode);
@@ -22,7 +22,9 @@ import { PoolService } from './services/PoolService.js';
 import { SystemLogService } from './services/SystemLogService.js';
 import { RealtimeService } from './services/RealtimeService.js';
 import { EdgeService } from './services/EdgeService.js'; 
+import { EdgeIsolatePool } from './services/EdgeIsolatePool.js';
 import { CronService } from './services/CronService.js';
+import { EdgeTriggerService } from './services/EdgeTriggerService.js';
 
 // --- ROUTES ---
 import mainRouter from './src/routes/index.js';
@@ -61,6 +63,7 @@ if (process.env.SERVICE_MODE === 'WORKER') {
             RateLimitService.init();
             QueueService.init();
             CronService.init();
+            EdgeTriggerService.init();
             console.log('[System] Worker Ready. Processing background jobs.');
 
             process.on('SIGTERM', async () => {
@@ -85,7 +88,7 @@ else if (process.env.SERVICE_MODE === 'ENGINE') {
     // Rota Interna de Execução (Não exposta ao público)
     app.post('/internal/run', async (req: any, res: any) => {
         try {
-            const { code, context, envVars, timeout, slug } = req.body;
+            const { code, context, envVars, timeout, slug, logTag, functionName, requestId, version, alias, trigger } = req.body;
 
             // Instancia o pool do projeto sob demanda baseado na connection string recebida
             // Isso permite que o Engine seja stateless em relação aos pools
@@ -97,16 +100,24 @@ else if (process.env.SERVICE_MODE === 'ENGINE') {
                 envVars,
                 projectPool,
                 timeout,
-                slug
+                slug,
+                { logTag, functionName, requestId, version, alias, trigger, stream: EdgeService.streamTo(res) }
             );
 
-            res.status(result.status).json(result.body);
+            EdgeService.send(res, result);
         } catch (e: any) {
             console.error('[Engine] Execution Fail:', e.message);
+            if (res.headersSent) return res.destroy();
             res.status(500).json({ error: e.message || 'Engine Failure' });
         }
     });
 
+    // Métricas do pool de isolates (consultadas pela API via EdgeController.poolStats)
+    app.get('/internal/pool', (req: any, res: any) => {
+        const key = typeof req.query.key === 'string' ? req.query.key : undefined;
+        res.json(EdgeIsolatePool.stats(key) || { function: key, idle: 0, busy: 0, invocations: 0 });
+    });
+
     app.get('/health', (req: any, res: any) => res.json({ status: 'ok', role: 'engine' }));
 
     const PORT = process.env.PORT || 3000;
@@ -229,6 +240,7 @@ else {
             console.log('[System] Control Plane: Initializing internal queues.');
             QueueService.init();
             CronService.init();
+            EdgeTriggerService.init();
             PoolService.initReaper(); // Control plane solitário precisa do Reaper
             RealtimeService.init();   // Control plane solitário
             
@@ -393,6 +405,9 @@ else {
             });
         }
 
+        // WebSocket upgrades (Realtime) reutilizam o pipeline Express completo
+        RealtimeService.attachWebSocket(server, app);
+
     // --- BOOTSTRAP LOGIC ---
     (async () => {
         try {
@@ -426,6 +441,7 @@ else {
     // --- GRACEFUL SHUTDOWN (ORCHESTRATED) ---
     const gracefulShutdown = async (signal: string) => {
         console.log(`[System] Received ${signal}. Starting graceful shutdown sequence...`);
+        RealtimeService.closeSockets(); // Sockets upgradeados seguram o server.close() até o timeout
         server.close(async () => {
             console.log('[System] HTTP server closed.');
             try {
@@ -3,6 +3,7 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import { Buffer } from 'buffer';
+import { AutomationService, AuthEventName, AuthEventPayload } from './AutomationService.js';
 
 // --- SOVEREIGN CRYPTO UTILS ---
 const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
@@ -843,6 +844,63 @@ export class AuthService {
         }
     }
 
+    /**
+     * AUTH_EVENT automations (signup, login, password_recovery, session_revoked).
+     * Fire-and-forget: the user row is only read when an automation listens to the event.
+     */
+    public static emitAutomationEvent(
+        projectSlug: string,
+        pool: Pool,
+        jwtSecret: string,
+        event: AuthEventName,
+        details: {
+            userId: string | null,
+            provider?: string,
+            identifier?: string | null,
+            method?: string,
+            sessionId?: string | null,
+            reason?: string,
+            ip?: string,
+            userAgent?: string
+        }
+    ): void {
+        AutomationService.dispatchEvent(projectSlug, 'AUTH_EVENT', event, { provider: details.provider }, async (): Promise<AuthEventPayload> => {
+            let user: AuthEventPayload['user'] = null;
+            if (details.userId) {
+                const res = await pool.query(
+                    `SELECT id, raw_user_meta_data, banned, created_at, last_sign_in_at FROM auth.users WHERE id = $1`,
+                    [details.userId]
+                );
+                const row = res.rows[0];
+                if (row) {
+                    user = {
+                        id: row.id,
+                        email: row.raw_user_meta_data?.email || null,
+                        user_metadata: row.raw_user_meta_data || {},
+                        banned: !!row.banned,
+                        created_at: row.created_at,
+                        last_sign_in_at: row.last_sign_in_at
+                    };
+                }
+            }
+            const hasSession = details.method || details.reason || details.sessionId || details.ip;
+            return {
+                type: 'auth',
+                event,
+                user,
+                identity: details.provider ? { provider: details.provider, identifier: details.identifier ?? null } : null,
+                session: hasSession ? {
+                    id: details.sessionId,
+                    method: details.method,
+                    reason: details.reason,
+                    ip: details.ip || null,
+                    user_agent: details.userAgent || null
+                } : null,
+                timestamp: new Date().toISOString()
+            };
+        }, { projectPool: pool, jwtSecret });
+    }
+
     public static getInstallSql(): string {
         return `
         -- IDENTITY-FIRST AUTHENTICATOR (The Holy Grail)
@@ -1,6 +1,8 @@
 
 import { Pool } from 'pg';
+import crypto from 'crypto';
 import { QueueService } from './QueueService.js';
+import { PoolService } from './PoolService.js';
 import { RateLimitService } from './RateLimitService.js';
 import { systemPool, SYS_SECRET } from '../src/config/main.js';
 import { validateTargetUrl } from '../src/utils/index.js';
@@ -14,9 +16,14 @@ import { validateTargetUrl } from '../src/utils/index.js';
 
 export interface AutomationNode {
     id: string;
-    type: 'trigger' | 'action' | 'logic' | 'condition' | 'response' | 'query' | 'http' | 'transform' | 'data' | 'rpc' | 'convert';
+    type: 'trigger' | 'action' | 'logic' | 'condition' | 'response' | 'query' | 'http' | 'transform' | 'data' | 'rpc' | 'convert'
+        | 'loop' | 'parallel' | 'call_automation' | 'delay' | 'wait_until' | 'approval';
     config: any;
-    next?: string[] | { true?: string, false?: string, out?: string, error?: string };
+    /**
+     * `body` is the first node of a loop iteration; `branches` are the entry nodes of a parallel fan-out.
+     * Both run as nested paths and the workflow continues through `out` once they finish.
+     */
+    next?: string[] | { true?: string, false?: string, out?: string, error?: string, body?: string, branches?: string[] };
 }
 
 export interface AutomationContext {
@@ -42,6 +49,88 @@ export interface AutomationContext {
         provider?: string;
     };
     dryRun?: boolean;
+    /**
+     * Automations currently on the call chain (call_automation). Blocks recursion.
+     */
+    callStack?: string[];
+    /**
+     * Node executions left for the whole run, shared by loops, branches and sub-automations.
+     */
+    stepBudget?: { remaining: number };
+    /**
+     * Present on async runs persisted in system.automation_executions (checkpoints, wait nodes).
+     */
+    durable?: DurableRun;
+    /**
+     * Per-node execution trace of the current run, and where in the graph we are
+     * ('main', 'main/loop_1[3]', 'main/par_1:branch_a').
+     */
+    trace?: RunTrace;
+    traceScope?: string;
+    /**
+     * Set by replayRun: HTTP nodes answer with the outputs recorded in the original run
+     * (by node id, in order) and nothing is written to the run log or trace tables.
+     */
+    replay?: { httpSteps: Map<string, TraceStep[]> };
+}
+
+export interface RunTrace {
+    runId: string;
+    seq: number;
+    steps: TraceStep[];
+    truncated?: boolean;
+}
+
+export interface TraceStep {
+    seq: number;
+    node_id: string;
+    node_type: string;
+    scope: string;
+    status: 'success' | 'failed' | 'suspended';
+    input: any;
+    config: any;
+    output: any;
+    error: string | null;
+    branch: string | null;
+    next_node: string | null;
+    duration_ms: number;
+    attempts: number;
+    started_at: string;
+}
+
+export interface DurableRun {
+    executionId: string;
+    /** Claim token: checkpoints only land while this process still owns the execution. */
+    owner: string;
+    startedAt: number;
+    suspended?: boolean;
+    lost?: boolean;
+}
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'expired';
+
+/**
+ * Result of walking one path of the graph (the main path, a loop iteration or a parallel branch).
+ */
+interface PathOutcome {
+    result: any;
+    responded?: boolean;
+    aborted?: boolean;
+    suspended?: boolean;
+    error?: string;
+    failedNode?: string;
+    errorClass?: string;
+}
+
+/**
+ * What a workflow run produced. `error` is set when a node failed with nowhere to go
+ * (no `error` edge, no `on_error` handler): the run is logged as failed.
+ */
+interface WorkflowResult {
+    output: any;
+    error?: string;
+    failedNode?: string;
+    errorClass?: string;
 }
 
 // SQL statements that cannot be run inside a restricted session.
@@ -63,6 +152,78 @@ const FORBIDDEN_SQL_PATTERNS = [
 
 const AUTOMATION_SQL_TIMEOUT_MS = 8000; // 8 seconds max per SQL node
 
+// Flow control limits
+const MAX_PATH_STEPS = 100;          // Per path: cuts accidental cycles
+const MAX_WORKFLOW_STEPS = 5000;     // Per run, across loops, branches and sub-automations
+const MAX_LOOP_ITEMS = 1000;
+const MAX_LOOP_BATCH_SIZE = 100;
+const MAX_PARALLEL_BRANCHES = 10;
+const MAX_CALL_DEPTH = 5;
+
+// Durable runs
+const WAIT_NODE_TYPES = ['delay', 'wait_until', 'approval'];
+const MAX_WAIT_MS = 365 * 24 * 60 * 60 * 1000;
+const DEFAULT_APPROVAL_TTL_S = 7 * 24 * 60 * 60;
+const MAX_APPROVAL_TTL_S = 30 * 24 * 60 * 60;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALL_THRESHOLD_S = 120;   // A running execution without heartbeat for this long is recovered
+const LOST_RESUME_GRACE_S = 300; // A waiting execution this late past its deadline lost its resume job
+
+// Retry policies (node.config.retry)
+const MAX_RETRY_ATTEMPTS = 10;
+const MAX_RETRY_BACKOFF_MS = 60 * 1000;
+const DEFAULT_RETRY_ON = ['timeout', 'network', 'http_5xx', 'http_429', 'db_transient'];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH'];
+const TRANSIENT_PG_CODES = ['40001', '40P01', '53300', '57P01', '57P03'];
+
+// Traces
+const MAX_TRACE_STEPS = 1000;         // Per run segment; longer runs keep the first ones
+const MAX_TRACE_VALUE_BYTES = 8192;   // Per input/output/config snapshot
+const SECRET_CONFIG_KEY = /(auth_token|auth_user|auth_pass|password|secret|token|api[-_]?key|authorization|cookie)/i;
+const DURATION_UNITS_MS: Record<string, number> = { seconds: 1000, minutes: 60000, hours: 3600000, days: 86400000 };
+
+// ---------------------------------------------------------------------------
+// EVENT TRIGGERS — payloads handed to AUTH_EVENT / STORAGE_EVENT automations.
+// trigger_config: { event: '<event>' | '*' | string[], provider?, bucket?, path_prefix? }
+// ---------------------------------------------------------------------------
+export type EventTriggerType = 'AUTH_EVENT' | 'STORAGE_EVENT';
+export type AuthEventName = 'signup' | 'login' | 'password_recovery' | 'session_revoked';
+export type StorageEventName = 'upload' | 'delete';
+
+export interface AuthEventPayload {
+    type: 'auth';
+    event: AuthEventName;
+    user: {
+        id: string;
+        email: string | null;
+        user_metadata: Record<string, any>;
+        banned: boolean;
+        created_at: string | null;
+        last_sign_in_at: string | null;
+    } | null;
+    identity: { provider: string, identifier: string | null } | null;
+    /** login: how the session was obtained; session_revoked: which session(s) and why */
+    session: { id?: string | null, method?: string, reason?: string, ip?: string | null, user_agent?: string | null } | null;
+    timestamp: string;
+}
+
+export interface StorageEventPayload {
+    type: 'storage';
+    event: StorageEventName;
+    bucket: string;
+    object: {
+        path: string;
+        name: string;
+        size?: number;
+        mime_type?: string;
+        provider: string;
+        url?: string | null;
+    };
+    user_id: string | null;
+    role: string | null;
+    timestamp: string;
+}
+
 // ---------------------------------------------------------------------------
 // INTERCEPTOR CACHE — avoids hitting the DB on every single HTTP request.
 // Key: projectSlug, Value: { automations, loadedAt }.
@@ -78,6 +239,7 @@ interface CachedAutomations {
 export class AutomationService {
 
     private static interceptorCache = new Map<string, CachedAutomations>();
+    private static eventTriggerCache = new Map<string, CachedAutomations>();
 
     /**
      * Invalidates the interceptor cache for a given project.
@@ -85,6 +247,7 @@ export class AutomationService {
      */
     public static invalidateCache(projectSlug: string): void {
         this.interceptorCache.delete(projectSlug);
+        this.eventTriggerCache.delete(projectSlug);
     }
 
     /**
@@ -171,7 +334,25 @@ export class AutomationService {
     }
 
     /**
-     * FIX 4 — ASYNC DISPATCH (Non-blocking for DB_EVENT / CRON / WEBHOOK triggers).
+     * Whether any active API_INTERCEPT automation would run for this table/event.
+     * Lets streaming responses decide up front if they can bypass the buffered path.
+     */
+    public static async hasInterceptors(projectSlug: string, tableName: string, eventType: string): Promise<boolean> {
+        try {
+            const allInterceptors = await this.getActiveInterceptors(projectSlug);
+            return allInterceptors.some(a => {
+                const tbl = a.trigger_config?.table;
+                const evt = a.trigger_config?.event;
+                return (tbl === tableName || tbl === '*') && (evt === eventType || evt === '*');
+            });
+        } catch (e) {
+            // Unknown state: let the caller take the buffered path, which always runs interceptors
+            return true;
+        }
+    }
+
+    /**
+     * FIX 4 — ASYNC DISPATCH (Non-blocking for DB_EVENT / CRON / WEBHOOK / AUTH_EVENT / STORAGE_EVENT triggers).
      * Called by external event sources (RealtimeService, CronService, WebhookService).
      * Uses setImmediate to yield control BEFORE executing the workflow, so the
      * caller (typically a DB notify handler) is never blocked.
@@ -186,77 +367,354 @@ export class AutomationService {
         // setImmediate schedules in the next iteration of the event loop —
         // the caller returns immediately, with zero latency added to any HTTP path.
         (globalThis as any).setImmediate(() => {
-            this.runAutomationLogged(automationId, projectSlug, nodes, triggerPayload, context)
+            this.startExecution(automationId, projectSlug, nodes, triggerPayload, context)
                 .catch(e => console.error(`[AutomationEngine:Async] Unhandled error in automation ${automationId}:`, e));
         });
     }
 
+    /**
+     * Fans an auth or storage event out to the active automations listening to it.
+     * `buildPayload` only runs when something matches, so the auth/storage hot paths pay
+     * a cached lookup and nothing else. Never throws: callers fire and forget.
+     */
+    public static async dispatchEvent(
+        projectSlug: string,
+        triggerType: EventTriggerType,
+        event: AuthEventName | StorageEventName,
+        attributes: { provider?: string, bucket?: string, path?: string },
+        buildPayload: () => Promise<AuthEventPayload | StorageEventPayload>,
+        context: { projectPool: Pool, jwtSecret: string }
+    ): Promise<void> {
+        try {
+            const automations = (await this.getActiveEventTriggers(projectSlug)).filter(a => {
+                if (a.trigger_type !== triggerType) return false;
+                const cfg = a.trigger_config || {};
+                const events = Array.isArray(cfg.event) ? cfg.event : [cfg.event || '*'];
+                if (!events.includes('*') && !events.includes(event)) return false;
+                if (cfg.provider && cfg.provider !== '*' && cfg.provider !== attributes.provider) return false;
+                if (cfg.bucket && cfg.bucket !== '*' && cfg.bucket !== attributes.bucket) return false;
+                if (cfg.path_prefix && !(attributes.path || '').startsWith(cfg.path_prefix)) return false;
+                return true;
+            });
+            if (automations.length === 0) return;
+
+            const payload = await buildPayload();
+            for (const automation of automations) {
+                this.dispatchAsyncTrigger(automation.id, projectSlug, automation.nodes, payload, {
+                    vars: {},
+                    payload,
+                    projectSlug,
+                    jwtSecret: context.jwtSecret,
+                    projectPool: context.projectPool
+                });
+            }
+        } catch (e: any) {
+            console.error(`[AutomationEngine] ${triggerType} dispatch failed for ${projectSlug} (${event}):`, e.message);
+        }
+    }
+
+    private static async getActiveEventTriggers(projectSlug: string): Promise<any[]> {
+        const cached = this.eventTriggerCache.get(projectSlug);
+        if (cached && (Date.now() - cached.loadedAt) < CACHE_TTL_MS) {
+            return cached.automations;
+        }
+
+        const res = await systemPool.query(
+            `SELECT id, nodes, trigger_type, trigger_config
+             FROM system.automations
+             WHERE project_slug = $1
+             AND is_active = true
+             AND trigger_type IN ('AUTH_EVENT', 'STORAGE_EVENT')`,
+            [projectSlug]
+        );
+
+        this.eventTriggerCache.set(projectSlug, { automations: res.rows, loadedAt: Date.now() });
+        return res.rows;
+    }
+
+    /**
+     * Persists the run before the first node executes, so a crash at any point is recoverable.
+     */
+    private static async startExecution(
+        automationId: string,
+        projectSlug: string,
+        nodes: AutomationNode[],
+        triggerPayload: any,
+        context: AutomationContext
+    ): Promise<any> {
+        let durable: DurableRun | undefined;
+        try {
+            const owner = crypto.randomBytes(12).toString('hex');
+            const res = await systemPool.query(
+                `INSERT INTO system.automation_executions (automation_id, project_slug, nodes, trigger_payload, security, owner)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 RETURNING id`,
+                [
+                    automationId,
+                    projectSlug,
+                    JSON.stringify(nodes),
+                    JSON.stringify(triggerPayload ?? null),
+                    JSON.stringify({
+                        userRole: context.userRole,
+                        jwtClaims: context.jwtClaims,
+                        dryRun: context.dryRun,
+                        callStack: context.callStack
+                    }),
+                    owner
+                ]
+            );
+            durable = { executionId: res.rows[0].id, owner, startedAt: Date.now() };
+        } catch (e: any) {
+            // The run still happens, it just won't survive a restart (nor pause on wait nodes)
+            console.error(`[AutomationEngine] Could not persist execution for ${automationId}, running in-memory:`, e.message);
+        }
+        return this.runAutomationLogged(automationId, projectSlug, nodes, triggerPayload, { ...context, durable });
+    }
+
     /**
      * Executes a graph of logic nodes.
      */
     private static async executeWorkflow(
         nodes: AutomationNode[],
         payload: any,
-        context: AutomationContext
-    ): Promise<any> {
+        context: AutomationContext,
+        resume?: { nodeId?: string }
+    ): Promise<WorkflowResult> {
         const nodeMap = new Map(nodes.map(n => [n.id, n]));
-        const startNode = nodes.find(n => n.type === 'trigger');
-        if (!startNode) return payload;
+        context.vars = context.vars || {};
+
+        // Resumed runs restore their variables from the checkpoint and continue where they stopped
+        const startNode = resume
+            ? (resume.nodeId ? nodeMap.get(resume.nodeId) : undefined)
+            : nodes.find(n => n.type === 'trigger');
+        if (!startNode) return { output: resume ? (context.vars['$output'] || payload) : payload };
+
+        if (!resume) {
+            context.vars['$input'] = payload;
+            context.vars['trigger'] = { data: payload };
+        }
+        context.stepBudget = context.stepBudget || { remaining: MAX_WORKFLOW_STEPS };
+
+        const outcome = await this.runPath(startNode, nodeMap, context, true);
+        if (outcome.aborted || outcome.suspended) return { output: payload };
+        if (outcome.responded) return { output: outcome.result };
+
+        return {
+            output: context.vars['$output'] || payload,
+            error: outcome.error,
+            failedNode: outcome.failedNode,
+            errorClass: outcome.errorClass
+        };
+    }
 
+    /**
+     * Walks one path from `startNode` until it runs out of edges, hits a response node or fails
+     * without an error edge. Loop iterations and parallel branches are nested paths with their own scope.
+     */
+    private static async runPath(
+        startNode: AutomationNode,
+        nodeMap: Map<string, AutomationNode>,
+        context: AutomationContext,
+        main: boolean = false,
+        input: any = context.vars['$input']
+    ): Promise<PathOutcome> {
+        const durable = main ? context.durable : undefined;
         let currentNode: AutomationNode | undefined = startNode;
-        context.vars = context.vars || {};
-        context.vars['$input'] = payload;
-        context.vars['trigger'] = { data: payload };
+        let lastResult: any = null;
+        let nodeInput = input;
+
+        // Workflow-wide catch: failures on the main path without their own `error` edge jump here.
+        // Nested paths don't use it: their failure surfaces on the loop/parallel node, which does.
+        let onError: string | undefined;
+        if (main) {
+            for (const n of nodeMap.values()) {
+                if (n.type === 'trigger') { onError = n.config?.on_error || undefined; break; }
+            }
+        }
+        let handlingError = false;
 
         let steps = 0;
-        while (currentNode && steps < 100) {
+        while (currentNode && steps < MAX_PATH_STEPS) {
             steps++;
+            if (context.stepBudget && --context.stepBudget.remaining < 0) {
+                throw new Error(`[AutomationEngine] Workflow exceeded ${MAX_WORKFLOW_STEPS} node executions.`);
+            }
+            const step = this.beginStep(currentNode, context, nodeInput);
             try {
-                const result = await this.processNode(currentNode, context);
+                if (WAIT_NODE_TYPES.includes(currentNode.type) && !context.dryRun) {
+                    if (!durable) {
+                        throw new Error(`[AutomationEngine] ${currentNode.type} nodes only run on the main path of async automations.`);
+                    }
+                    if (await this.suspend(currentNode, context, durable)) {
+                        this.endStep(step, context, { status: 'suspended', output: context.vars[currentNode.id]?.data });
+                        return { result: null, suspended: true };
+                    }
+                    // Deadline already passed: behaves as a pass-through node
+                }
+
+                const node: AutomationNode = currentNode;
+                const flowInput = nodeInput;
+                const result = await this.withRetry(node, step, () => node.type === 'loop' || node.type === 'parallel'
+                    ? this.processFlowNode(node, nodeMap, context, flowInput)
+                    : this.processNode(node, context));
                 context.vars[currentNode.id] = { data: result };
+                lastResult = result;
 
                 if (currentNode.type === 'trigger' && currentNode.config?.conditions?.length > 0 && !result) {
                     console.log(`[AutomationEngine] Workflow aborted: Trigger conditions not met.`);
-                    return payload;
+                    this.endStep(step, context, { status: 'success', output: result, branch: 'aborted' });
+                    return { result, aborted: true };
                 }
 
                 if (currentNode.type === 'response') {
-                    return result;
+                    this.endStep(step, context, { status: 'success', output: result, branch: 'response' });
+                    return { result, responded: true };
                 }
 
                 let nextId: string | undefined;
-                if (currentNode.type === 'logic' || currentNode.type === 'condition') {
+                let branch: string | null = null;
+                const isBranching = currentNode.type === 'logic' || currentNode.type === 'condition' || currentNode.type === 'approval';
+                if (isBranching) {
+                    const taken = currentNode.type === 'approval' ? !!result?.approved : !!result;
+                    branch = taken ? 'true' : 'false';
                     const nextObj = currentNode.next as any;
                     if (nextObj && typeof nextObj === 'object' && !Array.isArray(nextObj)) {
-                        nextId = result ? nextObj.true : nextObj.false;
+                        nextId = taken ? nextObj.true : nextObj.false;
                     } else if (Array.isArray(currentNode.next)) {
                         const nextArr = currentNode.next as string[];
-                        nextId = result ? nextArr[0] : nextArr[1];
+                        nextId = taken ? nextArr[0] : nextArr[1];
                     }
                 } else {
                     const nextAny = currentNode.next as any;
                     if (currentNode.type === 'http' && result?.__error) {
                         nextId = nextAny?.error;
+                        branch = 'error';
                     } else {
                         nextId = Array.isArray(currentNode.next) ? currentNode.next[0] : nextAny?.out || nextAny?.next;
+                        branch = nextId ? 'out' : null;
                     }
                 }
 
+                this.endStep(step, context, { status: 'success', output: result, branch, next: nextId });
+                if (durable) await this.checkpoint(durable, nextId, context.vars);
                 currentNode = nextId ? nodeMap.get(nextId) : undefined;
+                nodeInput = result;
             } catch (err: any) {
+                if (durable?.lost) throw err;
+                if (context.stepBudget && context.stepBudget.remaining < 0) throw err;
                 console.error(`[AutomationEngine] Node ${currentNode?.id} (${currentNode?.type}) failed:`, err);
-                context.vars[currentNode?.id || 'failed_node'] = { error: err.message || 'Node execution failed' };
-                // SYNERGY: If an error path exists, follow it; otherwise halt.
+                const message = err.message || 'Node execution failed';
+                const errorClass = this.classifyError(err);
+                context.vars[currentNode?.id || 'failed_node'] = { error: message };
+                context.vars['$error'] = {
+                    node_id: currentNode?.id,
+                    node_type: currentNode?.type,
+                    message,
+                    class: errorClass,
+                    attempts: err.attempts || 1,
+                    scope: context.traceScope || 'main'
+                };
+
+                // SYNERGY: If an error path exists, follow it; then the workflow's on_error handler; otherwise halt.
+                // A failure inside the handler itself is final (no handler loops).
                 const nextAny = currentNode?.next as any;
-                if (nextAny?.error) {
-                    currentNode = nodeMap.get(nextAny.error);
+                const handler = nextAny?.error
+                    || (onError && !handlingError && onError !== currentNode?.id ? onError : undefined);
+                this.endStep(step, context, {
+                    status: 'failed',
+                    error: message,
+                    branch: nextAny?.error ? 'error' : (handler ? 'on_error' : null),
+                    next: handler
+                });
+                if (handler) {
+                    if (!nextAny?.error) handlingError = true;
+                    if (durable) await this.checkpoint(durable, handler, context.vars);
+                    currentNode = nodeMap.get(handler);
+                    nodeInput = nextAny?.error ? { error: message } : context.vars['$error'];
                     continue;
                 }
-                break;
+                return { result: lastResult, error: message, failedNode: currentNode?.id, errorClass };
+            }
+        }
+
+        return { result: lastResult };
+    }
+
+    /**
+     * Flow control nodes (loop, parallel). They need the graph, so they live outside processNode.
+     *
+     * Scoping: every iteration/branch runs on a copy of the current variables. Nodes inside can read
+     * everything upstream, but what they write (including `$output`) stays inside. Only the
+     * aggregated result comes out, under the flow node's own id.
+     */
+    private static async processFlowNode(
+        node: AutomationNode,
+        nodeMap: Map<string, AutomationNode>,
+        context: AutomationContext,
+        input: any
+    ): Promise<any> {
+        const config = node.config || {};
+        const nextAny = (node.next && !Array.isArray(node.next) ? node.next : {}) as any;
+        const nested = (outcome: PathOutcome, label: string) => {
+            if (outcome.error && !config.continue_on_error) {
+                throw new Error(`[AutomationEngine] ${node.type} node ${node.id}: ${label} failed: ${outcome.error}`);
+            }
+            return outcome.error ? { error: outcome.error } : outcome.result;
+        };
+
+        if (node.type === 'loop') {
+            const ref = typeof config.items === 'string' ? config.items.replace(/^\{\{\s*|\s*\}\}$/g, '') : null;
+            const items = ref ? this.getVarSync(ref, context.vars) : config.items;
+            if (items === null || items === undefined) return [];
+            if (!Array.isArray(items)) throw new Error(`[AutomationEngine] Loop node ${node.id} expects an array, got ${typeof items}.`);
+            if (items.length > MAX_LOOP_ITEMS) {
+                throw new Error(`[AutomationEngine] Loop node ${node.id} received ${items.length} items (max ${MAX_LOOP_ITEMS}).`);
+            }
+
+            const bodyNode = nextAny.body ? nodeMap.get(nextAny.body) : undefined;
+            if (!bodyNode) return items;
+
+            // batch_size > 1: each iteration receives a slice of the array in $item
+            const batchSize = Math.min(Math.max(parseInt(config.batch_size, 10) || 1, 1), MAX_LOOP_BATCH_SIZE);
+            const results: any[] = [];
+            for (let index = 0; index * batchSize < items.length; index++) {
+                const batch = items.slice(index * batchSize, (index + 1) * batchSize);
+                const vars = {
+                    ...context.vars,
+                    $item: batchSize === 1 ? batch[0] : batch,
+                    $index: index,
+                    $loop: { index, count: Math.ceil(items.length / batchSize), total: items.length }
+                };
+                const scope = `${context.traceScope || 'main'}/${node.id}[${index}]`;
+                const outcome = await this.runPath(bodyNode, nodeMap, { ...context, vars, traceScope: scope }, false, vars.$item);
+                results.push(nested(outcome, `iteration ${index}`));
             }
+            return results;
         }
 
-        return context.vars['$output'] || payload;
+        // parallel: fan-out, wait for every branch, join with the configured merge strategy
+        const branchIds: string[] = Array.isArray(nextAny.branches) ? nextAny.branches : [];
+        if (branchIds.length > MAX_PARALLEL_BRANCHES) {
+            throw new Error(`[AutomationEngine] Parallel node ${node.id} has ${branchIds.length} branches (max ${MAX_PARALLEL_BRANCHES}).`);
+        }
+
+        const outcomes = await Promise.all(branchIds.map(async (branchId) => {
+            const branchNode = nodeMap.get(branchId);
+            if (!branchNode) return { result: null } as PathOutcome;
+            const scope = `${context.traceScope || 'main'}/${node.id}:${branchId}`;
+            return this.runPath(branchNode, nodeMap, { ...context, vars: { ...context.vars }, traceScope: scope }, false, input);
+        }));
+        const results = outcomes.map((outcome, i) => nested(outcome, `branch ${branchIds[i]}`));
+
+        switch (config.merge || 'array') {
+            case 'object':
+                return Object.fromEntries(branchIds.map((id, i) => [id, results[i]]));
+            case 'merge':
+                return results.reduce((acc, r) => (r && typeof r === 'object' && !Array.isArray(r) ? { ...acc, ...r } : acc), {});
+            case 'array':
+            default:
+                return results;
+        }
     }
 
     /**
@@ -282,6 +740,13 @@ export class AutomationService {
                 return this.executeSecureSqlNode(node, context);
 
             case 'http': {
+                if (context.replay) {
+                    const recorded = context.replay.httpSteps.get(node.id)?.shift();
+                    if (!recorded) return { dry_run: true, recorded: false };
+                    if (recorded.status === 'failed') throw new Error(recorded.error || 'HTTP Failed');
+                    return recorded.output;
+                }
+
                 let targetUrl = this.resolveVariables(node.config.url || '', context.vars);
                 if (!targetUrl) throw new Error('[AutomationEngine] HTTP node requires a URL.');
 
@@ -355,7 +820,9 @@ export class AutomationService {
                             signal
                         });
                         if (!response.ok) {
-                            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                            const httpErr: any = new Error(`HTTP ${response.status}: ${response.statusText}`);
+                            httpErr.status = response.status;
+                            throw httpErr;
                         }
                         const ct = response.headers.get('content-type') || '';
                         return ct.includes('application/json') ? await response.json() : await response.text();
@@ -542,6 +1009,49 @@ export class AutomationService {
                 }
             }
 
+            case 'call_automation': {
+                const automationId = node.config.automation_id;
+                if (!automationId) throw new Error('[AutomationEngine] call_automation node requires an automation_id.');
+
+                const callStack = context.callStack || [];
+                if (callStack.includes(automationId)) {
+                    throw new Error(`[AutomationEngine] Recursive call to automation ${automationId} blocked.`);
+                }
+                if (callStack.length >= MAX_CALL_DEPTH) {
+                    throw new Error(`[AutomationEngine] call_automation depth limit (${MAX_CALL_DEPTH}) reached.`);
+                }
+
+                // Same project only: the callee runs with the caller's role and claims
+                const target = await systemPool.query(
+                    `SELECT id, nodes FROM system.automations WHERE id = $1 AND project_slug = $2 AND is_active = true`,
+                    [automationId, context.projectSlug]
+                );
+                if (!target.rows[0]) throw new Error(`[AutomationEngine] Automation ${automationId} not found or inactive.`);
+
+                const input = node.config.input !== undefined
+                    ? this.resolveObject(node.config.input, context.vars)
+                    : context.vars['$input'];
+
+                return this.runAutomationLogged(
+                    target.rows[0].id,
+                    context.projectSlug,
+                    target.rows[0].nodes as AutomationNode[],
+                    input,
+                    // The callee runs inline: if the caller crashes, recovery replays the whole call_automation node.
+                    // Its steps are not traced, so a replayed callee has no recorded HTTP outputs of its own.
+                    {
+                        ...context, vars: {}, payload: input, durable: undefined, trace: undefined, traceScope: undefined,
+                        replay: context.replay ? { httpSteps: new Map() } : undefined
+                    }
+                );
+            }
+
+            case 'delay':
+            case 'wait_until':
+            case 'approval':
+                // Only reached in dry runs (durable runs park in runPath): nothing waits, approvals pass
+                return node.type === 'approval' ? { status: 'approved', approved: true, dry_run: true } : { dry_run: true };
+
             default:
                 return null;
         }
@@ -655,39 +1165,791 @@ export class AutomationService {
         projectSlug: string,
         nodes: AutomationNode[],
         triggerPayload: any,
-        context: AutomationContext
+        context: AutomationContext,
+        resume?: { nodeId?: string }
     ): Promise<any> {
-        const startedAt = Date.now();
+        const durable = context.durable;
+        const startedAt = durable?.startedAt || Date.now();
+        const trace: RunTrace = context.trace || { runId: durable?.executionId || crypto.randomUUID(), seq: 0, steps: [] };
         let status: 'success' | 'failed' = 'success';
         let finalOutput: any = null;
         let errorMessage: string | null = null;
+        let failure: { node?: string, errorClass?: string } = {};
+
+        // Long nodes (loops, slow HTTP) keep the claim alive; the stall sweeper only takes over dead processes
+        const heartbeat = durable
+            ? setInterval(() => this.heartbeat(durable), HEARTBEAT_INTERVAL_MS)
+            : undefined;
+
+        const workflowContext: AutomationContext = {
+            ...context,
+            callStack: [...(context.callStack || []), automationId],
+            trace,
+            traceScope: 'main'
+        };
 
         try {
-            finalOutput = await this.executeWorkflow(nodes, triggerPayload, context);
+            const result = await this.executeWorkflow(nodes, triggerPayload, workflowContext, resume);
+            finalOutput = result.output;
+            if (result.error) {
+                // Unhandled node failure: callers still get the partial output, the log says failed
+                status = 'failed';
+                errorMessage = result.error;
+                failure = { node: result.failedNode, errorClass: result.errorClass };
+            }
             return finalOutput;
         } catch (e: any) {
             status = 'failed';
             errorMessage = e?.message || 'Unknown error';
             throw e; // Re-throw so interceptResponse fail-safe still works
         } finally {
+            clearInterval(heartbeat);
             const execution_time_ms = Date.now() - startedAt;
-            // Fire-and-forget: we NEVER block on log write.
-            // If the DB is down it simply misses a record — better than crashing the workflow.
-            systemPool.query(
-                `INSERT INTO system.automation_runs
-                    (automation_id, project_slug, status, execution_time_ms, trigger_payload, final_output, error_message)
-                 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+
+            // Also flushed on suspension: each resumed segment appends its own steps.
+            // Replays persist nothing: replayRun hands the steps back to the caller.
+            if (!context.replay) {
+                this.flushTrace(trace, automationId, projectSlug)
+                    .catch((e: any) => console.error('[AutomationEngine] Failed to write run trace:', e.message));
+            }
+
+            if (durable) {
+                // Suspended: the resume writes the log. Lost: another process (or a cancel) owns the run now.
+                if (!durable.suspended && !durable.lost) {
+                    this.finishExecution(durable, automationId, projectSlug, status, execution_time_ms, triggerPayload, finalOutput, errorMessage)
+                        .then((finished) => {
+                            if (!finished || status !== 'failed') return;
+                            return this.deadLetter(durable.executionId, automationId, projectSlug, nodes, triggerPayload, workflowContext, errorMessage, failure);
+                        })
+                        .catch((e: any) => console.error('[AutomationEngine] Failed to finish execution:', e.message));
+                }
+            } else if (!context.replay) {
+                // Fire-and-forget: we NEVER block on log write.
+                // If the DB is down it simply misses a record — better than crashing the workflow.
+                this.writeRunLog(trace.runId, automationId, projectSlug, status, execution_time_ms, triggerPayload, finalOutput, errorMessage)
+                    .catch((e: any) => console.error('[AutomationEngine] Failed to write run log:', e.message));
+            }
+        }
+    }
+
+    public static async writeRunLog(
+        runId: string | null,
+        automationId: string,
+        projectSlug: string,
+        status: string,
+        executionTimeMs: number,
+        triggerPayload: any,
+        finalOutput: any,
+        errorMessage: string | null
+    ): Promise<void> {
+        await systemPool.query(
+            `INSERT INTO system.automation_runs
+                (id, automation_id, project_slug, status, execution_time_ms, trigger_payload, final_output, error_message)
+             VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3, $4, $5, $6, $7, $8)`,
+            [
+                runId,
+                automationId,
+                projectSlug,
+                status,
+                executionTimeMs,
+                JSON.stringify(triggerPayload),
+                finalOutput !== null && finalOutput !== undefined ? JSON.stringify(finalOutput) : null,
+                errorMessage
+            ]
+        );
+    }
+
+    // =========================================================================
+    // RETRY POLICIES
+    // node.config.retry = { attempts, backoff_ms, max_backoff_ms, retry_on }.
+    // Exponential backoff with jitter; only errors whose class is listed in
+    // retry_on are retried ('any' retries everything). Applies to every node type.
+    // =========================================================================
+
+    private static async withRetry<T>(node: AutomationNode, step: TraceStep | null, run: () => Promise<T>): Promise<T> {
+        const policy = node.config?.retry;
+        const attempts = Math.min(Math.max(parseInt(policy?.attempts, 10) || 1, 1), MAX_RETRY_ATTEMPTS);
+        if (attempts === 1) return run();
+
+        const retryOn: string[] = Array.isArray(policy.retry_on) && policy.retry_on.length > 0 ? policy.retry_on : DEFAULT_RETRY_ON;
+        const baseDelay = Math.max(parseInt(policy.backoff_ms, 10) || 1000, 0);
+        const maxDelay = Math.min(Math.max(parseInt(policy.max_backoff_ms, 10) || 30000, baseDelay), MAX_RETRY_BACKOFF_MS);
+
+        for (let attempt = 1; ; attempt++) {
+            if (step) step.attempts = attempt;
+            try {
+                return await run();
+            } catch (err: any) {
+                const errorClass = this.classifyError(err);
+                if (attempt >= attempts || !(retryOn.includes('any') || retryOn.includes(errorClass))) {
+                    if (err && typeof err === 'object') err.attempts = attempt;
+                    throw err;
+                }
+                const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+                console.warn(`[AutomationEngine] Node ${node.id} failed (${errorClass}), retry ${attempt}/${attempts - 1} in ${delay}ms.`);
+                await new Promise(r => setTimeout(r, delay / 2 + Math.random() * delay / 2));
+            }
+        }
+    }
+
+    /**
+     * Error classes usable in retry_on and exposed as $error.class.
+     */
+    public static classifyError(err: any): string {
+        const status = Number(err?.status);
+        if (status === 429) return 'http_429';
+        if (status >= 500) return 'http_5xx';
+        if (status >= 400) return 'http_4xx';
+        if (err?.name === 'TimeoutError' || err?.name === 'AbortError' || err?.code === '57014' || /timeout/i.test(err?.message || '')) return 'timeout';
+        const code = err?.code || err?.cause?.code;
+        if (NETWORK_ERROR_CODES.includes(code) || err?.message === 'fetch failed') return 'network';
+        if (TRANSIENT_PG_CODES.includes(code) || (typeof code === 'string' && code.startsWith('08'))) return 'db_transient';
+        if (/Security Violation/.test(err?.message || '')) return 'security';
+        return 'error';
+    }
+
+    // =========================================================================
+    // DEAD LETTERS
+    // Async runs that end failed are parked in system.automation_dead_letters with
+    // their payload, identity and last checkpoint, to be inspected and re-driven
+    // (from the start, or from the failed node with the saved variables).
+    // =========================================================================
+
+    private static async deadLetter(
+        runId: string,
+        automationId: string,
+        projectSlug: string,
+        nodes: AutomationNode[],
+        triggerPayload: any,
+        context: AutomationContext,
+        errorMessage: string | null,
+        failure: { node?: string, errorClass?: string }
+    ): Promise<void> {
+        await systemPool.query(
+            `INSERT INTO system.automation_dead_letters
+                (run_id, automation_id, project_slug, failed_node, error_message, error_class, trigger_payload, vars, nodes, security)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+            [
+                runId,
+                automationId,
+                projectSlug,
+                failure.node ?? null,
+                errorMessage,
+                failure.errorClass ?? null,
+                JSON.stringify(triggerPayload ?? null),
+                JSON.stringify(context.vars || {}),
+                JSON.stringify(nodes),
+                JSON.stringify({
+                    userRole: context.userRole,
+                    jwtClaims: context.jwtClaims,
+                    dryRun: context.dryRun,
+                    callStack: (context.callStack || []).slice(0, -1)
+                })
+            ]
+        );
+    }
+
+    /**
+     * Starts a new durable run from a dead letter. 'restart' replays the trigger payload from the top;
+     * 'resume' continues at the failed node with the variables it had. Both run the current graph,
+     * so a fix deployed after the failure is picked up.
+     */
+    public static async redriveDeadLetter(projectSlug: string, deadLetterId: string, mode: 'restart' | 'resume'): Promise<{ run_id: string } | { error: string } | null> {
+        const found = await systemPool.query(
+            `SELECT dl.status, dl.automation_id, dl.failed_node, dl.trigger_payload, dl.vars, dl.security, a.nodes AS current_nodes
+             FROM system.automation_dead_letters dl
+             LEFT JOIN system.automations a ON a.id = dl.automation_id AND a.project_slug = dl.project_slug
+             WHERE dl.id = $1 AND dl.project_slug = $2`,
+            [deadLetterId, projectSlug]
+        );
+        const row = found.rows[0];
+        if (!row) return null;
+        if (row.status !== 'pending') return { error: `Dead letter already ${row.status}.` };
+        if (!row.current_nodes) return { error: 'The automation of this dead letter no longer exists.' };
+
+        // Context first: a deleted project must leave the dead letter pending, not orphan a run
+        const runId = crypto.randomUUID();
+        const owner = crypto.randomBytes(12).toString('hex');
+        const vars = mode === 'resume' ? (row.vars || {}) : {};
+        const durable: DurableRun = { executionId: runId, owner, startedAt: Date.now() };
+        const context = await this.restoreContext(projectSlug, row.security, vars, row.trigger_payload, durable);
+        if (!context) return null;
+
+        // Claim and run row commit together; the claim re-checks status and the failed node under the lock
+        const client = await systemPool.connect();
+        let nodes: AutomationNode[];
+        try {
+            await client.query('BEGIN');
+            const claim = await client.query(
+                `UPDATE system.automation_dead_letters dl
+                 SET status = 'redriven', resolved_at = NOW(), redrive_run_id = $3
+                 FROM system.automations a
+                 WHERE dl.id = $1 AND dl.project_slug = $2 AND dl.status = 'pending'
+                   AND a.id = dl.automation_id AND a.project_slug = dl.project_slug
+                   AND ($4 = 'restart' OR (dl.failed_node IS NOT NULL AND a.nodes @> jsonb_build_array(jsonb_build_object('id', dl.failed_node))))
+                 RETURNING a.nodes AS current_nodes`,
+                [deadLetterId, projectSlug, runId, mode]
+            );
+            if (!claim.rows[0]) {
+                await client.query('ROLLBACK');
+                const current = await systemPool.query(
+                    `SELECT status FROM system.automation_dead_letters WHERE id = $1 AND project_slug = $2`,
+                    [deadLetterId, projectSlug]
+                );
+                if (!current.rows[0]) return null;
+                return {
+                    error: current.rows[0].status !== 'pending'
+                        ? `Dead letter already ${current.rows[0].status}.`
+                        : 'The failed node no longer exists in this automation: re-drive with mode=restart.'
+                };
+            }
+            nodes = claim.rows[0].current_nodes;
+
+            await client.query(
+                `INSERT INTO system.automation_executions
+                    (id, automation_id, project_slug, nodes, trigger_payload, security, owner, vars, next_node, steps)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
                 [
-                    automationId,
+                    runId,
+                    row.automation_id,
                     projectSlug,
-                    status,
-                    execution_time_ms,
-                    JSON.stringify(triggerPayload),
-                    finalOutput !== null ? JSON.stringify(finalOutput) : null,
-                    errorMessage
+                    JSON.stringify(nodes),
+                    JSON.stringify(row.trigger_payload),
+                    JSON.stringify(row.security || {}),
+                    owner,
+                    JSON.stringify(vars),
+                    mode === 'resume' ? row.failed_node : null,
+                    mode === 'resume' ? 1 : 0
                 ]
-            ).catch((e: any) => console.error('[AutomationEngine] Failed to write run log:', e.message));
+            );
+            await client.query('COMMIT');
+        } catch (e) {
+            await client.query('ROLLBACK').catch(() => { });
+            throw e;
+        } finally {
+            client.release();
         }
+
+        this.runAutomationLogged(
+            row.automation_id,
+            projectSlug,
+            nodes,
+            row.trigger_payload,
+            context,
+            mode === 'resume' ? { nodeId: row.failed_node } : undefined
+        ).catch(e => console.error(`[AutomationEngine:Async] Re-drive of dead letter ${deadLetterId} failed:`, e));
+
+        return { run_id: runId };
+    }
+
+    public static async dismissDeadLetter(projectSlug: string, deadLetterId: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `UPDATE system.automation_dead_letters SET status = 'dismissed', resolved_at = NOW()
+             WHERE id = $1 AND project_slug = $2 AND status = 'pending'`,
+            [deadLetterId, projectSlug]
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    // =========================================================================
+    // EXECUTION TRACES
+    // One row per executed node in system.automation_run_steps, keyed by the run id
+    // (same id as system.automation_runs / system.automation_executions). Buffered in
+    // memory and written in a single insert when the run finishes or parks.
+    // =========================================================================
+
+    private static beginStep(node: AutomationNode, context: AutomationContext, input: any): TraceStep | null {
+        const trace = context.trace;
+        if (!trace) return null;
+        if (trace.steps.length >= MAX_TRACE_STEPS) {
+            trace.truncated = true;
+            return null;
+        }
+        const step: TraceStep = {
+            seq: ++trace.seq,
+            node_id: node.id,
+            node_type: node.type,
+            scope: context.traceScope || 'main',
+            status: 'success',
+            input: this.traceValue(input),
+            config: this.traceValue(this.redactConfig(this.resolveObject(node.config, context.vars))),
+            output: null,
+            error: null,
+            branch: null,
+            next_node: null,
+            duration_ms: 0,
+            attempts: 1,
+            started_at: new Date().toISOString()
+        };
+        trace.steps.push(step);
+        return step;
+    }
+
+    private static endStep(
+        step: TraceStep | null,
+        context: AutomationContext,
+        outcome: { status: TraceStep['status'], output?: any, error?: string, branch?: string | null, next?: string }
+    ): void {
+        if (!step) return;
+        step.status = outcome.status;
+        step.output = this.traceValue(outcome.output);
+        step.error = outcome.error ?? null;
+        step.branch = outcome.branch ?? null;
+        step.next_node = outcome.next ?? null;
+        step.duration_ms = Date.now() - new Date(step.started_at).getTime();
+    }
+
+    /**
+     * Credentials never reach the trace: vault references stay as references, literal values are masked.
+     * Vault secrets themselves are only resolved inside the node, so they never show up here.
+     */
+    private static redactConfig(config: any, key?: string): any {
+        if (key && SECRET_CONFIG_KEY.test(key) && config !== null && config !== undefined && config !== '') {
+            return typeof config === 'string' && config.startsWith('vault://') ? config : '[REDACTED]';
+        }
+        if (Array.isArray(config)) return config.map(item => this.redactConfig(item));
+        if (config && typeof config === 'object') {
+            const result: any = {};
+            for (const k in config) result[k] = this.redactConfig(config[k], k);
+            return result;
+        }
+        return config;
+    }
+
+    private static traceValue(value: any): any {
+        if (value === undefined) return null;
+        let json: string;
+        try { json = JSON.stringify(value); } catch { return { __unserializable: true }; }
+        if (json === undefined) return null;
+        if (json.length <= MAX_TRACE_VALUE_BYTES) return value;
+        return { __truncated: true, bytes: json.length, preview: json.slice(0, MAX_TRACE_VALUE_BYTES) };
+    }
+
+    private static async flushTrace(trace: RunTrace, automationId: string, projectSlug: string): Promise<void> {
+        if (trace.steps.length === 0) return;
+        if (trace.truncated) {
+            console.warn(`[AutomationEngine] Trace of run ${trace.runId} truncated at ${MAX_TRACE_STEPS} steps.`);
+        }
+        await systemPool.query(
+            `INSERT INTO system.automation_run_steps
+                (run_id, automation_id, project_slug, seq, node_id, node_type, scope, status,
+                 input, config, output, error, branch, next_node, duration_ms, attempts, started_at)
+             SELECT $1, $2, $3, s.seq, s.node_id, s.node_type, s.scope, s.status,
+                    s.input, s.config, s.output, s.error, s.branch, s.next_node, s.duration_ms, s.attempts, s.started_at
+             FROM jsonb_to_recordset($4::jsonb) AS s(
+                seq INTEGER, node_id TEXT, node_type TEXT, scope TEXT, status TEXT,
+                input JSONB, config JSONB, output JSONB, error TEXT, branch TEXT, next_node TEXT,
+                duration_ms INTEGER, attempts INTEGER, started_at TIMESTAMPTZ
+             )`,
+            [trace.runId, automationId, projectSlug, JSON.stringify(trace.steps)]
+        );
+        trace.steps = [];
+    }
+
+    /**
+     * Steps of a run, plus its final record (or in-flight state when it is still running / parked).
+     */
+    public static async getRunTrace(projectSlug: string, runId: string): Promise<any | null> {
+        const [run, execution, steps] = await Promise.all([
+            systemPool.query(
+                `SELECT id, automation_id, status, execution_time_ms, trigger_payload, final_output, error_message, created_at
+                 FROM system.automation_runs WHERE id = $1 AND project_slug = $2`,
+                [runId, projectSlug]
+            ),
+            systemPool.query(
+                `SELECT id, automation_id, status, next_node, wait_state - 'nonce' AS wait_state, trigger_payload, started_at, heartbeat_at
+                 FROM system.automation_executions WHERE id = $1 AND project_slug = $2`,
+                [runId, projectSlug]
+            ),
+            systemPool.query(
+                `SELECT seq, node_id, node_type, scope, status, input, config, output, error, branch, next_node,
+                        duration_ms, attempts, started_at
+                 FROM system.automation_run_steps
+                 WHERE run_id = $1 AND project_slug = $2
+                 ORDER BY started_at, seq`,
+                [runId, projectSlug]
+            )
+        ]);
+        if (!run.rows[0] && !execution.rows[0]) return null;
+        return { run: run.rows[0] || null, execution: execution.rows[0] || null, steps: steps.rows };
+    }
+
+    /**
+     * Re-executes a finished run with its original trigger payload against the current graph, in dryRun
+     * mode: SQL/data/rpc writes roll back, wait nodes pass straight through and HTTP nodes return the
+     * outputs recorded in the original run's trace. Nothing is written to the run log or trace tables.
+     */
+    public static async replayRun(
+        projectSlug: string,
+        runId: string,
+        context: Omit<AutomationContext, 'vars' | 'payload'>
+    ): Promise<any | null> {
+        const original = await systemPool.query(
+            `SELECT r.automation_id, r.trigger_payload, a.nodes
+             FROM system.automation_runs r
+             JOIN system.automations a ON a.id = r.automation_id AND a.project_slug = r.project_slug
+             WHERE r.id = $1 AND r.project_slug = $2`,
+            [runId, projectSlug]
+        );
+        const row = original.rows[0];
+        if (!row) return null;
+
+        const recorded = await systemPool.query(
+            `SELECT node_id, status, output, error
+             FROM system.automation_run_steps
+             WHERE run_id = $1 AND project_slug = $2 AND node_type = 'http'
+             ORDER BY started_at, seq`,
+            [runId, projectSlug]
+        );
+        const httpSteps = new Map<string, TraceStep[]>();
+        for (const step of recorded.rows) {
+            if (!httpSteps.has(step.node_id)) httpSteps.set(step.node_id, []);
+            httpSteps.get(step.node_id)!.push(step);
+        }
+
+        const trace: RunTrace = { runId: crypto.randomUUID(), seq: 0, steps: [] };
+        let output: any = null;
+        let error: string | null = null;
+        try {
+            output = await this.runAutomationLogged(row.automation_id, projectSlug, row.nodes as AutomationNode[], row.trigger_payload, {
+                ...context,
+                vars: {},
+                payload: row.trigger_payload,
+                dryRun: true,
+                durable: undefined,
+                trace,
+                replay: { httpSteps }
+            });
+        } catch (e: any) {
+            error = e?.message || 'Unknown error';
+        }
+        return { run_id: trace.runId, replay_of: runId, dry_run: true, output, error, steps: trace.steps };
+    }
+
+    // =========================================================================
+    // DURABLE RUNS
+    // Async runs live in system.automation_executions while in flight. Every node of
+    // the main path checkpoints (next node + vars). Wait nodes park the run and schedule
+    // a BullMQ resume job; approvals resume through a signed callback URL. A process
+    // only writes while it holds the `owner` claim, so a recovered or cancelled run
+    // can never be driven by two processes at once.
+    // =========================================================================
+
+    private static async checkpoint(durable: DurableRun, nextNode: string | undefined, vars: Record<string, any>): Promise<void> {
+        let owned = true;
+        try {
+            const res = await systemPool.query(
+                `UPDATE system.automation_executions
+                 SET status = 'running', wait_state = NULL, next_node = $3, vars = $4, steps = steps + 1, heartbeat_at = NOW()
+                 WHERE id = $1 AND owner = $2`,
+                [durable.executionId, durable.owner, nextNode ?? null, JSON.stringify(vars)]
+            );
+            owned = (res.rowCount ?? 0) > 0;
+        } catch (e: any) {
+            // System DB hiccup: keep going, a crash now would only replay from the previous checkpoint
+            console.error(`[AutomationEngine] Checkpoint failed for execution ${durable.executionId}:`, e.message);
+        }
+        if (!owned) {
+            durable.lost = true;
+            throw new Error(`[AutomationEngine] Execution ${durable.executionId} was cancelled or taken over.`);
+        }
+    }
+
+    private static heartbeat(durable: DurableRun): void {
+        systemPool.query(
+            `UPDATE system.automation_executions SET heartbeat_at = NOW() WHERE id = $1 AND owner = $2`,
+            [durable.executionId, durable.owner]
+        ).catch(() => { });
+    }
+
+    private static async finishExecution(
+        durable: DurableRun,
+        automationId: string,
+        projectSlug: string,
+        status: string,
+        executionTimeMs: number,
+        triggerPayload: any,
+        finalOutput: any,
+        errorMessage: string | null
+    ): Promise<boolean> {
+        const res = await systemPool.query(
+            `DELETE FROM system.automation_executions WHERE id = $1 AND owner = $2`,
+            [durable.executionId, durable.owner]
+        );
+        if ((res.rowCount ?? 0) === 0) return false;
+        await this.writeRunLog(durable.executionId, automationId, projectSlug, status, executionTimeMs, triggerPayload, finalOutput, errorMessage);
+        return true;
+    }
+
+    /**
+     * Parks the run on a wait node. Returns false when there is nothing to wait for
+     * (wait_until in the past), in which case the node simply passes through.
+     */
+    private static async suspend(node: AutomationNode, context: AutomationContext, durable: DurableRun): Promise<boolean> {
+        const config = node.config || {};
+        const nextAny = node.next as any;
+        const nonce = crypto.randomBytes(16).toString('hex');
+        let until: number;
+        let resumeNode: string | undefined;
+
+        if (node.type === 'approval') {
+            const ttl = Math.min(Math.max(parseInt(config.expires_in, 10) || DEFAULT_APPROVAL_TTL_S, 60), MAX_APPROVAL_TTL_S);
+            until = Date.now() + ttl * 1000;
+            resumeNode = node.id; // The branch (true/false) is picked when the decision arrives
+            context.vars[node.id] = {
+                data: {
+                    status: 'pending',
+                    message: config.message ? this.resolveVariables(config.message, context.vars) : null,
+                    expires_at: new Date(until).toISOString(),
+                    ...this.approvalLinks(durable.executionId, nonce, until)
+                }
+            };
+        } else {
+            if (node.type === 'delay') {
+                const ms = config.duration_ms !== undefined
+                    ? Number(this.resolveVariables(String(config.duration_ms), context.vars))
+                    : Number(this.resolveVariables(String(config.amount ?? ''), context.vars)) * (DURATION_UNITS_MS[config.unit || 'seconds'] || 0);
+                if (!Number.isFinite(ms) || ms < 0) throw new Error(`[AutomationEngine] Delay node ${node.id} has an invalid duration.`);
+                until = Date.now() + ms;
+            } else {
+                const ref = typeof config.until === 'string' ? config.until.replace(/^\{\{\s*|\s*\}\}$/g, '') : '';
+                const raw = this.getVarSync(ref, context.vars) ?? config.until;
+                until = new Date(raw).getTime();
+                if (!Number.isFinite(until)) throw new Error(`[AutomationEngine] wait_until node ${node.id} has an invalid date.`);
+            }
+            if (until - Date.now() > MAX_WAIT_MS) throw new Error(`[AutomationEngine] ${node.type} node ${node.id} waits longer than 365 days.`);
+            if (until <= Date.now()) return false;
+
+            resumeNode = Array.isArray(node.next) ? node.next[0] : nextAny?.out || nextAny?.next;
+            context.vars[node.id] = { data: { until: new Date(until).toISOString() } };
+        }
+
+        const res = await systemPool.query(
+            `UPDATE system.automation_executions
+             SET status = 'waiting', next_node = $3, vars = $4, wait_state = $5, steps = steps + 1, heartbeat_at = NOW()
+             WHERE id = $1 AND owner = $2`,
+            [
+                durable.executionId,
+                durable.owner,
+                resumeNode ?? null,
+                JSON.stringify(context.vars),
+                JSON.stringify({ type: node.type, node: node.id, until: new Date(until).toISOString(), nonce })
+            ]
+        );
+        if ((res.rowCount ?? 0) === 0) {
+            durable.lost = true;
+            throw new Error(`[AutomationEngine] Execution ${durable.executionId} was cancelled or taken over.`);
+        }
+
+        // For approvals this is the expiry: the job resumes the run down the rejection branch
+        await QueueService.scheduleAutomationResume(
+            durable.executionId,
+            nonce,
+            until - Date.now(),
+            node.type === 'approval' ? 'expired' : undefined
+        );
+
+        if (node.type === 'approval' && config.notify_url) {
+            await this.notifyApprover(node, context, durable).catch((e: any) =>
+                console.error(`[AutomationEngine] Approval notification failed for ${durable.executionId}:`, e.message));
+        }
+
+        durable.suspended = true;
+        return true;
+    }
+
+    private static approvalSignature(executionId: string, nonce: string, decision: string, expires: number): string {
+        return crypto.createHmac('sha256', SYS_SECRET!)
+            .update(`automation-approval:${executionId}:${nonce}:${decision}:${expires}`)
+            .digest('hex');
+    }
+
+    private static approvalLinks(executionId: string, nonce: string, expires: number) {
+        const base = `http://${process.env.APP_HOST || 'localhost'}/api/webhooks/approvals/${executionId}`;
+        const link = (decision: string) =>
+            `${base}?decision=${decision}&nonce=${nonce}&exp=${expires}&sig=${this.approvalSignature(executionId, nonce, decision, expires)}`;
+        return { approve_url: link('approve'), reject_url: link('reject') };
+    }
+
+    private static async notifyApprover(node: AutomationNode, context: AutomationContext, durable: DurableRun): Promise<void> {
+        const url = this.resolveVariables(node.config.notify_url, context.vars);
+        await validateTargetUrl(url);
+        const signal = (globalThis as any).AbortSignal?.timeout ? (globalThis as any).AbortSignal.timeout(10000) : undefined;
+        await (globalThis as any).fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                execution_id: durable.executionId,
+                node_id: node.id,
+                ...context.vars[node.id].data
+            }),
+            signal
+        });
+    }
+
+    /**
+     * Validates a signed approval callback. Returns the decision, or null when the link is
+     * forged, tampered with or past its expiry.
+     */
+    public static verifyApprovalLink(executionId: string, query: any): { decision: ApprovalDecision, nonce: string } | null {
+        const { decision, nonce, exp, sig } = query || {};
+        if (!['approve', 'reject'].includes(decision) || typeof nonce !== 'string' || typeof sig !== 'string') return null;
+        const expires = Number(exp);
+        if (!Number.isFinite(expires) || expires < Date.now()) return null;
+
+        const expected = Buffer.from(this.approvalSignature(executionId, nonce, decision, expires), 'hex');
+        const received = Buffer.from(sig, 'hex');
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return null;
+
+        return { decision: decision === 'approve' ? 'approved' : 'rejected', nonce };
+    }
+
+    /**
+     * Claims a parked (or stalled) execution and continues it in the background.
+     * Returns false when the claim fails: already resumed, cancelled, or the wait was replaced.
+     */
+    public static async resumeExecution(
+        executionId: string,
+        options: { nonce?: string, decision?: ApprovalDecision, comment?: any, stalled?: boolean }
+    ): Promise<boolean> {
+        const owner = crypto.randomBytes(12).toString('hex');
+        const claim = options.stalled
+            ? await systemPool.query(
+                `UPDATE system.automation_executions
+                 SET owner = $2, heartbeat_at = NOW()
+                 WHERE id = $1 AND status = 'running' AND heartbeat_at < NOW() - make_interval(secs => $3)
+                 RETURNING *`,
+                [executionId, owner, STALL_THRESHOLD_S]
+            )
+            : await systemPool.query(
+                `UPDATE system.automation_executions
+                 SET status = 'running', owner = $2, heartbeat_at = NOW()
+                 WHERE id = $1 AND status = 'waiting' AND wait_state->>'nonce' = $3
+                   AND ($4::text IS NULL OR wait_state->>'type' = 'approval')
+                 RETURNING *`,
+                [executionId, owner, options.nonce ?? '', options.decision ?? null]
+            );
+        const row = claim.rows[0];
+        if (!row) return false;
+
+        this.continueExecution(row, owner, options)
+            .catch(e => console.error(`[AutomationEngine:Async] Resume of execution ${executionId} failed:`, e));
+        return true;
+    }
+
+    private static async continueExecution(
+        row: any,
+        owner: string,
+        options: { decision?: ApprovalDecision, comment?: any, stalled?: boolean }
+    ): Promise<void> {
+        const nodes: AutomationNode[] = row.nodes || [];
+        const vars: Record<string, any> = row.vars || {};
+        const security = row.security || {};
+        const durable: DurableRun = { executionId: row.id, owner, startedAt: new Date(row.started_at).getTime() };
+
+        let resume: { nodeId?: string } | undefined = row.steps > 0 ? { nodeId: row.next_node ?? undefined } : undefined;
+        const wait = options.stalled ? null : row.wait_state;
+        if (wait?.type === 'approval') {
+            const node = nodes.find(n => n.id === wait.node);
+            const approved = options.decision === 'approved';
+            vars[wait.node] = {
+                data: {
+                    ...(vars[wait.node]?.data || {}),
+                    status: options.decision || 'expired',
+                    approved,
+                    comment: options.comment ?? null,
+                    decided_at: new Date().toISOString()
+                }
+            };
+            const nextAny = node?.next as any;
+            const branch = Array.isArray(nextAny) ? nextAny[approved ? 0 : 1] : (approved ? nextAny?.true : nextAny?.false);
+            resume = { nodeId: branch };
+        }
+
+        const context = await this.restoreContext(row.project_slug, security, vars, row.trigger_payload, durable);
+        if (!context) return;
+
+        await this.runAutomationLogged(row.automation_id, row.project_slug, nodes, row.trigger_payload, context, resume);
+    }
+
+    /**
+     * Rebuilds the execution context of a persisted run (resume, stall recovery, dead-letter re-drive)
+     * with the identity it was started with.
+     */
+    private static async restoreContext(
+        projectSlug: string,
+        security: any,
+        vars: Record<string, any>,
+        payload: any,
+        durable: DurableRun
+    ): Promise<AutomationContext | null> {
+        const project = await systemPool.query(
+            'SELECT db_name, metadata, jwt_secret FROM system.projects WHERE slug = $1',
+            [projectSlug]
+        );
+        if (!project.rows[0]) return null;
+        const { db_name, metadata, jwt_secret } = project.rows[0];
+
+        const { CryptoService } = await import('./CryptoService.js');
+        return {
+            vars,
+            payload,
+            projectSlug,
+            jwtSecret: jwt_secret ? await CryptoService.decrypt(jwt_secret) : '',
+            projectPool: PoolService.get(db_name, { connectionString: metadata?.external_db_url }),
+            userRole: security?.userRole,
+            jwtClaims: security?.jwtClaims,
+            dryRun: security?.dryRun,
+            callStack: security?.callStack,
+            durable
+        };
+    }
+
+    /**
+     * Stall sweeper (BullMQ repeatable job): recovers runs whose process died mid-flight and
+     * parked runs whose resume job never fired (e.g. the queue was flushed).
+     */
+    public static async recoverStalledExecutions(): Promise<number> {
+        const res = await systemPool.query(
+            `SELECT id, status, wait_state
+             FROM system.automation_executions
+             WHERE (status = 'running' AND heartbeat_at < NOW() - make_interval(secs => $1))
+                OR (status = 'waiting' AND (wait_state->>'until')::timestamptz < NOW() - make_interval(secs => $2))
+             ORDER BY heartbeat_at
+             LIMIT 50`,
+            [STALL_THRESHOLD_S, LOST_RESUME_GRACE_S]
+        );
+
+        let recovered = 0;
+        for (const row of res.rows) {
+            const claimed = row.status === 'running'
+                ? await this.resumeExecution(row.id, { stalled: true })
+                : await this.resumeExecution(row.id, {
+                    nonce: row.wait_state?.nonce,
+                    decision: row.wait_state?.type === 'approval' ? 'expired' : undefined
+                });
+            if (claimed) recovered++;
+        }
+        if (recovered > 0) console.log(`[AutomationEngine] Recovered ${recovered} stalled executions.`);
+        return recovered;
+    }
+
+    /**
+     * Drops an in-flight execution. A process still driving it loses its claim at the next checkpoint.
+     */
+    public static async cancelExecution(projectSlug: string, executionId: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `DELETE FROM system.automation_executions WHERE id = $1 AND project_slug = $2
+             RETURNING automation_id, trigger_payload, started_at`,
+            [executionId, projectSlug]
+        );
+        const row = res.rows[0];
+        if (!row) return false;
+        await this.writeRunLog(
+            executionId, row.automation_id, projectSlug, 'cancelled',
+            Date.now() - new Date(row.started_at).getTime(), row.trigger_payload, null, 'Cancelled by user'
+        );
+        return true;
     }
 
     private static evaluateLogic(node: AutomationNode, context: AutomationContext): boolean {
@@ -1,10 +1,41 @@
-
+import cronParser from 'cron-parser';
 import { systemPool } from '../src/config/main.js';
 import { QueueService } from './QueueService.js';
+import { AutomationService } from './AutomationService.js';
+import { PoolService } from './PoolService.js';
+import { CryptoService } from './CryptoService.js';
+
+/**
+ * CRON trigger options (system.automations.trigger_config).
+ *   overlap   'allow' (default) starts every occurrence; 'skip' drops an occurrence while a run
+ *             of the same automation is still running or waiting.
+ *   catch_up  What happens to occurrences missed while the workers were down:
+ *             'latest' (default) runs the late occurrence once, 'all' also replays the missed ones
+ *             (at most max_catch_up), 'none' drops anything late.
+ */
+export interface CronTriggerConfig {
+    cron: string;
+    timezone: string;
+    overlap: 'allow' | 'skip';
+    catch_up: 'none' | 'latest' | 'all';
+    max_catch_up: number;
+}
+
+type FireOutcome = 'dispatched' | 'skipped_overlap' | 'missed' | 'paused';
+
+const DEFAULT_TIMEZONE = 'UTC';
+const DEFAULT_MAX_CATCH_UP = 10;
+const MAX_CATCH_UP = 100;
+// An occurrence picked up later than this counts as missed (queue down, worker restarting)
+const MISFIRE_GRACE_MS = 60 * 1000;
+// Bounds the scan for missed occurrences after a long outage of a high-frequency schedule
+const MAX_MISSED_SCAN = 10000;
+const PREVIEW_MAX = 50;
 
 /**
  * CRON SERVICE
  * Manages scheduled automations using BullMQ repeatable jobs.
+ * The queue only says "it is time": pause state, overlap, catch-up and the fire history live here.
  */
 export class CronService {
 
@@ -18,14 +49,17 @@ export class CronService {
 
     /**
      * Scans the system database for all active scheduled automations and registers them.
+     * Paused schedules are left out.
      */
     public static async syncAllSchedules() {
         try {
             const res = await systemPool.query(
-                `SELECT id, project_slug, nodes, trigger_config 
-                 FROM system.automations 
-                 WHERE is_active = true 
-                 AND trigger_type = 'CRON'`
+                `SELECT a.id, a.project_slug, a.nodes, a.trigger_config
+                 FROM system.automations a
+                 LEFT JOIN system.automation_schedules s ON s.automation_id = a.id
+                 WHERE a.is_active = true
+                 AND a.trigger_type = 'CRON'
+                 AND s.paused_at IS NULL`
             );
 
             for (const auto of res.rows) {
@@ -37,20 +71,115 @@ export class CronService {
         }
     }
 
+    // --- Configuration ---
+
+    private static isValidTimezone(timezone: string): boolean {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Normalizes a CRON trigger_config. Throws with a user-facing message when it can't be scheduled.
+     * `pattern` is the legacy key for `cron`.
+     */
+    public static validateTriggerConfig(raw: any): CronTriggerConfig & Record<string, any> {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('CRON trigger_config must be an object.');
+        const cron = raw.cron || raw.pattern;
+        if (!cron || typeof cron !== 'string') throw new Error('CRON triggers need a cron expression.');
+
+        const timezone = raw.timezone || DEFAULT_TIMEZONE;
+        if (typeof timezone !== 'string' || !this.isValidTimezone(timezone)) throw new Error(`Unknown timezone "${timezone}".`);
+
+        try {
+            cronParser.parseExpression(cron, { tz: timezone });
+        } catch (e: any) {
+            throw new Error(`Invalid cron expression "${cron}": ${e.message}`);
+        }
+
+        const overlap = raw.overlap || 'allow';
+        if (!['allow', 'skip'].includes(overlap)) throw new Error("overlap must be 'allow' or 'skip'.");
+
+        const catchUp = raw.catch_up || 'latest';
+        if (!['none', 'latest', 'all'].includes(catchUp)) throw new Error("catch_up must be 'none', 'latest' or 'all'.");
+
+        const maxCatchUp = raw.max_catch_up === undefined ? DEFAULT_MAX_CATCH_UP : Number(raw.max_catch_up);
+        if (!Number.isInteger(maxCatchUp) || maxCatchUp < 1 || maxCatchUp > MAX_CATCH_UP) {
+            throw new Error(`max_catch_up must be an integer between 1 and ${MAX_CATCH_UP}.`);
+        }
+
+        const { pattern, ...rest } = raw;
+        return { ...rest, cron, timezone, overlap, catch_up: catchUp, max_catch_up: maxCatchUp };
+    }
+
+    private static readConfig(raw: any): CronTriggerConfig {
+        return {
+            cron: raw?.cron || raw?.pattern,
+            timezone: raw?.timezone || DEFAULT_TIMEZONE,
+            overlap: raw?.overlap === 'skip' ? 'skip' : 'allow',
+            catch_up: ['none', 'all'].includes(raw?.catch_up) ? raw.catch_up : 'latest',
+            max_catch_up: Math.min(Math.max(parseInt(raw?.max_catch_up, 10) || DEFAULT_MAX_CATCH_UP, 1), MAX_CATCH_UP)
+        };
+    }
+
+    /** Next `count` fire times after `from`, in UTC ISO format. */
+    public static nextRuns(cron: string, timezone: string = DEFAULT_TIMEZONE, count: number = 5, from: Date = new Date()): string[] {
+        const iterator = cronParser.parseExpression(cron, { tz: timezone, currentDate: from });
+        const runs: string[] = [];
+        for (let i = 0; i < Math.min(Math.max(count, 1), PREVIEW_MAX); i++) {
+            runs.push(iterator.next().toDate().toISOString());
+        }
+        return runs;
+    }
+
+    /** Occurrences strictly between `after` and `before`, oldest first. */
+    private static occurrencesBetween(config: CronTriggerConfig, after: Date, before: Date): { dates: Date[], truncated: boolean } {
+        const dates: Date[] = [];
+        try {
+            const iterator = cronParser.parseExpression(config.cron, { tz: config.timezone, currentDate: after, endDate: before });
+            while (iterator.hasNext() && dates.length < MAX_MISSED_SCAN) {
+                const next = iterator.next().toDate();
+                if (next.getTime() >= before.getTime()) break;
+                dates.push(next);
+            }
+            return { dates, truncated: iterator.hasNext() && dates.length >= MAX_MISSED_SCAN };
+        } catch (e) {
+            return { dates, truncated: false };
+        }
+    }
+
+    // --- Registration ---
+
     /**
      * Registers a single automation schedule in the queue.
+     * `resetAnchor` marks now as the last handled occurrence: used when the schedule is edited or
+     * resumed, so catch-up never replays occurrences of a previous pattern or of a pause.
      */
-    public static async registerAutomation(automation: any) {
+    public static async registerAutomation(automation: any, resetAnchor: boolean = false) {
         const { id, project_slug, trigger_config, nodes } = automation;
-        const cronPattern = trigger_config?.cron || trigger_config?.pattern;
-        
-        if (!cronPattern) {
+        const config = this.readConfig(trigger_config);
+
+        if (!config.cron) {
             // console.warn(`[CronService] Automation ${id} has no valid cron pattern.`);
             return;
         }
 
         try {
-            await QueueService.scheduleAutomation(id, cronPattern, project_slug, nodes);
+            const state = await systemPool.query(
+                `INSERT INTO system.automation_schedules (automation_id, project_slug, last_scheduled_for)
+                 VALUES ($1, $2, CASE WHEN $3::boolean THEN NOW() END)
+                 ON CONFLICT (automation_id) DO UPDATE
+                    SET last_scheduled_for = CASE WHEN $3::boolean THEN NOW() ELSE system.automation_schedules.last_scheduled_for END,
+                        updated_at = NOW()
+                 RETURNING paused_at`,
+                [id, project_slug, resetAnchor]
+            );
+            // Editing a paused automation keeps it paused
+            if (state.rows[0]?.paused_at) return;
+            await QueueService.scheduleAutomation(id, config.cron, project_slug, nodes, config.timezone);
         } catch (e: any) {
             console.error(`[CronService] Failed to register automation ${id}:`, e.message);
         }
@@ -66,4 +195,235 @@ export class CronService {
             console.error(`[CronService] Failed to unregister automation ${automationId}:`, e.message);
         }
     }
+
+    // --- Pause / Resume ---
+
+    private static async loadCronAutomation(projectSlug: string, automationId: string): Promise<any | null> {
+        const res = await systemPool.query(
+            `SELECT id, project_slug, nodes, trigger_type, trigger_config, is_active
+             FROM system.automations WHERE id = $1 AND project_slug = $2`,
+            [automationId, projectSlug]
+        );
+        return res.rows[0] || null;
+    }
+
+    /** Stops the cron without deactivating the automation. */
+    public static async pause(projectSlug: string, automationId: string): Promise<{ paused_at: string } | { error: string } | null> {
+        const automation = await this.loadCronAutomation(projectSlug, automationId);
+        if (!automation) return null;
+        if (automation.trigger_type !== 'CRON') return { error: 'Only CRON automations have a schedule.' };
+
+        const res = await systemPool.query(
+            `INSERT INTO system.automation_schedules (automation_id, project_slug, paused_at)
+             VALUES ($1, $2, NOW())
+             ON CONFLICT (automation_id) DO UPDATE
+                SET paused_at = COALESCE(system.automation_schedules.paused_at, NOW()), updated_at = NOW()
+             RETURNING paused_at`,
+            [automationId, projectSlug]
+        );
+        await this.unregisterAutomation(automationId);
+        return { paused_at: res.rows[0].paused_at };
+    }
+
+    /** Occurrences that fell inside the pause are never caught up. */
+    public static async resume(projectSlug: string, automationId: string): Promise<{ next_runs: string[] } | { error: string } | null> {
+        const automation = await this.loadCronAutomation(projectSlug, automationId);
+        if (!automation) return null;
+        if (automation.trigger_type !== 'CRON') return { error: 'Only CRON automations have a schedule.' };
+
+        await systemPool.query(
+            `UPDATE system.automation_schedules SET paused_at = NULL, updated_at = NOW() WHERE automation_id = $1`,
+            [automationId]
+        );
+        if (!automation.is_active) return { next_runs: [] };
+
+        await this.unregisterAutomation(automationId);
+        await this.registerAutomation(automation, true);
+        const config = this.readConfig(automation.trigger_config);
+        return { next_runs: config.cron ? this.nextRuns(config.cron, config.timezone) : [] };
+    }
+
+    /** Schedule state, next fire times and the latest occurrences with the run each one started. */
+    public static async getSchedule(projectSlug: string, automationId: string, limit: number = 20): Promise<any | null> {
+        const automation = await this.loadCronAutomation(projectSlug, automationId);
+        if (!automation) return null;
+        if (automation.trigger_type !== 'CRON') return { error: 'Only CRON automations have a schedule.' };
+
+        const config = this.readConfig(automation.trigger_config);
+        const state = await systemPool.query(
+            `SELECT paused_at, last_scheduled_for, last_fired_at FROM system.automation_schedules WHERE automation_id = $1`,
+            [automationId]
+        );
+        const fires = await systemPool.query(
+            `SELECT f.id, f.scheduled_for, f.outcome, f.catch_up, f.details, f.fired_at,
+                    COALESCE(run.id, exec.id) AS run_id,
+                    COALESCE(run.status, exec.status) AS run_status,
+                    run.execution_time_ms
+             FROM system.automation_schedule_fires f
+             LEFT JOIN LATERAL (
+                SELECT r.id, r.status, r.execution_time_ms FROM system.automation_runs r
+                WHERE r.project_slug = f.project_slug AND r.automation_id = f.automation_id
+                  AND r.created_at >= f.fired_at AND r.trigger_payload->>'fire_id' = f.id::text
+                ORDER BY r.created_at LIMIT 1
+             ) run ON true
+             LEFT JOIN LATERAL (
+                SELECT e.id, e.status FROM system.automation_executions e
+                WHERE e.automation_id = f.automation_id AND e.trigger_payload->>'fire_id' = f.id::text
+                LIMIT 1
+             ) exec ON true
+             WHERE f.automation_id = $1 AND f.project_slug = $2
+             ORDER BY f.fired_at DESC, f.scheduled_for DESC
+             LIMIT $3`,
+            [automationId, projectSlug, Math.min(Math.max(limit, 1), 200)]
+        );
+
+        const paused = !!state.rows[0]?.paused_at;
+        let nextRuns: string[] = [];
+        if (config.cron && automation.is_active && !paused) {
+            try { nextRuns = this.nextRuns(config.cron, config.timezone); } catch (e) { /* Stored before validation existed */ }
+        }
+
+        return {
+            automation_id: automationId,
+            ...config,
+            is_active: automation.is_active,
+            paused,
+            paused_at: state.rows[0]?.paused_at || null,
+            last_scheduled_for: state.rows[0]?.last_scheduled_for || null,
+            last_fired_at: state.rows[0]?.last_fired_at || null,
+            next_runs: nextRuns,
+            fires: fires.rows
+        };
+    }
+
+    // --- Firing ---
+
+    private static async recordFire(
+        automation: any,
+        scheduledFor: Date,
+        outcome: FireOutcome,
+        catchUp: boolean = false,
+        details: any = null
+    ): Promise<string> {
+        const res = await systemPool.query(
+            `INSERT INTO system.automation_schedule_fires (automation_id, project_slug, scheduled_for, outcome, catch_up, details)
+             VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+            [automation.id, automation.project_slug, scheduledFor, outcome, catchUp, details ? JSON.stringify(details) : null]
+        );
+        return res.rows[0].id;
+    }
+
+    private static async hasRunInFlight(automationId: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `SELECT 1 FROM system.automation_executions WHERE automation_id = $1 AND status IN ('running', 'waiting') LIMIT 1`,
+            [automationId]
+        );
+        return res.rows.length > 0;
+    }
+
+    /**
+     * Handles one occurrence delivered by the repeatable job (`scheduledFor` = its fire time).
+     * Decides what actually runs (catch-up, overlap, pause), records every occurrence and dispatches
+     * with the current graph, not the snapshot stored in the job.
+     */
+    public static async fire(automationId: string, scheduledFor: number): Promise<void> {
+        const res = await systemPool.query(
+            `SELECT a.id, a.project_slug, a.nodes, a.trigger_type, a.trigger_config, a.is_active,
+                    s.paused_at, s.last_scheduled_for,
+                    p.db_name, p.metadata, p.jwt_secret
+             FROM system.automations a
+             JOIN system.projects p ON p.slug = a.project_slug
+             LEFT JOIN system.automation_schedules s ON s.automation_id = a.id
+             WHERE a.id = $1`,
+            [automationId]
+        );
+        const automation = res.rows[0];
+        if (!automation || !automation.is_active || automation.trigger_type !== 'CRON') {
+            // Leftover repeatable job of a deleted, deactivated or re-typed automation
+            await this.unregisterAutomation(automationId);
+            return;
+        }
+
+        const config = this.readConfig(automation.trigger_config);
+        const scheduled = new Date(scheduledFor);
+
+        if (automation.paused_at) {
+            await this.recordFire(automation, scheduled, 'paused');
+            await this.unregisterAutomation(automationId);
+            return;
+        }
+
+        const lastHandled = automation.last_scheduled_for ? new Date(automation.last_scheduled_for) : null;
+        // The same occurrence delivered twice (stalled job re-processed)
+        if (lastHandled && scheduled.getTime() <= lastHandled.getTime()) return;
+
+        const late = Date.now() - scheduledFor > MISFIRE_GRACE_MS;
+        const missed = lastHandled ? this.occurrencesBetween(config, lastHandled, scheduled) : { dates: [], truncated: false };
+
+        const due: { at: Date, catchUp: boolean }[] = [];
+        let dropped = missed.dates.length;
+        if (config.catch_up === 'all') {
+            const replay = missed.dates.slice(-config.max_catch_up);
+            dropped -= replay.length;
+            due.push(...replay.map(at => ({ at, catchUp: true })));
+            due.push({ at: scheduled, catchUp: late });
+        } else if (config.catch_up === 'latest' || !late) {
+            due.push({ at: scheduled, catchUp: late });
+        } else {
+            dropped += 1;
+        }
+
+        if (dropped > 0) {
+            const oldest = missed.dates[0] || scheduled;
+            await this.recordFire(automation, oldest, 'missed', false, {
+                missed_count: dropped,
+                truncated: missed.truncated,
+                until: scheduled.toISOString()
+            });
+        }
+
+        // Catch-up runs would overlap each other: with overlap 'skip' only the latest one starts
+        let toRun = due;
+        if (config.overlap === 'skip' && due.length > 0) {
+            toRun = due.slice(-1);
+            if (await this.hasRunInFlight(automationId)) {
+                await this.recordFire(automation, toRun[0].at, 'skipped_overlap', toRun[0].catchUp,
+                    due.length > 1 ? { superseded: due.length - 1 } : null);
+                toRun = [];
+            } else if (due.length > 1) {
+                await this.recordFire(automation, due[0].at, 'skipped_overlap', true, { superseded: due.length - 1 });
+            }
+        }
+
+        if (toRun.length > 0) {
+            const jwtSecret = automation.jwt_secret ? await CryptoService.decrypt(automation.jwt_secret) : '';
+            const projectPool = PoolService.get(automation.db_name, { connectionString: automation.metadata?.external_db_url });
+
+            for (const occurrence of toRun) {
+                const fireId = await this.recordFire(automation, occurrence.at, 'dispatched', occurrence.catchUp);
+                const payload = {
+                    ts: new Date().toISOString(),
+                    source: 'cron',
+                    scheduled_for: occurrence.at.toISOString(),
+                    catch_up: occurrence.catchUp,
+                    fire_id: fireId
+                };
+                AutomationService.dispatchAsyncTrigger(automationId, automation.project_slug, automation.nodes, payload, {
+                    projectSlug: automation.project_slug,
+                    projectPool,
+                    vars: {},
+                    payload,
+                    jwtSecret
+                });
+            }
+        }
+
+        await systemPool.query(
+            `INSERT INTO system.automation_schedules (automation_id, project_slug, last_scheduled_for, last_fired_at)
+             VALUES ($1, $2, $3, NOW())
+             ON CONFLICT (automation_id) DO UPDATE
+                SET last_scheduled_for = EXCLUDED.last_scheduled_for, last_fired_at = NOW(), updated_at = NOW()`,
+            [automationId, automation.project_slug, scheduled]
+        );
+    }
 }
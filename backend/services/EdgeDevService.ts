@@ -0,0 +1,303 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import express from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { EdgeService, EdgeResponse, EdgeResponseStream, ProjectSettings } from './EdgeService.js';
+import { EdgeLogCollector, EdgeLogLine } from './EdgeLogService.js';
+
+const DEV_SLUG = 'local';
+
+/** A request for a function outside a deployed project. Paths are relative to the function. */
+export interface EdgeRequestFixture {
+    method?: string;                            // GET, or POST when there is a body
+    path?: string;                              // e.g. '/items/1'
+    query?: Record<string, string | string[]>;
+    headers?: Record<string, string>;
+    body?: any;                                 // Objects go as JSON; Buffers as they are
+    user?: any;                                 // JWT claims (sub, role, email...); anonymous when absent
+}
+
+export interface EdgeDevOptions {
+    env?: Record<string, string>;
+    db?: Pool | EdgeMockDb;                     // Local Postgres for $db; an empty EdgeMockDb otherwise
+    timeoutMs?: number;
+    timezone?: string;
+    readOnly?: boolean;                         // Same as the project's read_only AI governance mode
+    user?: any;                                 // Default claims for fixtures without `user`
+}
+
+export interface EdgeDevResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: any;                                  // Parsed JSON when the response is JSON, text otherwise
+    bytes: Buffer;
+    logs: EdgeLogLine[];
+}
+
+export interface EdgeQueuedMessage {
+    queue: string;
+    body: any;
+    delaySeconds: number;
+}
+
+type MockRows = any[] | ((params: any[], sql: string) => any[] | Promise<any[]>);
+
+/**
+ * Stand-in for the project pool behind `$db`. Queries are answered by the first handler whose pattern
+ * matches (a substring, case-insensitive, or a RegExp) and recorded in `calls`; unmatched queries
+ * return no rows. Handlers may throw to simulate database errors.
+ */
+export class EdgeMockDb {
+    public calls: { sql: string, params: any[] }[] = [];
+    private handlers: { match: string | RegExp, rows: MockRows }[] = [];
+
+    public on(match: string | RegExp, rows: MockRows): this {
+        this.handlers.push({ match, rows });
+        return this;
+    }
+
+    public reset() {
+        this.calls = [];
+        this.handlers = [];
+    }
+
+    // The $db bridge wraps every query in its own BEGIN (role, claims, timeouts) ... COMMIT
+    public async connect() {
+        return {
+            query: async (sql: string, params: any[] = []) => {
+                const statement = sql.trim();
+                if (/^(BEGIN|COMMIT|ROLLBACK)\b/i.test(statement)) return { rows: [], rowCount: 0 };
+                this.calls.push({ sql: statement, params });
+                const handler = this.handlers.find(h => typeof h.match === 'string'
+                    ? statement.toLowerCase().includes(h.match.toLowerCase())
+                    : h.match.test(statement));
+                const rows = handler ? (typeof handler.rows === 'function' ? await handler.rows(params, statement) : handler.rows) : [];
+                return { rows, rowCount: rows.length };
+            },
+            release: () => { }
+        };
+    }
+}
+
+/** A function file loaded for local runs. The file is read again on every call, so edits apply at once. */
+export class EdgeDevFunction {
+    public readonly name: string;
+    public sent: EdgeQueuedMessage[] = []; // Cascata.queue.send() calls, instead of real queues
+
+    constructor(public readonly file: string, private options: EdgeDevOptions = {}) {
+        this.name = path.basename(file).replace(/\.[^.]+$/, '');
+    }
+
+    public async fetch(fixture: EdgeRequestFixture | string = {}, stream?: EdgeResponseStream): Promise<EdgeDevResponse> {
+        const request = typeof fixture === 'string' ? { path: fixture } : fixture;
+        return this.execute(EdgeDevService.context(this.name, { ...request, user: request.user ?? this.options.user }), stream);
+    }
+
+    /** Runs the scheduled() handler the way a cron schedule does. */
+    public async scheduled(event: { cron?: string, scheduledTime?: number, payload?: any } = {}): Promise<EdgeDevResponse> {
+        return this.execute({
+            trigger: 'scheduled',
+            cron: event.cron || '* * * * *',
+            scheduledTime: event.scheduledTime ?? Date.now(),
+            payload: event.payload ?? null,
+            user: null
+        });
+    }
+
+    /** Delivers `bodies` as one batch to the queue() handler; the result lists each message's ack/retry. */
+    public async queue(queueName: string, bodies: any[]): Promise<EdgeDevResponse> {
+        const now = Date.now();
+        return this.execute({
+            trigger: 'queue',
+            queue: queueName,
+            messages: bodies.map(body => ({ id: `msg_${crypto.randomUUID()}`, timestamp: now, body, attempts: 1 })),
+            user: null
+        });
+    }
+
+    private async execute(context: any, stream?: EdgeResponseStream): Promise<EdgeDevResponse> {
+        const code = await fs.promises.readFile(this.file, 'utf8');
+        const logs = new EdgeLogCollector();
+        const settings: ProjectSettings = { timezone: this.options.timezone || 'UTC', isReadOnly: !!this.options.readOnly };
+        const chunks: Buffer[] = [];
+        const streamed: { status: number, headers: [string, string][] } = { status: 200, headers: [] };
+
+        const result = await EdgeService.execute(
+            code,
+            context,
+            this.options.env || {},
+            (this.options.db || new EdgeMockDb()) as unknown as Pool,
+            this.options.timeoutMs || 5000,
+            DEV_SLUG,
+            {
+                logTag: `${DEV_SLUG}:${this.name}`,
+                functionName: this.name, // Own warm pool per local function; no invocation record without a system DB
+                record: false,
+                settings,
+                logs,
+                queue: async (queue, bodies, sendOptions) => {
+                    for (const body of bodies) this.sent.push({ queue, body, delaySeconds: sendOptions.delaySeconds || 0 });
+                    return bodies.map(() => `msg_${crypto.randomUUID()}`);
+                },
+                // Streamed bodies are collected unless the caller forwards them (the dev server)
+                stream: stream || {
+                    start: (status, headers) => { streamed.status = status; streamed.headers = headers; },
+                    write: (chunk) => { chunks.push(chunk); return true; },
+                    end: () => { }
+                }
+            }
+        );
+        if (result.streamed && !stream) {
+            return EdgeDevService.response({ status: streamed.status, headers: streamed.headers, body: Buffer.concat(chunks), raw: true }, logs);
+        }
+        return EdgeDevService.response(result, logs);
+    }
+}
+
+/**
+ * EdgeDevService
+ * Runs edge functions from a file, without a deployed project: settings, env and the `$db` pool come
+ * from the caller instead of the system database. Backs the `edge-dev` script (run, serve, test).
+ */
+export class EdgeDevService {
+
+    public static load(file: string, options: EdgeDevOptions = {}): EdgeDevFunction {
+        if (options.timezone) {
+            try {
+                new Intl.DateTimeFormat('en-US', { timeZone: options.timezone });
+            } catch (e) {
+                throw new Error(`Unknown timezone "${options.timezone}".`);
+            }
+        }
+        return new EdgeDevFunction(path.resolve(file), options);
+    }
+
+    /** Variables of a .env file, as the function's env (vault secrets are not available locally). */
+    public static loadEnv(file: string): Record<string, string> {
+        return dotenv.parse(fs.readFileSync(file));
+    }
+
+    /**
+     * Pool for a local Postgres. `$db` switches to cascata_api_role like it does on a project database;
+     * `init` creates that role and the project schemas (DatabaseService.initProjectDb) when missing.
+     */
+    public static async connect(connectionString: string, init: boolean = false): Promise<Pool> {
+        const pool = new Pool({ connectionString, max: 5 });
+        try {
+            const roles = await pool.query("SELECT 1 FROM pg_catalog.pg_roles WHERE rolname = 'cascata_api_role'");
+            if (roles.rowCount === 0) {
+                if (!init) throw new Error(`Role cascata_api_role does not exist in this database. Run with --init-db to set it up like a project database.`);
+                const { DatabaseService } = await import('./DatabaseService.js');
+                const client = await pool.connect();
+                try { await DatabaseService.initProjectDb(client); } finally { client.release(); }
+            }
+            return pool;
+        } catch (e) {
+            await pool.end().catch(() => { });
+            throw e;
+        }
+    }
+
+    /** Execution context for a fixture, shaped like the one EdgeController builds for a live request. */
+    public static context(functionName: string, fixture: EdgeRequestFixture): any {
+        const headers: Record<string, string> = { host: 'localhost' };
+        for (const [name, value] of Object.entries(fixture.headers || {})) headers[name.toLowerCase()] = String(value);
+
+        let body: any = {};
+        let rawBody: Buffer | undefined;
+        if (Buffer.isBuffer(fixture.body)) {
+            rawBody = fixture.body;
+            if ((headers['content-type'] || '').includes('json')) {
+                try { body = JSON.parse(rawBody.toString('utf8')); } catch (e) { /* Left to the handler */ }
+            }
+        } else if (typeof fixture.body === 'string') {
+            rawBody = Buffer.from(fixture.body);
+            body = fixture.body;
+        } else if (fixture.body !== undefined) {
+            rawBody = Buffer.from(JSON.stringify(fixture.body));
+            body = fixture.body;
+            headers['content-type'] = headers['content-type'] || 'application/json';
+        }
+
+        const url = new URL(`http://localhost/edge/${functionName}${fixture.path || ''}`);
+        for (const [key, value] of Object.entries(fixture.query || {})) {
+            for (const item of Array.isArray(value) ? value : [value]) url.searchParams.append(key, item);
+        }
+        const query: Record<string, string | string[]> = {};
+        for (const key of new Set(url.searchParams.keys())) {
+            const values = url.searchParams.getAll(key);
+            query[key] = values.length > 1 ? values : values[0];
+        }
+
+        return {
+            method: (fixture.method || (rawBody ? 'POST' : 'GET')).toUpperCase(),
+            url: url.toString(),
+            body,
+            rawBody: rawBody?.length ? rawBody.toString('base64') : undefined,
+            query,
+            headers,
+            user: fixture.user ?? null
+        };
+    }
+
+    public static response(result: EdgeResponse, logs: EdgeLogCollector): EdgeDevResponse {
+        const headers: Record<string, string> = {};
+        for (const [name, value] of result.headers || []) {
+            const key = name.toLowerCase();
+            headers[key] = headers[key] ? `${headers[key]}, ${value}` : value;
+        }
+        if (!result.raw) {
+            headers['content-type'] = 'application/json';
+            const json = JSON.stringify(result.body ?? null);
+            return { status: result.status, headers, body: result.body ?? null, bytes: Buffer.from(json), logs: logs.lines };
+        }
+        const bytes: Buffer = result.body || Buffer.alloc(0);
+        let body: any = bytes.toString('utf8');
+        if ((headers['content-type'] || '').includes('json')) {
+            try { body = JSON.parse(body); } catch (e) { /* Kept as text */ }
+        }
+        return { status: result.status, headers, body, bytes, logs: logs.lines };
+    }
+
+    /**
+     * Serves the function on `port`: every path maps to the function, as /edge/<name>/* does on a project.
+     * Listens on localhost only.
+     */
+    public static serve(fn: EdgeDevFunction, port: number): Promise<import('http').Server> {
+        const app = express();
+        app.use(express.raw({ type: '*/*', limit: '10mb' }));
+        app.all('*', async (req: any, res: any) => {
+            const started = Date.now();
+            try {
+                const headers: Record<string, string> = {};
+                for (const [name, value] of Object.entries(req.headers)) {
+                    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+                }
+                const queryAt = req.originalUrl.indexOf('?');
+                const response = await fn.fetch({
+                    method: req.method,
+                    path: req.path === '/' ? '' : req.path,
+                    query: queryAt === -1 ? {} : Object.fromEntries(new URLSearchParams(req.originalUrl.slice(queryAt + 1))),
+                    headers,
+                    body: Buffer.isBuffer(req.body) && req.body.length ? req.body : undefined
+                }, EdgeService.streamTo(res));
+                if (!res.headersSent) {
+                    res.status(response.status);
+                    EdgeService.applyHeaders(res, Object.entries(response.headers));
+                    res.end(response.bytes);
+                }
+                console.log(`[edge-dev] ${req.method} ${req.originalUrl} -> ${res.statusCode} (${Date.now() - started}ms)`);
+            } catch (e: any) {
+                console.error(`[edge-dev] ${req.method} ${req.originalUrl} failed:`, e.message);
+                if (res.headersSent) return res.destroy();
+                res.status(500).json({ error: e.message });
+            }
+        });
+        return new Promise((resolve, reject) => {
+            const server = app.listen(port, '127.0.0.1', () => resolve(server));
+            server.on('error', reject);
+        });
+    }
+}
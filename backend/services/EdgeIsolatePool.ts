@@ -0,0 +1,252 @@
+import ivm from 'isolated-vm';
+import crypto from 'crypto';
+import process from 'process';
+
+const MAX_IDLE_PER_FUNCTION = parseInt(process.env.EDGE_POOL_MAX_IDLE_PER_FUNCTION || '2');
+const MAX_IDLE_TOTAL = parseInt(process.env.EDGE_POOL_MAX_IDLE_TOTAL || '32'); // 0 disables pooling
+const MAX_USES = parseInt(process.env.EDGE_POOL_MAX_USES || '1000');
+const MAX_HEAP_GROWTH_BYTES = parseInt(process.env.EDGE_POOL_MAX_HEAP_GROWTH_MB || '64') * 1024 * 1024;
+const IDLE_TTL_MS = parseInt(process.env.EDGE_POOL_IDLE_TTL_MS || '300000');
+const MAX_COMPILE_CACHE = 500;
+
+/** The pool-facing part of a warm isolate; EdgeService keeps the jail bindings alongside. */
+export interface PooledIsolate {
+    isolate: ivm.Isolate;
+    fingerprint: string;   // Code + env + settings the isolate was built for
+    uses: number;
+    createdAt: number;
+    lastUsedAt: number;
+    baselineHeap: number;  // used_heap_size right after the module was evaluated
+}
+
+export type RecycleReason = 'uses' | 'memory' | 'error' | 'stale' | 'idle' | 'capacity';
+
+interface FunctionStats {
+    invocations: number;
+    cold: number;
+    warm: number;
+    cold_ms_total: number;
+    warm_ms_total: number;
+    prewarmed: number;
+    recycled: Record<RecycleReason, number>;
+}
+
+interface Bucket {
+    idle: PooledIsolate[];
+    busy: number;
+    warming: number;
+    stats: FunctionStats;
+}
+
+const buckets = new Map<string, Bucket>();
+const compileCache = new Map<string, ivm.ExternalCopy<ArrayBuffer>>();
+let sweeper: NodeJS.Timeout | null = null;
+
+const emptyStats = (): FunctionStats => ({
+    invocations: 0, cold: 0, warm: 0, cold_ms_total: 0, warm_ms_total: 0, prewarmed: 0,
+    recycled: { uses: 0, memory: 0, error: 0, stale: 0, idle: 0, capacity: 0 }
+});
+
+const dispose = (entry: PooledIsolate) => { try { if (!entry.isolate.isDisposed) entry.isolate.dispose(); } catch (e) { } };
+
+/**
+ * EdgeIsolatePool
+ * Warm isolates per deployed edge function version (key: `<slug>:<name>@<version>`), reused while the
+ * code, env and project settings they were built with (the fingerprint) stay the same. Versions get
+ * their own buckets so canary splits don't recycle each other's isolates. Like Workers, module-level state
+ * survives between invocations of the same isolate.
+ *
+ * Recycled after EDGE_POOL_MAX_USES invocations, EDGE_POOL_MAX_HEAP_GROWTH_MB of heap growth, a
+ * timeout, or EDGE_POOL_IDLE_TTL_MS without traffic. Also holds V8 code cache data so cold starts
+ * skip parsing the runtime, the function and its dependencies.
+ */
+export class EdgeIsolatePool {
+
+    public static fingerprint(parts: any[]): string {
+        return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+    }
+
+    private static bucket(key: string): Bucket {
+        let bucket = buckets.get(key);
+        if (!bucket) {
+            bucket = { idle: [], busy: 0, warming: 0, stats: emptyStats() };
+            buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private static recycle(bucket: Bucket, entry: PooledIsolate, reason: RecycleReason) {
+        bucket.stats.recycled[reason]++;
+        dispose(entry);
+    }
+
+    /** A warm isolate built for `fingerprint`, or null (cold start). Idle isolates of older builds are dropped. */
+    public static acquire<T extends PooledIsolate>(key: string, fingerprint: string): T | null {
+        const bucket = this.bucket(key);
+        for (const stale of bucket.idle.filter(e => e.fingerprint !== fingerprint)) this.recycle(bucket, stale, 'stale');
+        bucket.idle = bucket.idle.filter(e => e.fingerprint === fingerprint && !e.isolate.isDisposed);
+        const entry = bucket.idle.pop() || null;
+        bucket.busy++;
+        return entry as T | null;
+    }
+
+    /**
+     * Returns an isolate after an invocation (`entry` is null when the cold start failed before one
+     * existed). Returns the reason when it was recycled instead of kept.
+     */
+    public static async release(key: string, entry: PooledIsolate | null, healthy: boolean): Promise<RecycleReason | null> {
+        const bucket = this.bucket(key);
+        bucket.busy = Math.max(0, bucket.busy - 1);
+        if (!entry) return null;
+        entry.uses++;
+        entry.lastUsedAt = Date.now();
+
+        if (!healthy || entry.isolate.isDisposed) { this.recycle(bucket, entry, 'error'); return 'error'; }
+        if (entry.uses >= MAX_USES) { this.recycle(bucket, entry, 'uses'); return 'uses'; }
+        try {
+            const heap = await entry.isolate.getHeapStatistics();
+            if (heap.used_heap_size - entry.baselineHeap > MAX_HEAP_GROWTH_BYTES) { this.recycle(bucket, entry, 'memory'); return 'memory'; }
+        } catch (e) {
+            this.recycle(bucket, entry, 'error');
+            return 'error';
+        }
+        return this.park(key, entry);
+    }
+
+    /** Adds an isolate built ahead of demand. */
+    public static async addWarm(key: string, entry: PooledIsolate): Promise<boolean> {
+        const bucket = this.bucket(key);
+        bucket.stats.prewarmed++;
+        return (await this.park(key, entry)) === null;
+    }
+
+    private static async park(key: string, entry: PooledIsolate): Promise<RecycleReason | null> {
+        const bucket = this.bucket(key);
+        if (MAX_IDLE_TOTAL <= 0 || bucket.idle.length >= MAX_IDLE_PER_FUNCTION) { this.recycle(bucket, entry, 'capacity'); return 'capacity'; }
+
+        // Global cap: make room by evicting the least recently used idle isolate of any function
+        let total = 0;
+        for (const b of buckets.values()) total += b.idle.length;
+        if (total >= MAX_IDLE_TOTAL) {
+            let oldest: { key: string, entry: PooledIsolate } | null = null;
+            for (const [k, b] of buckets) {
+                for (const e of b.idle) if (!oldest || e.lastUsedAt < oldest.entry.lastUsedAt) oldest = { key: k, entry: e };
+            }
+            if (oldest) {
+                const owner = this.bucket(oldest.key);
+                owner.idle = owner.idle.filter(e => e !== oldest!.entry);
+                this.recycle(owner, oldest.entry, 'capacity');
+            }
+        }
+
+        bucket.idle.push(entry);
+        this.startSweeper();
+        return null;
+    }
+
+    /** Claims a pre-warm slot for `key` when no idle isolate is waiting and none is being built. */
+    public static claimWarmup(key: string): boolean {
+        if (MAX_IDLE_TOTAL <= 0) return false;
+        const bucket = this.bucket(key);
+        if (bucket.idle.length > 0 || bucket.warming > 0) return false;
+        bucket.warming++;
+        return true;
+    }
+
+    public static endWarmup(key: string) {
+        const bucket = this.bucket(key);
+        bucket.warming = Math.max(0, bucket.warming - 1);
+    }
+
+    public static record(key: string, cold: boolean, durationMs: number) {
+        const stats = this.bucket(key).stats;
+        stats.invocations++;
+        if (cold) { stats.cold++; stats.cold_ms_total += durationMs; }
+        else { stats.warm++; stats.warm_ms_total += durationMs; }
+    }
+
+    /** Buckets of `key`: the exact one plus, for a `<slug>:<name>` key, those of every version. */
+    private static bucketsOf(key: string): Bucket[] {
+        return [...buckets.entries()].filter(([k]) => k === key || k.startsWith(`${key}@`)).map(([, b]) => b);
+    }
+
+    /** Drops every idle isolate of a function (e.g. after it was deleted). */
+    public static drain(key: string) {
+        for (const bucket of this.bucketsOf(key)) {
+            for (const entry of bucket.idle) this.recycle(bucket, entry, 'stale');
+            bucket.idle = [];
+        }
+    }
+
+    /** Pool stats of one function (all its versions summed), or of every bucket. */
+    public static stats(key?: string) {
+        const view = (k: string, b: Bucket) => ({
+            function: k,
+            idle: b.idle.length,
+            busy: b.busy,
+            invocations: b.stats.invocations,
+            cold: b.stats.cold,
+            warm: b.stats.warm,
+            warm_ratio: b.stats.invocations ? Number((b.stats.warm / b.stats.invocations).toFixed(3)) : null,
+            avg_cold_ms: b.stats.cold ? Math.round(b.stats.cold_ms_total / b.stats.cold) : null,
+            avg_warm_ms: b.stats.warm ? Math.round(b.stats.warm_ms_total / b.stats.warm) : null,
+            prewarmed: b.stats.prewarmed,
+            recycled: { ...b.stats.recycled }
+        });
+        if (key) {
+            const matching = this.bucketsOf(key);
+            if (!matching.length) return null;
+            const total: Bucket = { idle: [], busy: 0, warming: 0, stats: emptyStats() };
+            for (const b of matching) {
+                total.idle.push(...b.idle);
+                total.busy += b.busy;
+                const { recycled, ...counters } = b.stats;
+                for (const [name, value] of Object.entries(counters)) (total.stats as any)[name] += value;
+                for (const [reason, count] of Object.entries(recycled)) total.stats.recycled[reason as RecycleReason] += count;
+            }
+            return view(key, total);
+        }
+        return [...buckets.entries()].map(([k, b]) => view(k, b));
+    }
+
+    private static startSweeper() {
+        if (sweeper) return;
+        sweeper = setInterval(() => {
+            const now = Date.now();
+            for (const bucket of buckets.values()) {
+                const expired = bucket.idle.filter(e => now - e.lastUsedAt > IDLE_TTL_MS);
+                if (!expired.length) continue;
+                for (const entry of expired) this.recycle(bucket, entry, 'idle');
+                bucket.idle = bucket.idle.filter(e => !expired.includes(e));
+            }
+        }, Math.min(IDLE_TTL_MS, 30000));
+        sweeper.unref();
+    }
+
+    // --- Code cache ---
+
+    private static cacheKey(source: string): string {
+        return crypto.createHash('sha256').update(source).digest('hex');
+    }
+
+    /** Compile options for `source`: consume cached data when we have it, produce it otherwise. */
+    public static compileOptions(source: string): { cachedData?: ivm.ExternalCopy<ArrayBuffer>, produceCachedData?: boolean } {
+        const cached = compileCache.get(this.cacheKey(source));
+        return cached ? { cachedData: cached } : { produceCachedData: true };
+    }
+
+    public static storeCompiled(source: string, compiled: { cachedData?: ivm.ExternalCopy<ArrayBuffer>, cachedDataRejected?: boolean }) {
+        const key = this.cacheKey(source);
+        if (compiled.cachedDataRejected) {
+            compileCache.get(key)?.release();
+            compileCache.delete(key);
+            return;
+        }
+        if (!compiled.cachedData || compileCache.has(key)) return;
+        if (compileCache.size >= MAX_COMPILE_CACHE) {
+            const firstKey = compileCache.keys().next().value;
+            if (firstKey) { compileCache.get(firstKey)?.release(); compileCache.delete(firstKey); }
+        }
+        compileCache.set(key, compiled.cachedData);
+    }
+}
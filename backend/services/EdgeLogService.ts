@@ -0,0 +1,296 @@
+import { Redis as DragonflyClient } from 'ioredis';
+import crypto from 'crypto';
+import process from 'process';
+import { systemPool } from '../src/config/main.js';
+
+const MAX_LOG_LINES = 200;
+const MAX_LOG_BYTES = 64 * 1024;
+const FLUSH_INTERVAL_MS = 1000;
+const BATCH_SIZE = 200;
+const MAX_BUFFERED = 5000; // Records waiting for the database; the oldest are dropped beyond this
+const MAX_TAIL_CLIENTS_PER_PROJECT = 20;
+const LOG_LEVELS = ['log', 'info', 'debug', 'warn', 'error'];
+
+export interface EdgeLogLine {
+    ts: string;
+    level: string;
+    message: string;
+}
+
+export interface EdgeInvocationRecord {
+    id: string;
+    project_slug: string;
+    function_name: string;
+    request_id: string | null;
+    trigger: string;
+    version: number | null;
+    alias: string | null;
+    method: string | null;
+    path: string | null;
+    status: number | null;
+    outcome: 'success' | 'error' | 'timeout';
+    error: string | null;
+    duration_ms: number;
+    cold_start: boolean;
+    memory_bytes: number | null;
+    logs: EdgeLogLine[];
+    logs_truncated: boolean;
+    created_at: string;
+}
+
+export interface EdgeInvocationFilters {
+    outcome?: string;
+    status?: number;
+    request_id?: string;
+    trigger?: string;
+    version?: number;
+    cold?: boolean;
+    min_duration_ms?: number;
+    since?: string;
+    until?: string;
+    before?: string; // Cursor: created_at of the last row of the previous page
+    q?: string;      // Text search over logs and error
+    limit?: number;
+}
+
+interface TailClient {
+    res: any;
+    functionName?: string;
+    outcome?: string;
+}
+
+/** Console output of one invocation, capped in lines and bytes. */
+export class EdgeLogCollector {
+    public lines: EdgeLogLine[] = [];
+    public truncated = false;
+    private bytes = 0;
+
+    public push(level: string, message: string) {
+        if (this.lines.length >= MAX_LOG_LINES || this.bytes + message.length > MAX_LOG_BYTES) {
+            this.truncated = true;
+            return;
+        }
+        this.bytes += message.length;
+        this.lines.push({ ts: new Date().toISOString(), level: LOG_LEVELS.includes(level) ? level : 'log', message });
+    }
+}
+
+/**
+ * EdgeLogService
+ * Invocation records for edge functions: buffered writes to system.edge_invocations, queries and
+ * metrics for the dashboard, and a live tail over SSE. Records are produced where functions run (the
+ * Engine, when there is one) and reach tails in other processes through Dragonfly pub/sub
+ * (`edge:tail:<slug>`). Without Dragonfly the tail only sees this process.
+ */
+export class EdgeLogService {
+    private static buffer: EdgeInvocationRecord[] = [];
+    private static flushTimer: NodeJS.Timeout | null = null;
+    private static isFlushing = false;
+
+    private static instanceId = crypto.randomUUID();
+    private static publisher: DragonflyClient | null = null;
+    private static subscriber: DragonflyClient | null = null;
+    private static tails = new Map<string, Set<TailClient>>();
+
+    public static record(entry: Omit<EdgeInvocationRecord, 'id' | 'created_at'>) {
+        const record: EdgeInvocationRecord = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...entry };
+
+        if (this.buffer.length >= MAX_BUFFERED) this.buffer.shift();
+        this.buffer.push(record);
+        this.startFlusher();
+
+        this.fanout(record);
+        const publisher = this.connectPublisher();
+        if (publisher && publisher.status === 'ready') {
+            publisher.publish(`edge:tail:${record.project_slug}`, JSON.stringify({ origin: this.instanceId, record })).catch(() => {});
+        }
+    }
+
+    // --- PERSISTENCE ---
+
+    private static startFlusher() {
+        if (this.flushTimer) return;
+        this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+        this.flushTimer.unref();
+    }
+
+    public static async flush() {
+        if (this.isFlushing || this.buffer.length === 0) return;
+        this.isFlushing = true;
+        const batch = this.buffer.splice(0, BATCH_SIZE);
+        try {
+            const columns = ['id', 'project_slug', 'function_name', 'request_id', 'trigger', 'version', 'alias', 'method', 'path', 'status',
+                'outcome', 'error', 'duration_ms', 'cold_start', 'memory_bytes', 'logs', 'logs_truncated', 'created_at'];
+            const params: any[] = [];
+            const rows = batch.map(r => {
+                const values = [r.id, r.project_slug, r.function_name, r.request_id, r.trigger, r.version, r.alias, r.method, r.path, r.status,
+                    r.outcome, r.error, r.duration_ms, r.cold_start, r.memory_bytes, JSON.stringify(r.logs), r.logs_truncated, r.created_at];
+                const placeholders = values.map(v => { params.push(v); return `$${params.length}`; });
+                return `(${placeholders.join(', ')})`;
+            });
+            await systemPool.query(`INSERT INTO system.edge_invocations (${columns.join(', ')}) VALUES ${rows.join(', ')}`, params);
+        } catch (e: any) {
+            console.error('[EdgeLogService] Failed to write invocation records:', e.message);
+        } finally {
+            this.isFlushing = false;
+        }
+    }
+
+    // --- QUERIES ---
+
+    public static async list(projectSlug: string, functionName: string, filters: EdgeInvocationFilters = {}): Promise<any[]> {
+        const params: any[] = [projectSlug, functionName];
+        const where = ['project_slug = $1', 'function_name = $2'];
+        const add = (clause: string, value: any) => { params.push(value); where.push(clause.replace('?', `$${params.length}`)); };
+
+        if (filters.outcome) add('outcome = ?', filters.outcome);
+        if (filters.status !== undefined) add('status = ?', filters.status);
+        if (filters.request_id) add('request_id = ?', filters.request_id);
+        if (filters.trigger) add('trigger = ?', filters.trigger);
+        if (filters.version !== undefined) add('version = ?', filters.version);
+        if (filters.cold !== undefined) add('cold_start = ?', filters.cold);
+        if (filters.min_duration_ms !== undefined) add('duration_ms >= ?', filters.min_duration_ms);
+        if (filters.since) add('created_at >= ?::timestamptz', filters.since);
+        if (filters.until) add('created_at <= ?::timestamptz', filters.until);
+        if (filters.before) add('created_at < ?::timestamptz', filters.before);
+        if (filters.q) add(`(logs::text ILIKE ? OR error ILIKE $${params.length + 1})`, `%${filters.q.replace(/[\\%_]/g, m => '\\' + m)}%`);
+
+        params.push(Math.min(Math.max(filters.limit || 50, 1), 200));
+        const res = await systemPool.query(
+            `SELECT id, request_id, trigger, version, alias, method, path, status, outcome, error, duration_ms, cold_start,
+                    memory_bytes, jsonb_array_length(logs) AS log_count, logs_truncated, created_at
+             FROM system.edge_invocations
+             WHERE ${where.join(' AND ')}
+             ORDER BY created_at DESC LIMIT $${params.length}`,
+            params
+        );
+        return res.rows;
+    }
+
+    public static async get(projectSlug: string, functionName: string, id: string): Promise<any | null> {
+        const res = await systemPool.query(
+            `SELECT * FROM system.edge_invocations WHERE id = $1 AND project_slug = $2 AND function_name = $3`,
+            [id, projectSlug, functionName]
+        );
+        return res.rows[0] || null;
+    }
+
+    /** Totals and latency percentiles over the last `hours`, plus a per-bucket series for charts. */
+    public static async metrics(projectSlug: string, functionName: string, hours: number = 24) {
+        const windowHours = Math.min(Math.max(hours, 1), 24 * 30);
+        const bucket = windowHours <= 1 ? 'minute' : windowHours <= 72 ? 'hour' : 'day';
+        const aggregates = `
+            count(*)::int AS invocations,
+            count(*) FILTER (WHERE outcome = 'error')::int AS errors,
+            count(*) FILTER (WHERE outcome = 'timeout')::int AS timeouts,
+            count(*) FILTER (WHERE cold_start)::int AS cold_starts,
+            round(avg(duration_ms))::int AS avg_duration_ms,
+            round(percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms))::int AS p50_ms,
+            round(percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms))::int AS p95_ms,
+            round(percentile_cont(0.99) WITHIN GROUP (ORDER BY duration_ms))::int AS p99_ms,
+            max(memory_bytes) AS max_memory_bytes`;
+        const scope = `FROM system.edge_invocations
+             WHERE project_slug = $1 AND function_name = $2 AND created_at > NOW() - make_interval(hours => $3)`;
+
+        const [summary, series] = await Promise.all([
+            systemPool.query(`SELECT ${aggregates} ${scope}`, [projectSlug, functionName, windowHours]),
+            systemPool.query(
+                `SELECT date_trunc('${bucket}', created_at) AS bucket, ${aggregates} ${scope} GROUP BY 1 ORDER BY 1`,
+                [projectSlug, functionName, windowHours]
+            )
+        ]);
+        return { window_hours: windowHours, bucket, summary: summary.rows[0], series: series.rows };
+    }
+
+    // --- LIVE TAIL (SSE) ---
+
+    /** Streams new invocation records of a project (optionally one function) as Server-Sent Events. */
+    public static tail(req: any, res: any, projectSlug: string, functionName?: string) {
+        const clients = this.tails.get(projectSlug) || new Set<TailClient>();
+        if (clients.size >= MAX_TAIL_CLIENTS_PER_PROJECT) {
+            res.status(429).json({ error: 'Too many log tail connections.' });
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Connection': 'keep-alive',
+            'Cache-Control': 'no-cache',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write(`data: ${JSON.stringify({ type: 'connected', function: functionName || null })}\n\n`);
+
+        const client: TailClient = {
+            res,
+            functionName,
+            outcome: typeof req.query.outcome === 'string' ? req.query.outcome : undefined
+        };
+        if (clients.size === 0) {
+            this.tails.set(projectSlug, clients);
+            this.connectSubscriber()?.subscribe(`edge:tail:${projectSlug}`).catch(() => {});
+        }
+        clients.add(client);
+
+        const heartbeat = setInterval(() => {
+            if (!res.writableEnded) res.write(': ping\n\n');
+        }, 15000);
+
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            clients.delete(client);
+            if (clients.size === 0) {
+                this.tails.delete(projectSlug);
+                this.subscriber?.unsubscribe(`edge:tail:${projectSlug}`).catch(() => {});
+            }
+        });
+    }
+
+    private static fanout(record: EdgeInvocationRecord) {
+        this.tails.get(record.project_slug)?.forEach(client => {
+            if (client.functionName && client.functionName !== record.function_name) return;
+            if (client.outcome && client.outcome !== record.outcome) return;
+            if (!client.res.writableEnded) client.res.write(`id: ${record.id}\ndata: ${JSON.stringify({ type: 'invocation', invocation: record })}\n\n`);
+        });
+    }
+
+    private static connection(label: string): DragonflyClient | null {
+        try {
+            const client = new DragonflyClient({
+                host: process.env.DRAGONFLY_HOST || 'dragonfly',
+                port: parseInt(process.env.DRAGONFLY_PORT || '6379'),
+                retryStrategy: (times: number) => Math.min(times * 200, 5000),
+                maxRetriesPerRequest: 1,
+                lazyConnect: true
+            });
+            client.on('error', () => {});
+            client.connect().catch((e: any) => console.warn(`[EdgeLogService] ${label} connect failed:`, e.message));
+            return client;
+        } catch (e) {
+            console.error(`[EdgeLogService] ${label} init failed`, e);
+            return null;
+        }
+    }
+
+    private static connectPublisher(): DragonflyClient | null {
+        if (!this.publisher) this.publisher = this.connection('Publisher');
+        return this.publisher;
+    }
+
+    private static connectSubscriber(): DragonflyClient | null {
+        if (this.subscriber) return this.subscriber;
+        this.subscriber = this.connection('Tail relay');
+        if (!this.subscriber) return null;
+        // Resubscribe whatever is being tailed (also what failed while Dragonfly was away)
+        this.subscriber.on('ready', () => {
+            const channels = Array.from(this.tails.keys()).map(slug => `edge:tail:${slug}`);
+            if (channels.length > 0) this.subscriber?.subscribe(...channels).catch(() => {});
+        });
+        this.subscriber.on('message', (_channel: string, message: string) => {
+            try {
+                const { origin, record } = JSON.parse(message);
+                if (origin !== this.instanceId) this.fanout(record);
+            } catch (e) { /* Malformed relay message */ }
+        });
+        return this.subscriber;
+    }
+}
@@ -0,0 +1,420 @@
+import { Queue, Worker, Job } from 'bullmq';
+import crypto from 'crypto';
+import { systemPool } from '../src/config/main.js';
+import { DRAGONFLY_CONFIG } from './QueueService.js';
+import { EdgeVersionService } from './EdgeVersionService.js';
+
+const QUEUE_NAME = /^[a-z][a-z0-9_-]{0,62}$/;
+const MAX_MESSAGE_BYTES = 128 * 1024;
+const MAX_SEND_BATCH = 100;
+const MAX_DELAY_SECONDS = 12 * 60 * 60;
+const SYNC_INTERVAL_MS = 30000;
+// Lock = visibility timeout plus this margin, so a batch is cut by its own timeout before the lock expires
+const LOCK_MARGIN_MS = 10000;
+
+const QUEUE_COLUMNS = `q.id, q.name, q.consumer_alias, q.batch_size, q.visibility_timeout_seconds, q.max_retries,
+    q.retry_delay_seconds, q.is_paused, q.created_at, q.updated_at, a.name AS consumer`;
+
+interface EdgeQueueRow {
+    id: string;
+    project_slug: string;
+    name: string;
+    consumer: string | null;
+    consumer_alias: string;
+    batch_size: number;
+    visibility_timeout_seconds: number;
+    max_retries: number;
+    retry_delay_seconds: number;
+    is_paused: boolean;
+}
+
+interface Consumer {
+    config: EdgeQueueRow;
+    signature: string; // Config the consumer was started with; a change restarts it
+    worker: Worker;
+    running: boolean;
+}
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+/**
+ * EdgeQueueService
+ * Durable per-project message queues. Each queue is a BullMQ queue (`cascata-edgeq-<id>`); messages
+ * are sent from functions (`Cascata.queue.send()`) or the management API, and consumed in batches by
+ * the queue's consumer function (`queue(batch, env, ctx)`).
+ *
+ * Consumers run in the worker processes and fetch jobs manually, so the BullMQ lock plays the part of
+ * the visibility timeout: a batch that isn't settled in time (or whose worker died) is delivered again.
+ * Messages retried past max_retries land in system.edge_queue_dead_letters.
+ */
+export class EdgeQueueService {
+    private static producers = new Map<string, Queue>();
+    private static consumers = new Map<string, Consumer>();
+    private static syncTimer: NodeJS.Timeout | null = null;
+
+    private static bullName(queueId: string): string {
+        return `cascata-edgeq-${queueId}`;
+    }
+
+    private static producer(queueId: string): Queue {
+        let queue = this.producers.get(queueId);
+        if (!queue) {
+            queue = new Queue(this.bullName(queueId), { ...DRAGONFLY_CONFIG });
+            this.producers.set(queueId, queue);
+        }
+        return queue;
+    }
+
+    private static async findQueue(projectSlug: string, name: string): Promise<EdgeQueueRow | null> {
+        const res = await systemPool.query(
+            `SELECT q.project_slug, ${QUEUE_COLUMNS}
+             FROM system.edge_queues q LEFT JOIN system.assets a ON a.id = q.consumer_asset_id
+             WHERE q.project_slug = $1 AND q.name = $2`,
+            [projectSlug, name]
+        );
+        return res.rows[0] || null;
+    }
+
+    // --- Producing ---
+
+    /** Enqueues `bodies` (JSON values) and returns their message ids. Retry policy is fixed at send time. */
+    public static async send(projectSlug: string, queueName: string, bodies: any[], options: { delaySeconds?: number } = {}): Promise<string[]> {
+        if (typeof queueName !== 'string' || !QUEUE_NAME.test(queueName)) throw badRequest('Invalid queue name.');
+        if (!Array.isArray(bodies) || bodies.length === 0) throw badRequest('No messages to send.');
+        if (bodies.length > MAX_SEND_BATCH) throw badRequest(`At most ${MAX_SEND_BATCH} messages per send.`);
+
+        const delaySeconds = options.delaySeconds === undefined ? 0 : Number(options.delaySeconds);
+        if (!Number.isInteger(delaySeconds) || delaySeconds < 0 || delaySeconds > MAX_DELAY_SECONDS) {
+            throw badRequest(`delaySeconds must be an integer between 0 and ${MAX_DELAY_SECONDS}.`);
+        }
+        for (const body of bodies) {
+            const serialized = JSON.stringify(body);
+            if (serialized === undefined) throw badRequest('Messages must be JSON values.');
+            if (Buffer.byteLength(serialized) > MAX_MESSAGE_BYTES) throw badRequest(`Messages are limited to ${MAX_MESSAGE_BYTES / 1024} KB.`);
+        }
+
+        const queue = await this.findQueue(projectSlug, queueName);
+        if (!queue) throw Object.assign(new Error(`Queue '${queueName}' not found.`), { status: 404 });
+
+        const now = Date.now();
+        const jobs = bodies.map(body => ({
+            name: 'message',
+            data: { body, enqueued_at: now },
+            opts: {
+                jobId: `msg_${crypto.randomUUID()}`,
+                delay: delaySeconds * 1000,
+                attempts: queue.max_retries + 1,
+                backoff: { type: 'exponential', delay: queue.retry_delay_seconds * 1000 },
+                removeOnComplete: true,
+                removeOnFail: false // Collected into the dead-letter table
+            }
+        }));
+        await this.producer(queue.id).addBulk(jobs);
+        return jobs.map(job => job.opts.jobId);
+    }
+
+    // --- Consuming ---
+
+    /** Starts the consumer manager (worker processes only). Queue changes are picked up on the next sync. */
+    public static startConsumers() {
+        if (this.syncTimer) return;
+        this.syncConsumers().catch((e: any) => console.error('[EdgeQueue] Consumer sync failed:', e.message));
+        this.syncTimer = setInterval(() => {
+            this.syncConsumers().catch((e: any) => console.error('[EdgeQueue] Consumer sync failed:', e.message));
+        }, SYNC_INTERVAL_MS);
+    }
+
+    public static async syncConsumers() {
+        const res = await systemPool.query(
+            `SELECT q.project_slug, ${QUEUE_COLUMNS}
+             FROM system.edge_queues q JOIN system.assets a ON a.id = q.consumer_asset_id
+             WHERE q.is_paused = false`
+        );
+        const wanted = new Map<string, EdgeQueueRow>(res.rows.map((row: EdgeQueueRow) => [row.id, row]));
+
+        for (const [queueId, consumer] of this.consumers) {
+            const config = wanted.get(queueId);
+            if (!config || JSON.stringify(config) !== consumer.signature) this.stopConsumer(queueId);
+        }
+        for (const config of wanted.values()) {
+            if (!this.consumers.has(config.id)) this.startConsumer(config);
+            await this.collectDeadLetters(config).catch((e: any) => console.error(`[EdgeQueue] Dead-letter sweep failed for ${config.name}:`, e.message));
+        }
+    }
+
+    private static startConsumer(config: EdgeQueueRow) {
+        const lockDuration = config.visibility_timeout_seconds * 1000 + LOCK_MARGIN_MS;
+        const worker = new Worker(this.bullName(config.id), null, {
+            ...DRAGONFLY_CONFIG,
+            lockDuration,
+            stalledInterval: Math.min(lockDuration, 30000),
+            maxStalledCount: 1
+        });
+        worker.on('error', (e: any) => console.error(`[EdgeQueue] ${config.project_slug}/${config.name}:`, e.message));
+        worker.startStalledCheckTimer().catch(() => {});
+
+        const consumer: Consumer = { config, signature: JSON.stringify(config), worker, running: true };
+        this.consumers.set(config.id, consumer);
+        this.consume(consumer).catch((e: any) => console.error(`[EdgeQueue] Consumer ${config.name} stopped:`, e.message));
+    }
+
+    private static stopConsumer(queueId: string) {
+        const consumer = this.consumers.get(queueId);
+        if (!consumer) return;
+        consumer.running = false;
+        this.consumers.delete(queueId);
+        consumer.worker.close().catch(() => {});
+    }
+
+    private static async consume(consumer: Consumer) {
+        const { worker, config } = consumer;
+        while (consumer.running) {
+            const batch: { job: Job, token: string }[] = [];
+            try {
+                // Wait for the first message, then take whatever else is ready up to batch_size
+                let token = crypto.randomUUID();
+                let job = await worker.getNextJob(token, { block: true });
+                while (job && consumer.running) {
+                    batch.push({ job, token });
+                    if (batch.length >= config.batch_size) break;
+                    token = crypto.randomUUID();
+                    job = await worker.getNextJob(token, { block: false });
+                }
+            } catch (e: any) {
+                if (!consumer.running) break;
+                console.error(`[EdgeQueue] Fetch failed on ${config.name}:`, e.message);
+                await new Promise(resolve => setTimeout(resolve, 1000));
+            }
+            if (batch.length > 0) await this.deliver(config, batch);
+        }
+    }
+
+    /** Runs the consumer on a batch and settles every message: ack completes it, retry fails it (BullMQ retries or gives up). */
+    private static async deliver(config: EdgeQueueRow, batch: { job: Job, token: string }[]) {
+        const { EdgeTriggerService } = await import('./EdgeTriggerService.js');
+        const messages = batch.map(({ job }) => ({
+            id: job.id,
+            timestamp: job.data.enqueued_at || job.timestamp,
+            body: job.data.body,
+            attempts: job.attemptsMade + 1
+        }));
+
+        const decisions = new Map<string, string>();
+        let error: string | null = null;
+        try {
+            const result = await EdgeTriggerService.invoke(config.project_slug, config.consumer!, {
+                trigger: 'queue',
+                queue: config.name,
+                messages
+            }, { trigger: 'queue', alias: config.consumer_alias, timeoutMs: config.visibility_timeout_seconds * 1000 });
+            const outcome = EdgeTriggerService.outcomeOf(result);
+            if (outcome.error || !Array.isArray(result.body?.messages)) {
+                error = outcome.error || 'Consumer returned no message outcomes';
+            } else {
+                error = result.body.error || null;
+                for (const m of result.body.messages) decisions.set(String(m.id), m.outcome);
+            }
+        } catch (e: any) {
+            error = e.message;
+        }
+
+        for (const { job, token } of batch) {
+            try {
+                if (decisions.get(job.id!) === 'ack') {
+                    await job.moveToCompleted(null, token, false);
+                    continue;
+                }
+                await job.moveToFailed(new Error(error || 'Retried by consumer'), token, false);
+                if (await job.isFailed()) await this.deadLetter(config, job);
+            } catch (e: any) {
+                // Lock lost (visibility timeout ran out): the message is already back in the queue
+                console.error(`[EdgeQueue] Could not settle message ${job.id} on ${config.name}:`, e.message);
+            }
+        }
+    }
+
+    private static async deadLetter(config: EdgeQueueRow, job: Job) {
+        await systemPool.query(
+            `INSERT INTO system.edge_queue_dead_letters (queue_id, project_slug, message_id, body, attempts, last_error, enqueued_at)
+             VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0))
+             ON CONFLICT (queue_id, message_id) DO NOTHING`,
+            [config.id, config.project_slug, job.id, JSON.stringify(job.data.body ?? null), job.attemptsMade,
+                job.failedReason ? job.failedReason.slice(0, 2000) : null, job.data.enqueued_at || job.timestamp]
+        );
+        await job.remove().catch(() => {});
+    }
+
+    /** Jobs that failed outside `deliver` (stalled too often after worker crashes) end up as dead letters too. */
+    private static async collectDeadLetters(config: EdgeQueueRow) {
+        const failed = await this.producer(config.id).getFailed(0, 99);
+        for (const job of failed) await this.deadLetter(config, job);
+    }
+
+    // --- Management ---
+
+    /** Normalizes queue settings. `partial` is for PATCH: only the given fields are checked. */
+    private static async validate(projectSlug: string, input: any, partial: boolean): Promise<{ values: Record<string, any> } | { error: string }> {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'Body must be an object.' };
+        const values: Record<string, any> = {};
+
+        if (!partial) {
+            if (typeof input.name !== 'string' || !QUEUE_NAME.test(input.name)) {
+                return { error: 'name must be lowercase letters, digits, "-" or "_" (max 63), starting with a letter.' };
+            }
+            values.name = input.name;
+        }
+        if (input.consumer !== undefined) {
+            if (input.consumer === null) {
+                values.consumer_asset_id = null;
+            } else {
+                const asset = await systemPool.query(
+                    "SELECT id FROM system.assets WHERE project_slug = $1 AND name = $2 AND type = 'edge_function'",
+                    [projectSlug, input.consumer]
+                );
+                if (!asset.rows[0]) return { error: `Edge function '${input.consumer}' not found.` };
+                values.consumer_asset_id = asset.rows[0].id;
+            }
+        }
+        if (input.consumer_alias !== undefined) {
+            if (!EdgeVersionService.isValidAlias(input.consumer_alias)) return { error: 'Invalid consumer_alias.' };
+            values.consumer_alias = input.consumer_alias;
+        }
+
+        const ranges: Record<string, [number, number]> = {
+            batch_size: [1, 100],
+            visibility_timeout_seconds: [1, 900],
+            max_retries: [0, 100],
+            retry_delay_seconds: [0, 86400]
+        };
+        for (const [field, [min, max]] of Object.entries(ranges)) {
+            if (input[field] === undefined) continue;
+            if (!Number.isInteger(input[field]) || input[field] < min || input[field] > max) {
+                return { error: `${field} must be an integer between ${min} and ${max}.` };
+            }
+            values[field] = input[field];
+        }
+        if (input.is_paused !== undefined) {
+            if (typeof input.is_paused !== 'boolean') return { error: 'is_paused must be a boolean.' };
+            values.is_paused = input.is_paused;
+        }
+        return { values };
+    }
+
+    private static async withCounts(queue: any) {
+        const [counts, dead] = await Promise.all([
+            this.producer(queue.id).getJobCounts('waiting', 'active', 'delayed', 'failed').catch(() => null),
+            systemPool.query(`SELECT count(*)::int AS count FROM system.edge_queue_dead_letters WHERE queue_id = $1`, [queue.id])
+        ]);
+        return { ...queue, messages: counts, dead_letters: dead.rows[0].count };
+    }
+
+    public static async list(projectSlug: string): Promise<any[]> {
+        const res = await systemPool.query(
+            `SELECT ${QUEUE_COLUMNS}
+             FROM system.edge_queues q LEFT JOIN system.assets a ON a.id = q.consumer_asset_id
+             WHERE q.project_slug = $1 ORDER BY q.name`,
+            [projectSlug]
+        );
+        return Promise.all(res.rows.map((row: any) => this.withCounts(row)));
+    }
+
+    public static async get(projectSlug: string, name: string): Promise<any | null> {
+        const queue = await this.findQueue(projectSlug, name);
+        if (!queue) return null;
+        const { project_slug, ...rest } = queue;
+        return this.withCounts(rest);
+    }
+
+    public static async create(projectSlug: string, input: any): Promise<any | { error: string }> {
+        const checked = await this.validate(projectSlug, input, false);
+        if ('error' in checked) return checked;
+        const fields = Object.keys(checked.values);
+        try {
+            await systemPool.query(
+                `INSERT INTO system.edge_queues (project_slug, ${fields.join(', ')}) VALUES ($1, ${fields.map((_, i) => `$${i + 2}`).join(', ')})`,
+                [projectSlug, ...fields.map(f => checked.values[f])]
+            );
+        } catch (e: any) {
+            if (e.code === '23505') return { error: `Queue '${checked.values.name}' already exists.` };
+            throw e;
+        }
+        return this.get(projectSlug, checked.values.name);
+    }
+
+    public static async update(projectSlug: string, name: string, input: any): Promise<any | { error: string } | null> {
+        const checked = await this.validate(projectSlug, input, true);
+        if ('error' in checked) return checked;
+        const fields = Object.keys(checked.values);
+        if (fields.length === 0) return { error: 'Nothing to update.' };
+        const res = await systemPool.query(
+            `UPDATE system.edge_queues SET ${fields.map((f, i) => `${f} = $${i + 3}`).join(', ')}, updated_at = NOW()
+             WHERE project_slug = $1 AND name = $2`,
+            [projectSlug, name, ...fields.map(f => checked.values[f])]
+        );
+        if (!res.rowCount) return null;
+        return this.get(projectSlug, name);
+    }
+
+    /** Drops the queue with every pending message. Dead letters go with it (ON DELETE CASCADE). */
+    public static async remove(projectSlug: string, name: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `DELETE FROM system.edge_queues WHERE project_slug = $1 AND name = $2 RETURNING id`,
+            [projectSlug, name]
+        );
+        const queueId = res.rows[0]?.id;
+        if (!queueId) return false;
+        this.stopConsumer(queueId);
+        await this.producer(queueId).obliterate({ force: true }).catch((e: any) => console.error(`[EdgeQueue] Could not clear queue ${name}:`, e.message));
+        await this.producer(queueId).close().catch(() => {});
+        this.producers.delete(queueId);
+        return true;
+    }
+
+    public static async listDeadLetters(projectSlug: string, name: string, limit: number = 50): Promise<any[] | null> {
+        const queue = await this.findQueue(projectSlug, name);
+        if (!queue) return null;
+        const res = await systemPool.query(
+            `SELECT id, message_id, body, attempts, last_error, enqueued_at, failed_at
+             FROM system.edge_queue_dead_letters WHERE queue_id = $1
+             ORDER BY failed_at DESC LIMIT $2`,
+            [queue.id, Math.min(Math.max(limit, 1), 200)]
+        );
+        return res.rows;
+    }
+
+    /** Sends a dead letter back to its queue as a new message (fresh retry budget). */
+    public static async replayDeadLetter(projectSlug: string, name: string, deadLetterId: string): Promise<{ message_id: string } | null> {
+        const queue = await this.findQueue(projectSlug, name);
+        if (!queue) return null;
+        // The row only goes once the message is back in the queue; a failed send rolls the delete back
+        const client = await systemPool.connect();
+        try {
+            await client.query('BEGIN');
+            const res = await client.query(
+                `DELETE FROM system.edge_queue_dead_letters WHERE id = $1 AND queue_id = $2 RETURNING body`,
+                [deadLetterId, queue.id]
+            );
+            if (!res.rows[0]) {
+                await client.query('ROLLBACK');
+                return null;
+            }
+            const [messageId] = await this.send(projectSlug, name, [res.rows[0].body]);
+            await client.query('COMMIT');
+            return { message_id: messageId };
+        } catch (e) {
+            await client.query('ROLLBACK').catch(() => {});
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+
+    public static async deleteDeadLetter(projectSlug: string, name: string, deadLetterId: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `DELETE FROM system.edge_queue_dead_letters d USING system.edge_queues q
+             WHERE d.id = $1 AND d.queue_id = q.id AND q.project_slug = $2 AND q.name = $3`,
+            [deadLetterId, projectSlug, name]
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+}
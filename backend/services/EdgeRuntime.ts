@@ -0,0 +1,1103 @@
+/**
+ * EdgeRuntime
+ * Web-standard globals for edge function isolates (WinterCG minimum common API): Request, Response,
+ * Headers, URL, URLSearchParams, TextEncoder/TextDecoder, Blob, streams, fetch, crypto.subtle, timers.
+ *
+ * The script runs inside the isolate before the function module. It picks up the host bridges set by
+ * EdgeService (`_web_sync`, `_web_async`, `_net_proxy`, `_console_proxy`), removes them from the global
+ * scope and returns `{ dispatch, fireTimer, reset }` for the host to call. Isolates are reused across
+ * invocations (EdgeIsolatePool), so `reset` drops whatever timers the previous one left behind.
+ *
+ * Host bridges:
+ *   _web_sync(op, ...args)   randomValues, randomUUID, parseURL, setURL, setTimer, clearTimer,
+ *                            streamStart, streamWrite, streamEnd
+ *   _web_async(op, ...args)  crypto.subtle operations (keys cross the boundary as descriptors)
+ *   _net_proxy(url, init)    SSRF-guarded HTTP client
+ *   _console_proxy(type, message)
+ *
+ * Kept in plain JS (String.raw: no backticks or template placeholders inside).
+ */
+export const EDGE_WEB_RUNTIME = String.raw`
+(() => {
+    'use strict';
+    const g = globalThis;
+    const webSync = g._web_sync, webAsync = g._web_async, net = g._net_proxy, consoleProxy = g._console_proxy;
+    delete g._web_sync; delete g._web_async; delete g._net_proxy; delete g._console_proxy;
+
+    const hostSync = (op, ...args) => webSync.applySync(undefined, [op, ...args], { arguments: { copy: true }, result: { copy: true } });
+    const hostAsync = (op, ...args) => webAsync.apply(undefined, [op, ...args], { arguments: { copy: true }, result: { promise: true, copy: true } });
+
+    const kState = Symbol('state');
+    const kBody = Symbol('body');
+
+    class DOMException extends Error {
+        constructor(message = '', name = 'Error') { super(message); Object.defineProperty(this, 'name', { value: name }); }
+    }
+
+    // --- Console ---
+
+    const describe = (value) => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return value.stack || String(value);
+        try { const json = JSON.stringify(value); return json === undefined ? String(value) : json; } catch (e) { return String(value); }
+    };
+    const log = (type) => (...args) => consoleProxy(type, args.map(describe).join(' '));
+    g.console = { log: log('log'), info: log('info'), debug: log('debug'), warn: log('warn'), error: log('error'), trace: log('debug') };
+
+    // --- Bytes & encoding ---
+
+    const isBufferSource = (x) => x instanceof ArrayBuffer || ArrayBuffer.isView(x);
+    const viewOf = (x) => x instanceof ArrayBuffer ? new Uint8Array(x) : new Uint8Array(x.buffer, x.byteOffset, x.byteLength);
+    const copyBytes = (x) => viewOf(x).slice();
+    const toArrayBuffer = (u8) => u8.byteOffset === 0 && u8.byteLength === u8.buffer.byteLength ? u8.buffer : u8.buffer.slice(u8.byteOffset, u8.byteOffset + u8.byteLength);
+    const concat = (chunks) => {
+        let total = 0;
+        for (const c of chunks) total += c.length;
+        const out = new Uint8Array(total);
+        let offset = 0;
+        for (const c of chunks) { out.set(c, offset); offset += c.length; }
+        return out;
+    };
+
+    const utf8Encode = (input) => {
+        const str = String(input);
+        const out = new Uint8Array(str.length * 3);
+        let p = 0;
+        for (let i = 0; i < str.length; i++) {
+            let c = str.charCodeAt(i);
+            if (c >= 0xD800 && c <= 0xDBFF && i + 1 < str.length && (str.charCodeAt(i + 1) & 0xFC00) === 0xDC00) {
+                c = 0x10000 + ((c - 0xD800) << 10) + (str.charCodeAt(++i) - 0xDC00);
+            } else if (c >= 0xD800 && c <= 0xDFFF) {
+                c = 0xFFFD;
+            }
+            if (c < 0x80) out[p++] = c;
+            else if (c < 0x800) { out[p++] = 0xC0 | (c >> 6); out[p++] = 0x80 | (c & 63); }
+            else if (c < 0x10000) { out[p++] = 0xE0 | (c >> 12); out[p++] = 0x80 | ((c >> 6) & 63); out[p++] = 0x80 | (c & 63); }
+            else { out[p++] = 0xF0 | (c >> 18); out[p++] = 0x80 | ((c >> 12) & 63); out[p++] = 0x80 | ((c >> 6) & 63); out[p++] = 0x80 | (c & 63); }
+        }
+        return out.slice(0, p);
+    };
+
+    // Returns the decoded text and, when streaming, the bytes of an incomplete trailing sequence.
+    const utf8Decode = (bytes, fatal, stream) => {
+        const units = [];
+        let text = '';
+        const flush = () => { text += String.fromCharCode.apply(null, units); units.length = 0; };
+        const invalid = () => { if (fatal) throw new TypeError('The encoded data was not valid utf-8'); units.push(0xFFFD); };
+        let i = 0;
+        while (i < bytes.length) {
+            if (units.length > 8192) flush();
+            const b = bytes[i];
+            if (b < 0x80) { units.push(b); i++; continue; }
+            let need, cp;
+            if (b >= 0xC2 && b <= 0xDF) { need = 1; cp = b & 0x1F; }
+            else if (b >= 0xE0 && b <= 0xEF) { need = 2; cp = b & 0x0F; }
+            else if (b >= 0xF0 && b <= 0xF4) { need = 3; cp = b & 0x07; }
+            else { invalid(); i++; continue; }
+            let lower = b === 0xE0 ? 0xA0 : b === 0xF0 ? 0x90 : 0x80;
+            let upper = b === 0xED ? 0x9F : b === 0xF4 ? 0x8F : 0xBF;
+            let j = 1, ok = true;
+            for (; j <= need; j++) {
+                if (i + j >= bytes.length) {
+                    if (stream) { flush(); return { text, rest: bytes.slice(i) }; }
+                    ok = false; break;
+                }
+                const c = bytes[i + j];
+                if (c < lower || c > upper) { ok = false; break; }
+                lower = 0x80; upper = 0xBF;
+                cp = (cp << 6) | (c & 63);
+            }
+            if (!ok) { invalid(); i += j; continue; }
+            if (cp > 0xFFFF) { cp -= 0x10000; units.push(0xD800 + (cp >> 10), 0xDC00 + (cp & 0x3FF)); }
+            else units.push(cp);
+            i += need + 1;
+        }
+        flush();
+        return { text, rest: null };
+    };
+
+    class TextEncoder {
+        get encoding() { return 'utf-8'; }
+        encode(input = '') { return utf8Encode(input); }
+        encodeInto(input, dest) {
+            const bytes = utf8Encode(input);
+            const written = Math.min(bytes.length, dest.length);
+            dest.set(bytes.subarray(0, written));
+            return { read: String(input).length, written };
+        }
+    }
+
+    class TextDecoder {
+        constructor(label = 'utf-8', options = {}) {
+            if (!['utf-8', 'utf8', 'unicode-1-1-utf-8'].includes(String(label).trim().toLowerCase())) {
+                throw new RangeError('The encoding "' + label + '" is not supported');
+            }
+            this[kState] = { fatal: !!options.fatal, ignoreBOM: !!options.ignoreBOM, pending: null, started: false };
+        }
+        get encoding() { return 'utf-8'; }
+        get fatal() { return this[kState].fatal; }
+        get ignoreBOM() { return this[kState].ignoreBOM; }
+        decode(input, options = {}) {
+            const st = this[kState];
+            let bytes = input === undefined ? new Uint8Array(0) : viewOf(input);
+            if (st.pending) bytes = concat([st.pending, bytes]);
+            const { text, rest } = utf8Decode(bytes, st.fatal, !!options.stream);
+            st.pending = rest;
+            let out = text;
+            if (!st.started && out.length) {
+                st.started = true;
+                if (!st.ignoreBOM && out.charCodeAt(0) === 0xFEFF) out = out.slice(1);
+            }
+            if (!options.stream) { st.pending = null; st.started = false; }
+            return out;
+        }
+    }
+
+    const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    const bytesToBase64 = (bytes) => {
+        let out = '';
+        for (let i = 0; i < bytes.length; i += 3) {
+            const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+            out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63];
+            out += i + 1 < bytes.length ? B64[(n >> 6) & 63] : '=';
+            out += i + 2 < bytes.length ? B64[n & 63] : '=';
+        }
+        return out;
+    };
+    const base64ToBytes = (input) => {
+        let str = String(input).replace(/[\t\n\f\r ]/g, '');
+        if (str.length % 4 === 0) str = str.replace(/==?$/, '');
+        if (str.length % 4 === 1 || /[^A-Za-z0-9+/]/.test(str)) throw new DOMException('The string to be decoded is not correctly encoded.', 'InvalidCharacterError');
+        const out = new Uint8Array(Math.floor(str.length * 3 / 4));
+        let buffer = 0, bits = 0, p = 0;
+        for (let i = 0; i < str.length; i++) {
+            buffer = (buffer << 6) | B64.indexOf(str[i]);
+            bits += 6;
+            if (bits >= 8) { bits -= 8; out[p++] = (buffer >> bits) & 0xFF; }
+        }
+        return out;
+    };
+    g.btoa = (input) => {
+        const str = String(input);
+        const bytes = new Uint8Array(str.length);
+        for (let i = 0; i < str.length; i++) {
+            const c = str.charCodeAt(i);
+            if (c > 0xFF) throw new DOMException('The string to be encoded contains characters outside of the Latin1 range.', 'InvalidCharacterError');
+            bytes[i] = c;
+        }
+        return bytesToBase64(bytes);
+    };
+    g.atob = (input) => {
+        const bytes = base64ToBytes(input);
+        let out = '';
+        for (let i = 0; i < bytes.length; i += 8192) out += String.fromCharCode.apply(null, bytes.subarray(i, i + 8192));
+        return out;
+    };
+
+    // --- URL ---
+
+    const formEncode = (str) => {
+        let out = '';
+        for (const b of utf8Encode(str)) {
+            if ((b >= 0x30 && b <= 0x39) || (b >= 0x41 && b <= 0x5A) || (b >= 0x61 && b <= 0x7A) || b === 0x2A || b === 0x2D || b === 0x2E || b === 0x5F) out += String.fromCharCode(b);
+            else if (b === 0x20) out += '+';
+            else out += '%' + (b < 16 ? '0' : '') + b.toString(16).toUpperCase();
+        }
+        return out;
+    };
+    const formDecode = (str) => {
+        const bytes = utf8Encode(str.replace(/\+/g, ' '));
+        const out = [];
+        for (let i = 0; i < bytes.length; i++) {
+            if (bytes[i] === 0x25 && i + 2 < bytes.length) {
+                const hex = String.fromCharCode(bytes[i + 1], bytes[i + 2]);
+                if (/^[0-9A-Fa-f]{2}$/.test(hex)) { out.push(parseInt(hex, 16)); i += 2; continue; }
+            }
+            out.push(bytes[i]);
+        }
+        return utf8Decode(new Uint8Array(out), false, false).text;
+    };
+
+    class URLSearchParams {
+        constructor(init = '') {
+            this[kState] = { list: [], update: () => { } };
+            if (init instanceof URLSearchParams) {
+                this[kState].list = init[kState].list.map(([k, v]) => [k, v]);
+            } else if (init !== null && typeof init === 'object' && typeof init[Symbol.iterator] === 'function') {
+                for (const pair of init) {
+                    const entry = [...pair];
+                    if (entry.length !== 2) throw new TypeError('Each query pair must be an iterable [name, value] tuple');
+                    this[kState].list.push([String(entry[0]), String(entry[1])]);
+                }
+            } else if (init !== null && typeof init === 'object') {
+                for (const key of Object.keys(init)) this[kState].list.push([key, String(init[key])]);
+            } else {
+                this[kState].list = parseQuery(String(init));
+            }
+        }
+        get size() { return this[kState].list.length; }
+        append(name, value) { this[kState].list.push([String(name), String(value)]); this[kState].update(); }
+        delete(name, value) {
+            name = String(name);
+            this[kState].list = this[kState].list.filter(([k, v]) => k !== name || (value !== undefined && v !== String(value)));
+            this[kState].update();
+        }
+        get(name) { const hit = this[kState].list.find(([k]) => k === String(name)); return hit ? hit[1] : null; }
+        getAll(name) { return this[kState].list.filter(([k]) => k === String(name)).map(([, v]) => v); }
+        has(name, value) { return this[kState].list.some(([k, v]) => k === String(name) && (value === undefined || v === String(value))); }
+        set(name, value) {
+            name = String(name);
+            const list = this[kState].list;
+            const index = list.findIndex(([k]) => k === name);
+            if (index < 0) list.push([name, String(value)]);
+            else this[kState].list = list.filter(([k], i) => k !== name || i === index).map((entry, i) => i === index ? [name, String(value)] : entry);
+            this[kState].update();
+        }
+        sort() {
+            this[kState].list = this[kState].list.map((entry, i) => [entry, i]).sort((a, b) => a[0][0] < b[0][0] ? -1 : a[0][0] > b[0][0] ? 1 : a[1] - b[1]).map(([entry]) => entry);
+            this[kState].update();
+        }
+        forEach(callback, thisArg) { for (const [k, v] of this[kState].list) callback.call(thisArg, v, k, this); }
+        *entries() { for (const [k, v] of this[kState].list) yield [k, v]; }
+        *keys() { for (const [k] of this[kState].list) yield k; }
+        *values() { for (const [, v] of this[kState].list) yield v; }
+        [Symbol.iterator]() { return this.entries(); }
+        toString() { return this[kState].list.map(([k, v]) => formEncode(k) + '=' + formEncode(v)).join('&'); }
+    }
+    const parseQuery = (query) => {
+        if (query.startsWith('?')) query = query.slice(1);
+        return query.split('&').filter(Boolean).map((part) => {
+            const eq = part.indexOf('=');
+            return eq < 0 ? [formDecode(part), ''] : [formDecode(part.slice(0, eq)), formDecode(part.slice(eq + 1))];
+        });
+    };
+
+    const URL_PARTS = ['href', 'origin', 'protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'search', 'hash'];
+    class URL {
+        constructor(url, base) {
+            const parts = hostSync('parseURL', String(url), base === undefined ? undefined : String(base));
+            if (!parts) throw new TypeError('Invalid URL: ' + url);
+            const params = new URLSearchParams(parts.search);
+            this[kState] = { parts, params };
+            params[kState].update = () => {
+                this[kState].parts = hostSync('setURL', this[kState].parts.href, 'search', params.toString());
+            };
+        }
+        static canParse(url, base) { return !!hostSync('parseURL', String(url), base === undefined ? undefined : String(base)); }
+        static parse(url, base) { try { return new URL(url, base); } catch (e) { return null; } }
+        get searchParams() { return this[kState].params; }
+        toString() { return this.href; }
+        toJSON() { return this.href; }
+    }
+    for (const part of URL_PARTS) {
+        Object.defineProperty(URL.prototype, part, {
+            enumerable: true,
+            get() { return this[kState].parts[part]; },
+            set: part === 'origin' ? undefined : function (value) {
+                const parts = hostSync('setURL', this[kState].parts.href, part, String(value));
+                if (!parts) throw new TypeError('Invalid URL');
+                this[kState].parts = parts;
+                if (part === 'href' || part === 'search') this[kState].params[kState].list = parseQuery(parts.search);
+            }
+        });
+    }
+
+    // --- Headers ---
+
+    const TOKEN = /^[!#$%&'*+\-.^_\x60|~0-9A-Za-z]+$/;
+    const headerName = (name) => {
+        name = String(name);
+        if (!TOKEN.test(name)) throw new TypeError('Invalid header name: "' + name + '"');
+        return name.toLowerCase();
+    };
+    const headerValue = (value) => {
+        value = String(value).replace(/^[\t\n\r ]+|[\t\n\r ]+$/g, '');
+        if (/[\0\r\n]/.test(value)) throw new TypeError('Invalid header value');
+        return value;
+    };
+
+    class Headers {
+        constructor(init) {
+            this[kState] = [];
+            if (init === undefined || init === null) return;
+            if (init instanceof Headers) {
+                this[kState] = init[kState].map(([k, v]) => [k, v]);
+            } else if (typeof init[Symbol.iterator] === 'function') {
+                for (const pair of init) {
+                    const entry = [...pair];
+                    if (entry.length !== 2) throw new TypeError('Each header pair must be an iterable [name, value] tuple');
+                    this.append(entry[0], entry[1]);
+                }
+            } else if (typeof init === 'object') {
+                for (const key of Object.keys(init)) this.append(key, init[key]);
+            } else {
+                throw new TypeError('Invalid headers init');
+            }
+        }
+        append(name, value) { this[kState].push([headerName(name), headerValue(value)]); }
+        delete(name) { name = headerName(name); this[kState] = this[kState].filter(([k]) => k !== name); }
+        get(name) {
+            name = headerName(name);
+            const values = this[kState].filter(([k]) => k === name).map(([, v]) => v);
+            return values.length ? values.join(', ') : null;
+        }
+        getSetCookie() { return this[kState].filter(([k]) => k === 'set-cookie').map(([, v]) => v); }
+        has(name) { name = headerName(name); return this[kState].some(([k]) => k === name); }
+        set(name, value) {
+            name = headerName(name);
+            value = headerValue(value);
+            const index = this[kState].findIndex(([k]) => k === name);
+            if (index < 0) { this[kState].push([name, value]); return; }
+            this[kState] = this[kState].filter(([k], i) => k !== name || i === index);
+            this[kState][index][1] = value;
+        }
+        forEach(callback, thisArg) { for (const [k, v] of this) callback.call(thisArg, v, k, this); }
+        *entries() {
+            const names = [...new Set(this[kState].map(([k]) => k))].sort();
+            for (const name of names) {
+                if (name === 'set-cookie') { for (const value of this.getSetCookie()) yield [name, value]; }
+                else yield [name, this.get(name)];
+            }
+        }
+        *keys() { for (const [k] of this) yield k; }
+        *values() { for (const [, v] of this) yield v; }
+        [Symbol.iterator]() { return this.entries(); }
+    }
+
+    // --- Streams ---
+
+    const deferred = () => {
+        let resolve, reject;
+        const promise = new Promise((res, rej) => { resolve = res; reject = rej; });
+        promise.catch(() => { });
+        return { promise, resolve, reject };
+    };
+
+    class ReadableStreamDefaultController {
+        constructor() { throw new TypeError('Illegal constructor'); }
+        get desiredSize() { const st = this[kState][kState]; return st.state === 'readable' ? st.highWaterMark - st.queue.length : st.state === 'closed' ? 0 : null; }
+        enqueue(chunk) { streamEnqueue(this[kState], chunk); }
+        close() { streamClose(this[kState]); }
+        error(e) { streamError(this[kState], e); }
+    }
+
+    class ReadableStream {
+        constructor(source = {}, strategy = {}) {
+            const st = this[kState] = {
+                source, state: 'readable', queue: [], reads: [], reader: null, error: undefined,
+                closeRequested: false, started: false, pulling: false, pullAgain: false, disturbed: false,
+                highWaterMark: strategy.highWaterMark === undefined ? 1 : Number(strategy.highWaterMark)
+            };
+            const controller = Object.create(ReadableStreamDefaultController.prototype);
+            controller[kState] = this;
+            st.controller = controller;
+            Promise.resolve(source.start ? source.start(controller) : undefined).then(
+                () => { st.started = true; streamPull(this); },
+                (e) => streamError(this, e)
+            );
+        }
+        static from(iterable) {
+            const iterator = typeof iterable[Symbol.asyncIterator] === 'function' ? iterable[Symbol.asyncIterator]() : iterable[Symbol.iterator]();
+            return new ReadableStream({
+                async pull(controller) { const { value, done } = await iterator.next(); if (done) controller.close(); else controller.enqueue(value); },
+                async cancel(reason) { if (iterator.return) await iterator.return(reason); }
+            }, { highWaterMark: 0 });
+        }
+        get locked() { return this[kState].reader !== null; }
+        getReader() { return new ReadableStreamDefaultReader(this); }
+        cancel(reason) {
+            if (this.locked) return Promise.reject(new TypeError('Cannot cancel a locked stream'));
+            return streamCancel(this, reason);
+        }
+        async pipeTo(destination, options = {}) {
+            const reader = this.getReader();
+            const writer = destination.getWriter();
+            try {
+                while (true) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+                    await writer.write(value);
+                }
+                if (!options.preventClose) await writer.close();
+            } catch (e) {
+                if (!options.preventAbort) await writer.abort(e).catch(() => { });
+                if (!options.preventCancel) await reader.cancel(e).catch(() => { });
+                throw e;
+            } finally {
+                reader.releaseLock();
+                writer.releaseLock();
+            }
+        }
+        pipeThrough(transform, options) {
+            this.pipeTo(transform.writable, options).catch(() => { });
+            return transform.readable;
+        }
+        tee() {
+            const reader = this.getReader();
+            const branches = [];
+            let reading = null;
+            const pull = () => {
+                if (!reading) {
+                    reading = reader.read().then(({ value, done }) => {
+                        reading = null;
+                        for (const c of branches) { if (c) { if (done) c.close(); else c.enqueue(value); } }
+                    }, (e) => { for (const c of branches) if (c) c.error(e); });
+                }
+                return reading;
+            };
+            const branch = (i) => new ReadableStream({
+                start(c) { branches[i] = c; },
+                pull,
+                cancel() { branches[i] = null; if (!branches[0] && !branches[1]) return reader.cancel(); }
+            }, { highWaterMark: 0 });
+            return [branch(0), branch(1)];
+        }
+        async *values(options = {}) {
+            const reader = this.getReader();
+            let finished = false;
+            try {
+                while (true) {
+                    const { value, done } = await reader.read();
+                    if (done) { finished = true; return; }
+                    yield value;
+                }
+            } finally {
+                if (!finished && !options.preventCancel) await reader.cancel().catch(() => { });
+                reader.releaseLock();
+            }
+        }
+        [Symbol.asyncIterator](options) { return this.values(options); }
+    }
+
+    const streamEnqueue = (stream, chunk) => {
+        const st = stream[kState];
+        if (st.state !== 'readable' || st.closeRequested) throw new TypeError('Cannot enqueue into a closed stream');
+        if (st.reads.length) st.reads.shift().resolve({ value: chunk, done: false });
+        else st.queue.push(chunk);
+        streamPull(stream);
+    };
+    const streamFinishClose = (stream) => {
+        const st = stream[kState];
+        st.state = 'closed';
+        for (const read of st.reads) read.resolve({ value: undefined, done: true });
+        st.reads = [];
+        if (st.reader) st.reader[kState].closed.resolve();
+    };
+    const streamClose = (stream) => {
+        const st = stream[kState];
+        if (st.state !== 'readable' || st.closeRequested) throw new TypeError('Stream is already closed');
+        st.closeRequested = true;
+        if (!st.queue.length) streamFinishClose(stream);
+    };
+    const streamError = (stream, e) => {
+        const st = stream[kState];
+        if (st.state !== 'readable') return;
+        st.state = 'errored';
+        st.error = e;
+        st.queue = [];
+        for (const read of st.reads) read.reject(e);
+        st.reads = [];
+        if (st.reader) st.reader[kState].closed.reject(e);
+    };
+    const streamPull = (stream) => {
+        const st = stream[kState];
+        if (!st.started || st.state !== 'readable' || st.closeRequested || !st.source.pull) return;
+        if (!st.reads.length && st.queue.length >= st.highWaterMark) return;
+        if (st.pulling) { st.pullAgain = true; return; }
+        st.pulling = true;
+        Promise.resolve().then(() => st.source.pull(st.controller)).then(() => {
+            st.pulling = false;
+            if (st.pullAgain) { st.pullAgain = false; streamPull(stream); }
+        }, (e) => streamError(stream, e));
+    };
+    const streamRead = (stream) => {
+        const st = stream[kState];
+        st.disturbed = true;
+        if (st.queue.length) {
+            const value = st.queue.shift();
+            if (st.closeRequested && !st.queue.length) streamFinishClose(stream);
+            else streamPull(stream);
+            return Promise.resolve({ value, done: false });
+        }
+        if (st.state === 'closed') return Promise.resolve({ value: undefined, done: true });
+        if (st.state === 'errored') return Promise.reject(st.error);
+        const read = deferred();
+        st.reads.push(read);
+        streamPull(stream);
+        return read.promise;
+    };
+    const streamCancel = async (stream, reason) => {
+        const st = stream[kState];
+        st.disturbed = true;
+        if (st.state === 'closed') return;
+        if (st.state === 'errored') throw st.error;
+        st.queue = [];
+        streamFinishClose(stream);
+        if (st.source.cancel) await st.source.cancel(reason);
+    };
+
+    class ReadableStreamDefaultReader {
+        constructor(stream) {
+            if (!(stream instanceof ReadableStream)) throw new TypeError('Expected a ReadableStream');
+            if (stream.locked) throw new TypeError('ReadableStream is already locked to a reader');
+            this[kState] = { stream, closed: deferred() };
+            stream[kState].reader = this;
+            if (stream[kState].state === 'closed') this[kState].closed.resolve();
+            if (stream[kState].state === 'errored') this[kState].closed.reject(stream[kState].error);
+        }
+        get closed() { return this[kState].closed.promise; }
+        read() {
+            const stream = this[kState].stream;
+            if (!stream) return Promise.reject(new TypeError('Reader has been released'));
+            return streamRead(stream);
+        }
+        cancel(reason) {
+            const stream = this[kState].stream;
+            if (!stream) return Promise.reject(new TypeError('Reader has been released'));
+            return streamCancel(stream, reason);
+        }
+        releaseLock() {
+            const stream = this[kState].stream;
+            if (!stream) return;
+            for (const read of stream[kState].reads) read.reject(new TypeError('Reader has been released'));
+            stream[kState].reads = [];
+            stream[kState].reader = null;
+            this[kState].stream = null;
+        }
+    }
+
+    class WritableStream {
+        constructor(sink = {}) {
+            const st = this[kState] = { sink, state: 'writable', writer: null, error: undefined, closing: false, closed: deferred() };
+            st.controller = { error: (e) => { if (st.state === 'writable') { st.state = 'errored'; st.error = e; } } };
+            st.chain = Promise.resolve().then(() => sink.start ? sink.start(st.controller) : undefined);
+            st.chain.catch((e) => st.controller.error(e));
+        }
+        get locked() { return this[kState].writer !== null; }
+        getWriter() { return new WritableStreamDefaultWriter(this); }
+        abort(reason) { return writableAbort(this, reason); }
+        close() { return writableClose(this); }
+    }
+
+    const writableQueue = (stream, task) => {
+        const st = stream[kState];
+        const run = st.chain.then(() => { if (st.state === 'errored') throw st.error; return task(); });
+        st.chain = run.catch((e) => st.controller.error(e));
+        return run;
+    };
+    const writableWrite = (stream, chunk) => {
+        const st = stream[kState];
+        if (st.state !== 'writable' || st.closing) return Promise.reject(st.error || new TypeError('Cannot write to a closed stream'));
+        return writableQueue(stream, () => st.sink.write ? st.sink.write(chunk, st.controller) : undefined);
+    };
+    const writableClose = (stream) => {
+        const st = stream[kState];
+        if (st.state !== 'writable' || st.closing) return Promise.reject(st.error || new TypeError('Stream is already closed'));
+        st.closing = true;
+        return writableQueue(stream, async () => {
+            if (st.sink.close) await st.sink.close();
+            st.state = 'closed';
+            st.closed.resolve();
+        });
+    };
+    const writableAbort = async (stream, reason) => {
+        const st = stream[kState];
+        if (st.state !== 'writable') return;
+        st.state = 'errored';
+        st.error = reason;
+        st.closed.reject(reason);
+        if (st.sink.abort) await st.sink.abort(reason);
+    };
+
+    class WritableStreamDefaultWriter {
+        constructor(stream) {
+            if (stream.locked) throw new TypeError('WritableStream is already locked to a writer');
+            this[kState] = stream;
+            stream[kState].writer = this;
+        }
+        get closed() { return this[kState] ? this[kState][kState].closed.promise : Promise.reject(new TypeError('Writer has been released')); }
+        get ready() { return Promise.resolve(); }
+        get desiredSize() { return this[kState] && this[kState][kState].state === 'writable' ? 1 : 0; }
+        write(chunk) { return this[kState] ? writableWrite(this[kState], chunk) : Promise.reject(new TypeError('Writer has been released')); }
+        close() { return this[kState] ? writableClose(this[kState]) : Promise.reject(new TypeError('Writer has been released')); }
+        abort(reason) { return this[kState] ? writableAbort(this[kState], reason) : Promise.reject(new TypeError('Writer has been released')); }
+        releaseLock() { if (this[kState]) { this[kState][kState].writer = null; this[kState] = null; } }
+    }
+
+    class TransformStream {
+        constructor(transformer = {}) {
+            let readableController;
+            const readable = new ReadableStream({ start(c) { readableController = c; } }, { highWaterMark: 0 });
+            const controller = {
+                enqueue: (chunk) => readableController.enqueue(chunk),
+                error: (e) => readableController.error(e),
+                terminate: () => readableController.close(),
+                get desiredSize() { return readableController.desiredSize; }
+            };
+            const writable = new WritableStream({
+                start: () => transformer.start ? transformer.start(controller) : undefined,
+                write: (chunk) => transformer.transform ? transformer.transform(chunk, controller) : controller.enqueue(chunk),
+                close: async () => { if (transformer.flush) await transformer.flush(controller); readableController.close(); },
+                abort: (reason) => readableController.error(reason)
+            });
+            this[kState] = { readable, writable };
+        }
+        get readable() { return this[kState].readable; }
+        get writable() { return this[kState].writable; }
+    }
+
+    class TextEncoderStream extends TransformStream {
+        constructor() {
+            super({ transform(chunk, controller) { const bytes = utf8Encode(chunk); if (bytes.length) controller.enqueue(bytes); } });
+        }
+        get encoding() { return 'utf-8'; }
+    }
+
+    class TextDecoderStream extends TransformStream {
+        constructor(label = 'utf-8', options = {}) {
+            const decoder = new TextDecoder(label, options);
+            super({
+                transform(chunk, controller) { const text = decoder.decode(chunk, { stream: true }); if (text) controller.enqueue(text); },
+                flush(controller) { const text = decoder.decode(); if (text) controller.enqueue(text); }
+            });
+        }
+        get encoding() { return 'utf-8'; }
+    }
+
+    // --- Blob ---
+
+    class Blob {
+        constructor(parts = [], options = {}) {
+            const chunks = [];
+            for (const part of parts) {
+                if (part instanceof Blob) chunks.push(part[kBody]);
+                else if (isBufferSource(part)) chunks.push(copyBytes(part));
+                else chunks.push(utf8Encode(part));
+            }
+            this[kBody] = concat(chunks);
+            this[kState] = { type: /^[\x20-\x7E]*$/.test(options.type || '') ? String(options.type || '').toLowerCase() : '' };
+        }
+        get size() { return this[kBody].length; }
+        get type() { return this[kState].type; }
+        async arrayBuffer() { return toArrayBuffer(this[kBody].slice()); }
+        async bytes() { return this[kBody].slice(); }
+        async text() { return utf8Decode(this[kBody], false, false).text; }
+        slice(start = 0, end = this.size, type = '') {
+            const blob = new Blob([], { type });
+            blob[kBody] = this[kBody].slice(start, end);
+            return blob;
+        }
+        stream() { return bytesStream(this[kBody].slice()); }
+    }
+
+    class File extends Blob {
+        constructor(parts, name, options = {}) {
+            super(parts, options);
+            this[kState].name = String(name);
+            this[kState].lastModified = options.lastModified === undefined ? Date.now() : Number(options.lastModified);
+        }
+        get name() { return this[kState].name; }
+        get lastModified() { return this[kState].lastModified; }
+    }
+
+    // --- Request / Response ---
+
+    const bytesStream = (bytes) => new ReadableStream({ start(c) { if (bytes.length) c.enqueue(bytes); c.close(); } });
+
+    const chunkBytes = (chunk) => {
+        if (chunk instanceof Uint8Array) return chunk;
+        if (isBufferSource(chunk)) return viewOf(chunk);
+        if (typeof chunk === 'string') return utf8Encode(chunk);
+        throw new TypeError('Stream chunks must be Uint8Array, ArrayBuffer or string');
+    };
+
+    const extractBody = (body) => {
+        if (body === null || body === undefined) return { source: null, type: null };
+        if (typeof body === 'string') return { source: utf8Encode(body), type: 'text/plain;charset=UTF-8' };
+        if (body instanceof URLSearchParams) return { source: utf8Encode(body.toString()), type: 'application/x-www-form-urlencoded;charset=UTF-8' };
+        if (body instanceof Blob) return { source: body[kBody].slice(), type: body.type || null };
+        if (isBufferSource(body)) return { source: copyBytes(body), type: null };
+        if (body instanceof ReadableStream) {
+            if (body.locked || body[kState].disturbed) throw new TypeError('ReadableStream is locked or disturbed');
+            return { source: body, type: null };
+        }
+        return { source: utf8Encode(String(body)), type: 'text/plain;charset=UTF-8' };
+    };
+
+    const consumeBody = async (message) => {
+        if (message.bodyUsed) throw new TypeError('Body has already been consumed');
+        const body = message[kBody];
+        body.used = true;
+        if (body.source === null) return new Uint8Array(0);
+        if (!(body.source instanceof ReadableStream)) return body.source;
+        const reader = body.source.getReader();
+        const chunks = [];
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            chunks.push(copyBytes(chunkBytes(value)));
+        }
+        reader.releaseLock();
+        return concat(chunks);
+    };
+
+    const cloneBody = (message) => {
+        if (message.bodyUsed) throw new TypeError('Body has already been consumed');
+        const body = message[kBody];
+        if (!(body.source instanceof ReadableStream)) return body.source;
+        const [a, b] = body.source.tee();
+        body.source = a;
+        return b;
+    };
+
+    class Body {
+        get body() {
+            const body = this[kBody];
+            if (body.source === null) return null;
+            if (!(body.source instanceof ReadableStream)) body.source = bytesStream(body.source);
+            return body.source;
+        }
+        get bodyUsed() {
+            const body = this[kBody];
+            return body.used || (body.source instanceof ReadableStream && body.source[kState].disturbed);
+        }
+        async arrayBuffer() { return toArrayBuffer((await consumeBody(this)).slice()); }
+        async bytes() { return (await consumeBody(this)).slice(); }
+        async text() { return utf8Decode(await consumeBody(this), false, false).text; }
+        async json() { return JSON.parse(await this.text()); }
+        async blob() { return new Blob([await consumeBody(this)], { type: this.headers.get('content-type') || '' }); }
+        async formData() { throw new TypeError('formData() is not supported in edge functions. Use text() with URLSearchParams.'); }
+    }
+
+    const METHODS = ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'POST', 'PUT'];
+    const normalizeMethod = (method) => {
+        method = String(method);
+        if (!TOKEN.test(method)) throw new TypeError('Invalid method: ' + method);
+        const upper = method.toUpperCase();
+        if (['CONNECT', 'TRACE', 'TRACK'].includes(upper)) throw new TypeError('Forbidden method: ' + method);
+        return METHODS.includes(upper) ? upper : method;
+    };
+
+    class Request extends Body {
+        constructor(input, init = {}) {
+            super();
+            let url, method = 'GET', headers, redirect = 'follow', source = null;
+            if (input instanceof Request) {
+                url = input.url;
+                method = input.method;
+                headers = new Headers(input.headers);
+                redirect = input.redirect;
+                if (init.body === undefined && input[kBody].source !== null) {
+                    if (input.bodyUsed) throw new TypeError('Request body has already been consumed');
+                    source = input[kBody].source;
+                    input[kBody].used = true;
+                }
+            } else {
+                url = new URL(String(input)).href;
+            }
+            if (init.method !== undefined) method = normalizeMethod(init.method);
+            if (init.headers !== undefined) headers = new Headers(init.headers);
+            if (!headers) headers = new Headers();
+            if (init.redirect !== undefined) redirect = String(init.redirect);
+            if (init.body !== undefined && init.body !== null) {
+                if (method === 'GET' || method === 'HEAD') throw new TypeError('Request with GET/HEAD method cannot have body.');
+                const extracted = extractBody(init.body);
+                source = extracted.source;
+                if (extracted.type && !headers.has('content-type')) headers.set('content-type', extracted.type);
+            }
+            this[kState] = { url, method, headers, redirect, signal: init.signal || null };
+            this[kBody] = { source, used: false };
+        }
+        get url() { return this[kState].url; }
+        get method() { return this[kState].method; }
+        get headers() { return this[kState].headers; }
+        get redirect() { return this[kState].redirect; }
+        get signal() { return this[kState].signal; }
+        get cache() { return 'default'; }
+        get credentials() { return 'same-origin'; }
+        get mode() { return 'cors'; }
+        clone() {
+            const source = cloneBody(this);
+            const request = new Request(this.url, { method: this.method, headers: this.headers, redirect: this.redirect });
+            request[kBody].source = source;
+            return request;
+        }
+    }
+
+    const NULL_BODY_STATUS = [101, 103, 204, 205, 304];
+    const REDIRECT_STATUS = [301, 302, 303, 307, 308];
+
+    class Response extends Body {
+        constructor(body = null, init = {}) {
+            super();
+            const status = init.status === undefined ? 200 : Number(init.status);
+            if (!Number.isInteger(status) || status < 200 || status > 599) throw new RangeError('Invalid response status: ' + init.status);
+            const headers = new Headers(init.headers);
+            let source = null;
+            if (body !== null && body !== undefined) {
+                if (NULL_BODY_STATUS.includes(status)) throw new TypeError('Response with null body status cannot have body');
+                const extracted = extractBody(body);
+                source = extracted.source;
+                if (extracted.type && !headers.has('content-type')) headers.set('content-type', extracted.type);
+            }
+            this[kState] = { status, statusText: init.statusText === undefined ? '' : String(init.statusText), headers, type: 'default', url: '' };
+            this[kBody] = { source, used: false };
+        }
+        static json(data, init = {}) {
+            const body = JSON.stringify(data);
+            if (body === undefined) throw new TypeError('Value is not JSON serializable');
+            const headers = new Headers(init.headers);
+            if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+            return new Response(body, { ...init, headers });
+        }
+        static redirect(url, status = 302) {
+            if (!REDIRECT_STATUS.includes(status)) throw new RangeError('Invalid redirect status: ' + status);
+            return new Response(null, { status, headers: { location: new URL(url).href } });
+        }
+        static error() {
+            const response = new Response(null);
+            response[kState].status = 0;
+            response[kState].type = 'error';
+            return response;
+        }
+        get status() { return this[kState].status; }
+        get statusText() { return this[kState].statusText; }
+        get ok() { return this[kState].status >= 200 && this[kState].status < 300; }
+        get headers() { return this[kState].headers; }
+        get type() { return this[kState].type; }
+        get url() { return this[kState].url; }
+        get redirected() { return false; }
+        clone() {
+            const source = cloneBody(this);
+            const response = new Response(null, { status: this.status || 200, statusText: this.statusText, headers: this.headers });
+            Object.assign(response[kState], { status: this.status, type: this.type, url: this.url });
+            response[kBody].source = source;
+            return response;
+        }
+    }
+
+    g.fetch = async (input, init) => {
+        const request = new Request(input, init);
+        const body = request[kBody].source === null ? undefined : toArrayBuffer((await consumeBody(request)).slice());
+        const result = await net.apply(undefined, [request.url, { method: request.method, headers: [...request.headers], body }], { arguments: { copy: true }, result: { promise: true } });
+        const nullBody = request.method === 'HEAD' || NULL_BODY_STATUS.includes(result.status);
+        const response = new Response(nullBody ? null : new Uint8Array(result.body), {
+            status: result.status < 200 ? 200 : result.status,
+            statusText: result.statusText,
+            headers: result.headers
+        });
+        response[kState].status = result.status;
+        response[kState].url = result.url;
+        return response;
+    };
+
+    // --- Crypto ---
+
+    const keyMaterial = new WeakMap();
+    class CryptoKey {
+        constructor() { throw new TypeError('Illegal constructor'); }
+        get type() { return keyMaterial.get(this).type; }
+        get extractable() { return keyMaterial.get(this).extractable; }
+        get algorithm() { return keyMaterial.get(this).algorithm; }
+        get usages() { return keyMaterial.get(this).usages.slice(); }
+    }
+    const makeKey = (descriptor, extractable) => {
+        const key = Object.create(CryptoKey.prototype);
+        keyMaterial.set(key, { ...descriptor, extractable: !!extractable });
+        return key;
+    };
+    const material = (key, usage) => {
+        const descriptor = keyMaterial.get(key);
+        if (!descriptor) throw new TypeError('Expected a CryptoKey');
+        if (usage && !descriptor.usages.includes(usage)) throw new DOMException('Key does not support the "' + usage + '" operation', 'InvalidAccessError');
+        return { format: descriptor.format, data: descriptor.data, algorithm: descriptor.algorithm, usages: descriptor.usages };
+    };
+    const bufferArg = (data) => {
+        if (!isBufferSource(data)) throw new TypeError('Expected an ArrayBuffer or ArrayBufferView');
+        return toArrayBuffer(copyBytes(data));
+    };
+    const algorithmArg = (algorithm) => {
+        if (typeof algorithm === 'string') return { name: algorithm };
+        const out = {};
+        for (const key of Object.keys(algorithm)) {
+            const value = algorithm[key];
+            if (value instanceof CryptoKey) out[key] = material(value);
+            else if (isBufferSource(value)) out[key] = bufferArg(value);
+            else out[key] = value;
+        }
+        return out;
+    };
+
+    const subtle = {
+        digest: async (algorithm, data) => hostAsync('digest', algorithmArg(algorithm), bufferArg(data)),
+        importKey: async (format, keyData, algorithm, extractable, usages) =>
+            makeKey(await hostAsync('importKey', format, format === 'jwk' ? keyData : bufferArg(keyData), algorithmArg(algorithm), [...usages]), extractable),
+        exportKey: async (format, key) => {
+            if (!key.extractable) throw new DOMException('Key is not extractable', 'InvalidAccessError');
+            return hostAsync('exportKey', format, material(key));
+        },
+        generateKey: async (algorithm, extractable, usages) => {
+            const result = await hostAsync('generateKey', algorithmArg(algorithm), [...usages]);
+            return result.privateKey ? { publicKey: makeKey(result.publicKey, true), privateKey: makeKey(result.privateKey, extractable) } : makeKey(result, extractable);
+        },
+        sign: async (algorithm, key, data) => hostAsync('sign', algorithmArg(algorithm), material(key, 'sign'), bufferArg(data)),
+        verify: async (algorithm, key, signature, data) => hostAsync('verify', algorithmArg(algorithm), material(key, 'verify'), bufferArg(signature), bufferArg(data)),
+        encrypt: async (algorithm, key, data) => hostAsync('encrypt', algorithmArg(algorithm), material(key, 'encrypt'), bufferArg(data)),
+        decrypt: async (algorithm, key, data) => hostAsync('decrypt', algorithmArg(algorithm), material(key, 'decrypt'), bufferArg(data)),
+        deriveBits: async (algorithm, key, length) => hostAsync('deriveBits', algorithmArg(algorithm), material(key, 'deriveBits'), length),
+        deriveKey: async (algorithm, key, derivedAlgorithm, extractable, usages) =>
+            makeKey(await hostAsync('deriveKey', algorithmArg(algorithm), material(key, 'deriveKey'), algorithmArg(derivedAlgorithm), [...usages]), extractable)
+    };
+
+    const INTEGER_ARRAYS = [Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array, BigInt64Array, BigUint64Array];
+    g.crypto = {
+        subtle,
+        getRandomValues: (array) => {
+            if (!INTEGER_ARRAYS.some((T) => array instanceof T)) throw new DOMException('Expected an integer TypedArray', 'TypeMismatchError');
+            if (array.byteLength > 65536) throw new DOMException('getRandomValues is limited to 65536 bytes', 'QuotaExceededError');
+            viewOf(array).set(new Uint8Array(hostSync('randomValues', array.byteLength)));
+            return array;
+        },
+        randomUUID: () => hostSync('randomUUID'),
+        // Pre-WinterCG helper, kept for existing functions: hex string of size random bytes
+        randomBytes: (size) => [...new Uint8Array(hostSync('randomValues', size))].map((b) => (b < 16 ? '0' : '') + b.toString(16)).join('')
+    };
+
+    // --- Timers ---
+
+    const timers = new Map();
+    let nextTimer = 1;
+    const startTimer = (callback, delay, args, repeat) => {
+        if (typeof callback !== 'function') throw new TypeError('Timer callback must be a function');
+        const id = nextTimer++;
+        timers.set(id, { callback, args, repeat });
+        hostSync('setTimer', id, Math.max(0, Number(delay) || 0), repeat);
+        return id;
+    };
+    const stopTimer = (id) => { if (timers.delete(id)) hostSync('clearTimer', id); };
+    const fireTimer = (id) => {
+        const timer = timers.get(id);
+        if (!timer) return;
+        if (!timer.repeat) timers.delete(id);
+        try { timer.callback(...timer.args); } catch (e) { g.console.error('Uncaught error in timer callback:', e); }
+    };
+    g.setTimeout = (callback, delay, ...args) => startTimer(callback, delay, args, false);
+    g.setInterval = (callback, delay, ...args) => startTimer(callback, delay, args, true);
+    g.clearTimeout = stopTimer;
+    g.clearInterval = stopTimer;
+    g.queueMicrotask = (callback) => { Promise.resolve().then(callback); };
+    const reset = () => { timers.clear(); };
+
+    Object.assign(g, {
+        DOMException, TextEncoder, TextDecoder, URL, URLSearchParams, Headers, Request, Response, Blob, File, CryptoKey,
+        ReadableStream, ReadableStreamDefaultReader, WritableStream, TransformStream, TextEncoderStream, TextDecoderStream
+    });
+
+    // --- Dispatch ---
+
+    const incomingRequest = (context) => {
+        const headers = new Headers();
+        for (const name of Object.keys(context.headers || {})) {
+            const value = context.headers[name];
+            if (Array.isArray(value)) value.forEach((v) => headers.append(name, v));
+            else if (value !== undefined) headers.append(name, value);
+        }
+        const hasBody = context.rawBody && context.method !== 'GET' && context.method !== 'HEAD';
+        return new Request(context.url, { method: context.method, headers, body: hasBody ? base64ToBytes(context.rawBody) : null });
+    };
+
+    const respond = async (response, streaming) => {
+        if (response.type === 'error') throw new TypeError('Edge Function returned Response.error()');
+        if (response.bodyUsed) throw new TypeError('Response body has already been consumed');
+        const headers = [...response.headers];
+        const source = response[kBody].source;
+        if (streaming && source instanceof ReadableStream) {
+            hostSync('streamStart', response.status, headers);
+            const reader = source.getReader();
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                const bytes = chunkBytes(value);
+                if (bytes.length && !hostSync('streamWrite', toArrayBuffer(copyBytes(bytes)))) {
+                    await reader.cancel('Client disconnected').catch(() => { });
+                    break;
+                }
+            }
+            hostSync('streamEnd');
+            return { kind: 'streamed', status: response.status };
+        }
+        const body = source === null ? null : toArrayBuffer((await consumeBody(response)).slice());
+        return { kind: 'response', status: response.status, headers, body };
+    };
+
+    // Cron and queue triggers: scheduled(controller, env, ctx) / queue(batch, env, ctx) on module objects,
+    // or the handler function called with { trigger, ... }. Messages neither acked nor retried explicitly
+    // are acked when the handler resolves and retried when it throws.
+    const dispatchEvent = async (handler, context, ctx, settle) => {
+        const isModule = handler && typeof handler === 'object';
+        if (context.trigger === 'scheduled') {
+            const controller = { type: 'scheduled', cron: context.cron, scheduledTime: context.scheduledTime, payload: context.payload, noRetry: () => { } };
+            if (isModule && typeof handler.scheduled !== 'function') throw new TypeError('Edge Function has no scheduled() handler');
+            if (isModule) await handler.scheduled(controller, g.env, ctx);
+            else await handler({ trigger: 'scheduled', cron: context.cron, scheduledTime: context.scheduledTime, payload: context.payload });
+            await settle();
+            return { kind: 'event', result: { ok: true } };
+        }
+        const decisions = new Map();
+        const messages = context.messages.map((m) => Object.freeze({
+            id: m.id,
+            timestamp: new Date(m.timestamp),
+            body: m.body,
+            attempts: m.attempts,
+            ack: () => { decisions.set(m.id, 'ack'); },
+            retry: () => { decisions.set(m.id, 'retry'); }
+        }));
+        const batch = {
+            queue: context.queue,
+            messages,
+            ackAll: () => messages.forEach((m) => m.ack()),
+            retryAll: () => messages.forEach((m) => m.retry())
+        };
+        if (isModule && typeof handler.queue !== 'function') throw new TypeError('Edge Function has no queue() handler');
+        let error = null;
+        try {
+            if (isModule) await handler.queue(batch, g.env, ctx);
+            else await handler({ trigger: 'queue', ...batch });
+        } catch (e) {
+            error = e instanceof Error ? String(e) : describe(e);
+            g.console.error('queue() handler failed:', e);
+        }
+        await settle();
+        return { kind: 'event', result: { error, messages: messages.map((m) => ({ id: m.id, outcome: decisions.get(m.id) || (error ? 'retry' : 'ack') })) } };
+    };
+
+    // handler: the module's default export. Functions are the original Cascata handler (JSON in, JSON out,
+    // or a Response); objects with fetch() follow the WinterCG/Workers module convention.
+    const dispatch = async (handler, context, streaming) => {
+        const pending = [];
+        const settle = () => Promise.all(pending);
+        const ctx = {
+            waitUntil: (promise) => { pending.push(Promise.resolve(promise).catch((e) => g.console.error('waitUntil promise rejected:', e))); },
+            passThroughOnException: () => { },
+            user: context.user || null
+        };
+        if (context.trigger === 'scheduled' || context.trigger === 'queue') return dispatchEvent(handler, context, ctx, settle);
+        if (handler && typeof handler === 'object' && typeof handler.fetch === 'function') {
+            const response = await handler.fetch(incomingRequest(context), g.env, ctx);
+            if (!(response instanceof Response)) throw new TypeError('fetch() handler must return a Response');
+            const out = await respond(response, streaming);
+            await settle();
+            return out;
+        }
+        if (typeof handler === 'function') {
+            const { rawBody, ...legacy } = context;
+            const result = await handler(legacy);
+            if (result instanceof Response) return respond(result, streaming);
+            return { kind: 'json', body: result };
+        }
+        throw new TypeError('Edge Function must export a default function or an object with a fetch() handler');
+    };
+
+    return { dispatch, fireTimer, reset };
+})()
+`;
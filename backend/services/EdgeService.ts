@@ -14,6 +14,9 @@ import jwt from 'jsonwebtoken';
 import { validateTargetUrl, isPrivateIP } from '../src/utils/index.js';
 import { systemPool } from '../src/config/main.js';
 import process from 'process';
+import { EDGE_WEB_RUNTIME } from './EdgeRuntime.js';
+import { EdgeIsolatePool, PooledIsolate } from './EdgeIsolatePool.js';
+import { EdgeLogService, EdgeLogCollector } from './EdgeLogService.js';
 
 const MAX_CACHE_SIZE = 500;
 const MAX_MODULE_SIZE = 1024 * 1024 * 5;
@@ -34,6 +37,132 @@ function addToCache(key: string, value: string) {
 // Helper para sanitizar strings SQL em contextos onde Prepared Statements não são viáveis (Bloco de Configuração)
 const escapeSql = (str: string) => str.replace(/'/g, "''");
 
+const MAX_TIMERS = 100;
+const URL_SETTERS = ['href', 'protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'search', 'hash'];
+const HOP_BY_HOP_HEADERS = ['connection', 'keep-alive', 'transfer-encoding', 'content-length', 'upgrade', 'trailer', 'te', 'proxy-connection'];
+
+/** A finished execution. `raw` bodies are Buffers from a Response; otherwise `body` is JSON. */
+export interface EdgeResponse {
+    status: number;
+    body: any;
+    headers?: [string, string][];
+    raw?: boolean;
+    streamed?: boolean; // Already written to EdgeExecuteOptions.stream
+}
+
+/** Destination for ReadableStream response bodies. `write` returns false once the client is gone. */
+export interface EdgeResponseStream {
+    start(status: number, headers: [string, string][]): void;
+    write(chunk: Buffer): boolean;
+    end(error?: string): void;
+}
+
+export interface EdgeExecuteOptions {
+    logTag?: string;
+    stream?: EdgeResponseStream;
+    functionName?: string; // Groups pooled isolates and their metrics per function; required for invocation records
+    record?: boolean;      // false skips the invocation record (local dev harness)
+    requestId?: string;
+    version?: number | null;
+    alias?: string | null;
+    trigger?: string;      // 'http' unless given
+    settings?: ProjectSettings; // Skips the project lookup in the system DB (local dev harness)
+    queue?: EdgeQueueSink;      // Receives Cascata.queue.send() instead of EdgeQueueService
+    logs?: EdgeLogCollector;    // Console output of the invocation, for callers that want it back
+}
+
+/** Replacement destination for messages a function sends; returns their ids. */
+export type EdgeQueueSink = (queueName: string, bodies: any[], options: { delaySeconds?: number }) => Promise<string[]>;
+
+export interface ProjectSettings {
+    timezone: string;
+    isReadOnly: boolean;
+}
+
+/** What the jail bridges of a pooled isolate act for while a request runs in it. */
+interface Invocation {
+    user: any;
+    userRole: string;
+    projectPool: Pool;
+    timeoutMs: number;
+    logTag: string;
+    stream?: EdgeResponseStream;
+    streamState: 'idle' | 'open' | 'closed';
+    timers: Map<number, NodeJS.Timeout>;
+    logs: EdgeLogCollector;
+    queue?: EdgeQueueSink;
+}
+
+interface EdgeInstance extends PooledIsolate {
+    context: ivm.Context;
+    module: ivm.Module;
+    dispatch: ivm.Reference;
+    timerFire: ivm.Reference;
+    reset: ivm.Reference;
+    handler: ivm.Reference | null; // Default export, once the module was evaluated
+    current: Invocation | null;
+    pending: number; // Async host calls still in flight; an isolate with any is never pooled again
+}
+
+const POLYFILLS = `
+    global.process = { env: env };
+    global.Cascata = { auth: { hashPassword: async (p) => _cascata_utils.apply(undefined, ['bcryptHash', p], { result: { promise: true, copy: true } }), verifyPassword: async (p, h) => _cascata_utils.apply(undefined, ['bcryptCompare', p, h], { result: { promise: true, copy: true } }), signToken: (p, s, o) => _cascata_utils.applySync(undefined, ['jwtSign', p, s, o], { result: { copy: true } }), verifyToken: (t, s) => _cascata_utils.applySync(undefined, ['jwtVerify', t, s], { result: { copy: true } }) } };
+    global.Cascata.queue = { send: async (queue, body, options) => (await _cascata_queue.apply(undefined, [queue, [body], options || {}], { arguments: { copy: true }, result: { promise: true, copy: true } }))[0], sendBatch: async (queue, bodies, options) => _cascata_queue.apply(undefined, [queue, bodies, options || {}], { arguments: { copy: true }, result: { promise: true, copy: true } }) };
+    global.Buffer = { from: (data, enc) => { if (typeof data === 'string' && enc === 'hex') { return new Uint8Array((data.match(/../g) || []).map((h) => parseInt(h, 16))); } return data; } };
+    global.$db = { query: async (sql, params) => db.getSync('query').apply(undefined, [sql, params || []], { arguments: { copy: true }, result: { promise: true } }) };
+    global.$fetch = async (url, init = {}) => { const isJson = init.body !== null && typeof init.body === 'object' && !ArrayBuffer.isView(init.body) && !(init.body instanceof ArrayBuffer) && !(init.body instanceof URLSearchParams) && !(init.body instanceof Blob); const headers = new Headers(init.headers); if (isJson && !headers.has('content-type')) headers.set('content-type', 'application/json'); const res = await fetch(url, { ...init, headers, body: isJson ? JSON.stringify(init.body) : init.body }); const text = await res.text(); return { status: res.status, headers: Object.fromEntries(res.headers), text: async () => text, json: async () => JSON.parse(text) }; };
+`;
+
+const urlParts = (url: URL) => ({
+    href: url.href, origin: url.origin, protocol: url.protocol, username: url.username, password: url.password,
+    host: url.host, hostname: url.hostname, port: url.port, pathname: url.pathname, search: url.search, hash: url.hash
+});
+
+// crypto.subtle for the isolate. Keys cross the boundary as descriptors and are re-imported per call;
+// PBKDF2/HKDF keys can't be exported, so they travel as their raw import bytes.
+const subtle = crypto.webcrypto.subtle;
+const DERIVE_ONLY_KEYS = ['PBKDF2', 'HKDF'];
+type KeyDescriptor = { format: 'jwk' | 'raw', data: any, algorithm: any, usages: string[], type?: string };
+
+const materializeKey = (d: KeyDescriptor) =>
+    subtle.importKey(d.format as any, d.data, d.algorithm, !DERIVE_ONLY_KEYS.includes(d.algorithm?.name), d.usages as any);
+
+const describeKey = async (key: any, rawData?: ArrayBuffer): Promise<KeyDescriptor> => {
+    const exportable = !DERIVE_ONLY_KEYS.includes(key.algorithm.name);
+    return {
+        format: exportable ? 'jwk' : 'raw',
+        data: exportable ? await subtle.exportKey('jwk', key) : rawData,
+        algorithm: key.algorithm,
+        usages: key.usages,
+        type: key.type
+    };
+};
+
+const hostAlgorithm = async (algorithm: any) =>
+    algorithm?.public ? { ...algorithm, public: await materializeKey(algorithm.public) } : algorithm;
+
+const SUBTLE_OPS: Record<string, (...args: any[]) => Promise<any>> = {
+    digest: (algorithm, data) => subtle.digest(algorithm, data),
+    importKey: async (format, keyData, algorithm, usages) => {
+        const exportable = !DERIVE_ONLY_KEYS.includes(algorithm?.name);
+        return describeKey(await subtle.importKey(format, keyData, algorithm, exportable, usages), keyData);
+    },
+    exportKey: async (format, d) => subtle.exportKey(format, await materializeKey(d)),
+    generateKey: async (algorithm, usages) => {
+        const generated: any = await subtle.generateKey(algorithm, true, usages);
+        return generated.privateKey
+            ? { publicKey: await describeKey(generated.publicKey), privateKey: await describeKey(generated.privateKey) }
+            : describeKey(generated);
+    },
+    sign: async (algorithm, d, data) => subtle.sign(algorithm, await materializeKey(d), data),
+    verify: async (algorithm, d, signature, data) => subtle.verify(algorithm, await materializeKey(d), signature, data),
+    encrypt: async (algorithm, d, data) => subtle.encrypt(algorithm, await materializeKey(d), data),
+    decrypt: async (algorithm, d, data) => subtle.decrypt(algorithm, await materializeKey(d), data),
+    deriveBits: async (algorithm, d, length) => subtle.deriveBits(await hostAlgorithm(algorithm), await materializeKey(d), length),
+    deriveKey: async (algorithm, d, derivedAlgorithm, usages) =>
+        describeKey(await subtle.deriveKey(await hostAlgorithm(algorithm), await materializeKey(d), derivedAlgorithm, true, usages))
+};
+
 export class EdgeService {
 
     private static async fetchModuleSource(specifier: string): Promise<string> {
@@ -100,60 +229,133 @@ export class EdgeService {
         }
     }
 
-    public static async execute(code: string, context: any, envVars: Record<string, string>, projectPool: Pool, timeoutMs: number = 5000, projectSlug: string): Promise<{ status: number, body: any }> {
-        const isolate = new ivm.Isolate({ memoryLimit: 256 });
-        const scriptContext = await isolate.createContext();
-        const jail = scriptContext.global;
+    /** Timezone and governance mode from the project metadata; part of a pooled isolate's fingerprint. */
+    private static async projectSettings(projectSlug: string): Promise<ProjectSettings> {
+        const projectRes = await systemPool.query('SELECT metadata FROM system.projects WHERE slug = $1', [projectSlug]);
+        const metadata = projectRes.rows[0]?.metadata || {};
+        const governance = metadata.ai_governance || {};
+        return { timezone: metadata.timezone || 'UTC', isReadOnly: governance.mode === 'read_only' };
+    }
 
+    /**
+     * Builds an isolate for `code`: jail bridges, web runtime, polyfills and the instantiated (not yet
+     * evaluated) module. The bridges act on behalf of `instance.current` and refuse to run without one.
+     * Async bridges are bound to the invocation that made the call: their result is withheld when that
+     * invocation is no longer the current one.
+     */
+    private static async createInstance(code: string, envVars: Record<string, string>, settings: ProjectSettings, projectSlug: string, fingerprint: string): Promise<EdgeInstance> {
+        const isolate = new ivm.Isolate({ memoryLimit: 256 });
         try {
+            const scriptContext = await isolate.createContext();
+            const jail = scriptContext.global;
+            const now = Date.now();
+            const instance = {
+                isolate, fingerprint, uses: 0, createdAt: now, lastUsedAt: now, baselineHeap: 0,
+                context: scriptContext, handler: null, current: null, pending: 0
+            } as unknown as EdgeInstance;
+            const active = (): Invocation => {
+                if (!instance.current) throw new Error('No active invocation');
+                return instance.current;
+            };
+            const hostCall = <A extends any[], R>(fn: (invocation: Invocation, ...args: A) => Promise<R>) => async (...args: A): Promise<R> => {
+                const invocation = active();
+                instance.pending++;
+                try {
+                    const result = await fn(invocation, ...args);
+                    if (instance.current !== invocation) throw new Error('Invocation ended before the call completed');
+                    return result;
+                } finally {
+                    instance.pending--;
+                }
+            };
+
             await jail.set('global', jail.derefInto());
-            const user = context.user || {};
-            const userRole = user.role || (user.sub ? 'authenticated' : 'anon');
 
             // Console Hardening: Prevent buffer overflow attacks via logs
             const safeLog = (type: string, ...args: any[]) => {
                 const msg = args.map(a => typeof a === 'string' ? a : JSON.stringify(a)).join(' ');
                 const truncated = msg.length > 2000 ? msg.substring(0, 2000) + '... [TRUNCATED]' : msg;
-                if (type === 'log') console.log(`[EDGE:${projectSlug}]`, truncated);
-                else console.error(`[EDGE:${projectSlug}]`, truncated);
+                const prefix = `[EDGE:${instance.current?.logTag || projectSlug}]`;
+                instance.current?.logs.push(type, truncated);
+                if (type === 'error' || type === 'warn') console.error(prefix, truncated);
+                else console.log(prefix, truncated);
             };
 
-            await jail.set('console', new ivm.Reference({
-                log: new ivm.Callback((...args: any[]) => safeLog('log', ...args)),
-                error: new ivm.Callback((...args: any[]) => safeLog('error', ...args)),
-                warn: new ivm.Callback((...args: any[]) => safeLog('log', ...args))
-            }));
-
-            const projectRes = await systemPool.query('SELECT metadata FROM system.projects WHERE slug = $1', [projectSlug]);
-            const metadata = projectRes.rows[0]?.metadata || {};
-            const timezone = metadata.timezone || 'UTC';
-            const governance = metadata.ai_governance || {};
-            const isReadOnly = governance.mode === 'read_only';
+            await jail.set('_console_proxy', new ivm.Callback((type: string, message: string) => safeLog(type, message)));
 
             // Env Security
-            const enhancedEnv = { ...envVars, TZ: timezone };
+            const enhancedEnv = { ...envVars, TZ: settings.timezone };
             await jail.set('env', new ivm.ExternalCopy(enhancedEnv).copyInto());
 
-            await jail.set('_crypto_proxy', new ivm.Reference({
+
+            // --- WEB RUNTIME BRIDGES (see EdgeRuntime) ---
+            const webSync: Record<string, (...args: any[]) => any> = {
+                randomValues: (size: number) => {
+                    if (!Number.isInteger(size) || size < 0 || size > 65536) throw new RangeError('Random byte count must be between 0 and 65536');
+                    const buf = crypto.randomBytes(size);
+                    return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+                },
                 randomUUID: () => crypto.randomUUID(),
-                randomBytes: (size: number) => { const buf = crypto.randomBytes(size); return new ivm.ExternalCopy(buf.toString('hex')).copyInto(); }
-            }));
-            await jail.set('_encoding_proxy', new ivm.Reference({
-                btoa: (str: string) => Buffer.from(str).toString('base64'),
-                atob: (str: string) => Buffer.from(str, 'base64').toString('binary'),
-                fromHex: (hex: string) => new ivm.ExternalCopy(Buffer.from(hex, 'hex')).copyInto(),
-                toHex: (str: string) => Buffer.from(str).toString('hex')
+                parseURL: (input: string, base?: string) => { try { return urlParts(new URL(input, base)); } catch (e) { return null; } },
+                setURL: (href: string, part: string, value: string) => {
+                    if (!URL_SETTERS.includes(part)) return null;
+                    try { const url = new URL(href); (url as any)[part] = value; return urlParts(url); } catch (e) { return null; }
+                },
+                setTimer: (id: number, delay: number, repeat: boolean) => {
+                    const { timers } = active();
+                    if (timers.size >= MAX_TIMERS) throw new Error(`Too many active timers (limit ${MAX_TIMERS})`);
+                    const fire = () => {
+                        if (!repeat) timers.delete(id);
+                        if (!isolate.isDisposed && instance.timerFire) instance.timerFire.applyIgnored(undefined, [id]);
+                    };
+                    timers.set(id, repeat ? setInterval(fire, Math.max(1, delay)) : setTimeout(fire, delay));
+                },
+                clearTimer: (id: number) => {
+                    const timers = instance.current?.timers;
+                    if (timers) { clearTimeout(timers.get(id)); timers.delete(id); }
+                },
+                streamStart: (status: number, headers: [string, string][]) => {
+                    const invocation = active();
+                    if (!invocation.stream || invocation.streamState !== 'idle') throw new Error('Response stream is not available');
+                    invocation.streamState = 'open';
+                    invocation.stream.start(status, headers);
+                },
+                streamWrite: (chunk: ArrayBuffer) => {
+                    const invocation = instance.current;
+                    return !!invocation && invocation.streamState === 'open' && invocation.stream!.write(Buffer.from(chunk));
+                },
+                streamEnd: () => {
+                    const invocation = instance.current;
+                    if (invocation && invocation.streamState === 'open') { invocation.streamState = 'closed'; invocation.stream!.end(); }
+                }
+            };
+            await jail.set('_web_sync', new ivm.Reference((op: string, ...args: any[]) => {
+                if (!webSync[op]) throw new Error(`Unknown runtime operation: ${op}`);
+                return webSync[op](...args);
             }));
+            await jail.set('_web_async', new ivm.Reference(hostCall(async (_invocation, op: string, ...args: any[]) => {
+                if (!SUBTLE_OPS[op]) throw new Error(`crypto.subtle.${op} is not supported`);
+                if (isolate.isDisposed) throw new Error("Isolate disposed during crypto operation");
+                return SUBTLE_OPS[op](...args);
+            })));
             await jail.set('_cascata_utils', new ivm.Reference({
-                bcryptHash: async (plain: string) => { const hash = await bcrypt.hash(plain, 10); return new ivm.ExternalCopy(hash).copyInto(); },
-                bcryptCompare: async (plain: string, hash: string) => { const match = await bcrypt.compare(plain, hash); return new ivm.ExternalCopy(match).copyInto(); },
+                bcryptHash: hostCall(async (_invocation, plain: string) => { const hash = await bcrypt.hash(plain, 10); return new ivm.ExternalCopy(hash).copyInto(); }),
+                bcryptCompare: hostCall(async (_invocation, plain: string, hash: string) => { const match = await bcrypt.compare(plain, hash); return new ivm.ExternalCopy(match).copyInto(); }),
                 jwtSign: (payload: any, secret: string, options: any) => { const opts = { expiresIn: '1h', ...options }; const token = jwt.sign(payload, secret, opts); return new ivm.ExternalCopy(token).copyInto(); },
                 jwtVerify: (token: string, secret: string) => { try { const decoded = jwt.verify(token, secret, { algorithms: ['HS256'] }); return new ivm.ExternalCopy(decoded).copyInto(); } catch (e) { return new ivm.ExternalCopy(null).copyInto(); } }
             }));
 
+            // Cascata.queue.send(): only queues of this project, only while an invocation runs
+            await jail.set('_cascata_queue', new ivm.Reference(hostCall(async ({ queue }, queueName: string, bodies: any[], sendOptions: { delaySeconds?: number }) => {
+                if (queue) return queue(queueName, bodies, sendOptions);
+                const { EdgeQueueService } = await import('./EdgeQueueService.js');
+                return EdgeQueueService.send(projectSlug, queueName, bodies, sendOptions);
+            })));
+
             // --- OPTIMIZED DB INJECTION (Hardened) ---
             await jail.set('db', new ivm.Reference({
-                query: new ivm.Reference(async (sql: string, params: any[]) => {
+                query: new ivm.Reference(hostCall(async ({ user, userRole, projectPool, timeoutMs }, sql: string, params: any[]) => {
+                    // Claims, pool and timeout come from the invocation that made the call, never from the one that built the isolate
                     let client;
                     try {
                         client = await projectPool.connect();
@@ -171,9 +373,9 @@ export class EdgeService {
 
                         const configSql = `
                             BEGIN;
-                            ${isReadOnly ? 'SET TRANSACTION READ ONLY;' : ''}
+                            ${settings.isReadOnly ? 'SET TRANSACTION READ ONLY;' : ''}
                             SET LOCAL ROLE cascata_api_role;
-                            SET TIME ZONE '${timezone}';
+                            SET TIME ZONE '${settings.timezone}';
                             SET statement_timeout = ${dbTimeout};
                             SELECT ${claims.join(', ')};
                         `;
@@ -197,7 +399,7 @@ export class EdgeService {
                     } finally {
                         if (client) client.release();
                     }
-                })
+                }))
             }));
 
             // --- NETWORK HARDENING (SSRF Protection) ---
@@ -214,23 +416,24 @@ export class EdgeService {
             const httpAgent = new HttpAgent({ lookup: safeLookup });
             const httpsAgent = new HttpsAgent({ lookup: safeLookup });
 
-            // Dynamic Network Timeout: Allow fetch to run as long as the function allows (-500ms buffer)
-            const netTimeout = Math.max(1000, timeoutMs - 500);
-
-            await jail.set('fetch', new ivm.Reference(async (url: string, initStr: any) => {
-                let init = {}; try { init = initStr ? JSON.parse(initStr) : {}; } catch (e) { }
+            await jail.set('_net_proxy', new ivm.Reference(hostCall(async ({ timeoutMs }, url: string, init: { method?: string, headers?: [string, string][], body?: ArrayBuffer } = {}) => {
+                // Dynamic Network Timeout: Allow fetch to run as long as the function allows (-500ms buffer)
+                const netTimeout = Math.max(1000, timeoutMs - 500);
 
                 // Pre-flight check (Regex based)
                 await validateTargetUrl(url);
 
+                const requestHeaders: Record<string, string> = {};
+                for (const [name, value] of init.headers || []) requestHeaders[name] = requestHeaders[name] ? `${requestHeaders[name]}, ${value}` : value;
+
                 // SSRF Hardening: Disable auto-redirects to prevent bypassing validateTargetUrl via 302
                 // Force use of safe agents
                 try {
                     const response = await axios.request({
                         url,
-                        method: (init as any).method || 'GET',
-                        headers: (init as any).headers || {},
-                        data: (init as any).body,
+                        method: init.method || 'GET',
+                        headers: requestHeaders,
+                        data: init.body ? Buffer.from(init.body) : undefined,
                         maxRedirects: 0, // SECURITY: Manual redirect handling required
                         validateStatus: () => true,
                         httpAgent,
@@ -241,51 +444,312 @@ export class EdgeService {
 
                     if (isolate.isDisposed) throw new Error("Isolate disposed during fetch");
 
-                    const headers: Record<string, string> = {};
-                    Object.keys(response.headers).forEach(k => { const val = response.headers[k]; if (val) headers[k] = String(val); });
+                    const headers: [string, string][] = [];
+                    Object.keys(response.headers).forEach(k => {
+                        const val = response.headers[k];
+                        if (Array.isArray(val)) val.forEach(v => headers.push([k, String(v)]));
+                        else if (val !== undefined && val !== null) headers.push([k, String(val)]);
+                    });
+                    const data: Buffer = response.data;
 
                     return new ivm.ExternalCopy({
                         status: response.status,
                         statusText: response.statusText,
+                        url,
                         headers,
-                        text: response.data.toString('utf-8')
+                        body: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
                     }).copyInto();
 
                 } catch (e: any) {
                     if (isolate.isDisposed) throw new Error("Isolate disposed during fetch");
                     throw new Error(`Network Error: ${e.message}`);
                 }
-            }));
+            })));
+
+            // Web-standard globals first; the Cascata-specific surface below builds on them
+            const runtimeScript = await EdgeService.compileScript(isolate, EDGE_WEB_RUNTIME);
+            const runtime = await runtimeScript.run(scriptContext, { reference: true });
+            instance.timerFire = await runtime.get('fireTimer', { reference: true });
+            instance.dispatch = await runtime.get('dispatch', { reference: true });
+            instance.reset = await runtime.get('reset', { reference: true });
 
-            const polyfills = `
-                global.process = { env: env };
-                global.Cascata = { auth: { hashPassword: async (p) => _cascata_utils.apply(undefined, ['bcryptHash', p], { result: { promise: true, copy: true } }), verifyPassword: async (p, h) => _cascata_utils.apply(undefined, ['bcryptCompare', p, h], { result: { promise: true, copy: true } }), signToken: (p, s, o) => _cascata_utils.applySync(undefined, ['jwtSign', p, s, o], { result: { copy: true } }), verifyToken: (t, s) => _cascata_utils.applySync(undefined, ['jwtVerify', t, s], { result: { copy: true } }) } };
-                global.crypto = { randomUUID: () => _crypto_proxy.applySync(undefined, [], { result: { copy: true } }), randomBytes: (size) => _crypto_proxy.applySync(undefined, ['randomBytes', size], { result: { copy: true } }) };
-                global.btoa = (s) => _encoding_proxy.applySync(undefined, ['btoa', s], { result: { copy: true } });
-                global.atob = (s) => _encoding_proxy.applySync(undefined, ['atob', s], { result: { copy: true } });
-                global.TextEncoder = class TextEncoder { encode(str) { return new Uint8Array(Buffer.from(str)); } };
-                global.TextDecoder = class TextDecoder { decode(arr) { return Buffer.from(arr).toString('utf-8'); } };
-                global.Buffer = { from: (data, enc) => { if (typeof data === 'string' && enc === 'hex') { return _encoding_proxy.applySync(undefined, ['fromHex', data], { result: { copy: true } }); } return data; } };
-                global.$db = { query: async (sql, params) => db.get('query').apply(undefined, [sql, params || []], { arguments: { copy: true }, result: { promise: true } }) };
-                global.$fetch = async (url, init) => { const initStr = init ? JSON.stringify(init) : undefined; const res = await fetch.apply(undefined, [url, initStr], { arguments: { copy: true }, result: { promise: true } }); return { status: res.status, headers: res.headers, text: async () => res.text, json: async () => JSON.parse(res.text) }; };
-            `;
-            await isolate.compileScript(polyfills).then(s => s.run(scriptContext));
-            const module = await isolate.compileModule(code);
+            await EdgeService.compileScript(isolate, POLYFILLS).then(s => s.run(scriptContext));
+            const module = await EdgeService.compileModule(isolate, code);
             await module.instantiate(scriptContext, async (specifier) => {
                 const source = await EdgeService.fetchModuleSource(specifier);
-                return await isolate.compileModule(source);
+                return await EdgeService.compileModule(isolate, source);
             });
-            await module.evaluate({ timeout: timeoutMs });
-            const namespace = module.namespace;
-            const defaultExport = await namespace.get('default', { reference: true });
-            if (defaultExport.typeof !== 'function') return { status: 500, body: { error: "Edge Function must export a default function." } };
+            instance.module = module;
+            return instance;
+        } catch (e) {
+            if (!isolate.isDisposed) isolate.dispose();
+            throw e;
+        }
+    }
+
+    // V8 code cache (held by EdgeIsolatePool) for the runtime, polyfills, functions and their dependencies
+    private static async compileScript(isolate: ivm.Isolate, source: string): Promise<ivm.Script> {
+        const script = await isolate.compileScript(source, EdgeIsolatePool.compileOptions(source));
+        EdgeIsolatePool.storeCompiled(source, script as any);
+        return script;
+    }
+
+    private static async compileModule(isolate: ivm.Isolate, source: string): Promise<ivm.Module> {
+        const module = await isolate.compileModule(source, EdgeIsolatePool.compileOptions(source));
+        EdgeIsolatePool.storeCompiled(source, module as any);
+        return module;
+    }
+
+    /**
+     * Evaluates the module of a fresh instance and keeps its default export. Module scope runs once per
+     * isolate and is shared by every later invocation, so it runs with anonymous claims. Returns false
+     * when the default export is neither a function nor an object.
+     */
+    private static async evaluate(instance: EdgeInstance, projectPool: Pool, timeoutMs: number, logTag: string, logs: EdgeLogCollector = new EdgeLogCollector()): Promise<boolean> {
+        const invocation: Invocation = { user: {}, userRole: 'anon', projectPool, timeoutMs, logTag, streamState: 'idle', timers: new Map(), logs };
+        instance.current = invocation;
+        try {
+            await instance.module.evaluate({ timeout: timeoutMs });
+            const defaultExport = await instance.module.namespace.get('default', { reference: true });
+            if (defaultExport.typeof !== 'function' && defaultExport.typeof !== 'object') return false;
+            instance.handler = defaultExport;
+            instance.baselineHeap = (await instance.isolate.getHeapStatistics()).used_heap_size;
+            return true;
+        } finally {
+            EdgeService.endInvocation(instance, invocation);
+        }
+    }
+
+    /** Stops what an invocation left running so the next one starts clean. */
+    private static endInvocation(instance: EdgeInstance, invocation: Invocation) {
+        invocation.timers.forEach(timer => clearTimeout(timer));
+        invocation.timers.clear();
+        if (instance.current === invocation) instance.current = null;
+        try { if (!instance.isolate.isDisposed) instance.reset.applyIgnored(undefined, []); } catch (e) { }
+    }
+
+    /** Builds a replacement isolate in the background after one was recycled, so the next call stays warm. */
+    private static prewarm(key: string, code: string, envVars: Record<string, string>, settings: ProjectSettings, projectSlug: string, fingerprint: string, projectPool: Pool, timeoutMs: number, logTag: string) {
+        if (!EdgeIsolatePool.claimWarmup(key)) return;
+        (async () => {
+            let instance: EdgeInstance | null = null;
+            try {
+                instance = await EdgeService.createInstance(code, envVars, settings, projectSlug, fingerprint);
+                const isolate = instance.isolate;
+                const guard = setTimeout(() => { if (!isolate.isDisposed) isolate.dispose(); }, timeoutMs);
+                try {
+                    if (await EdgeService.evaluate(instance, projectPool, timeoutMs, logTag) && !instance.pending) {
+                        await EdgeIsolatePool.addWarm(key, instance);
+                        instance = null;
+                    }
+                } finally {
+                    clearTimeout(guard);
+                }
+            } catch (e: any) {
+                console.error(`[Edge:${projectSlug}] Pre-warm Error:`, e.message);
+            } finally {
+                if (instance && !instance.isolate.isDisposed) instance.isolate.dispose();
+                EdgeIsolatePool.endWarmup(key);
+            }
+        })();
+    }
+
+    /**
+     * Runs an edge function. The default export is either the original handler (`function(req)`, JSON
+     * result) or a WinterCG module (`{ fetch(request, env, ctx) }`, Response result). With
+     * `options.stream`, ReadableStream response bodies are written as they are produced.
+     *
+     * Isolates come from EdgeIsolatePool when a warm one matches the code, env and project settings;
+     * otherwise this is a cold start. Work a handler leaves unawaited (instead of passing it to
+     * `ctx.waitUntil`) loses access to the database and network once the invocation ends, and an
+     * isolate still waiting on such work is disposed instead of serving the next caller.
+     */
+    public static async execute(code: string, context: any, envVars: Record<string, string>, projectPool: Pool, timeoutMs: number = 5000, projectSlug: string, options: EdgeExecuteOptions = {}): Promise<EdgeResponse> {
+        const started = Date.now();
+        const settings = options.settings || await EdgeService.projectSettings(projectSlug);
+        // One bucket per deployed version: canary traffic would otherwise recycle the other version's isolates
+        const key = `${projectSlug}:${options.functionName || '-'}@${options.version ?? 'draft'}`;
+        const fingerprint = EdgeIsolatePool.fingerprint([code, envVars, settings]);
+        const logTag = options.logTag || projectSlug;
+        const user = context.user || {};
+        const invocation: Invocation = {
+            user,
+            userRole: user.role || (user.sub ? 'authenticated' : 'anon'),
+            projectPool,
+            timeoutMs,
+            logTag,
+            stream: options.stream,
+            streamState: 'idle',
+            timers: new Map(),
+            logs: options.logs || new EdgeLogCollector(),
+            queue: options.queue
+        };
+
+        let instance = EdgeIsolatePool.acquire<EdgeInstance>(key, fingerprint);
+        const cold = !instance;
+        let deadline: NodeJS.Timeout | undefined;
+        let timedOut = false;
+        let result: EdgeResponse | undefined;
+        let failure: string | null = null;
+        const done = (response: EdgeResponse) => (result = response);
+
+        try {
+            if (!instance) instance = await EdgeService.createInstance(code, envVars, settings, projectSlug, fingerprint);
+            const isolate = instance.isolate;
+
+            // Wall-clock limit for the whole invocation, async work and streamed bodies included
+            deadline = setTimeout(() => { timedOut = true; if (!isolate.isDisposed) isolate.dispose(); }, timeoutMs);
+            if (!instance.handler && !(await EdgeService.evaluate(instance, projectPool, timeoutMs, logTag, invocation.logs))) {
+                failure = 'Invalid default export';
+                return done({ status: 500, body: { error: "Edge Function must export a default function or an object with a fetch() handler." } });
+            }
+
+            instance.current = invocation;
             const reqCopy = new ivm.ExternalCopy(context).copyInto();
-            const resultRef = await defaultExport.apply(undefined, [reqCopy], { result: { promise: true, copy: true } });
-            return { status: 200, body: resultRef };
+            const outcome: any = await instance.dispatch.apply(undefined, [instance.handler!.derefInto(), reqCopy, !!invocation.stream], { result: { promise: true, copy: true } });
+
+            if (outcome.kind === 'event') return done({ status: 200, body: outcome.result });
+            if (outcome.kind === 'streamed') return done({ status: outcome.status, body: null, streamed: true });
+            if (outcome.kind === 'response') {
+                return done({ status: outcome.status, headers: outcome.headers, body: outcome.body ? Buffer.from(outcome.body) : Buffer.alloc(0), raw: true });
+            }
+            return done({ status: 200, body: outcome.body });
         } catch (e: any) {
             console.error(`[Edge:${projectSlug}] Execution Error:`, e.message);
-            if (e.message.includes('isolate is disposed') || e.message.includes('timeout')) return { status: 504, body: { error: `Execution Timed Out (${timeoutMs}ms limit)` } };
-            return { status: 500, body: { error: `Runtime Error: ${e.message.replace(/\/app\/backend\/services\//g, '[System]')}` } };
-        } finally { try { scriptContext.release(); if (!isolate.isDisposed) isolate.dispose(); } catch (cleanupErr) { } }
+            failure = e.message;
+            // Headers are gone already: all that is left is cutting the stream short
+            if (invocation.streamState !== 'idle') {
+                if (invocation.streamState === 'open') { invocation.streamState = 'closed'; invocation.stream!.end(e.message); }
+                return done({ status: 500, body: null, streamed: true });
+            }
+            if (timedOut || e.message.includes('isolate is disposed') || e.message.includes('timeout')) {
+                timedOut = true;
+                return done({ status: 504, body: { error: `Execution Timed Out (${timeoutMs}ms limit)` } });
+            }
+            return done({ status: 500, body: { error: `Runtime Error: ${e.message.replace(/\/app\/backend\/services\//g, '[System]')}` } });
+        } finally {
+            clearTimeout(deadline);
+            invocation.timers.forEach(timer => clearTimeout(timer));
+            invocation.timers.clear();
+            const durationMs = Date.now() - started;
+            EdgeIsolatePool.record(key, cold, durationMs);
+            if (instance) EdgeService.endInvocation(instance, invocation);
+
+            // Heap is read before the isolate goes back to the pool, which may dispose it
+            const heap = instance && !instance.isolate.isDisposed
+                ? instance.isolate.getHeapStatistics().then(h => h.used_heap_size, () => null)
+                : Promise.resolve(null);
+            if (options.functionName && options.record !== false) {
+                const functionName = options.functionName;
+                const status = result?.status ?? 500;
+                heap.then(memoryBytes => EdgeLogService.record({
+                    project_slug: projectSlug,
+                    function_name: functionName,
+                    request_id: options.requestId || null,
+                    trigger: options.trigger || 'http',
+                    version: options.version ?? null,
+                    alias: options.alias ?? null,
+                    method: context.method || null,
+                    path: EdgeService.pathOf(context.url),
+                    status,
+                    outcome: timedOut ? 'timeout' : (failure || status >= 500) ? 'error' : 'success',
+                    error: failure,
+                    duration_ms: durationMs,
+                    cold_start: cold,
+                    memory_bytes: memoryBytes,
+                    logs: invocation.logs.lines,
+                    logs_truncated: invocation.logs.truncated
+                }));
+            }
+
+            // A handler that throws keeps its isolate (as on Workers); timeouts, failed cold starts and
+            // isolates with host calls still in flight (their continuations would run in the next invocation) don't
+            const healthy = !!instance?.handler && !timedOut && !instance.pending;
+            heap.then(() => EdgeIsolatePool.release(key, instance, healthy)).then(reason => {
+                if (reason === 'uses' || reason === 'memory') {
+                    EdgeService.prewarm(key, code, envVars, settings, projectSlug, fingerprint, projectPool, timeoutMs, logTag);
+                }
+            }).catch(() => { });
+        }
+    }
+
+    private static pathOf(url: any): string | null {
+        if (typeof url !== 'string') return null;
+        try { return new URL(url).pathname; } catch (e) { return null; }
+    }
+
+    /** Vault secrets of the project overlaid with the function's own env vars. */
+    public static async resolveEnv(projectSlug: string, localEnv: Record<string, string> = {}): Promise<Record<string, string>> {
+        // INTEGRAÇÃO SEGURA COM CRYPTO ENGINE: Buscar ciphertexts e descriptografar via Go
+        const { CryptoService } = await import('./CryptoService.js');
+        const vaultRes = await systemPool.query(`
+            SELECT name, secret_value
+            FROM system.project_secrets
+            WHERE project_slug = $1 AND type != 'folder'
+        `, [projectSlug]);
+
+        const globalSecrets: Record<string, string> = {};
+        if (vaultRes.rows.length > 0) {
+            const ciphertexts = vaultRes.rows.map((r: any) => r.secret_value);
+            const plaintexts = await CryptoService.decryptBatch(ciphertexts);
+            for (let i = 0; i < vaultRes.rows.length; i++) {
+                globalSecrets[vaultRes.rows[i].name] = plaintexts[i];
+            }
+        }
+        return { ...globalSecrets, ...localEnv };
+    }
+
+    /**
+     * DETERMINAÇÃO DE CONNECTION STRING PARA O ENGINE
+     * O Engine não tem acesso ao middleware `resolveProject`, então precisamos
+     * passar a string de conexão explicitamente no contexto.
+     */
+    public static connectionString(project: { db_name: string, metadata?: any }): string {
+        if (project.metadata?.external_db_url) return project.metadata.external_db_url;
+        const dbHost = process.env.DB_DIRECT_HOST || 'db';
+        const dbPort = process.env.DB_DIRECT_PORT || '5432';
+        const user = process.env.DB_USER || 'cascata_admin';
+        const pass = process.env.DB_PASS || 'secure_pass';
+        return `postgresql://${user}:${pass}@${dbHost}:${dbPort}/${project.db_name}`;
+    }
+
+    /** Sends a non-streamed result. Streamed results were already written by `streamTo`. */
+    public static send(res: any, result: EdgeResponse) {
+        if (result.streamed) return;
+        if (!result.raw) return res.status(result.status).json(result.body);
+        res.status(result.status);
+        EdgeService.applyHeaders(res, result.headers || []);
+        res.end(result.body);
+    }
+
+    /** Response stream over an Express/Node response. */
+    public static streamTo(res: any): EdgeResponseStream {
+        return {
+            start: (status, headers) => {
+                res.status(status);
+                EdgeService.applyHeaders(res, headers);
+                res.flushHeaders();
+            },
+            write: (chunk) => {
+                if (res.destroyed || res.writableEnded) return false;
+                res.write(chunk);
+                return true;
+            },
+            end: (error) => {
+                if (res.destroyed || res.writableEnded) return;
+                if (error) res.destroy(new Error(error));
+                else res.end();
+            }
+        };
+    }
+
+    /** Copies function-set headers, minus the ones that describe the hop rather than the content. */
+    public static applyHeaders(res: any, headers: [string, string][]) {
+        for (const [name, value] of headers) {
+            const key = name.toLowerCase();
+            if (HOP_BY_HOP_HEADERS.includes(key)) continue;
+            if (key === 'set-cookie') res.append(name, value);
+            else res.setHeader(name, value);
+        }
     }
 }
@@ -0,0 +1,362 @@
+import fs from 'fs';
+import path from 'path';
+import util from 'util';
+import { pathToFileURL, fileURLToPath } from 'url';
+import { EdgeDevService, EdgeDevOptions, EdgeMockDb } from './EdgeDevService.js';
+
+const TEST_FILE = /\.test\.m?js$/;
+const DEFAULT_TEST_TIMEOUT_MS = 10000;
+
+type Hook = () => any;
+
+interface TestCase {
+    name: string;
+    fn: Hook;
+    skip: boolean;
+    timeoutMs: number;
+}
+
+interface Suite {
+    name: string;
+    parent: Suite | null;
+    tests: TestCase[];
+    suites: Suite[];
+    beforeAll: Hook[];
+    afterAll: Hook[];
+    beforeEach: Hook[];
+    afterEach: Hook[];
+    skip: boolean;
+}
+
+export interface EdgeTestSummary {
+    passed: number;
+    failed: number;
+    skipped: number;
+    files: number;
+}
+
+class AssertionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AssertionError';
+    }
+}
+
+const show = (value: any) => util.inspect(value, { depth: 6, breakLength: 120 });
+
+// Structural equality like Jest's toEqual: prototypes don't matter (values may come from the isolate's
+// realm) and properties holding undefined count as missing
+const equals = (a: any, b: any): boolean => {
+    if (Object.is(a, b)) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => equals(item, b[i]));
+    }
+    if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    if (ArrayBuffer.isView(a) || ArrayBuffer.isView(b)) {
+        return ArrayBuffer.isView(a) && ArrayBuffer.isView(b) && Buffer.from(a.buffer, a.byteOffset, a.byteLength).equals(Buffer.from(b.buffer, b.byteOffset, b.byteLength));
+    }
+    const keys = (o: any) => Object.keys(o).filter(k => o[k] !== undefined);
+    const aKeys = keys(a);
+    const bKeys = keys(b);
+    return aKeys.length === bKeys.length && aKeys.every(k => Object.prototype.hasOwnProperty.call(b, k) && equals(a[k], b[k]));
+};
+
+// Every property of `expected` is present in `actual` with a matching value (arrays match element-wise)
+const matchesObject = (actual: any, expected: any): boolean => {
+    if (expected === null || typeof expected !== 'object' || expected instanceof Date) return equals(actual, expected);
+    if (actual === null || typeof actual !== 'object') return false;
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && actual.length === expected.length && expected.every((item, i) => matchesObject(actual[i], item));
+    }
+    return Object.keys(expected).every(key => matchesObject(actual[key], expected[key]));
+};
+
+const errorMatches = (error: any, expected?: string | RegExp | Function) => {
+    if (expected === undefined) return true;
+    const message = error instanceof Error ? error.message : String(error);
+    if (typeof expected === 'string') return message.includes(expected);
+    if (expected instanceof RegExp) return expected.test(message);
+    return error instanceof (expected as any);
+};
+
+// name -> (actual, ...expected) => [passed, description of what was expected]
+const MATCHERS: Record<string, (actual: any, ...args: any[]) => [boolean, string]> = {
+    toBe: (actual, expected) => [Object.is(actual, expected), `to be ${show(expected)}`],
+    toEqual: (actual, expected) => [equals(actual, expected), `to equal ${show(expected)}`],
+    toMatchObject: (actual, expected) => [matchesObject(actual, expected), `to match object ${show(expected)}`],
+    toBeTruthy: (actual) => [!!actual, 'to be truthy'],
+    toBeFalsy: (actual) => [!actual, 'to be falsy'],
+    toBeNull: (actual) => [actual === null, 'to be null'],
+    toBeUndefined: (actual) => [actual === undefined, 'to be undefined'],
+    toBeDefined: (actual) => [actual !== undefined, 'to be defined'],
+    toBeGreaterThan: (actual, n) => [actual > n, `to be greater than ${n}`],
+    toBeGreaterThanOrEqual: (actual, n) => [actual >= n, `to be greater than or equal to ${n}`],
+    toBeLessThan: (actual, n) => [actual < n, `to be less than ${n}`],
+    toBeLessThanOrEqual: (actual, n) => [actual <= n, `to be less than or equal to ${n}`],
+    toContain: (actual, item) => [actual != null && typeof actual.includes === 'function' && actual.includes(item), `to contain ${show(item)}`],
+    toContainEqual: (actual, item) => [Array.isArray(actual) && actual.some(entry => equals(entry, item)), `to contain equal ${show(item)}`],
+    toHaveLength: (actual, length) => [actual != null && actual.length === length, `to have length ${length}`],
+    toHaveProperty: (actual, key, ...value) => {
+        const present = actual != null && Object.prototype.hasOwnProperty.call(Object(actual), key);
+        if (value.length === 0) return [present, `to have property ${show(key)}`];
+        return [present && equals(actual[key], value[0]), `to have property ${show(key)} equal to ${show(value[0])}`];
+    },
+    toMatch: (actual, pattern) => [typeof actual === 'string' && (typeof pattern === 'string' ? actual.includes(pattern) : pattern.test(actual)), `to match ${show(pattern)}`],
+    toThrow: (actual, expected) => {
+        if (typeof actual !== 'function') throw new AssertionError('toThrow() needs a function; use expect(promise).rejects.toThrow() for async code');
+        try {
+            actual();
+        } catch (e) {
+            return [errorMatches(e, expected), expected === undefined ? 'to throw' : `to throw ${show(expected)}`];
+        }
+        return [false, expected === undefined ? 'to throw' : `to throw ${show(expected)}`];
+    }
+};
+
+const assertWith = (actual: any, negated: boolean, label: string) => {
+    const matchers: Record<string, (...args: any[]) => void> = {};
+    for (const [name, matcher] of Object.entries(MATCHERS)) {
+        matchers[name] = (...args: any[]) => {
+            const [passed, expectation] = matcher(actual, ...args);
+            if (passed === negated) {
+                throw new AssertionError(`Expected ${label}${show(actual)} ${negated ? 'not ' : ''}${expectation}`);
+            }
+        };
+    }
+    return matchers;
+};
+
+// Async variants: settle the promise first, then apply the matcher to its value or rejection
+const settleWith = (promise: any, expectRejection: boolean) => {
+    const wrap = (negated: boolean) => {
+        const matchers: Record<string, (...args: any[]) => Promise<void>> = {};
+        for (const name of Object.keys(MATCHERS)) {
+            matchers[name] = async (...args: any[]) => {
+                let value: any;
+                let rejected = false;
+                try { value = await promise; } catch (e) { value = e; rejected = true; }
+                if (rejected !== expectRejection) {
+                    throw new AssertionError(`Expected promise to ${expectRejection ? 'reject' : 'resolve'}, but it ${rejected ? `rejected with ${show(value)}` : `resolved to ${show(value)}`}`);
+                }
+                // toThrow on a rejection checks the rejection reason itself
+                const subject = name === 'toThrow' ? () => { throw value; } : value;
+                assertWith(subject, negated, expectRejection ? 'rejection ' : 'resolved value ')[name](...args);
+            };
+        }
+        return matchers;
+    };
+    return { ...wrap(false), not: wrap(true) };
+};
+
+export const expect = (actual: any) => ({
+    ...assertWith(actual, false, ''),
+    not: assertWith(actual, true, ''),
+    resolves: settleWith(actual, false),
+    rejects: settleWith(actual, true)
+});
+
+/**
+ * EdgeTestRunner
+ * A small Jest-style runner for edge functions: `*.test.js` / `*.test.mjs` files use the globals
+ * describe/test/it/expect/beforeAll/afterAll/beforeEach/afterEach, plus `edge`:
+ *
+ *   const fn = edge.load('./hello.js');       // relative to the test file
+ *   const res = await fn.fetch({ method: 'POST', body: { name: 'Ana' } });
+ *   expect(res.status).toBe(200);
+ *
+ * `edge.mockDb()` returns an EdgeMockDb for `edge.load(file, { db })`. Files run one after the other,
+ * tests in declaration order. The summary reports failures; the caller turns them into an exit code.
+ */
+export class EdgeTestRunner {
+    private static root: Suite;
+    private static current: Suite;
+    private static currentFile = '';
+
+    private static suite(name: string, parent: Suite | null, skip = false): Suite {
+        return { name, parent, tests: [], suites: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [], skip };
+    }
+
+    /** Test files under `targets` (files or directories), node_modules excluded. */
+    public static discover(targets: string[]): string[] {
+        const found: string[] = [];
+        const walk = (target: string) => {
+            const stat = fs.statSync(target);
+            if (stat.isFile()) {
+                found.push(target);
+                return;
+            }
+            for (const entry of fs.readdirSync(target, { withFileTypes: true })) {
+                if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+                const full = path.join(target, entry.name);
+                if (entry.isDirectory()) walk(full);
+                else if (TEST_FILE.test(entry.name)) found.push(full);
+            }
+        };
+        targets.forEach(target => walk(path.resolve(target)));
+        return [...new Set(found)].sort();
+    }
+
+    private static installGlobals(defaults: EdgeDevOptions) {
+        const define = (skip: boolean) => (name: string, fn: Hook) => {
+            const parent = EdgeTestRunner.current;
+            const suite = EdgeTestRunner.suite(name, parent, skip || parent.skip);
+            parent.suites.push(suite);
+            EdgeTestRunner.current = suite;
+            try { fn(); } finally { EdgeTestRunner.current = parent; }
+        };
+        const register = (skip: boolean) => (name: string, fn: Hook, timeoutMs: number = DEFAULT_TEST_TIMEOUT_MS) => {
+            EdgeTestRunner.current.tests.push({ name, fn, skip: skip || EdgeTestRunner.current.skip, timeoutMs });
+        };
+        const hook = (kind: 'beforeAll' | 'afterAll' | 'beforeEach' | 'afterEach') => (fn: Hook) => { EdgeTestRunner.current[kind].push(fn); };
+
+        const describe: any = define(false);
+        describe.skip = define(true);
+        const test: any = register(false);
+        test.skip = register(true);
+
+        Object.assign(globalThis, {
+            describe,
+            test,
+            it: test,
+            expect,
+            beforeAll: hook('beforeAll'),
+            afterAll: hook('afterAll'),
+            beforeEach: hook('beforeEach'),
+            afterEach: hook('afterEach'),
+            edge: {
+                load: (file: string | URL, options: EdgeDevOptions = {}) => {
+                    const resolved = file instanceof URL ? fileURLToPath(file) : path.resolve(path.dirname(EdgeTestRunner.currentFile), file);
+                    return EdgeDevService.load(resolved, { ...defaults, ...options, env: { ...defaults.env, ...options.env } });
+                },
+                mockDb: () => new EdgeMockDb(),
+                loadEnv: (file: string) => EdgeDevService.loadEnv(path.resolve(path.dirname(EdgeTestRunner.currentFile), file))
+            }
+        });
+    }
+
+    private static async withTimeout(fn: Hook, timeoutMs: number, label: string) {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                Promise.resolve().then(fn),
+                new Promise((_, reject) => { timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs); })
+            ]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private static chain(suite: Suite | null, kind: 'beforeEach' | 'afterEach'): Hook[] {
+        const hooks: Hook[] = [];
+        for (let s = suite; s; s = s.parent) hooks.unshift(...s[kind]);
+        return kind === 'afterEach' ? hooks.reverse() : hooks;
+    }
+
+    private static countTests(suite: Suite): number {
+        return suite.tests.length + suite.suites.reduce((n, child) => n + EdgeTestRunner.countTests(child), 0);
+    }
+
+    private static async runSuite(suite: Suite, depth: number, summary: EdgeTestSummary, failures: string[], trail: string[]) {
+        const indent = '  '.repeat(depth);
+        if (suite.name) console.log(`${indent}${suite.name}`);
+        const names = suite.name ? [...trail, suite.name] : trail;
+        const inner = suite.name ? depth + 1 : depth;
+
+        if (!suite.skip) {
+            try {
+                for (const fn of suite.beforeAll) await EdgeTestRunner.withTimeout(fn, DEFAULT_TEST_TIMEOUT_MS, 'beforeAll');
+            } catch (e: any) {
+                // Nothing in the suite can run without its setup
+                const count = EdgeTestRunner.countTests(suite);
+                summary.failed += count;
+                failures.push(`${[...names, 'beforeAll'].join(' › ')}\n${EdgeTestRunner.describeError(e)}`);
+                console.log(`${'  '.repeat(inner)}✕ beforeAll failed (${count} tests not run)`);
+                return;
+            }
+        }
+
+        for (const test of suite.tests) {
+            const prefix = '  '.repeat(inner);
+            if (test.skip) {
+                summary.skipped++;
+                console.log(`${prefix}○ ${test.name} (skipped)`);
+                continue;
+            }
+            const started = Date.now();
+            try {
+                for (const fn of EdgeTestRunner.chain(suite, 'beforeEach')) await EdgeTestRunner.withTimeout(fn, test.timeoutMs, 'beforeEach');
+                try {
+                    await EdgeTestRunner.withTimeout(test.fn, test.timeoutMs, 'Test');
+                } finally {
+                    for (const fn of EdgeTestRunner.chain(suite, 'afterEach')) await EdgeTestRunner.withTimeout(fn, test.timeoutMs, 'afterEach');
+                }
+                summary.passed++;
+                console.log(`${prefix}✓ ${test.name} (${Date.now() - started} ms)`);
+            } catch (e: any) {
+                summary.failed++;
+                failures.push(`${[...names, test.name].join(' › ')}\n${EdgeTestRunner.describeError(e)}`);
+                console.log(`${prefix}✕ ${test.name} (${Date.now() - started} ms)`);
+            }
+        }
+
+        for (const child of suite.suites) await EdgeTestRunner.runSuite(child, inner, summary, failures, names);
+
+        if (!suite.skip) {
+            for (const fn of suite.afterAll) {
+                try {
+                    await EdgeTestRunner.withTimeout(fn, DEFAULT_TEST_TIMEOUT_MS, 'afterAll');
+                } catch (e: any) {
+                    summary.failed++;
+                    failures.push(`${[...names, 'afterAll'].join(' › ')}\n${EdgeTestRunner.describeError(e)}`);
+                }
+            }
+        }
+    }
+
+    private static describeError(e: any): string {
+        if (e instanceof AssertionError) return `    ${e.message}`;
+        const text = e instanceof Error ? (e.stack || e.message) : show(e);
+        return text.split('\n').slice(0, 6).map(line => `    ${line}`).join('\n');
+    }
+
+    /** Runs the test files with `defaults` for every `edge.load()` (env, db, timeout...). */
+    public static async run(files: string[], defaults: EdgeDevOptions = {}): Promise<EdgeTestSummary> {
+        const summary: EdgeTestSummary = { passed: 0, failed: 0, skipped: 0, files: files.length };
+        EdgeTestRunner.installGlobals(defaults);
+        const started = Date.now();
+
+        for (const file of files) {
+            const failures: string[] = [];
+            const before = summary.failed;
+            EdgeTestRunner.root = EdgeTestRunner.suite('', null);
+            EdgeTestRunner.current = EdgeTestRunner.root;
+            EdgeTestRunner.currentFile = file;
+            const relative = path.relative(process.cwd(), file) || file;
+
+            try {
+                await import(pathToFileURL(file).href);
+            } catch (e: any) {
+                summary.failed++;
+                console.log(`FAIL ${relative}`);
+                console.log(`  Test file failed to load:\n${EdgeTestRunner.describeError(e)}\n`);
+                continue;
+            }
+
+            console.log(relative);
+            await EdgeTestRunner.runSuite(EdgeTestRunner.root, 1, summary, failures, []);
+            console.log(summary.failed > before ? `FAIL ${relative}` : `PASS ${relative}`);
+            for (const failure of failures) console.log(`\n  ● ${failure}`);
+            console.log('');
+        }
+
+        const parts = [
+            summary.failed ? `${summary.failed} failed` : null,
+            summary.skipped ? `${summary.skipped} skipped` : null,
+            `${summary.passed} passed`,
+            `${summary.passed + summary.failed + summary.skipped} total`
+        ].filter(Boolean);
+        console.log(`Tests: ${parts.join(', ')} (${files.length} files, ${((Date.now() - started) / 1000).toFixed(2)}s)`);
+        return summary;
+    }
+}
@@ -0,0 +1,255 @@
+import axios from 'axios';
+import cronParser from 'cron-parser';
+import process from 'process';
+import { systemPool } from '../src/config/main.js';
+import { EdgeService, EdgeResponse } from './EdgeService.js';
+import { EdgeVersionService } from './EdgeVersionService.js';
+import { PoolService } from './PoolService.js';
+import { QueueService } from './QueueService.js';
+import { CronService } from './CronService.js';
+
+export interface EdgeInvokeOptions {
+    trigger: 'scheduled' | 'queue';
+    alias?: string;
+    timeoutMs?: number; // Defaults to the function's own timeout
+    requestId?: string;
+}
+
+const SCHEDULE_COLUMNS = `s.id, s.cron, s.timezone, s.alias, s.payload, s.is_active, s.last_fired_at, s.last_status, s.last_error, s.created_at, s.updated_at`;
+
+/**
+ * EdgeTriggerService
+ * Runs edge functions without an HTTP request (cron schedules, queue consumers) and manages their
+ * cron schedules. Schedules are BullMQ repeatable jobs on the maintenance queue, like scheduled
+ * automations; the function's scheduled() handler receives { cron, scheduledTime, payload }.
+ */
+export class EdgeTriggerService {
+
+    public static async init() {
+        console.log('[EdgeTriggerService] Initializing Edge Function Schedules...');
+        try {
+            const res = await systemPool.query(`SELECT id, cron, timezone FROM system.edge_schedules WHERE is_active = true`);
+            for (const schedule of res.rows) await this.register(schedule);
+            console.log(`[EdgeTriggerService] Synchronized ${res.rows.length} edge function schedules.`);
+        } catch (e: any) {
+            console.error('[EdgeTriggerService] Sync failed:', e.message);
+        }
+    }
+
+    // --- Invocation ---
+
+    /**
+     * Resolves the deployment behind `alias` and runs it, on the Engine when there is one. `context`
+     * carries the trigger payload (see EdgeRuntime's dispatchEvent); there is no caller identity.
+     */
+    public static async invoke(projectSlug: string, functionName: string, context: any, options: EdgeInvokeOptions): Promise<EdgeResponse> {
+        const projectRes = await systemPool.query('SELECT slug, db_name, metadata FROM system.projects WHERE slug = $1', [projectSlug]);
+        const project = projectRes.rows[0];
+        if (!project) throw new Error(`Project '${projectSlug}' not found`);
+
+        const assetRes = await systemPool.query(
+            "SELECT id, name, metadata FROM system.assets WHERE project_slug = $1 AND name = $2 AND type = 'edge_function'",
+            [projectSlug, functionName]
+        );
+        const asset = assetRes.rows[0];
+        if (!asset) throw new Error(`Edge function '${functionName}' not found`);
+
+        const deployment = await EdgeVersionService.resolve(asset, { alias: options.alias });
+        if (!deployment?.code) throw new Error(`Edge function '${functionName}' has nothing deployed on alias '${options.alias || 'prod'}'`);
+
+        const envVars = await EdgeService.resolveEnv(projectSlug, deployment.config.env_vars || {});
+        const timeoutMs = options.timeoutMs ?? (deployment.config.timeout || 5) * 1000;
+        const logTag = `${projectSlug}:${functionName}@${deployment.version !== null ? `v${deployment.version}` : 'draft'}`;
+        const meta = { functionName, requestId: options.requestId, version: deployment.version, alias: deployment.alias, trigger: options.trigger };
+        const fullContext = { ...context, user: null, _db_connection_string: EdgeService.connectionString(project) };
+
+        if (process.env.ENGINE_URL) {
+            const engineRes = await axios.post(`${process.env.ENGINE_URL}/internal/run`, {
+                code: deployment.code,
+                context: fullContext,
+                envVars,
+                timeout: timeoutMs,
+                slug: projectSlug,
+                logTag,
+                ...meta
+            }, { timeout: timeoutMs + 1000, validateStatus: () => true });
+            return { status: engineRes.status, body: engineRes.data };
+        }
+
+        const projectPool = PoolService.get(project.db_name, { connectionString: project.metadata?.external_db_url });
+        return EdgeService.execute(deployment.code, fullContext, envVars, projectPool, timeoutMs, projectSlug, { logTag, ...meta });
+    }
+
+    /** 'success', 'timeout' or 'error' plus the error message, from the result of `invoke`. */
+    public static outcomeOf(result: EdgeResponse): { status: 'success' | 'error' | 'timeout', error: string | null } {
+        if (result.status === 504) return { status: 'timeout', error: result.body?.error || 'Execution timed out' };
+        if (result.status >= 400) return { status: 'error', error: result.body?.error || `Failed with status ${result.status}` };
+        return { status: 'success', error: null };
+    }
+
+    // --- Schedules ---
+
+    private static async findFunction(projectSlug: string, name: string): Promise<{ id: string } | null> {
+        const res = await systemPool.query(
+            "SELECT id FROM system.assets WHERE project_slug = $1 AND name = $2 AND type = 'edge_function'",
+            [projectSlug, name]
+        );
+        return res.rows[0] || null;
+    }
+
+    /** Normalizes schedule input. `partial` is for PATCH: only the given fields are checked. */
+    private static validateSchedule(input: any, partial: boolean): { values: Record<string, any> } | { error: string } {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'Body must be an object.' };
+        const values: Record<string, any> = {};
+
+        if (input.cron !== undefined || !partial) {
+            if (typeof input.cron !== 'string' || !input.cron.trim()) return { error: 'cron is required.' };
+            values.cron = input.cron.trim();
+        }
+        if (input.timezone !== undefined) {
+            try {
+                new Intl.DateTimeFormat('en-US', { timeZone: input.timezone });
+            } catch (e) {
+                return { error: `Unknown timezone "${input.timezone}".` };
+            }
+            values.timezone = input.timezone;
+        }
+        if (values.cron) {
+            try {
+                cronParser.parseExpression(values.cron, { tz: values.timezone || 'UTC' });
+            } catch (e: any) {
+                return { error: `Invalid cron expression "${values.cron}": ${e.message}` };
+            }
+        }
+        if (input.alias !== undefined) {
+            if (!EdgeVersionService.isValidAlias(input.alias)) return { error: 'Invalid alias.' };
+            values.alias = input.alias;
+        }
+        if (input.payload !== undefined) values.payload = JSON.stringify(input.payload);
+        if (input.is_active !== undefined) {
+            if (typeof input.is_active !== 'boolean') return { error: 'is_active must be a boolean.' };
+            values.is_active = input.is_active;
+        }
+        return { values };
+    }
+
+    private static withNextRuns(schedule: any) {
+        let nextRuns: string[] = [];
+        if (schedule.is_active) {
+            try { nextRuns = CronService.nextRuns(schedule.cron, schedule.timezone, 3); } catch (e) { /* Unparseable after a cron-parser upgrade */ }
+        }
+        return { ...schedule, next_runs: nextRuns };
+    }
+
+    public static async listSchedules(projectSlug: string, functionName: string): Promise<any[] | null> {
+        const asset = await this.findFunction(projectSlug, functionName);
+        if (!asset) return null;
+        const res = await systemPool.query(
+            `SELECT ${SCHEDULE_COLUMNS} FROM system.edge_schedules s WHERE s.asset_id = $1 ORDER BY s.created_at`,
+            [asset.id]
+        );
+        return res.rows.map(row => this.withNextRuns(row));
+    }
+
+    public static async createSchedule(projectSlug: string, functionName: string, input: any): Promise<any | { error: string } | null> {
+        const asset = await this.findFunction(projectSlug, functionName);
+        if (!asset) return null;
+        const checked = this.validateSchedule(input, false);
+        if ('error' in checked) return checked;
+        const { cron, timezone, alias, payload, is_active } = checked.values;
+
+        const res = await systemPool.query(
+            `INSERT INTO system.edge_schedules AS s (asset_id, project_slug, cron, timezone, alias, payload, is_active)
+             VALUES ($1, $2, $3, COALESCE($4, 'UTC'), COALESCE($5, 'prod'), $6, COALESCE($7, true))
+             RETURNING ${SCHEDULE_COLUMNS}`,
+            [asset.id, projectSlug, cron, timezone ?? null, alias ?? null, payload ?? null, is_active ?? null]
+        );
+        const schedule = res.rows[0];
+        if (schedule.is_active) await this.register(schedule);
+        return this.withNextRuns(schedule);
+    }
+
+    public static async updateSchedule(projectSlug: string, functionName: string, scheduleId: string, input: any): Promise<any | { error: string } | null> {
+        const asset = await this.findFunction(projectSlug, functionName);
+        if (!asset) return null;
+        const checked = this.validateSchedule(input, true);
+        if ('error' in checked) return checked;
+
+        const current = await systemPool.query(`SELECT cron, timezone FROM system.edge_schedules WHERE id = $1 AND asset_id = $2`, [scheduleId, asset.id]);
+        if (!current.rows[0]) return null;
+        // A new timezone alone still has to accept the stored expression
+        const checkedTz = this.validateSchedule({ cron: checked.values.cron || current.rows[0].cron, timezone: checked.values.timezone || current.rows[0].timezone }, false);
+        if ('error' in checkedTz) return checkedTz;
+
+        const fields = Object.keys(checked.values);
+        if (fields.length === 0) return { error: 'Nothing to update.' };
+        const res = await systemPool.query(
+            `UPDATE system.edge_schedules s SET ${fields.map((f, i) => `${f} = $${i + 3}`).join(', ')}, updated_at = NOW()
+             WHERE s.id = $1 AND s.asset_id = $2
+             RETURNING ${SCHEDULE_COLUMNS}`,
+            [scheduleId, asset.id, ...fields.map(f => checked.values[f])]
+        );
+        const schedule = res.rows[0];
+        await this.unregister(scheduleId);
+        if (schedule.is_active) await this.register(schedule);
+        return this.withNextRuns(schedule);
+    }
+
+    public static async deleteSchedule(projectSlug: string, functionName: string, scheduleId: string): Promise<boolean> {
+        const asset = await this.findFunction(projectSlug, functionName);
+        if (!asset) return false;
+        const res = await systemPool.query(`DELETE FROM system.edge_schedules WHERE id = $1 AND asset_id = $2`, [scheduleId, asset.id]);
+        await this.unregister(scheduleId);
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    private static async register(schedule: { id: string, cron: string, timezone: string }) {
+        try {
+            await QueueService.scheduleEdgeFunction(schedule.id, schedule.cron, schedule.timezone);
+        } catch (e: any) {
+            console.error(`[EdgeTriggerService] Failed to register schedule ${schedule.id}:`, e.message);
+        }
+    }
+
+    private static async unregister(scheduleId: string) {
+        try {
+            await QueueService.removeEdgeSchedule(scheduleId);
+        } catch (e: any) {
+            console.error(`[EdgeTriggerService] Failed to unregister schedule ${scheduleId}:`, e.message);
+        }
+    }
+
+    /** Runs one occurrence delivered by the repeatable job. Schedules deleted with their function clean up here. */
+    public static async fire(scheduleId: string, scheduledFor: number): Promise<void> {
+        const res = await systemPool.query(
+            `SELECT s.id, s.project_slug, s.cron, s.alias, s.payload, s.is_active, a.name AS function_name
+             FROM system.edge_schedules s JOIN system.assets a ON a.id = s.asset_id
+             WHERE s.id = $1`,
+            [scheduleId]
+        );
+        const schedule = res.rows[0];
+        if (!schedule || !schedule.is_active) {
+            await this.unregister(scheduleId);
+            return;
+        }
+
+        let outcome: { status: string, error: string | null };
+        try {
+            const result = await this.invoke(schedule.project_slug, schedule.function_name, {
+                trigger: 'scheduled',
+                cron: schedule.cron,
+                scheduledTime: scheduledFor,
+                payload: schedule.payload ?? null
+            }, { trigger: 'scheduled', alias: schedule.alias, requestId: `sched_${scheduleId}_${scheduledFor}` });
+            outcome = this.outcomeOf(result);
+        } catch (e: any) {
+            outcome = { status: 'error', error: e.message };
+        }
+
+        await systemPool.query(
+            `UPDATE system.edge_schedules SET last_fired_at = NOW(), last_status = $2, last_error = $3 WHERE id = $1`,
+            [scheduleId, outcome.status, outcome.error ? outcome.error.slice(0, 2000) : null]
+        );
+        if (outcome.error) console.error(`[EdgeTriggerService] Schedule ${scheduleId} (${schedule.function_name}) failed:`, outcome.error);
+    }
+}
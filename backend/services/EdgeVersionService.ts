@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import { systemPool } from '../src/config/main.js';
+
+/** What `/edge/:name` executes: a deployed version, or the draft for functions never deployed. */
+export interface ResolvedEdgeFunction {
+    code: string;
+    config: { env_vars?: Record<string, string>, timeout?: number, imports?: any };
+    version: number | null;      // null = draft
+    versionId: string | null;
+    alias: string | null;
+    canary: boolean;
+}
+
+export interface AliasTarget {
+    version: number;
+    canary_version?: number | null;
+    canary_percent?: number;
+}
+
+const DEFAULT_ALIAS = 'prod';
+const ALIAS_NAME = /^[a-z][a-z0-9_-]{0,31}$/;
+
+/**
+ * EdgeVersionService
+ * Immutable deploys of edge functions, aliases over them, rollback and canary routing.
+ */
+export class EdgeVersionService {
+
+    public static isValidAlias(alias: string): boolean {
+        return typeof alias === 'string' && ALIAS_NAME.test(alias);
+    }
+
+    private static async findFunction(projectSlug: string, name: string, client: any = systemPool): Promise<any | null> {
+        const res = await client.query(
+            `SELECT id, name, metadata FROM system.assets WHERE project_slug = $1 AND name = $2 AND type = 'edge_function'`,
+            [projectSlug, name]
+        );
+        return res.rows[0] || null;
+    }
+
+    private static configOf(metadata: any): ResolvedEdgeFunction['config'] {
+        const { env_vars, timeout, imports } = metadata || {};
+        return { env_vars: env_vars || {}, timeout, imports };
+    }
+
+    // --- Deploys ---
+
+    /**
+     * Freezes the current draft into the next version. `alias` (optional) is pointed at it in the
+     * same transaction, so a deploy to prod is atomic.
+     */
+    public static async deploy(
+        projectSlug: string,
+        name: string,
+        options: { description?: string, alias?: string, createdBy?: string } = {}
+    ): Promise<any | { error: string } | null> {
+        const client = await systemPool.connect();
+        try {
+            await client.query('BEGIN');
+            const asset = await client.query(
+                `SELECT id, metadata FROM system.assets
+                 WHERE project_slug = $1 AND name = $2 AND type = 'edge_function' FOR UPDATE`,
+                [projectSlug, name]
+            );
+            if (!asset.rows[0]) {
+                await client.query('ROLLBACK');
+                return null;
+            }
+            const { id: assetId, metadata } = asset.rows[0];
+            const code = metadata?.sql;
+            if (!code || typeof code !== 'string') {
+                await client.query('ROLLBACK');
+                return { error: 'The function has no code to deploy.' };
+            }
+
+            const next = await client.query(
+                `SELECT COALESCE(MAX(version), 0) + 1 AS version FROM system.edge_function_versions WHERE asset_id = $1`,
+                [assetId]
+            );
+            const inserted = await client.query(
+                `INSERT INTO system.edge_function_versions (asset_id, project_slug, version, code, config, code_sha256, description, created_by)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                 RETURNING id, version, code_sha256, description, created_by, created_at`,
+                [
+                    assetId,
+                    projectSlug,
+                    next.rows[0].version,
+                    code,
+                    JSON.stringify(this.configOf(metadata)),
+                    crypto.createHash('sha256').update(code).digest('hex'),
+                    options.description || null,
+                    options.createdBy || null
+                ]
+            );
+
+            let alias = null;
+            if (options.alias) {
+                alias = await this.pointAlias(client, assetId, projectSlug, options.alias, inserted.rows[0].id, null, 0, options.createdBy);
+            }
+            await client.query('COMMIT');
+            return { ...inserted.rows[0], alias };
+        } catch (e) {
+            await client.query('ROLLBACK').catch(() => { });
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+
+    public static async listVersions(projectSlug: string, name: string): Promise<any[] | null> {
+        const asset = await this.findFunction(projectSlug, name);
+        if (!asset) return null;
+        const res = await systemPool.query(
+            `SELECT v.id, v.version, v.code_sha256, v.description, v.created_by, v.created_at,
+                    COALESCE(array_agg(DISTINCT a.name) FILTER (WHERE a.name IS NOT NULL), '{}') AS aliases
+             FROM system.edge_function_versions v
+             LEFT JOIN system.edge_function_aliases a
+                ON a.asset_id = v.asset_id AND (a.version_id = v.id OR a.canary_version_id = v.id)
+             WHERE v.asset_id = $1
+             GROUP BY v.id
+             ORDER BY v.version DESC`,
+            [asset.id]
+        );
+        return res.rows;
+    }
+
+    public static async getVersion(projectSlug: string, name: string, version: number): Promise<any | null> {
+        const asset = await this.findFunction(projectSlug, name);
+        if (!asset) return null;
+        const res = await systemPool.query(
+            `SELECT id, version, code, config, code_sha256, description, created_by, created_at
+             FROM system.edge_function_versions WHERE asset_id = $1 AND version = $2`,
+            [asset.id, version]
+        );
+        return res.rows[0] || null;
+    }
+
+    // --- Aliases ---
+
+    private static async pointAlias(
+        client: any,
+        assetId: string,
+        projectSlug: string,
+        alias: string,
+        versionId: string,
+        canaryVersionId: string | null,
+        canaryPercent: number,
+        updatedBy?: string
+    ): Promise<any> {
+        const res = await client.query(
+            `INSERT INTO system.edge_function_aliases
+                (asset_id, project_slug, name, version_id, canary_version_id, canary_percent, updated_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (asset_id, name) DO UPDATE SET
+                previous_version_id = CASE
+                    WHEN system.edge_function_aliases.version_id <> EXCLUDED.version_id
+                    THEN system.edge_function_aliases.version_id
+                    ELSE system.edge_function_aliases.previous_version_id END,
+                version_id = EXCLUDED.version_id,
+                canary_version_id = EXCLUDED.canary_version_id,
+                canary_percent = EXCLUDED.canary_percent,
+                updated_by = EXCLUDED.updated_by,
+                updated_at = NOW()
+             RETURNING name`,
+            [assetId, projectSlug, alias, versionId, canaryVersionId, canaryPercent, updatedBy || null]
+        );
+        return res.rows[0].name;
+    }
+
+    public static async listAliases(projectSlug: string, name: string): Promise<any[] | null> {
+        const asset = await this.findFunction(projectSlug, name);
+        if (!asset) return null;
+        const res = await systemPool.query(
+            `SELECT a.name, v.version, c.version AS canary_version, a.canary_percent,
+                    p.version AS previous_version, a.updated_by, a.updated_at
+             FROM system.edge_function_aliases a
+             JOIN system.edge_function_versions v ON v.id = a.version_id
+             LEFT JOIN system.edge_function_versions c ON c.id = a.canary_version_id
+             LEFT JOIN system.edge_function_versions p ON p.id = a.previous_version_id
+             WHERE a.asset_id = $1
+             ORDER BY a.name`,
+            [asset.id]
+        );
+        return res.rows;
+    }
+
+    /** Points `alias` at a version, optionally splitting canary_percent % of the traffic to a second one. */
+    public static async setAlias(
+        projectSlug: string,
+        name: string,
+        alias: string,
+        target: AliasTarget,
+        updatedBy?: string
+    ): Promise<any | { error: string } | null> {
+        const asset = await this.findFunction(projectSlug, name);
+        if (!asset) return null;
+
+        const percent = target.canary_percent ?? 0;
+        if (!Number.isInteger(percent) || percent < 0 || percent > 100) return { error: 'canary_percent must be an integer between 0 and 100.' };
+        const useCanary = target.canary_version !== undefined && target.canary_version !== null && percent > 0;
+        if (percent > 0 && !useCanary) return { error: 'canary_percent requires canary_version.' };
+        if (useCanary && target.canary_version === target.version) return { error: 'canary_version must differ from version.' };
+
+        const versions = await systemPool.query(
+            `SELECT id, version FROM system.edge_function_versions WHERE asset_id = $1 AND version = ANY($2::int[])`,
+            [asset.id, useCanary ? [target.version, target.canary_version] : [target.version]]
+        );
+        const byNumber = new Map(versions.rows.map((row: any) => [row.version, row.id]));
+        if (!byNumber.has(target.version)) return { error: `Version ${target.version} does not exist.` };
+        if (useCanary && !byNumber.has(target.canary_version!)) return { error: `Version ${target.canary_version} does not exist.` };
+
+        await this.pointAlias(
+            systemPool, asset.id, projectSlug, alias,
+            byNumber.get(target.version), useCanary ? byNumber.get(target.canary_version!) : null, useCanary ? percent : 0,
+            updatedBy
+        );
+        return (await this.listAliases(projectSlug, name))!.find(row => row.name === alias);
+    }
+
+    /**
+     * Instant rollback: back to `toVersion`, or to the version the alias pointed at before its last
+     * move. Any canary split is dropped.
+     */
+    public static async rollback(projectSlug: string, name: string, alias: string, toVersion?: number, updatedBy?: string): Promise<any | { error: string } | null> {
+        const asset = await this.findFunction(projectSlug, name);
+        if (!asset) return null;
+        const current = await systemPool.query(
+            `SELECT a.previous_version_id, p.version AS previous_version
+             FROM system.edge_function_aliases a
+             LEFT JOIN system.edge_function_versions p ON p.id = a.previous_version_id
+             WHERE a.asset_id = $1 AND a.name = $2`,
+            [asset.id, alias]
+        );
+        if (!current.rows[0]) return { error: `Alias "${alias}" does not exist.` };
+
+        const target = toVersion ?? current.rows[0].previous_version;
+        if (!target) return { error: `Alias "${alias}" has no previous version to roll back to.` };
+        return this.setAlias(projectSlug, name, alias, { version: target }, updatedBy);
+    }
+
+    public static async deleteAlias(projectSlug: string, name: string, alias: string): Promise<boolean> {
+        const res = await systemPool.query(
+            `DELETE FROM system.edge_function_aliases a
+             USING system.assets s
+             WHERE a.asset_id = s.id AND s.project_slug = $1 AND s.name = $2 AND s.type = 'edge_function' AND a.name = $3`,
+            [projectSlug, name, alias]
+        );
+        return (res.rowCount || 0) > 0;
+    }
+
+    // --- Routing ---
+
+    /** Same key, same side of the split: a user doesn't flip between versions request to request. */
+    private static inCanary(assetId: string, percent: number, routingKey?: string): boolean {
+        if (percent <= 0) return false;
+        if (percent >= 100) return true;
+        const bucket = routingKey
+            ? crypto.createHash('sha256').update(`${assetId}:${routingKey}`).digest().readUInt32BE(0) % 100
+            : Math.floor(Math.random() * 100);
+        return bucket < percent;
+    }
+
+    /**
+     * Picks the code to execute. `version` pins an exact deploy; otherwise `alias` (default 'prod')
+     * is resolved, with its canary split. A function with no 'prod' alias runs its draft.
+     * Returns null when an explicitly requested alias or version doesn't exist.
+     */
+    public static async resolve(
+        asset: { id: string, metadata: any },
+        request: { alias?: string, version?: number, routingKey?: string } = {}
+    ): Promise<ResolvedEdgeFunction | null> {
+        if (request.version !== undefined) {
+            const res = await systemPool.query(
+                `SELECT id, version, code, config FROM system.edge_function_versions WHERE asset_id = $1 AND version = $2`,
+                [asset.id, request.version]
+            );
+            const row = res.rows[0];
+            if (!row) return null;
+            return { code: row.code, config: row.config || {}, version: row.version, versionId: row.id, alias: null, canary: false };
+        }
+
+        const aliasName = request.alias || DEFAULT_ALIAS;
+        const res = await systemPool.query(
+            `SELECT a.canary_percent,
+                    v.id, v.version, v.code, v.config,
+                    c.id AS canary_id, c.version AS canary_version, c.code AS canary_code, c.config AS canary_config
+             FROM system.edge_function_aliases a
+             JOIN system.edge_function_versions v ON v.id = a.version_id
+             LEFT JOIN system.edge_function_versions c ON c.id = a.canary_version_id
+             WHERE a.asset_id = $1 AND a.name = $2`,
+            [asset.id, aliasName]
+        );
+        const row = res.rows[0];
+        if (!row) {
+            if (request.alias && request.alias !== DEFAULT_ALIAS) return null;
+            return { code: asset.metadata?.sql, config: this.configOf(asset.metadata), version: null, versionId: null, alias: null, canary: false };
+        }
+
+        if (row.canary_id && this.inCanary(asset.id, row.canary_percent, request.routingKey)) {
+            return { code: row.canary_code, config: row.canary_config || {}, version: row.canary_version, versionId: row.canary_id, alias: aliasName, canary: true };
+        }
+        return { code: row.code, config: row.config || {}, version: row.version, versionId: row.id, alias: aliasName, canary: false };
+    }
+}
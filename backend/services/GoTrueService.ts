@@ -286,7 +286,7 @@ export class GoTrueService {
         language: string = 'en-US',
         messagingTemplates?: any,
         templateBindings?: any
-    ) {
+    ): Promise<{ user_id?: string }> {
         if (!identifier) throw new Error("Identifier required");
 
         // Locate user via identity table using custom provider/identifier
@@ -301,7 +301,8 @@ export class GoTrueService {
 
         // Send recovery (Currently mapped to email transport only, but technically triggers AuthService logic using the generic identifier)
         await AuthService.sendRecovery(pool, identifier, projectUrl, emailConfig, jwtSecret, templates, provider, language, messagingTemplates, templateBindings);
-        return {};
+        // Internal only: the HTTP response never tells whether the identifier exists
+        return { user_id: userCheck.rows[0].user_id };
     }
 
     public static async handleUpdateUser(pool: Pool, userId: string, data: { password?: string; provider?: string; identifier?: string; email?: string }) {
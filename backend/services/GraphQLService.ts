@@ -0,0 +1,939 @@
+import { Pool } from 'pg';
+import {
+    GraphQLSchema,
+    GraphQLObjectType,
+    GraphQLInputObjectType,
+    GraphQLEnumType,
+    GraphQLScalarType,
+    GraphQLList,
+    GraphQLNonNull,
+    GraphQLInt,
+    GraphQLFloat,
+    GraphQLString,
+    GraphQLBoolean,
+    GraphQLError,
+    GraphQLResolveInfo,
+    GraphQLFieldConfigMap,
+    GraphQLInputFieldConfigMap,
+    GraphQLFieldConfigArgumentMap,
+    GraphQLOutputType,
+    GraphQLInputType,
+    GraphQLField,
+    FieldNode,
+    FragmentDefinitionNode,
+    SelectionSetNode,
+    DocumentNode,
+    OperationDefinitionNode,
+    Kind,
+    parse,
+    validate,
+    execute,
+    specifiedRules,
+    NoSchemaIntrospectionCustomRule,
+    getArgumentValues,
+    getDirectiveValues,
+    GraphQLSkipDirective,
+    GraphQLIncludeDirective
+} from 'graphql';
+import { PostgrestService, PostgrestQuery, PostgrestRelationship } from './PostgrestService.js';
+
+/**
+ * Execution hooks supplied by the controller: every statement goes through the
+ * caller's RLS context (queryWithRLS) and, when a table is given, the masking tier.
+ */
+export interface GraphQLContext {
+    headers: Record<string, any>;
+    execute: (
+        build: PostgrestQuery,
+        table: string | undefined,
+        options?: { count?: boolean, maxAffected?: number }
+    ) => Promise<{ rows: any[], total?: number }>;
+}
+
+export interface GraphQLRunResult {
+    status: number;
+    body: any;
+}
+
+interface TableMeta {
+    name: string;
+    kind: 'table' | 'view';
+    typeName: string;
+    columns: { name: string, udt: string }[];
+    primaryKey: string[];
+    relations: Map<string, RelationMeta>; // keyed by GraphQL field name
+    objectType?: GraphQLObjectType;
+}
+
+interface RelationMeta {
+    kind: 'object' | 'connection';
+    target: string;
+    constraint: string;
+}
+
+interface FunctionMeta {
+    name: string;
+    args: { name: string, udt: string, optional: boolean }[];
+    returnsSet: boolean;
+    returnUdt: string;
+    returnTable?: string;
+    volatile: boolean;
+}
+
+interface SchemaBundle {
+    schema: GraphQLSchema;
+    tables: Map<string, TableMeta>;
+    relationships: PostgrestRelationship[];
+}
+
+interface CompiledNode {
+    items: string[];
+    shape: (row: any, raw?: boolean) => any;
+}
+
+interface CompiledConnection {
+    items: string[];
+    wantsTotal: boolean;
+    shape: (rows: any[], total?: number) => any;
+}
+
+type CollectedFields = Map<string, { name: string, nodes: FieldNode[] }>;
+
+const SCHEMA_CACHE_TTL_MS = 60 * 1000;
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 1000;
+const MAX_QUERY_DEPTH = 15;
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+const RESERVED_TYPE_NAMES = ['Query', 'Mutation', 'Subscription', 'PageInfo', 'BigInt', 'BigFloat', 'JSON', 'UUID', 'Datetime', 'FilterIs', 'OrderByDirection'];
+
+const gqlError = (message: string, code: string) => new GraphQLError(message, { extensions: { code } });
+
+// --- SCALARS ---
+
+const BigIntScalar = new GraphQLScalarType({
+    name: 'BigInt',
+    description: 'int8, serialized as a string to keep 64-bit precision.',
+    serialize: (v: any) => String(v),
+    parseValue: (v: any) => String(v),
+    parseLiteral: (ast: any) => (ast.kind === Kind.INT || ast.kind === Kind.STRING) ? ast.value : undefined
+});
+
+const BigFloatScalar = new GraphQLScalarType({
+    name: 'BigFloat',
+    description: 'numeric, serialized as a string to keep arbitrary precision.',
+    serialize: (v: any) => String(v),
+    parseValue: (v: any) => String(v),
+    parseLiteral: (ast: any) => [Kind.INT, Kind.FLOAT, Kind.STRING].includes(ast.kind) ? ast.value : undefined
+});
+
+const DatetimeScalar = new GraphQLScalarType({
+    name: 'Datetime',
+    description: 'timestamp, timestamptz or date in ISO 8601.',
+    serialize: (v: any) => v instanceof Date ? v.toISOString() : String(v),
+    parseValue: (v: any) => String(v),
+    parseLiteral: (ast: any) => ast.kind === Kind.STRING ? ast.value : undefined
+});
+
+const UUIDScalar = new GraphQLScalarType({
+    name: 'UUID',
+    serialize: (v: any) => String(v),
+    parseValue: (v: any) => String(v),
+    parseLiteral: (ast: any) => ast.kind === Kind.STRING ? ast.value : undefined
+});
+
+const parseJsonLiteral = (ast: any, variables?: any): any => {
+    switch (ast.kind) {
+        case Kind.STRING:
+        case Kind.BOOLEAN: return ast.value;
+        case Kind.INT:
+        case Kind.FLOAT: return Number(ast.value);
+        case Kind.NULL: return null;
+        case Kind.LIST: return ast.values.map((v: any) => parseJsonLiteral(v, variables));
+        case Kind.OBJECT: return Object.fromEntries(ast.fields.map((f: any) => [f.name.value, parseJsonLiteral(f.value, variables)]));
+        case Kind.VARIABLE: return variables ? variables[ast.name.value] : undefined;
+        default: return undefined;
+    }
+};
+
+const JSONScalar = new GraphQLScalarType({
+    name: 'JSON',
+    serialize: (v: any) => v,
+    parseValue: (v: any) => v,
+    parseLiteral: parseJsonLiteral
+});
+
+const FilterIsEnum = new GraphQLEnumType({
+    name: 'FilterIs',
+    values: { NULL: { value: 'NULL' }, NOT_NULL: { value: 'NOT_NULL' } }
+});
+
+const OrderByDirectionEnum = new GraphQLEnumType({
+    name: 'OrderByDirection',
+    values: {
+        AscNullsFirst: { value: 'asc.nullsfirst' },
+        AscNullsLast: { value: 'asc.nullslast' },
+        DescNullsFirst: { value: 'desc.nullsfirst' },
+        DescNullsLast: { value: 'desc.nullslast' }
+    }
+});
+
+// Every generated field resolves by response key, so aliases map 1:1 to PostgREST aliases
+const byResponseKey = (source: any, _args: any, _ctx: any, info: GraphQLResolveInfo) =>
+    source ? source[info.path.key as string] : undefined;
+
+const PageInfoType = new GraphQLObjectType({
+    name: 'PageInfo',
+    fields: {
+        hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean), resolve: byResponseKey },
+        hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean), resolve: byResponseKey },
+        startCursor: { type: GraphQLString, resolve: byResponseKey },
+        endCursor: { type: GraphQLString, resolve: byResponseKey }
+    }
+});
+
+/**
+ * GraphQL façade over the PostgREST engine. The schema is reflected from the project
+ * database (tables, views, foreign keys, functions) and every operation is compiled to a
+ * PostgrestService query, so filters, embedding, RLS and masking behave exactly like REST.
+ *
+ * Pagination uses opaque offset cursors. `totalCount` is only computed on root collections;
+ * nested collections and mutation `records` do not load relationships (they resolve to null).
+ */
+export class GraphQLService {
+
+    // Keyed by pool (Live/Draft never share), rebuilt when the masking config changes.
+    private static schemaCache = new WeakMap<Pool, { bundle: SchemaBundle, loadedAt: number, fingerprint: string }>();
+
+    public static invalidate(pool: Pool): void {
+        this.schemaCache.delete(pool);
+    }
+
+    public static async getSchema(pool: Pool, maskedColumns: Record<string, Record<string, string>> = {}): Promise<SchemaBundle> {
+        const fingerprint = JSON.stringify(maskedColumns || {});
+        const cached = this.schemaCache.get(pool);
+        if (cached && cached.fingerprint === fingerprint && (Date.now() - cached.loadedAt) < SCHEMA_CACHE_TTL_MS) {
+            return cached.bundle;
+        }
+
+        const [tables, functions, relationships] = await Promise.all([
+            this.introspectTables(pool),
+            this.introspectFunctions(pool),
+            PostgrestService.getRelationships(pool)
+        ]);
+        const bundle = this.buildSchema(tables, functions, relationships, maskedColumns || {});
+        this.schemaCache.set(pool, { bundle, loadedAt: Date.now(), fingerprint });
+        return bundle;
+    }
+
+    /**
+     * Parses, validates and executes a GraphQL request. Parse/validation failures are
+     * HTTP 400; execution errors are reported in `errors` with HTTP 200.
+     */
+    public static async run(
+        bundle: SchemaBundle,
+        source: string,
+        variables: Record<string, any> | undefined,
+        operationName: string | undefined,
+        context: GraphQLContext,
+        options: { allowIntrospection: boolean, allowMutations: boolean }
+    ): Promise<GraphQLRunResult> {
+        let document: DocumentNode;
+        try {
+            document = parse(source);
+        } catch (e: any) {
+            return { status: 400, body: { errors: [this.formatError(e)] } };
+        }
+
+        const rules = options.allowIntrospection ? specifiedRules : [...specifiedRules, NoSchemaIntrospectionCustomRule];
+        const validationErrors = validate(bundle.schema, document, rules);
+        if (validationErrors.length > 0) {
+            return { status: 400, body: { errors: validationErrors.map(e => this.formatError(e)) } };
+        }
+
+        const operations = document.definitions.filter(d => d.kind === Kind.OPERATION_DEFINITION) as OperationDefinitionNode[];
+        const operation = operationName ? operations.find(o => o.name?.value === operationName) : operations[0];
+        if (operation?.operation === 'mutation' && !options.allowMutations) {
+            return { status: 405, body: { errors: [{ message: 'Mutations are only accepted over POST.' }] } };
+        }
+
+        if (this.documentDepth(document) > MAX_QUERY_DEPTH) {
+            return { status: 400, body: { errors: [{ message: `Query exceeds the maximum depth of ${MAX_QUERY_DEPTH}.` }] } };
+        }
+
+        const result = await execute({
+            schema: bundle.schema,
+            document,
+            variableValues: variables,
+            operationName,
+            contextValue: { ...context, bundle }
+        });
+
+        const body: any = { data: result.data ?? null };
+        if (result.errors && result.errors.length > 0) body.errors = result.errors.map(e => this.formatError(e));
+        return { status: 200, body };
+    }
+
+    private static formatError(error: GraphQLError): any {
+        const json: any = error.toJSON ? error.toJSON() : { message: error.message };
+        const original: any = error.originalError;
+        if (original && (original.code || original.details)) {
+            json.extensions = { ...(json.extensions || {}), code: original.code, details: original.details };
+        }
+        return json;
+    }
+
+    // --- INTROSPECTION ---
+
+    private static async introspectTables(pool: Pool): Promise<TableMeta[]> {
+        const [columnsRes, pkRes] = await Promise.all([
+            pool.query(`
+                SELECT c.relname AS table, c.relkind AS kind, a.attname AS column, t.typname AS udt
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+                JOIN pg_type t ON t.oid = a.atttypid
+                WHERE n.nspname = 'public'
+                  AND c.relkind IN ('r', 'p', 'v', 'm')
+                  AND c.relname NOT LIKE '\\_deleted\\_%'
+                ORDER BY c.relname, a.attnum
+            `),
+            pool.query(`
+                SELECT c.relname AS table, array_agg(a.attname::text ORDER BY array_position(i.indkey::int2[], a.attnum)) AS columns
+                FROM pg_index i
+                JOIN pg_class c ON c.oid = i.indrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = ANY(i.indkey)
+                WHERE i.indisprimary AND n.nspname = 'public'
+                GROUP BY c.relname
+            `)
+        ]);
+
+        const primaryKeys = new Map<string, string[]>(pkRes.rows.map((r: any) => [r.table, r.columns]));
+        const tables = new Map<string, TableMeta>();
+        for (const row of columnsRes.rows) {
+            if (!/^[a-zA-Z0-9_]+$/.test(row.table) || !/^[a-zA-Z0-9_]+$/.test(row.column)) continue;
+            if (!tables.has(row.table)) {
+                tables.set(row.table, {
+                    name: row.table,
+                    kind: row.kind === 'v' || row.kind === 'm' ? 'view' : 'table',
+                    typeName: '',
+                    columns: [],
+                    primaryKey: primaryKeys.get(row.table) || [],
+                    relations: new Map()
+                });
+            }
+            tables.get(row.table)!.columns.push({ name: row.column, udt: row.udt });
+        }
+        return Array.from(tables.values());
+    }
+
+    /**
+     * Public functions with only IN arguments, excluding trigger functions and
+     * anything owned by an extension (PostGIS alone would add hundreds of fields).
+     */
+    private static async introspectFunctions(pool: Pool): Promise<FunctionMeta[]> {
+        const res = await pool.query(`
+            SELECT p.proname AS name,
+                   p.proretset AS returns_set,
+                   p.provolatile AS volatility,
+                   p.pronargdefaults AS arg_defaults,
+                   rt.typname AS return_udt,
+                   rc.relname AS return_table,
+                   COALESCE(p.proargnames, ARRAY[]::text[]) AS arg_names,
+                   ARRAY(
+                       SELECT t.typname::text
+                       FROM unnest(p.proargtypes::oid[]) WITH ORDINALITY AS u(oid, ord)
+                       JOIN pg_type t ON t.oid = u.oid
+                       ORDER BY u.ord
+                   ) AS arg_types
+            FROM pg_proc p
+            JOIN pg_namespace n ON n.oid = p.pronamespace
+            JOIN pg_type rt ON rt.oid = p.prorettype
+            LEFT JOIN pg_class rc ON rc.oid = rt.typrelid
+            WHERE n.nspname = 'public'
+              AND p.prokind = 'f'
+              AND p.proallargtypes IS NULL
+              AND rt.typname NOT IN ('trigger', 'event_trigger', 'internal', 'language_handler', 'fdw_handler')
+              AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+            ORDER BY p.proname, p.oid
+        `);
+
+        return res.rows
+            .filter((r: any) => r.arg_types.length === 0 || r.arg_names.length === r.arg_types.length)
+            .map((r: any) => ({
+                name: r.name,
+                args: r.arg_types.map((udt: string, i: number) => ({
+                    name: r.arg_names[i],
+                    udt,
+                    optional: i >= r.arg_types.length - r.arg_defaults
+                })),
+                returnsSet: r.returns_set,
+                returnUdt: r.return_udt,
+                returnTable: r.return_table || undefined,
+                volatile: r.volatility === 'v'
+            }));
+    }
+
+    // --- SCHEMA GENERATION ---
+
+    private static pascalCase(name: string): string {
+        const pascal = name.split('_').filter(Boolean).map(p => p.charAt(0).toUpperCase() + p.slice(1)).join('');
+        return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+    }
+
+    private static scalarFor(udt: string): GraphQLScalarType {
+        switch (udt) {
+            case 'int2': case 'int4': return GraphQLInt;
+            case 'int8': return BigIntScalar;
+            case 'float4': case 'float8': return GraphQLFloat;
+            case 'numeric': return BigFloatScalar;
+            case 'bool': return GraphQLBoolean;
+            case 'json': case 'jsonb': return JSONScalar;
+            case 'uuid': return UUIDScalar;
+            case 'timestamp': case 'timestamptz': case 'date': return DatetimeScalar;
+            default: return GraphQLString;
+        }
+    }
+
+    private static typeFor(udt: string): GraphQLScalarType | GraphQLList<GraphQLScalarType> {
+        return udt.startsWith('_') ? new GraphQLList(this.scalarFor(udt.substring(1))) : this.scalarFor(udt);
+    }
+
+    private static uniqueName(base: string, used: Set<string>, suffix: string): string {
+        let name = base;
+        if (used.has(name)) name = `${base}_${suffix}`;
+        let n = 2;
+        while (used.has(name)) name = `${base}_${suffix}_${n++}`;
+        used.add(name);
+        return name;
+    }
+
+    private static buildSchema(
+        tableList: TableMeta[],
+        functions: FunctionMeta[],
+        relationships: PostgrestRelationship[],
+        maskedColumns: Record<string, Record<string, string>>
+    ): SchemaBundle {
+        const tables = new Map<string, TableMeta>();
+        const usedTypeNames = new Set<string>(RESERVED_TYPE_NAMES);
+        for (const table of tableList) {
+            const base = this.pascalCase(table.name);
+            if (!GRAPHQL_NAME.test(base)) continue;
+            // Each table reserves the names of all its derived types
+            const derived = ['', 'Connection', 'Edge', 'Filter', 'OrderBy', 'InsertInput', 'UpdateInput', 'InsertResponse', 'UpdateResponse', 'DeleteResponse'];
+            if (derived.some(d => usedTypeNames.has(base + d))) continue;
+            derived.forEach(d => usedTypeNames.add(base + d));
+            table.typeName = base;
+            tables.set(table.name, table);
+        }
+
+        // Relationship fields. Self-references are skipped: PostgREST cannot tell both directions apart.
+        for (const table of tables.values()) {
+            const used = new Set(table.columns.map(c => c.name));
+            for (const fk of relationships) {
+                if (fk.table === fk.foreignTable) continue;
+                if (fk.table === table.name && tables.has(fk.foreignTable)) {
+                    const base = fk.columns.length === 1 && fk.columns[0].endsWith('_id') && fk.columns[0].length > 3
+                        ? fk.columns[0].slice(0, -3)
+                        : fk.foreignTable;
+                    const name = this.uniqueName(base, used, fk.constraint);
+                    if (GRAPHQL_NAME.test(name)) table.relations.set(name, { kind: 'object', target: fk.foreignTable, constraint: fk.constraint });
+                }
+                if (fk.foreignTable === table.name && tables.has(fk.table)) {
+                    const name = this.uniqueName(`${fk.table}Collection`, used, fk.constraint);
+                    if (GRAPHQL_NAME.test(name)) table.relations.set(name, { kind: 'connection', target: fk.table, constraint: fk.constraint });
+                }
+            }
+        }
+
+        const scalarFilters = new Map<string, GraphQLInputObjectType>();
+        const scalarFilterFor = (scalar: GraphQLScalarType): GraphQLInputObjectType => {
+            if (scalarFilters.has(scalar.name)) return scalarFilters.get(scalar.name)!;
+            const fields: GraphQLInputFieldConfigMap = { is: { type: FilterIsEnum } };
+            if (scalar !== JSONScalar) {
+                fields.eq = { type: scalar };
+                fields.neq = { type: scalar };
+                fields.in = { type: new GraphQLList(new GraphQLNonNull(scalar)) };
+                if (scalar !== GraphQLBoolean) {
+                    fields.gt = { type: scalar };
+                    fields.gte = { type: scalar };
+                    fields.lt = { type: scalar };
+                    fields.lte = { type: scalar };
+                }
+                if (scalar === GraphQLString) {
+                    fields.like = { type: GraphQLString };
+                    fields.ilike = { type: GraphQLString };
+                }
+            }
+            const filter = new GraphQLInputObjectType({ name: `${scalar.name}Filter`, fields });
+            scalarFilters.set(scalar.name, filter);
+            return filter;
+        };
+
+        const connectionTypes = new Map<string, GraphQLObjectType>();
+        const filterTypes = new Map<string, GraphQLInputObjectType>();
+        const orderTypes = new Map<string, GraphQLInputObjectType>();
+
+        const connectionArgs = (table: TableMeta): GraphQLFieldConfigArgumentMap => ({
+            first: { type: GraphQLInt },
+            last: { type: GraphQLInt },
+            before: { type: GraphQLString },
+            after: { type: GraphQLString },
+            offset: { type: GraphQLInt },
+            filter: { type: filterTypes.get(table.name)! },
+            orderBy: { type: new GraphQLList(new GraphQLNonNull(orderTypes.get(table.name)!)) }
+        });
+
+        for (const table of tables.values()) {
+            const masks = maskedColumns[table.name] || {};
+
+            filterTypes.set(table.name, new GraphQLInputObjectType({
+                name: `${table.typeName}Filter`,
+                fields: () => {
+                    const fields: GraphQLInputFieldConfigMap = {};
+                    for (const col of table.columns) {
+                        if (col.udt.startsWith('_') || ['and', 'or', 'not'].includes(col.name)) continue;
+                        fields[col.name] = { type: scalarFilterFor(this.scalarFor(col.udt)) };
+                    }
+                    const self = filterTypes.get(table.name)!;
+                    fields.and = { type: new GraphQLList(new GraphQLNonNull(self)) };
+                    fields.or = { type: new GraphQLList(new GraphQLNonNull(self)) };
+                    fields.not = { type: self };
+                    return fields;
+                }
+            }));
+
+            orderTypes.set(table.name, new GraphQLInputObjectType({
+                name: `${table.typeName}OrderBy`,
+                fields: Object.fromEntries(table.columns.map(c => [c.name, { type: OrderByDirectionEnum }]))
+            }));
+
+            table.objectType = new GraphQLObjectType({
+                name: table.typeName,
+                fields: () => {
+                    const fields: GraphQLFieldConfigMap<any, any> = {};
+                    for (const col of table.columns) {
+                        // Masked values are replaced by strings ('********', '[ENCRYPTED]') for non-admins
+                        const masked = masks[col.name] && masks[col.name] !== 'hide';
+                        fields[col.name] = { type: (masked ? GraphQLString : this.typeFor(col.udt)) as GraphQLOutputType, resolve: byResponseKey };
+                    }
+                    for (const [name, rel] of table.relations) {
+                        const target = tables.get(rel.target)!;
+                        fields[name] = rel.kind === 'object'
+                            ? { type: target.objectType!, resolve: byResponseKey }
+                            : { type: connectionTypes.get(rel.target)!, args: connectionArgs(target), resolve: byResponseKey };
+                    }
+                    return fields;
+                }
+            });
+
+            const edgeType = new GraphQLObjectType({
+                name: `${table.typeName}Edge`,
+                fields: () => ({
+                    cursor: { type: new GraphQLNonNull(GraphQLString), resolve: byResponseKey },
+                    node: { type: new GraphQLNonNull(table.objectType!), resolve: byResponseKey }
+                })
+            });
+
+            connectionTypes.set(table.name, new GraphQLObjectType({
+                name: `${table.typeName}Connection`,
+                fields: () => ({
+                    edges: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(edgeType))), resolve: byResponseKey },
+                    pageInfo: { type: new GraphQLNonNull(PageInfoType), resolve: byResponseKey },
+                    totalCount: { type: GraphQLInt, resolve: byResponseKey }
+                })
+            }));
+        }
+
+        const queryFields: GraphQLFieldConfigMap<any, any> = {};
+        const mutationFields: GraphQLFieldConfigMap<any, any> = {};
+
+        for (const table of tables.values()) {
+            queryFields[`${table.name}Collection`] = {
+                type: connectionTypes.get(table.name)!,
+                args: connectionArgs(table),
+                resolve: (_src, args, ctx, info) => this.resolveCollection(table, args, ctx, info)
+            };
+
+            if (table.kind !== 'table') continue;
+
+            const inputFields = (): GraphQLInputFieldConfigMap =>
+                Object.fromEntries(table.columns.map(c => [c.name, { type: this.typeFor(c.udt) as GraphQLInputType }]));
+            const insertInput = new GraphQLInputObjectType({ name: `${table.typeName}InsertInput`, fields: inputFields });
+            const updateInput = new GraphQLInputObjectType({ name: `${table.typeName}UpdateInput`, fields: inputFields });
+            const responseType = (suffix: string) => new GraphQLObjectType({
+                name: `${table.typeName}${suffix}`,
+                fields: {
+                    affectedCount: { type: new GraphQLNonNull(GraphQLInt), resolve: byResponseKey },
+                    records: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(table.objectType!))), resolve: byResponseKey }
+                }
+            });
+
+            mutationFields[`insertInto${table.typeName}Collection`] = {
+                type: responseType('InsertResponse'),
+                args: { objects: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(insertInput))) } },
+                resolve: (_src, args, ctx, info) => this.resolveMutation(table, 'POST', args, ctx, info)
+            };
+            mutationFields[`update${table.typeName}Collection`] = {
+                type: responseType('UpdateResponse'),
+                args: {
+                    set: { type: new GraphQLNonNull(updateInput) },
+                    filter: { type: filterTypes.get(table.name)! },
+                    atMost: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 1 }
+                },
+                resolve: (_src, args, ctx, info) => this.resolveMutation(table, 'PATCH', args, ctx, info)
+            };
+            mutationFields[`deleteFrom${table.typeName}Collection`] = {
+                type: responseType('DeleteResponse'),
+                args: {
+                    filter: { type: filterTypes.get(table.name)! },
+                    atMost: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 1 }
+                },
+                resolve: (_src, args, ctx, info) => this.resolveMutation(table, 'DELETE', args, ctx, info)
+            };
+        }
+
+        // RPC: STABLE/IMMUTABLE functions are queries, VOLATILE ones are mutations (overloads: first wins)
+        for (const fn of functions) {
+            if (!GRAPHQL_NAME.test(fn.name) || fn.args.some(a => !GRAPHQL_NAME.test(a.name))) continue;
+            const target = fn.volatile ? mutationFields : queryFields;
+            if (target[fn.name]) continue;
+
+            const returnTable = fn.returnTable ? tables.get(fn.returnTable) : undefined;
+            let type: GraphQLOutputType;
+            if (returnTable) {
+                type = fn.returnsSet ? new GraphQLList(new GraphQLNonNull(returnTable.objectType!)) : returnTable.objectType!;
+            } else if (fn.returnUdt === 'void') {
+                type = GraphQLBoolean;
+            } else {
+                const scalar = fn.returnUdt === 'record' ? JSONScalar : this.typeFor(fn.returnUdt);
+                type = fn.returnsSet ? new GraphQLList(scalar) : scalar;
+            }
+
+            target[fn.name] = {
+                type,
+                args: Object.fromEntries(fn.args.map(a => {
+                    const argType = this.typeFor(a.udt) as GraphQLInputType;
+                    return [a.name, { type: a.optional ? argType : new GraphQLNonNull(argType) }];
+                })),
+                resolve: (_src, args, ctx, info) => this.resolveFunction(fn, returnTable, args, ctx, info)
+            };
+        }
+
+        if (Object.keys(queryFields).length === 0) {
+            queryFields._empty = { type: GraphQLBoolean, resolve: () => null };
+        }
+
+        const schema = new GraphQLSchema({
+            query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+            mutation: Object.keys(mutationFields).length > 0 ? new GraphQLObjectType({ name: 'Mutation', fields: mutationFields }) : undefined
+        });
+
+        return { schema, tables, relationships };
+    }
+
+    // --- EXECUTION ---
+
+    private static encodeCursor(offset: number): string {
+        return Buffer.from(`cursor:${offset}`).toString('base64');
+    }
+
+    private static decodeCursor(cursor: string): number {
+        const decoded = Buffer.from(cursor, 'base64').toString('utf8');
+        const match = decoded.match(/^cursor:(\d+)$/);
+        if (!match) throw gqlError('Invalid cursor.', 'INVALID_CURSOR');
+        return parseInt(match[1]);
+    }
+
+    /**
+     * Merges the sub-selections of one or more field nodes by response key,
+     * expanding fragments and honoring @skip/@include.
+     */
+    private static collectFields(info: GraphQLResolveInfo, nodes: FieldNode[]): CollectedFields {
+        const fields: CollectedFields = new Map();
+        const visit = (selectionSet: SelectionSetNode | undefined) => {
+            if (!selectionSet) return;
+            for (const selection of selectionSet.selections) {
+                const skip = getDirectiveValues(GraphQLSkipDirective, selection, info.variableValues);
+                const include = getDirectiveValues(GraphQLIncludeDirective, selection, info.variableValues);
+                if (skip?.if === true || include?.if === false) continue;
+
+                if (selection.kind === Kind.FIELD) {
+                    const key = selection.alias?.value || selection.name.value;
+                    if (!fields.has(key)) fields.set(key, { name: selection.name.value, nodes: [] });
+                    fields.get(key)!.nodes.push(selection);
+                } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+                    visit(selection.selectionSet);
+                } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+                    const fragment: FragmentDefinitionNode | undefined = info.fragments[selection.name.value];
+                    visit(fragment?.selectionSet);
+                }
+            }
+        };
+        for (const node of nodes) visit(node.selectionSet);
+        return fields;
+    }
+
+    private static quoteValue(value: any): string {
+        return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    }
+
+    /**
+     * Compiles a `<Type>Filter` input into PostgREST logic-tree conditions (`col.op."value"`),
+     * which are then passed as a single `and=(...)` parameter.
+     */
+    private static compileFilter(filter: any): string[] {
+        if (!filter) return [];
+        const conditions: string[] = [];
+        const group = (items: any[]) => items
+            .map(item => this.compileFilter(item))
+            .filter(c => c.length > 0)
+            .map(c => `and(${c.join(',')})`);
+
+        for (const [key, value] of Object.entries(filter)) {
+            if (value === undefined || value === null) continue;
+            if (key === 'and') {
+                const groups = group(value as any[]);
+                if (groups.length > 0) conditions.push(`and(${groups.join(',')})`);
+            } else if (key === 'or') {
+                const groups = group(value as any[]);
+                if (groups.length > 0) conditions.push(`or(${groups.join(',')})`);
+            } else if (key === 'not') {
+                const inner = this.compileFilter(value);
+                if (inner.length > 0) conditions.push(`not.and(${inner.join(',')})`);
+            } else {
+                for (const [op, operand] of Object.entries(value as Record<string, any>)) {
+                    if (operand === undefined || operand === null) continue;
+                    if (op === 'is') {
+                        conditions.push(operand === 'NULL' ? `${key}.is.null` : `${key}.not.is.null`);
+                    } else if (op === 'in') {
+                        conditions.push(`${key}.in.(${(operand as any[]).map(v => this.quoteValue(v)).join(',')})`);
+                    } else {
+                        conditions.push(`${key}.${op}.${this.quoteValue(operand)}`);
+                    }
+                }
+            }
+        }
+        return conditions;
+    }
+
+    private static compileOrder(table: TableMeta, orderBy: any[] | undefined): string {
+        const parts: string[] = [];
+        const seen = new Set<string>();
+        for (const entry of orderBy || []) {
+            for (const [column, direction] of Object.entries(entry)) {
+                if (!direction || seen.has(column)) continue;
+                seen.add(column);
+                parts.push(`${column}.${direction}`);
+            }
+        }
+        // Cursors are offsets, so the order must be total: finish with the primary key
+        for (const pk of table.primaryKey) {
+            if (!seen.has(pk)) parts.push(`${pk}.asc`);
+        }
+        return parts.join(',');
+    }
+
+    private static compileNode(table: TableMeta, fields: CollectedFields, path: string, query: Record<string, string>, info: GraphQLResolveInfo, bundle: SchemaBundle): CompiledNode {
+        const items: string[] = [];
+        const columns: { key: string, column: string }[] = [];
+        const relations: { key: string, shape: (value: any) => any }[] = [];
+        const objectFields = table.objectType!.getFields();
+
+        for (const [key, { name, nodes }] of fields) {
+            if (name === '__typename') continue;
+            const relation = table.relations.get(name);
+
+            if (!relation) {
+                items.push(key === name ? name : `${key}:${name}`);
+                columns.push({ key, column: name });
+                continue;
+            }
+
+            const target = bundle.tables.get(relation.target)!;
+            const childPath = path ? `${path}.${key}` : key;
+            if (relation.kind === 'object') {
+                const child = this.compileNode(target, this.collectFields(info, nodes), childPath, query, info, bundle);
+                items.push(`${key}:${target.name}!${relation.constraint}(${child.items.join(',')})`);
+                relations.push({ key, shape: value => value ? child.shape(value) : null });
+            } else {
+                const args = getArgumentValues(objectFields[name] as GraphQLField<any, any>, nodes[0], info.variableValues);
+                const child = this.compileConnection(target, nodes, args, childPath, query, info, bundle);
+                items.push(`${key}:${target.name}!${relation.constraint}(${child.items.join(',')})`);
+                relations.push({ key, shape: value => child.shape(Array.isArray(value) ? value : []) });
+            }
+        }
+
+        return {
+            items,
+            shape: (row: any, raw = false) => {
+                const out: any = {};
+                for (const c of columns) out[c.key] = raw ? row[c.column] : row[c.key];
+                // Raw rows (mutation RETURNING) carry no embedded resources
+                for (const r of relations) out[r.key] = raw ? null : r.shape(row[r.key]);
+                return out;
+            }
+        };
+    }
+
+    private static compileConnection(
+        table: TableMeta,
+        nodes: FieldNode[],
+        args: any,
+        path: string,
+        query: Record<string, string>,
+        info: GraphQLResolveInfo,
+        bundle: SchemaBundle
+    ): CompiledConnection {
+        let offset = args.offset ?? 0;
+        let pageSize = args.first ?? DEFAULT_PAGE_SIZE;
+        if (args.after) offset = this.decodeCursor(args.after) + 1;
+        if (args.last !== undefined && args.last !== null) {
+            if (!args.before) throw gqlError('"last" requires "before".', 'INVALID_ARGUMENT');
+            const end = this.decodeCursor(args.before);
+            offset = Math.max(0, end - args.last);
+            pageSize = end - offset;
+        }
+        if (pageSize < 0 || offset < 0) throw gqlError('Pagination arguments must be positive.', 'INVALID_ARGUMENT');
+        pageSize = Math.min(pageSize, MAX_PAGE_SIZE);
+
+        const prefix = path ? `${path}.` : '';
+        query[`${prefix}limit`] = String(pageSize + 1); // one extra row answers hasNextPage
+        if (offset > 0) query[`${prefix}offset`] = String(offset);
+        const order = this.compileOrder(table, args.orderBy);
+        if (order) query[`${prefix}order`] = order;
+        const conditions = this.compileFilter(args.filter);
+        if (conditions.length > 0) query[`${prefix}and`] = `(${conditions.join(',')})`;
+
+        // Node selections from every `edges` alias are merged into one select list
+        const connectionFields = this.collectFields(info, nodes);
+        const nodeNodes: FieldNode[] = [];
+        for (const { name, nodes: edgeNodes } of connectionFields.values()) {
+            if (name !== 'edges') continue;
+            for (const edgeField of this.collectFields(info, edgeNodes).values()) {
+                if (edgeField.name === 'node') nodeNodes.push(...edgeField.nodes);
+            }
+        }
+        const node = this.compileNode(table, this.collectFields(info, nodeNodes), path, query, info, bundle);
+        const wantsTotal = Array.from(connectionFields.values()).some(f => f.name === 'totalCount');
+
+        return {
+            items: node.items,
+            wantsTotal,
+            shape: (rows: any[], total?: number) => {
+                const hasNextPage = rows.length > pageSize;
+                const page = rows.slice(0, pageSize);
+                const out: any = {};
+                for (const [key, { name, nodes: subNodes }] of connectionFields) {
+                    if (name === 'totalCount') {
+                        out[key] = total ?? null;
+                    } else if (name === 'pageInfo') {
+                        const values: Record<string, any> = {
+                            hasNextPage,
+                            hasPreviousPage: offset > 0,
+                            startCursor: page.length > 0 ? this.encodeCursor(offset) : null,
+                            endCursor: page.length > 0 ? this.encodeCursor(offset + page.length - 1) : null
+                        };
+                        out[key] = {};
+                        for (const [subKey, sub] of this.collectFields(info, subNodes)) out[key][subKey] = values[sub.name];
+                    } else if (name === 'edges') {
+                        const edgeFields = this.collectFields(info, subNodes);
+                        out[key] = page.map((row, i) => {
+                            const edge: any = {};
+                            for (const [edgeKey, edgeField] of edgeFields) {
+                                if (edgeField.name === 'cursor') edge[edgeKey] = this.encodeCursor(offset + i);
+                                if (edgeField.name === 'node') edge[edgeKey] = node.shape(row);
+                            }
+                            return edge;
+                        });
+                    }
+                }
+                return out;
+            }
+        };
+    }
+
+    private static async resolveCollection(table: TableMeta, args: any, ctx: GraphQLContext & { bundle: SchemaBundle }, info: GraphQLResolveInfo) {
+        const query: Record<string, string> = {};
+        const compiled = this.compileConnection(table, info.fieldNodes as FieldNode[], args, '', query, info, ctx.bundle);
+        query.select = compiled.items.join(',');
+
+        const headers = { ...ctx.headers, prefer: compiled.wantsTotal ? 'count=exact' : undefined };
+        const build = PostgrestService.buildQuery(table.name, 'GET', query, {}, headers, ctx.bundle.relationships);
+        const { rows, total } = await ctx.execute(build, table.name, { count: compiled.wantsTotal });
+        return compiled.shape(rows, total);
+    }
+
+    private static async resolveMutation(table: TableMeta, method: 'POST' | 'PATCH' | 'DELETE', args: any, ctx: GraphQLContext & { bundle: SchemaBundle }, info: GraphQLResolveInfo) {
+        const query: Record<string, string> = {};
+        const conditions = this.compileFilter(args.filter);
+        if (conditions.length > 0) query.and = `(${conditions.join(',')})`;
+
+        // atMost maps to PostgREST max-affected: the transaction rolls back when exceeded
+        const prefer = method === 'POST'
+            ? 'return=representation, missing=default'
+            : `return=representation, handling=strict, max-affected=${args.atMost}`;
+        const body = method === 'POST' ? args.objects.map((o: any) => ({ ...o })) : method === 'PATCH' ? { ...args.set } : {};
+
+        const build = PostgrestService.buildQuery(table.name, method, query, body, { ...ctx.headers, prefer }, ctx.bundle.relationships);
+        const { rows } = await ctx.execute(build, table.name, { maxAffected: method === 'POST' ? undefined : args.atMost });
+
+        const out: any = {};
+        for (const [key, { name, nodes }] of this.collectFields(info, info.fieldNodes as FieldNode[])) {
+            if (name === 'affectedCount') out[key] = rows.length;
+            if (name === 'records') {
+                const node = this.compileNode(table, this.collectFields(info, nodes), '', {}, info, ctx.bundle);
+                out[key] = rows.map(row => node.shape(row, true));
+            }
+        }
+        return out;
+    }
+
+    private static async resolveFunction(fn: FunctionMeta, returnTable: TableMeta | undefined, args: any, ctx: GraphQLContext & { bundle: SchemaBundle }, info: GraphQLResolveInfo) {
+        const names = fn.args.filter(a => args[a.name] !== undefined).map(a => a.name);
+        const values = names.map(n => args[n]);
+        const namedArgs = names.map((n, i) => `"${n}" => $${i + 1}`).join(', ');
+
+        const text = returnTable
+            ? `SELECT * FROM public."${fn.name}"(${namedArgs})`
+            : `SELECT public."${fn.name}"(${namedArgs}) AS result`;
+        const { rows } = await ctx.execute({ text, values }, returnTable?.name);
+
+        if (returnTable) {
+            const node = this.compileNode(returnTable, this.collectFields(info, info.fieldNodes as FieldNode[]), '', {}, info, ctx.bundle);
+            const shaped = rows.map(row => node.shape(row, true));
+            return fn.returnsSet ? shaped : (shaped[0] ?? null);
+        }
+        if (fn.returnUdt === 'void') return true;
+        return fn.returnsSet ? rows.map(r => r.result) : (rows[0]?.result ?? null);
+    }
+
+    private static documentDepth(document: DocumentNode): number {
+        const fragments = new Map<string, FragmentDefinitionNode>();
+        for (const def of document.definitions) {
+            if (def.kind === Kind.FRAGMENT_DEFINITION) fragments.set(def.name.value, def);
+        }
+
+        const depthOf = (selectionSet: SelectionSetNode | undefined, visited: Set<string>): number => {
+            if (!selectionSet) return 0;
+            let max = 0;
+            for (const selection of selectionSet.selections) {
+                if (selection.kind === Kind.FIELD) {
+                    max = Math.max(max, selection.selectionSet ? 1 + depthOf(selection.selectionSet, visited) : 1);
+                } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+                    max = Math.max(max, depthOf(selection.selectionSet, visited));
+                } else if (selection.kind === Kind.FRAGMENT_SPREAD && !visited.has(selection.name.value)) {
+                    const fragment = fragments.get(selection.name.value);
+                    max = Math.max(max, depthOf(fragment?.selectionSet, new Set([...visited, selection.name.value])));
+                }
+            }
+            return max;
+        };
+
+        let depth = 0;
+        for (const def of document.definitions) {
+            if (def.kind === Kind.OPERATION_DEFINITION) depth = Math.max(depth, depthOf(def.selectionSet, new Set()));
+        }
+        return depth;
+    }
+}
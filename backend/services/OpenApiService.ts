@@ -50,7 +50,7 @@ export class OpenApiService {
             basePath: basePathStr,
             schemes: schemesList,
             consumes: ["application/json", "application/vnd.pgrst.object+json"],
-            produces: ["application/json", "application/vnd.pgrst.object+json", "text/csv"],
+            produces: ["application/json", "application/vnd.pgrst.object+json", "text/csv", "application/geo+json", "application/x-ndjson"],
             paths: {
                 "/": {
                     get: {
@@ -1,5 +1,5 @@
 
-import { PoolClient } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { DatabaseService } from './DatabaseService.js';
@@ -13,10 +13,216 @@ export interface PostgrestQuery {
     countQuery?: string; // Optional separate query for exact count
     cacheKey?: string; // Semantic Cache ID
     ttl?: number;      // TTL requested by client
+    countValues?: any[]; // Params referenced by countQuery (subset of values when embeds add params)
+    embeds?: EmbedShape[]; // Nested resources present in the response (used by the masking tier)
+    sources?: Record<string, string>; // Response key -> source column for aliased select items (used by the masking tier)
+    countMode?: 'exact' | 'planned' | 'estimated';
+    plannedCountQuery?: string; // EXPLAIN used by count=planned (and count=estimated past the threshold)
+    preferences?: PostgrestPreferences;
+    preferenceApplied?: string; // Value for the Preference-Applied response header
+    capturesOld?: boolean; // PATCH rows carry the previous row as `__cascata_old` (webhook old_record)
 }
 
+/**
+ * Parsed `Prefer` header. Tokens the server does not understand are kept in
+ * `invalid` so `handling=strict` can reject them.
+ */
+export interface PostgrestPreferences {
+    return?: 'minimal' | 'headers-only' | 'representation';
+    count?: 'exact' | 'planned' | 'estimated';
+    resolution?: 'merge-duplicates' | 'ignore-duplicates';
+    missing?: 'default' | 'null';
+    handling?: 'lenient' | 'strict';
+    tx?: 'commit' | 'rollback';
+    maxAffected?: number;
+    invalid: string[];
+}
+
+/**
+ * Foreign key as seen by the resource embedding resolver.
+ * `table.columns` references `foreignTable.foreignColumns`.
+ */
+export interface PostgrestRelationship {
+    constraint: string;
+    table: string;
+    columns: string[];
+    foreignTable: string;
+    foreignColumns: string[];
+}
+
+/**
+ * Shape of an embedded resource in the JSON response: which key holds it,
+ * which table it came from and what is nested below it.
+ */
+export interface EmbedShape {
+    alias: string;
+    table: string;
+    embeds: EmbedShape[];
+    sources?: Record<string, string>;
+}
+
+export type PostgrestFormat = 'json' | 'object' | 'csv' | 'geojson' | 'ndjson';
+
+type EmbedKind = 'many_to_one' | 'one_to_many' | 'many_to_many';
+
+interface SelectColumn {
+    sql: string;
+    key?: string;    // Response key when it differs from the column (`alias:col`, json path, cast)
+    source?: string; // Column the key was read from
+}
+
+interface EmbedNode {
+    alias: string;
+    name: string;
+    hint?: string;
+    inner: boolean;
+    table: string;
+    kind: EmbedKind;
+    fk: PostgrestRelationship;
+    junction?: { table: string; sourceFk: PostgrestRelationship; targetFk: PostgrestRelationship };
+    sqlAlias: string;
+    path: string;
+    columns: SelectColumn[];
+    embeds: EmbedNode[];
+    order?: string;
+    limit?: number;
+    offset?: number;
+    filters?: string[];
+}
+
+const RELATIONSHIP_CACHE_TTL_MS = 60 * 1000;
+
+
+const PREFERENCE_VALUES: Record<string, string[]> = {
+    'return': ['minimal', 'headers-only', 'representation'],
+    'count': ['exact', 'planned', 'estimated'],
+    'resolution': ['merge-duplicates', 'ignore-duplicates'],
+    'missing': ['default', 'null'],
+    'handling': ['lenient', 'strict'],
+    'tx': ['commit', 'rollback']
+};
+
+const pgrstError = (status: number, code: string, message: string, details?: string) =>
+    Object.assign(new Error(message), { status, code, details });
+
 export class PostgrestService {
 
+    // count=estimated counts exactly up to this many rows, then falls back to the planner estimate
+    public static readonly ESTIMATED_COUNT_THRESHOLD = 1000;
+
+    // Resource embedding needs the FK graph of the project database.
+    // Keyed by pool so Live/Draft and external databases never share an entry.
+    private static relationshipCache = new WeakMap<Pool, { relationships: PostgrestRelationship[], loadedAt: number }>();
+
+    /**
+     * Returns true when the select parameter asks for embedded resources,
+     * so callers only pay for FK introspection when it is actually needed.
+     */
+    public static hasEmbeds(selectParam: any): boolean {
+        return typeof selectParam === 'string' && /[a-zA-Z0-9_!]\(/.test(selectParam);
+    }
+
+    /**
+     * Loads (and caches for 60s) the foreign keys between tables of the public schema.
+     * Catalog-only query, executed on the raw pool like getSchemas.
+     */
+    public static async getRelationships(pool: Pool): Promise<PostgrestRelationship[]> {
+        const cached = this.relationshipCache.get(pool);
+        if (cached && (Date.now() - cached.loadedAt) < RELATIONSHIP_CACHE_TTL_MS) {
+            return cached.relationships;
+        }
+
+        const result = await pool.query(`
+            SELECT
+                c.conname AS constraint,
+                src.relname AS table,
+                tgt.relname AS foreign_table,
+                array_agg(sa.attname::text ORDER BY k.ord) AS columns,
+                array_agg(ta.attname::text ORDER BY k.ord) AS foreign_columns
+            FROM pg_constraint c
+            JOIN pg_class src ON src.oid = c.conrelid
+            JOIN pg_namespace src_ns ON src_ns.oid = src.relnamespace
+            JOIN pg_class tgt ON tgt.oid = c.confrelid
+            JOIN pg_namespace tgt_ns ON tgt_ns.oid = tgt.relnamespace
+            CROSS JOIN LATERAL unnest(c.conkey, c.confkey) WITH ORDINALITY AS k(src_attnum, tgt_attnum, ord)
+            JOIN pg_attribute sa ON sa.attrelid = c.conrelid AND sa.attnum = k.src_attnum
+            JOIN pg_attribute ta ON ta.attrelid = c.confrelid AND ta.attnum = k.tgt_attnum
+            WHERE c.contype = 'f'
+              AND src_ns.nspname = 'public'
+              AND tgt_ns.nspname = 'public'
+            GROUP BY c.conname, src.relname, tgt.relname
+        `);
+
+        const relationships: PostgrestRelationship[] = result.rows.map((r: any) => ({
+            constraint: r.constraint,
+            table: r.table,
+            columns: r.columns,
+            foreignTable: r.foreign_table,
+            foreignColumns: r.foreign_columns
+        }));
+
+        this.relationshipCache.set(pool, { relationships, loadedAt: Date.now() });
+        return relationships;
+    }
+
+    /**
+     * Drops the cached FK graph after DDL so new relationships are embeddable immediately.
+     */
+    public static invalidateRelationships(pool: Pool): void {
+        this.relationshipCache.delete(pool);
+    }
+
+    /**
+     * Parses the `Prefer` header (comma separated, possibly repeated) into known tokens.
+     * With `handling=strict`, any unknown or malformed token fails the request (PGRST122).
+     */
+    public static parsePreferences(header: string | string[] | undefined): PostgrestPreferences {
+        const prefs: PostgrestPreferences = { invalid: [] };
+        const raw = Array.isArray(header) ? header.join(',') : (header || '');
+
+        for (const token of raw.split(',').map(t => t.trim()).filter(Boolean)) {
+            const eq = token.indexOf('=');
+            const key = eq === -1 ? token : token.substring(0, eq).trim();
+            const value = eq === -1 ? '' : token.substring(eq + 1).trim();
+
+            if (key === 'max-affected') {
+                if (/^\d+$/.test(value)) prefs.maxAffected = parseInt(value);
+                else prefs.invalid.push(token);
+                continue;
+            }
+            // Own keys only: `constructor=x` must not resolve to Object.prototype members
+            if (Object.prototype.hasOwnProperty.call(PREFERENCE_VALUES, key) && PREFERENCE_VALUES[key].includes(value)) {
+                (prefs as any)[key] = value;
+                continue;
+            }
+            prefs.invalid.push(token);
+        }
+
+        if (prefs.handling === 'strict' && prefs.invalid.length > 0) {
+            throw pgrstError(400, 'PGRST122', 'Invalid preferences given with handling=strict', `Invalid preferences: ${prefs.invalid.join(', ')}`);
+        }
+        return prefs;
+    }
+
+    /**
+     * Preferences actually honored for this method.
+     * max-affected only applies under handling=strict, as in PostgREST.
+     */
+    private static appliedPreferences(prefs: PostgrestPreferences, method: string): string {
+        const isWrite = method !== 'GET';
+        const applied: string[] = [];
+        if (prefs.return && isWrite && (prefs.return !== 'headers-only' || method === 'POST')) applied.push(`return=${prefs.return}`);
+        if (prefs.count && method === 'GET') applied.push(`count=${prefs.count}`);
+        if (prefs.resolution && method === 'POST') applied.push(`resolution=${prefs.resolution}`);
+        if (prefs.missing && method === 'POST') applied.push(`missing=${prefs.missing}`);
+        if (prefs.handling) applied.push(`handling=${prefs.handling}`);
+        if (prefs.tx) applied.push(`tx=${prefs.tx}`);
+        if (prefs.maxAffected !== undefined && prefs.handling === 'strict' && (method === 'PATCH' || method === 'DELETE')) {
+            applied.push(`max-affected=${prefs.maxAffected}`);
+        }
+        return applied.join(', ');
+    }
+
     /**
      * Generates a deterministic hash for the SQL string to enable Postgres Prepared Statements.
      * This allows the DB to cache the execution plan, significantly reducing CPU usage for repeated queries.
@@ -31,7 +237,9 @@ export class PostgrestService {
         method: string,
         query: any,
         body: any,
-        headers: any
+        headers: any,
+        relationships: PostgrestRelationship[] = [],
+        captureOld: boolean = false
     ): PostgrestQuery {
         // SANITIZATION: Strict Identifier Validation
         if (!/^[a-zA-Z0-9_]+$/.test(tableName)) {
@@ -42,6 +250,10 @@ export class PostgrestService {
         const params: any[] = [];
         let sql = '';
         let countQuery = '';
+        let plannedCountQuery = '';
+
+        const prefs = this.parsePreferences(headers['prefer']);
+        const preferenceApplied = this.appliedPreferences(prefs, method);
 
         // 1. Extract Reserved Params (Pagination, Select, Order)
         let selectParam = query.select || '*';
@@ -52,33 +264,50 @@ export class PostgrestService {
         const offsetParam = query.offset;
         const onConflictParam = query.on_conflict;
 
-        // 2. Build Filters
+        // 2. Resource Embedding (GET only): resolve the select tree against the FK graph.
+        let embedTree: { columns: SelectColumn[], embeds: EmbedNode[] } | null = null;
+        if (method === 'GET') {
+            embedTree = this.parseSelectTree(selectParam, tableName, tableName, '', relationships, { n: 0 });
+            this.applyEmbedModifiers(embedTree.embeds, query);
+        }
+
+        // 3. Build Filters (root level + filters routed to embedded resources, e.g. `comments.likes=gt.5`)
         const filters: string[] = [];
-        Object.keys(query).forEach(key => {
-            if (['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'].includes(key)) return;
-
-            // SANITIZATION: Key must be valid identifier
-            if (!/^[a-zA-Z0-9_]+$/.test(key)) return;
-
-            const value = query[key];
-            const { clause, val } = this.parseFilter(key, value, params.length + 1);
-            if (clause) {
-                filters.push(clause);
-                if (val !== undefined) {
-                    if (Array.isArray(val)) {
-                        val.forEach(v => params.push(v));
-                    } else {
-                        params.push(val);
-                    }
+        const embedPending = new Map<EmbedNode, Array<[string, any]>>();
+        if (method === 'GET') {
+            const embedIndex = this.indexEmbeds(embedTree!.embeds);
+            filters.push(...this.buildFilters(query, params, undefined, embedIndex, embedPending));
+
+            // `!inner` embeds restrict the root rows, so they join the filters (and the count).
+            // Their params are bound first so countValues stays a contiguous prefix of values.
+            const compileInner = (embeds: EmbedNode[]) => {
+                for (const embed of embeds) {
+                    if (!embed.inner) continue;
+                    this.compileEmbedFilters(embed, embedPending, params);
+                    compileInner(embed.embeds);
                 }
+            };
+            compileInner(embedTree!.embeds);
+            for (const embed of embedTree!.embeds) {
+                if (embed.inner) filters.push(this.buildExistsClause(embed, safeTable));
             }
-        });
+        }
 
         const whereClause = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+        const countValues = [...params];
 
-        // 3. Handle Methods
+        // 4. Handle Methods
         if (method === 'GET') {
-            const columns = this.parseSelect(selectParam);
+            // Remaining embed filters only affect the embedded arrays/objects (select list)
+            const compileAll = (embeds: EmbedNode[]) => {
+                for (const embed of embeds) {
+                    if (!embed.filters) this.compileEmbedFilters(embed, embedPending, params);
+                    compileAll(embed.embeds);
+                }
+            };
+            compileAll(embedTree!.embeds);
+
+            const columns = this.renderSelectList(embedTree!.columns, embedTree!.embeds, safeTable);
             const orderBy = this.parseOrder(orderParam);
 
             let limitClause = '';
@@ -101,8 +330,14 @@ export class PostgrestService {
 
             sql = `SELECT ${columns} FROM public.${safeTable} ${whereClause} ${orderBy} ${limitClause} ${offsetClause}`;
 
-            if (headers['prefer'] && headers['prefer'].includes('count=exact')) {
+            if (prefs.count === 'exact') {
                 countQuery = `SELECT COUNT(*) as total FROM public.${safeTable} ${whereClause}`;
+            } else if (prefs.count === 'planned' || prefs.count === 'estimated') {
+                // The planner estimate already derives from pg_class.reltuples (scaled by filter selectivity)
+                plannedCountQuery = `EXPLAIN (FORMAT JSON) SELECT 1 FROM public.${safeTable} ${whereClause}`;
+                if (prefs.count === 'estimated') {
+                    countQuery = `SELECT COUNT(*) as total FROM (SELECT 1 FROM public.${safeTable} ${whereClause} LIMIT ${this.ESTIMATED_COUNT_THRESHOLD + 1}) AS _pgrst_count`;
+                }
             }
 
             // --- DRAGONFLY SEMANTIC QUERY CACHING ---
@@ -115,9 +350,15 @@ export class PostgrestService {
                         // Chave de cache precisa do nome do tenant/projeto e tabela para isolamento,
                         // alem do hash da query + parametros resolvidos (limitado aos GETs).
                         // Vamos injetar a key completa dps na camada final, por hora só sinalizamos
-                        const queryHash = crypto.createHash('sha256').update(sql + JSON.stringify(params)).digest('hex');
+                        // The embed tree joins the key too: the masking tier shapes cached bodies by it
+                        const embeds = this.toEmbedShapes(embedTree!.embeds);
+                        const sources = this.columnSources(embedTree!.columns);
+                        const queryHash = crypto.createHash('sha256').update(sql + JSON.stringify(params) + JSON.stringify(embeds)).digest('hex');
                         const semanticKey = `qcache:${tableName}:${queryHash}`;
-                        return { text: sql, values: params, name: this.generateStatementName(sql), countQuery, cacheKey: semanticKey, ttl };
+                        return {
+                            text: sql, values: params, name: this.generateStatementName(sql), countQuery, countValues, cacheKey: semanticKey, ttl,
+                            embeds, sources, countMode: prefs.count, plannedCountQuery, preferences: prefs, preferenceApplied
+                        };
                     }
                 }
             }
@@ -146,7 +387,11 @@ export class PostgrestService {
             const validRows = rows.filter((r: any) => Object.keys(r).length > 0);
             if (validRows.length === 0) throw new Error("No data to insert after lock filtering");
 
-            const keys = Object.keys(validRows[0]);
+            // missing=default: columns are the union of all rows and absent keys take the column DEFAULT.
+            // Otherwise the first row defines the columns (absent keys insert NULL).
+            const keys = prefs.missing === 'default'
+                ? Array.from(new Set(validRows.flatMap((r: any) => Object.keys(r))))
+                : Object.keys(validRows[0]);
             if (keys.length === 0) throw new Error("No valid data to insert after sanitization");
 
             // SANITIZATION
@@ -163,6 +408,10 @@ export class PostgrestService {
             rows.forEach(row => {
                 const placeholders: string[] = [];
                 keys.forEach(k => {
+                    if (prefs.missing === 'default' && !(k in row)) {
+                        placeholders.push('DEFAULT');
+                        return;
+                    }
                     placeholders.push(`$${paramIdx++}`);
                     params.push(row[k]);
                 });
@@ -170,7 +419,7 @@ export class PostgrestService {
             });
 
             let upsertClause = '';
-            if (headers['prefer'] && headers['prefer'].includes('resolution=merge-duplicates')) {
+            if (prefs.resolution === 'merge-duplicates') {
                 const conflictTarget = onConflictParam ? `"${onConflictParam.replace(/[^a-zA-Z0-9_]/g, '')}"` : '"id"';
 
                 // TIER-3 PADLOCK MIGRATED TO POSTGRESQL (Security Lock v2)
@@ -186,11 +435,12 @@ export class PostgrestService {
                     upsertClause = `ON CONFLICT (${conflictTarget}) DO NOTHING`;
                 }
 
-            } else if (headers['prefer'] && headers['prefer'].includes('resolution=ignore-duplicates')) {
+            } else if (prefs.resolution === 'ignore-duplicates') {
                 upsertClause = `ON CONFLICT DO NOTHING`;
             }
 
-            const returning = (headers['prefer'] && headers['prefer'].includes('return=minimal')) ? '' : 'RETURNING *';
+            // headers-only still needs the inserted row to build the Location header
+            const returning = prefs.return === 'minimal' ? '' : 'RETURNING *';
 
             sql = `INSERT INTO public.${safeTable} (${cols}) VALUES ${valueGroups.join(', ')} ${upsertClause} ${returning}`;
 
@@ -224,46 +474,30 @@ export class PostgrestService {
                 params.push(body[k]);
             });
 
-            const updateFilters: string[] = [];
-            Object.keys(query).forEach(key => {
-                if (['select', 'order', 'limit', 'offset'].includes(key)) return;
-                // SANITIZATION
-                if (!/^[a-zA-Z0-9_]+$/.test(key)) return;
-
-                const value = query[key];
-                const { clause, val } = this.parseFilter(key, value, params.length + 1);
-                if (clause) {
-                    updateFilters.push(clause);
-                    if (val !== undefined) params.push(val);
-                }
-            });
+            const updateFilters = this.buildFilters(query, params);
 
             const updateWhere = updateFilters.length > 0 ? `WHERE ${updateFilters.join(' AND ')}` : '';
             if (!updateWhere) throw new Error("UPDATE requires a filter (e.g. ?id=eq.1)");
 
-            const returning = (headers['prefer'] && headers['prefer'].includes('return=representation')) ? 'RETURNING *' : '';
-
-            sql = `UPDATE public.${safeTable} SET ${setClauses.join(', ')} ${updateWhere} ${returning}`;
+            if (captureOld) {
+                // Rows as they were, locked in the same statement so no concurrent write slips in between.
+                // Always RETURNING: the webhook dispatch needs the new rows even when the client doesn't.
+                sql = `WITH __old AS (SELECT ctid AS __cascata_ctid, * FROM public.${safeTable} ${updateWhere} FOR UPDATE)
+                       UPDATE public.${safeTable} AS __new SET ${setClauses.join(', ')} FROM __old
+                       WHERE __new.ctid = __old.__cascata_ctid
+                       RETURNING __new.*, to_jsonb(__old.*) - '__cascata_ctid' AS __cascata_old`;
+            } else {
+                const returning = prefs.return === 'representation' ? 'RETURNING *' : '';
+                sql = `UPDATE public.${safeTable} SET ${setClauses.join(', ')} ${updateWhere} ${returning}`;
+            }
 
         } else if (method === 'DELETE') {
-            const deleteFilters: string[] = [];
-            Object.keys(query).forEach(key => {
-                if (['select', 'order', 'limit', 'offset'].includes(key)) return;
-                // SANITIZATION
-                if (!/^[a-zA-Z0-9_]+$/.test(key)) return;
-
-                const value = query[key];
-                const { clause, val } = this.parseFilter(key, value, params.length + 1);
-                if (clause) {
-                    deleteFilters.push(clause);
-                    if (val !== undefined) params.push(val);
-                }
-            });
+            const deleteFilters = this.buildFilters(query, params);
 
             const deleteWhere = deleteFilters.length > 0 ? `WHERE ${deleteFilters.join(' AND ')}` : '';
             if (!deleteWhere) throw new Error("DELETE requires a filter (e.g. ?id=eq.1)");
 
-            const returning = (headers['prefer'] && headers['prefer'].includes('return=representation')) ? 'RETURNING *' : '';
+            const returning = prefs.return === 'representation' ? 'RETURNING *' : '';
 
             sql = `DELETE FROM public.${safeTable} ${deleteWhere} ${returning}`;
         }
@@ -272,34 +506,380 @@ export class PostgrestService {
         // Only queries with parameters benefit significantly from prepared statements
         const name = params.length > 0 ? this.generateStatementName(sql) : undefined;
 
-        return { text: sql, values: params, name, countQuery };
+        const embeds = embedTree ? this.toEmbedShapes(embedTree.embeds) : undefined;
+        const sources = embedTree ? this.columnSources(embedTree.columns) : undefined;
+        const capturesOld = captureOld && method === 'PATCH';
+        return { text: sql, values: params, name, countQuery, countValues, embeds, sources, countMode: prefs.count, plannedCountQuery, preferences: prefs, preferenceApplied, capturesOld };
+    }
+
+    // --- RESPONSE FORMATS ---
+
+    /**
+     * Maps the Accept header to a response format. Unknown or absent media types stay JSON.
+     */
+    public static negotiateFormat(accept: string | undefined): PostgrestFormat {
+        if (!accept) return 'json';
+        if (accept === 'application/vnd.pgrst.object+json') return 'object';
+        const types = accept.split(',').map(t => t.split(';')[0].trim().toLowerCase());
+        for (const type of types) {
+            if (type === 'application/json' || type === '*/*') return 'json';
+            if (type === 'text/csv') return 'csv';
+            if (type === 'application/geo+json') return 'geojson';
+            if (type === 'application/x-ndjson' || type === 'application/ndjson') return 'ndjson';
+        }
+        return 'json';
+    }
+
+    public static contentTypeFor(format: PostgrestFormat): string {
+        switch (format) {
+            case 'csv': return 'text/csv; charset=utf-8';
+            case 'geojson': return 'application/geo+json; charset=utf-8';
+            case 'ndjson': return 'application/x-ndjson; charset=utf-8';
+            default: return 'application/json; charset=utf-8';
+        }
+    }
+
+    private static csvValue(value: any): string {
+        if (value === null || value === undefined) return '';
+        let text: string;
+        if (value instanceof Date) text = value.toISOString();
+        else if (Buffer.isBuffer(value)) text = `\\x${value.toString('hex')}`;
+        else if (typeof value === 'object') text = JSON.stringify(value);
+        else text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+
+    /**
+     * RFC 4180 CSV lines (CRLF terminated). Nested values (json, arrays, embeds) are JSON encoded.
+     */
+    public static toCsv(rows: any[], columns: string[], includeHeader: boolean): string {
+        let out = includeHeader ? columns.map(c => this.csvValue(c)).join(',') + '\r\n' : '';
+        for (const row of rows) {
+            out += columns.map(c => this.csvValue(row?.[c])).join(',') + '\r\n';
+        }
+        return out;
+    }
+
+    public static toNdjson(rows: any[]): string {
+        return rows.map(row => JSON.stringify(row) + '\n').join('');
+    }
+
+    /**
+     * Wraps a SELECT so each row comes back as a GeoJSON Feature. ST_AsGeoJSON(record)
+     * (PostGIS 3+) uses the first geometry/geography column and turns the rest into properties.
+     */
+    public static wrapGeoJson(sql: string): string {
+        return `SELECT ST_AsGeoJSON(_pgrst_geo.*)::json AS feature FROM (${sql}) AS _pgrst_geo`;
+    }
+
+    // --- RESOURCE EMBEDDING ---
+
+    /**
+     * Splits on a separator at nesting depth 0, so `a,b(c,d),e` yields three items.
+     */
+    private static splitTopLevel(input: string, separator: string = ','): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let inQuotes = false;
+        let current = '';
+        let escaped = false;
+        for (const ch of input) {
+            if (inQuotes && !escaped && ch === '\\') {
+                escaped = true;
+                current += ch;
+                continue;
+            }
+            if (ch === '"' && !escaped) inQuotes = !inQuotes;
+            escaped = false;
+            if (!inQuotes) {
+                if (ch === '(') depth++;
+                if (ch === ')') depth--;
+                if (depth < 0) throw pgrstError(400, 'PGRST100', `Unbalanced parentheses in "${input}".`);
+                if (ch === separator && depth === 0) {
+                    parts.push(current);
+                    current = '';
+                    continue;
+                }
+            }
+            current += ch;
+        }
+        if (depth !== 0) throw pgrstError(400, 'PGRST100', `Unbalanced parentheses in "${input}".`);
+        parts.push(current);
+        return parts;
     }
 
-    private static parseSelect(selectParam: string): string {
-        if (!selectParam || selectParam === '*' || selectParam === '%2A') return '*';
-        return selectParam.split(',').map(c => {
-            const part = c.trim();
-            // Basic sanitization, ideally should be stricter
-            if (!/^[a-zA-Z0-9_:\->.\s\(\)]+$/.test(part)) return '';
+    /**
+     * Parses `*,author:users(name),comments!inner(*,likes(count))` into columns and
+     * embed nodes, resolving each embed against the FK graph as it goes.
+     */
+    private static parseSelectTree(
+        selectParam: string,
+        table: string,
+        sqlAlias: string,
+        path: string,
+        relationships: PostgrestRelationship[],
+        counter: { n: number }
+    ): { columns: SelectColumn[], embeds: EmbedNode[] } {
+        const columns: SelectColumn[] = [];
+        const embeds: EmbedNode[] = [];
+        const qualifier = sqlAlias.startsWith('"') ? sqlAlias : `"${sqlAlias}"`;
+
+        const raw = (!selectParam || selectParam === '%2A') ? '*' : selectParam;
+        for (const item of this.splitTopLevel(raw)) {
+            const part = item.trim();
+            if (!part) continue;
+
+            const embedMatch = part.match(/^(?:([a-zA-Z0-9_]+):)?([a-zA-Z0-9_]+)((?:![a-zA-Z0-9_]+)*)\(([\s\S]*)\)$/);
+            if (embedMatch) {
+                const [, alias, name, hintsRaw, inner] = embedMatch;
+                const hints = hintsRaw ? hintsRaw.split('!').filter(Boolean) : [];
+                const joinType = hints.find(h => h === 'inner' || h === 'left');
+                const hint = hints.find(h => h !== 'inner' && h !== 'left');
+                const resolved = this.resolveRelationship(table, name, hint, relationships);
+                const childAlias = `_pgrst_${++counter.n}`;
+                const outputAlias = alias || name;
+                const childPath = path ? `${path}.${outputAlias}` : outputAlias;
+                const subtree = this.parseSelectTree(inner, resolved.table, childAlias, childPath, relationships, counter);
+
+                embeds.push({
+                    alias: outputAlias,
+                    name,
+                    hint,
+                    inner: joinType === 'inner',
+                    table: resolved.table,
+                    kind: resolved.kind,
+                    fk: resolved.fk,
+                    junction: resolved.junction,
+                    sqlAlias: childAlias,
+                    path: childPath,
+                    columns: subtree.columns,
+                    embeds: subtree.embeds
+                });
+                continue;
+            }
+
+            const column = this.parseSelectColumn(part, qualifier);
+            if (column) columns.push(column);
+        }
+
+        return { columns, embeds };
+    }
+
+    /**
+     * Renders a plain select item: `*`, `col`, `alias:col`, `col::text`, `data->a->>b`.
+     * Anything else is dropped (same silent-skip policy as the previous parser).
+     */
+    private static parseSelectColumn(part: string, qualifier: string): SelectColumn | null {
+        if (part === '*') return { sql: `${qualifier}.*` };
+
+        // Legacy "table.column" passthrough, now quoted.
+        const dotted = part.match(/^([a-zA-Z0-9_]+)\.([a-zA-Z0-9_]+)$/);
+        if (dotted) return { sql: `"${dotted[1]}"."${dotted[2]}"` };
+
+        const m = part.match(/^(?:([a-zA-Z0-9_]+):(?!:))?([a-zA-Z0-9_]+)((?:->>?[a-zA-Z0-9_]+)*)(?:::([a-zA-Z0-9_ ]+(?:\[\])?))?$/);
+        if (!m) return null;
+
+        const [, alias, column, jsonPath, cast] = m;
+        let expr = `${qualifier}."${column}"`;
+        let defaultAlias: string | undefined;
+
+        if (jsonPath) {
+            const steps = jsonPath.match(/->>?[a-zA-Z0-9_]+/g) || [];
+            for (const step of steps) {
+                const op = step.startsWith('->>') ? '->>' : '->';
+                const key = step.substring(op.length);
+                expr += /^\d+$/.test(key) ? `${op}${key}` : `${op}'${key}'`;
+                defaultAlias = key;
+            }
+        }
+        if (cast) expr = `(${expr})::${cast.trim()}`;
+
+        const outputAlias = alias || defaultAlias || (cast ? column : undefined);
+        if (!outputAlias) return { sql: expr };
+        return { sql: `${expr} AS "${outputAlias}"`, key: outputAlias, source: column };
+    }
+
+    /**
+     * Finds the FK path between `table` and the requested embed. Candidates are
+     * many-to-one (FK on table), one-to-many (FK on target) and many-to-many
+     * (junction with FKs to both). A hint (FK name, FK column or junction table)
+     * narrows the candidates; more than one survivor is an ambiguity error (300).
+     */
+    private static resolveRelationship(
+        table: string,
+        name: string,
+        hint: string | undefined,
+        relationships: PostgrestRelationship[]
+    ): { table: string, kind: EmbedKind, fk: PostgrestRelationship, junction?: EmbedNode['junction'] } {
+        type Candidate = { table: string, kind: EmbedKind, fk: PostgrestRelationship, junction?: EmbedNode['junction'] };
+        const candidates: Candidate[] = [];
+
+        for (const fk of relationships) {
+            // many-to-one: table.fk -> name
+            if (fk.table === table && fk.foreignTable === name) {
+                candidates.push({ table: name, kind: 'many_to_one', fk });
+            }
+            // one-to-many: name.fk -> table
+            if (fk.table === name && fk.foreignTable === table) {
+                candidates.push({ table: name, kind: 'one_to_many', fk });
+            }
+        }
 
-            if (part.includes(':') && !part.includes('::')) {
-                const [col, alias] = part.split(':');
-                return `"${col.trim()}" AS "${alias.trim()}"`;
+        // many-to-one addressed by FK column or constraint name: `author_id(*)`, `posts_author_id_fkey(*)`
+        if (candidates.length === 0) {
+            for (const fk of relationships) {
+                if (fk.table === table && (fk.constraint === name || (fk.columns.length === 1 && fk.columns[0] === name))) {
+                    candidates.push({ table: fk.foreignTable, kind: 'many_to_one', fk });
+                }
             }
-            if (part.includes('(') || part.includes('->') || part.includes('.')) {
-                return part;
+        }
+
+        // many-to-many through a junction table holding FKs to both sides
+        for (const sourceFk of relationships) {
+            if (sourceFk.foreignTable !== table) continue;
+            for (const targetFk of relationships) {
+                if (targetFk === sourceFk || targetFk.table !== sourceFk.table || targetFk.foreignTable !== name) continue;
+                if (sourceFk.table === table || sourceFk.table === name) continue;
+                candidates.push({
+                    table: name,
+                    kind: 'many_to_many',
+                    fk: targetFk,
+                    junction: { table: sourceFk.table, sourceFk, targetFk }
+                });
             }
-            return `"${part}"`;
-        }).filter(Boolean).join(', ');
+        }
+
+        const matching = hint
+            ? candidates.filter(c =>
+                c.fk.constraint === hint ||
+                c.fk.columns.includes(hint) ||
+                (c.junction && (c.junction.table === hint || c.junction.sourceFk.constraint === hint)))
+            : candidates;
+
+        if (matching.length === 0) {
+            throw pgrstError(400, 'PGRST200',
+                `Could not find a relationship between '${table}' and '${name}' in the schema cache`,
+                hint ? `Searched for a foreign key relationship matching the hint '${hint}'.` : undefined);
+        }
+
+        if (matching.length > 1) {
+            const options = matching.map(c => c.junction
+                ? `${name}!${c.junction.table}`
+                : `${name}!${c.fk.constraint}`).join(', ');
+            throw pgrstError(300, 'PGRST201',
+                `Could not embed because more than one relationship was found for '${table}' and '${name}'`,
+                `Try changing '${name}' to one of the following: ${options}.`);
+        }
+
+        return matching[0];
+    }
+
+    /**
+     * Wires `<embed>.order`, `<embed>.limit` and `<embed>.offset` query params
+     * into the embed tree (PostgREST addresses embeds by alias, e.g. `comments.order=id.desc`).
+     */
+    private static applyEmbedModifiers(embeds: EmbedNode[], query: any): void {
+        for (const embed of embeds) {
+            const order = query[`${embed.path}.order`];
+            const limit = query[`${embed.path}.limit`];
+            const offset = query[`${embed.path}.offset`];
+            if (typeof order === 'string') embed.order = order;
+            if (limit !== undefined && !isNaN(parseInt(limit))) embed.limit = parseInt(limit);
+            if (offset !== undefined && !isNaN(parseInt(offset))) embed.offset = parseInt(offset);
+            this.applyEmbedModifiers(embed.embeds, query);
+        }
+    }
+
+    /**
+     * Join predicate linking an embed alias to its parent alias.
+     */
+    private static buildJoinCondition(embed: EmbedNode, parent: string): string {
+        const child = `"${embed.sqlAlias}"`;
+        const pairs = (a: string, aCols: string[], b: string, bCols: string[]) =>
+            aCols.map((col, i) => `${a}."${col}" = ${b}."${bCols[i]}"`).join(' AND ');
+
+        if (embed.kind === 'many_to_one') {
+            return pairs(child, embed.fk.foreignColumns, parent, embed.fk.columns);
+        }
+        if (embed.kind === 'one_to_many') {
+            return pairs(child, embed.fk.columns, parent, embed.fk.foreignColumns);
+        }
+
+        const j = embed.junction!;
+        const junctionAlias = `"${embed.sqlAlias}_j"`;
+        return `EXISTS (SELECT 1 FROM public."${j.table}" AS ${junctionAlias} WHERE ${pairs(junctionAlias, j.sourceFk.columns, parent, j.sourceFk.foreignColumns)} AND ${pairs(junctionAlias, j.targetFk.columns, child, j.targetFk.foreignColumns)})`;
+    }
+
+    /**
+     * Predicates that restrict the rows of an embed: its join with the parent plus
+     * the EXISTS of any nested `!inner` embeds.
+     */
+    private static buildEmbedConditions(embed: EmbedNode, parent: string): string[] {
+        const conditions = [this.buildJoinCondition(embed, parent), ...(embed.filters || [])];
+        for (const child of embed.embeds) {
+            if (child.inner) conditions.push(this.buildExistsClause(child, `"${embed.sqlAlias}"`));
+        }
+        return conditions;
+    }
+
+    private static buildExistsClause(embed: EmbedNode, parent: string): string {
+        return `EXISTS (SELECT 1 FROM public."${embed.table}" AS "${embed.sqlAlias}" WHERE ${this.buildEmbedConditions(embed, parent).join(' AND ')})`;
+    }
+
+    /**
+     * Correlated subquery aggregating an embed as JSON: an object (or null) for
+     * many-to-one, an array for one-to-many and many-to-many.
+     */
+    private static buildEmbedSubquery(embed: EmbedNode, parent: string): string {
+        const self = `"${embed.sqlAlias}"`;
+        const columns = this.renderSelectList(embed.columns, embed.embeds, self);
+        const where = this.buildEmbedConditions(embed, parent).join(' AND ');
+        const rowAlias = `"${embed.sqlAlias}_row"`;
+
+        if (embed.kind === 'many_to_one') {
+            return `(SELECT row_to_json(${rowAlias}) FROM (SELECT ${columns} FROM public."${embed.table}" AS ${self} WHERE ${where} LIMIT 1) AS ${rowAlias})`;
+        }
+
+        const orderBy = this.parseOrder(embed.order || '', self);
+        const limit = embed.limit !== undefined ? `LIMIT ${embed.limit}` : '';
+        const offset = embed.offset !== undefined ? `OFFSET ${embed.offset}` : '';
+        return `(SELECT COALESCE(json_agg(${rowAlias}), '[]'::json) FROM (SELECT ${columns} FROM public."${embed.table}" AS ${self} WHERE ${where} ${orderBy} ${limit} ${offset}) AS ${rowAlias})`;
     }
 
-    private static parseOrder(orderParam: string): string {
+    private static renderSelectList(columns: SelectColumn[], embeds: EmbedNode[], qualifier: string): string {
+        const items = columns.map(c => c.sql);
+        for (const embed of embeds) {
+            items.push(`${this.buildEmbedSubquery(embed, qualifier)} AS "${embed.alias}"`);
+        }
+        // `embed()` with an empty column list still needs a valid SELECT list.
+        return items.length > 0 ? items.join(', ') : `${qualifier}.*`;
+    }
+
+    private static toEmbedShapes(embeds: EmbedNode[]): EmbedShape[] {
+        return embeds.map(e => ({
+            alias: e.alias, table: e.table, embeds: this.toEmbedShapes(e.embeds), sources: this.columnSources(e.columns)
+        }));
+    }
+
+    /**
+     * Maps aliased response keys back to their source column, so masks keyed by column
+     * also cover `x:email`, `data->>email` and `email::text`.
+     */
+    private static columnSources(columns: SelectColumn[]): Record<string, string> | undefined {
+        const sources: Record<string, string> = {};
+        for (const column of columns) {
+            if (column.key && column.source) sources[column.key] = column.source;
+        }
+        return Object.keys(sources).length > 0 ? sources : undefined;
+    }
+
+    private static parseOrder(orderParam: string, qualifier?: string): string {
         if (!orderParam) return '';
         const parts = orderParam.split(',');
         const orders = parts.map(p => {
             const [col, dir] = p.split('.');
             const cleanCol = col.replace(/[^a-zA-Z0-9_]/g, '');
-            const safeCol = `"${cleanCol}"`;
+            const safeCol = qualifier ? `${qualifier}."${cleanCol}"` : `"${cleanCol}"`;
             const safeDir = (dir && dir.toLowerCase() === 'desc') ? 'DESC' : 'ASC';
             let nulls = '';
             if (p.includes('nullsfirst')) nulls = ' NULLS FIRST';
@@ -309,45 +889,253 @@ export class PostgrestService {
         return `ORDER BY ${orders.join(', ')}`;
     }
 
-    private static parseFilter(key: string, value: string, paramIndex: number): { clause: string, val: any } {
-        const column = `"${key}"`;
+    // --- FILTER GRAMMAR ---
+
+    private static readonly RESERVED_PARAMS = ['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'];
+
+    /**
+     * Builds the root-level WHERE clauses from the query string. When an embed index is
+     * given, keys prefixed by an embed path (`comments.likes`, `comments.or`) are queued
+     * for that embed instead. Repeated keys (`?id=gt.1&id=lt.9`) are ANDed.
+     */
+    private static buildFilters(
+        query: any,
+        params: any[],
+        qualifier?: string,
+        embedIndex?: Map<string, EmbedNode>,
+        pending?: Map<EmbedNode, Array<[string, any]>>
+    ): string[] {
+        const clauses: string[] = [];
+
+        for (const key of Object.keys(query)) {
+            if (this.RESERVED_PARAMS.includes(key)) continue;
+
+            const embed = embedIndex ? this.findEmbedForKey(key, embedIndex) : undefined;
+            if (embed) {
+                const rest = key.substring(embed.path.length + 1);
+                if (['order', 'limit', 'offset', 'select'].includes(rest)) continue;
+                if (!pending!.has(embed)) pending!.set(embed, []);
+                pending!.get(embed)!.push([rest, query[key]]);
+                continue;
+            }
+
+            const values = Array.isArray(query[key]) ? query[key] : [query[key]];
+            for (const value of values) {
+                if (typeof value !== 'string') continue;
+                const clause = this.buildKeyFilter(key, value, params, qualifier);
+                if (clause) clauses.push(clause);
+            }
+        }
+
+        return clauses;
+    }
+
+    private static indexEmbeds(embeds: EmbedNode[], index: Map<string, EmbedNode> = new Map()): Map<string, EmbedNode> {
+        for (const embed of embeds) {
+            index.set(embed.path, embed);
+            this.indexEmbeds(embed.embeds, index);
+        }
+        return index;
+    }
+
+    /**
+     * Longest embed path that prefixes the key (`a.b.col` prefers embed `a.b` over `a`).
+     */
+    private static findEmbedForKey(key: string, embedIndex: Map<string, EmbedNode>): EmbedNode | undefined {
+        let best: EmbedNode | undefined;
+        for (const [path, embed] of embedIndex) {
+            if (key.startsWith(`${path}.`) && (!best || path.length > best.path.length)) best = embed;
+        }
+        return best;
+    }
+
+    private static compileEmbedFilters(embed: EmbedNode, pending: Map<EmbedNode, Array<[string, any]>>, params: any[]): void {
+        const qualifier = `"${embed.sqlAlias}"`;
+        embed.filters = [];
+        for (const [key, raw] of pending.get(embed) || []) {
+            const values = Array.isArray(raw) ? raw : [raw];
+            for (const value of values) {
+                if (typeof value !== 'string') continue;
+                const clause = this.buildKeyFilter(key, value, params, qualifier);
+                if (clause) embed.filters.push(clause);
+            }
+        }
+    }
+
+    /**
+     * A single `key=value` pair: logical trees (`or`, `and`, `not.or`, `not.and`) or a
+     * column (optionally with a JSON path, `data->>status`) compared with an operator.
+     */
+    private static buildKeyFilter(key: string, value: string, params: any[], qualifier?: string): string {
+        const logic = key.match(/^(not\.)?(and|or)$/);
+        if (logic) {
+            return this.parseLogicTree(logic[2] as 'and' | 'or', value, !!logic[1], params, qualifier);
+        }
+
+        // SANITIZATION: Key must be a valid identifier (optionally followed by a JSON path)
+        if (!/^[a-zA-Z0-9_]+(?:->>?[a-zA-Z0-9_]+)*$/.test(key)) return '';
+
+        return this.parseFilter(key, value, params, qualifier, false);
+    }
+
+    /**
+     * `or=(age.lt.18,and(status.eq.active,not.role.eq.admin))`
+     */
+    private static parseLogicTree(op: 'and' | 'or', body: string, negate: boolean, params: any[], qualifier?: string): string {
+        const trimmed = body.trim();
+        if (!trimmed.startsWith('(') || !trimmed.endsWith(')')) {
+            throw pgrstError(400, 'PGRST100', `"failed to parse logic tree (${body})"`, 'Expected a parenthesized list, e.g. or=(a.eq.1,b.eq.2).');
+        }
+
+        const clauses = this.splitTopLevel(trimmed.slice(1, -1)).map(item => {
+            const part = item.trim();
+            const nested = part.match(/^(not\.)?(and|or)(\([\s\S]*\))$/);
+            if (nested) {
+                return this.parseLogicTree(nested[2] as 'and' | 'or', nested[3], !!nested[1], params, qualifier);
+            }
+
+            const condition = part.match(/^([a-zA-Z0-9_]+(?:->>?[a-zA-Z0-9_]+)*)\.([\s\S]+)$/);
+            if (!condition) {
+                throw pgrstError(400, 'PGRST100', `"failed to parse logic tree (${body})"`, `Unexpected condition "${part}".`);
+            }
+            return this.parseFilter(condition[1], condition[2], params, qualifier, true);
+        }).filter(Boolean);
+
+        if (clauses.length === 0) return '';
+        const joined = `(${clauses.join(op === 'and' ? ' AND ' : ' OR ')})`;
+        return negate ? `NOT ${joined}` : joined;
+    }
+
+    /**
+     * `data->a->>b` → `"data"->'a'->>'b'`, optionally qualified by a table alias.
+     */
+    private static renderColumnRef(column: string, qualifier?: string): string {
+        const [base, ...rest] = column.split(/(?=->)/);
+        let expr = qualifier ? `${qualifier}."${base}"` : `"${base}"`;
+        for (const step of rest) {
+            const op = step.startsWith('->>') ? '->>' : '->';
+            const key = step.substring(op.length);
+            expr += /^\d+$/.test(key) ? `${op}${key}` : `${op}'${key}'`;
+        }
+        return expr;
+    }
+
+    /**
+     * Splits a PostgREST list (`(a,"b,c",d)` or `{a,b}`) honoring double quotes.
+     */
+    private static parseList(raw: string): string[] {
+        let body = raw.trim();
+        if ((body.startsWith('(') && body.endsWith(')')) || (body.startsWith('{') && body.endsWith('}'))) {
+            body = body.slice(1, -1);
+        }
+        if (!body.trim()) return [];
+
+        const items: string[] = [];
+        let current = '';
+        let inQuotes = false;
+        for (let i = 0; i < body.length; i++) {
+            const ch = body[i];
+            if (ch === '\\' && inQuotes && i + 1 < body.length) {
+                current += body[++i];
+                continue;
+            }
+            if (ch === '"') { inQuotes = !inQuotes; continue; }
+            if (ch === ',' && !inQuotes) {
+                items.push(current.trim());
+                current = '';
+                continue;
+            }
+            current += ch;
+        }
+        items.push(current.trim());
+        return items;
+    }
+
+    private static unquote(value: string): string {
+        if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+            return value.slice(1, -1).replace(/\\(.)/g, '$1');
+        }
+        return value;
+    }
+
+    /**
+     * Compiles `[not.]op[(modifier)].value` against a column, binding values as params.
+     * Strict mode (inside logic trees) rejects unknown operators; the root level keeps
+     * the historical fallback of implicit equality on the whole value.
+     */
+    private static parseFilter(column: string, value: string, params: any[], qualifier: string | undefined, strict: boolean): string {
+        const col = this.renderColumnRef(column, qualifier);
+        const bind = (v: any) => { params.push(v); return `$${params.length}`; };
+
+        let expr = value;
+        let negate = false;
+        if (expr.startsWith('not.')) {
+            negate = true;
+            expr = expr.substring(4);
+        }
 
         // ROBUST PARSER FIX: Split only on the first dot
         // This preserves values like "user.name@domain.com"
-        const dotIndex = value.indexOf('.');
-
+        const dotIndex = expr.indexOf('.');
         if (dotIndex === -1) {
+            if (strict) throw pgrstError(400, 'PGRST100', `"failed to parse filter (${value})"`, `Missing operator for column "${column}".`);
             // Implicit Equality (no operator)
-            return { clause: `${column} = $${paramIndex}`, val: value };
-        }
-
-        const op = value.substring(0, dotIndex);
-        const rawVal = value.substring(dotIndex + 1);
-
-        switch (op) {
-            case 'eq': return { clause: `${column} = $${paramIndex}`, val: rawVal };
-            case 'neq': return { clause: `${column} != $${paramIndex}`, val: rawVal };
-            case 'gt': return { clause: `${column} > $${paramIndex}`, val: rawVal };
-            case 'gte': return { clause: `${column} >= $${paramIndex}`, val: rawVal };
-            case 'lt': return { clause: `${column} < $${paramIndex}`, val: rawVal };
-            case 'lte': return { clause: `${column} <= $${paramIndex}`, val: rawVal };
-            case 'like': return { clause: `${column} LIKE $${paramIndex}`, val: rawVal.replace(/\*/g, '%') };
-            case 'ilike': return { clause: `${column} ILIKE $${paramIndex}`, val: rawVal.replace(/\*/g, '%') };
-            case 'is':
-                if (rawVal === 'null') return { clause: `${column} IS NULL`, val: undefined };
-                if (rawVal === 'true') return { clause: `${column} IS TRUE`, val: undefined };
-                if (rawVal === 'false') return { clause: `${column} IS FALSE`, val: undefined };
-                return { clause: '', val: undefined };
-            case 'in':
-                let cleanVal = rawVal;
-                if (cleanVal.startsWith('(') && cleanVal.endsWith(')')) cleanVal = cleanVal.slice(1, -1);
-                if (!cleanVal.trim()) return { clause: '1 = 0', val: undefined };
-                // Simple CSV splitter
-                const arr = cleanVal.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-                return { clause: `${column} = ANY($${paramIndex})`, val: arr };
-            case 'cs': return { clause: `${column} @> $${paramIndex}`, val: rawVal };
-            case 'cd': return { clause: `${column} <@ $${paramIndex}`, val: rawVal };
-            default: return { clause: `${column} = $${paramIndex}`, val: value };
+            return `${col} = ${bind(value)}`;
         }
+
+        const opToken = expr.substring(0, dotIndex);
+        const rawVal = strict ? this.unquote(expr.substring(dotIndex + 1)) : expr.substring(dotIndex + 1);
+        const opMatch = opToken.match(/^([a-z]+)(?:\(([a-zA-Z0-9_]+)\))?$/);
+        const op = opMatch ? opMatch[1] : opToken;
+        const modifier = opMatch ? opMatch[2] : undefined;
+
+        const comparison: Record<string, string> = {
+            eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=',
+            like: 'LIKE', ilike: 'ILIKE', match: '~', imatch: '~*'
+        };
+        const containment: Record<string, string> = {
+            cs: '@>', cd: '<@', ov: '&&', sl: '<<', sr: '>>', nxr: '&<', nxl: '&>', adj: '-|-'
+        };
+        const fullText: Record<string, string> = {
+            fts: 'to_tsquery', plfts: 'plainto_tsquery', phfts: 'phraseto_tsquery', wfts: 'websearch_to_tsquery'
+        };
+        const isPattern = op === 'like' || op === 'ilike';
+
+        let clause = '';
+        if (comparison[op]) {
+            if (modifier === 'any' || modifier === 'all') {
+                const list = this.parseList(rawVal).map(v => isPattern ? v.replace(/\*/g, '%') : v);
+                clause = `${col} ${comparison[op]} ${modifier.toUpperCase()}(${bind(list)})`;
+            } else if (modifier) {
+                throw pgrstError(400, 'PGRST100', `"failed to parse filter (${value})"`, `Unknown modifier "${modifier}" for operator "${op}".`);
+            } else {
+                clause = `${col} ${comparison[op]} ${bind(isPattern ? rawVal.replace(/\*/g, '%') : rawVal)}`;
+            }
+        } else if (containment[op]) {
+            clause = `${col} ${containment[op]} ${bind(rawVal)}`;
+        } else if (fullText[op]) {
+            clause = modifier
+                ? `${col} @@ ${fullText[op]}(${bind(modifier)}::regconfig, ${bind(rawVal)})`
+                : `${col} @@ ${fullText[op]}(${bind(rawVal)})`;
+        } else if (op === 'is') {
+            const target = rawVal.toLowerCase();
+            if (target === 'null') clause = `${col} IS NULL`;
+            else if (target === 'not_null') clause = `${col} IS NOT NULL`;
+            else if (target === 'true') clause = `${col} IS TRUE`;
+            else if (target === 'false') clause = `${col} IS FALSE`;
+            else if (target === 'unknown') clause = `${col} IS UNKNOWN`;
+            else if (strict) throw pgrstError(400, 'PGRST100', `"failed to parse filter (${value})"`, `Unknown value "${rawVal}" for operator "is".`);
+            else return '';
+        } else if (op === 'isdistinct') {
+            clause = `${col} IS DISTINCT FROM ${bind(rawVal)}`;
+        } else if (op === 'in') {
+            const list = this.parseList(rawVal);
+            clause = list.length === 0 ? '1 = 0' : `${col} = ANY(${bind(list)})`;
+        } else {
+            if (strict) throw pgrstError(400, 'PGRST100', `"failed to parse filter (${value})"`, `Unknown operator "${op}".`);
+            return `${col} = ${bind(value)}`;
+        }
+
+        return negate ? `NOT (${clause})` : clause;
     }
 }
@@ -11,7 +11,7 @@ import { BackupService } from './BackupService.js';
 import { ImportService } from './ImportService.js';
 import process from 'process';
 
-const DRAGONFLY_CONFIG = {
+export const DRAGONFLY_CONFIG = {
     connection: {
         host: process.env.DRAGONFLY_HOST || 'dragonfly',
         port: parseInt(process.env.DRAGONFLY_PORT || '6379')
@@ -25,12 +25,14 @@ export class QueueService {
     private static backupQueue: Queue;
     private static maintenanceQueue: Queue;
     private static restoreQueue: Queue;
+    private static automationQueue: Queue;
 
     private static pushWorker: Worker;
     private static webhookWorker: Worker;
     private static backupWorker: Worker;
     private static maintenanceWorker: Worker;
     private static restoreWorker: Worker;
+    private static automationWorker: Worker;
 
     private static async validateTarget(targetUrl: string): Promise<void> {
         try {
@@ -62,6 +64,11 @@ export class QueueService {
 
         this.restoreQueue = new Queue('cascata-restore', { ...DRAGONFLY_CONFIG });
 
+        this.automationQueue = new Queue('cascata-automations', {
+            ...DRAGONFLY_CONFIG,
+            defaultJobOptions: { removeOnComplete: 1000, removeOnFail: 5000 }
+        });
+
         // CRITICAL FIX: Enable Workers for CONTROL_PLANE to handle Imports/Backups
         const shouldRunWorkers = process.env.SERVICE_MODE === 'WORKER' ||
             process.env.SERVICE_MODE === 'CONTROL_PLANE' ||
@@ -96,29 +103,29 @@ export class QueueService {
         }, { ...DRAGONFLY_CONFIG, concurrency: 50 });
 
         // Webhook Worker (Outbound Delivery)
+        // Every attempt is signed at send time and written to system.webhook_deliveries.
+        // The fallback URL is the dead letter: it only fires once the retry policy is exhausted.
         this.webhookWorker = new Worker('cascata-webhooks', async (job: Job) => {
-            const { targetUrl, payload, secret, fallbackUrl } = job.data;
-            try {
-                await this.validateTarget(targetUrl);
-                await axios.post(targetUrl, payload, {
-                    headers: { 'X-Cascata-Signature': secret, 'Content-Type': 'application/json' },
-                    timeout: 10000
-                });
-            } catch (error: any) {
-                console.error(`[Queue:Webhook] Primary delivery failed:`, error.message);
-                if (fallbackUrl) {
-                    try {
-                        await axios.post(fallbackUrl, payload, {
-                            headers: { 'X-Cascata-Signature': secret, 'Content-Type': 'application/json' },
-                            timeout: 10000
-                        });
-                        return;
-                    } catch (fbErr: any) {
-                        console.error(`[Queue:Webhook] Fallback failed:`, fbErr.message);
-                    }
-                }
-                throw error; 
+            const { WebhookService } = await import('./WebhookService.js');
+            const { targetUrl, payload, fallbackUrl } = job.data;
+            const attempt = job.attemptsMade + 1;
+            const maxAttempts = job.opts.attempts || 1;
+
+            const body = JSON.stringify(payload);
+            const headers = await WebhookService.buildHeaders(job.data, body);
+            if (!headers) return; // Webhook deleted since the event was queued
+
+            const result = await this.postWebhook(targetUrl, body, headers);
+            await WebhookService.recordDelivery(job.data, attempt, maxAttempts, result);
+            if (result.ok) return;
+
+            console.error(`[Queue:Webhook] Delivery ${attempt}/${maxAttempts} failed:`, result.error);
+            if (attempt >= maxAttempts && fallbackUrl) {
+                const fallback = await this.postWebhook(fallbackUrl, body, headers);
+                await WebhookService.recordDelivery(job.data, attempt, maxAttempts, fallback, true);
+                if (!fallback.ok) console.error(`[Queue:Webhook] Fallback failed:`, fallback.error);
             }
+            throw new Error(result.error || 'Webhook delivery failed');
         }, { ...DRAGONFLY_CONFIG, concurrency: 20 });
 
         // Backup Worker
@@ -144,34 +151,53 @@ export class QueueService {
                         const archive = proj.archive_logs || false;
                         const res = await systemPool.query(`SELECT system.purge_old_logs($1, $2, $3)`, [proj.slug, days, archive]);
                         totalPurged += parseInt(res.rows[0].purge_old_logs);
+                        // Traces are debugging data: they follow the project retention, never archived
+                        await systemPool.query(`SELECT system.purge_old_automation_run_steps($1, $2)`, [proj.slug, days])
+                            .catch((e: any) => console.error(`[Queue:Maintenance] Trace purge failed for ${proj.slug}:`, e.message));
+                        await systemPool.query(
+                            `DELETE FROM system.webhook_deliveries WHERE project_slug = $1 AND created_at < NOW() - make_interval(days => $2)`,
+                            [proj.slug, days]
+                        ).catch((e: any) => console.error(`[Queue:Maintenance] Delivery log purge failed for ${proj.slug}:`, e.message));
+                        await systemPool.query(
+                            `DELETE FROM system.webhook_receiver_logs WHERE project_slug = $1 AND created_at < NOW() - make_interval(days => $2)`,
+                            [proj.slug, days]
+                        ).catch((e: any) => console.error(`[Queue:Maintenance] Receiver log purge failed for ${proj.slug}:`, e.message));
+                        await systemPool.query(
+                            `DELETE FROM system.automation_schedule_fires WHERE project_slug = $1 AND fired_at < NOW() - make_interval(days => $2)`,
+                            [proj.slug, days]
+                        ).catch((e: any) => console.error(`[Queue:Maintenance] Schedule history purge failed for ${proj.slug}:`, e.message));
+                        await systemPool.query(
+                            `DELETE FROM system.edge_invocations WHERE project_slug = $1 AND created_at < NOW() - make_interval(days => $2)`,
+                            [proj.slug, days]
+                        ).catch((e: any) => console.error(`[Queue:Maintenance] Edge invocation log purge failed for ${proj.slug}:`, e.message));
                     }
+                    const { WebhookReceiverService } = await import('./WebhookReceiverService.js');
+                    await WebhookReceiverService.purgeExpiredIdempotency()
+                        .catch((e: any) => console.error('[Queue:Maintenance] Idempotency key purge failed:', e.message));
                     console.log(`[Queue:Maintenance] Purged/Archived ${totalPurged} old logs.`);
                 } catch (e: any) {
                     console.error('[Queue:Maintenance] Log purge failed:', e.message);
                 }
             } else if (job.name.startsWith('auto-')) {
-                const { automationId, projectSlug, nodes } = job.data;
+                const { automationId } = job.data;
+                // prevMillis is the fire time of this repeat occurrence, however late it is picked up
+                const scheduledFor = job.opts.prevMillis || job.timestamp;
                 console.log(`[Queue:Maintenance] Triggering scheduled automation ${automationId}...`);
                 try {
-                    const { AutomationService } = await import('./AutomationService.js');
-                    const { PoolService } = await import('./PoolService.js');
-                    const pool = PoolService.get(projectSlug);
-                    await AutomationService.dispatchAsyncTrigger(
-                        automationId,
-                        projectSlug,
-                        nodes,
-                        { ts: new Date().toISOString(), source: 'cron' },
-                        { 
-                            projectSlug, 
-                            projectPool: pool, 
-                            vars: {}, 
-                            payload: {}, 
-                            jwtSecret: process.env.JWT_SECRET || 'secret' 
-                        }
-                    );
+                    const { CronService } = await import('./CronService.js');
+                    await CronService.fire(automationId, scheduledFor);
                 } catch (e: any) {
                     console.error(`[Queue:Maintenance] Scheduled automation ${automationId} failed:`, e.message);
                 }
+            } else if (job.name.startsWith('edge-')) {
+                const { scheduleId } = job.data;
+                const scheduledFor = job.opts.prevMillis || job.timestamp;
+                try {
+                    const { EdgeTriggerService } = await import('./EdgeTriggerService.js');
+                    await EdgeTriggerService.fire(scheduleId, scheduledFor);
+                } catch (e: any) {
+                    console.error(`[Queue:Maintenance] Edge function schedule ${scheduleId} failed:`, e.message);
+                }
             }
         }, { ...DRAGONFLY_CONFIG });
 
@@ -194,11 +220,33 @@ export class QueueService {
             }
         }, { ...DRAGONFLY_CONFIG, concurrency: 1 });
 
+        // Durable Automations Worker (delay / wait_until / approval resumes + stall recovery)
+        this.automationWorker = new Worker('cascata-automations', async (job: Job) => {
+            const { AutomationService } = await import('./AutomationService.js');
+            if (job.name === 'resume') {
+                const { executionId, nonce, decision } = job.data;
+                const claimed = await AutomationService.resumeExecution(executionId, { nonce, decision });
+                if (!claimed) console.log(`[Queue:Automations] Execution ${executionId} already resumed or cancelled.`);
+            } else if (job.name === 'recover-stalled') {
+                await AutomationService.recoverStalledExecutions();
+            }
+        }, { ...DRAGONFLY_CONFIG, concurrency: 10 });
+
         // Schedule Maintenance Jobs
         this.maintenanceQueue.add('purge-logs', {}, {
             repeat: { pattern: '0 4 * * *' },
             jobId: 'system-log-purge'
         }).catch((e: any) => console.error("Failed to schedule log purge", e));
+
+        this.automationQueue.add('recover-stalled', {}, {
+            repeat: { pattern: '* * * * *' },
+            jobId: 'automation-stall-recovery'
+        }).catch((e: any) => console.error("Failed to schedule automation stall recovery", e));
+
+        // Edge function queues: one consumer per queue with a consumer function (see EdgeQueueService)
+        import('./EdgeQueueService.js')
+            .then(({ EdgeQueueService }) => EdgeQueueService.startConsumers())
+            .catch((e: any) => console.error("Failed to start edge queue consumers", e));
     }
 
     public static async addPushJob(data: any) {
@@ -208,7 +256,43 @@ export class QueueService {
 
     public static async addWebhookJob(data: any) {
         if (!this.webhookQueue) this.init();
-        await this.webhookQueue.add('dispatch', data);
+        await this.webhookQueue.add('dispatch', data, this.webhookRetryOptions(data.retryPolicy));
+    }
+
+    /**
+     * system.webhooks.retry_policy: 'standard' (10x exponential), 'linear' (5x every 5s), 'none' (single attempt).
+     */
+    private static webhookRetryOptions(policy: any) {
+        // Older PATCHes stored the policy JSON-encoded ('"linear"')
+        switch (String(policy || 'standard').replace(/"/g, '')) {
+            case 'none': return { attempts: 1 };
+            case 'linear': return { attempts: 5, backoff: { type: 'fixed', delay: 5000 } };
+            default: return { attempts: 10, backoff: { type: 'exponential', delay: 1000 } };
+        }
+    }
+
+    private static async postWebhook(url: string, body: string, headers: Record<string, string>) {
+        const startedAt = Date.now();
+        try {
+            await this.validateTarget(url);
+            const response = await axios.post(url, body, {
+                headers,
+                timeout: 10000,
+                responseType: 'text',
+                transformResponse: (data: any) => data,
+                validateStatus: () => true
+            });
+            const ok = response.status >= 200 && response.status < 300;
+            return {
+                ok,
+                status_code: response.status,
+                latency_ms: Date.now() - startedAt,
+                response_excerpt: typeof response.data === 'string' ? response.data.slice(0, 1024) : null,
+                error: ok ? null : `HTTP ${response.status}`
+            };
+        } catch (e: any) {
+            return { ok: false, status_code: null, latency_ms: Date.now() - startedAt, response_excerpt: null, error: e.message };
+        }
     }
 
     public static async addRestoreJob(data: any) {
@@ -245,13 +329,13 @@ export class QueueService {
         }
     }
 
-    public static async scheduleAutomation(automationId: string, cron: string, projectSlug: string, nodes: any) {
+    public static async scheduleAutomation(automationId: string, cron: string, projectSlug: string, nodes: any, timezone: string = 'UTC') {
         if (!this.maintenanceQueue) this.init();
         await this.maintenanceQueue.add(`auto-${automationId}`, { automationId, projectSlug, nodes }, {
             jobId: `auto-${automationId}`,
-            repeat: { pattern: cron }
+            repeat: { pattern: cron, tz: timezone }
         });
-        console.log(`[Queue] Scheduled automation ${automationId} with cron: ${cron}`);
+        console.log(`[Queue] Scheduled automation ${automationId} with cron: ${cron} (TZ: ${timezone})`);
     }
 
     public static async removeAutomationSchedule(automationId: string) {
@@ -264,6 +348,35 @@ export class QueueService {
         }
     }
 
+    public static async scheduleEdgeFunction(scheduleId: string, cron: string, timezone: string = 'UTC') {
+        if (!this.maintenanceQueue) this.init();
+        await this.maintenanceQueue.add(`edge-${scheduleId}`, { scheduleId }, {
+            jobId: `edge-${scheduleId}`,
+            repeat: { pattern: cron, tz: timezone }
+        });
+        console.log(`[Queue] Scheduled edge function schedule ${scheduleId} with cron: ${cron} (TZ: ${timezone})`);
+    }
+
+    public static async removeEdgeSchedule(scheduleId: string) {
+        if (!this.maintenanceQueue) this.init();
+        const repeatableJobs = await this.maintenanceQueue.getRepeatableJobs();
+        const existing = repeatableJobs.find((j: any) => j.id === `edge-${scheduleId}`);
+        if (existing) {
+            await this.maintenanceQueue.removeRepeatableByKey(existing.key);
+            console.log(`[Queue] Removed edge function schedule ${scheduleId}`);
+        }
+    }
+
+    public static async scheduleAutomationResume(executionId: string, nonce: string, delayMs: number, decision?: string) {
+        if (!this.automationQueue) this.init();
+        await this.automationQueue.add('resume', { executionId, nonce, decision }, {
+            jobId: `resume-${executionId}-${nonce}`,
+            delay: Math.max(0, delayMs),
+            attempts: 3,
+            backoff: { type: 'exponential', delay: 5000 }
+        });
+    }
+
     public static async triggerBackupNow(policyId: string) {
         if (!this.backupQueue) this.init();
         await this.backupQueue.add('execute-policy', { policyId });
@@ -1,17 +1,92 @@
 
 
 import { Response, Request } from 'express';
+import { Server, IncomingMessage, ServerResponse } from 'http';
+import { Duplex } from 'stream';
 import { Client, PoolClient } from 'pg';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Redis as DragonflyClient } from 'ioredis';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { systemPool } from '../src/config/main.js';
 import { PushService } from './PushService.js';
 import { PoolService } from './PoolService.js';
 import { RateLimitService } from './RateLimitService.js';
-import { quoteId } from '../src/utils/index.js';
+import { quoteId, queryWithRLS } from '../src/utils/index.js';
+import { DataController } from '../src/controllers/DataController.js';
+
+// Filtro de linha no formato do supabase-js: `coluna=op.valor` (op: eq, neq, lt, lte, gt, gte, in)
+interface RowFilter {
+    column: string;
+    op: string;
+    values: string[];
+}
 
 interface ClientConnection {
     id: string;
     res: any;
     tableFilter?: string;
+    rowFilter?: RowFilter;
+    project: any;
+    role: string;
+    claims?: any;
+    // Eventos ao vivo represados enquanto o replay do Last-Event-ID é enviado
+    replaying?: { id: number | null, message: string }[];
+}
+
+// PHOENIX CHANNELS (supabase-js realtime wire protocol)
+interface PhoenixFrame {
+    join_ref: string | null;
+    ref: string | null;
+    topic: string;
+    event: string;
+    payload: any;
+}
+
+interface ChangeBinding {
+    id: number;
+    event: string;   // '*', INSERT, UPDATE, DELETE
+    schema: string;
+    table?: string;
+    filter?: string;
+    rowFilter?: RowFilter;
+}
+
+interface SocketChannel {
+    topic: string;
+    joinRef: string | null;
+    bindings: ChangeBinding[];
+    broadcastSelf: boolean;
+    broadcastAck: boolean;
+    presenceKey: string;
+    presenceMeta?: any; // Meta rastreada por este socket (com phx_ref)
+}
+
+// Mensagem trafegada entre instâncias pelo canal `rt:<slug>:<env>` do Dragonfly
+interface RelayMessage {
+    origin: string;
+    topic: string;
+    event: string;
+    payload: any;
+}
+
+interface SocketConnection {
+    id: string;
+    ws: WebSocket;
+    project: any;
+    env: string;
+    contextKey: string;
+    vsn: '1.0.0' | '2.0.0';
+    role: string;
+    claims?: any;
+    channels: Map<string, SocketChannel>;
+    nextBindingId: number;
+    listening: boolean; // Segura uma referência no listener enquanto houver postgres_changes
+    closed: boolean;
+    inbox: Promise<void>; // Mensagens processadas em ordem, como no Phoenix
+    lastSeen: number;
+    idleTimer?: any;
+    window: { start: number, count: number }; // Rate limit de mensagens do cliente
 }
 
 interface ProjectListener {
@@ -24,11 +99,18 @@ interface ProjectListener {
         firebase?: any;
         draft_sync?: boolean; // NEW: Cache the sync setting
     };
+    closeTimer?: any; // Linger após o último cliente sair
+    aliveTimer?: any; // Renova o marcador de cobertura do replay log
 }
 
 // BATCHER INTERFACES
-// Map<TableName, Map<RecordID, ActionType>>
-type TableBuffer = Map<string, string>; 
+// Map<TableName, Map<RecordID, BufferedChange>>
+// O timestamp original do NOTIFY segue até o broadcast: é parte da identidade do evento no replay log
+interface BufferedChange {
+    action: string;
+    timestamp?: string;
+}
+type TableBuffer = Map<string, BufferedChange>; 
 type ProjectBuffer = Map<string, TableBuffer>;
 
 // OBSERVABILITY METRICS
@@ -40,6 +122,7 @@ interface ServiceMetrics {
     hydrationErrors: number;
     activeConnections: number;
     mirroredEvents: number; // NEW
+    authorizationErrors: number;
 }
 
 export class RealtimeService {
@@ -48,6 +131,26 @@ export class RealtimeService {
     private static activeListeners = new Map<string, ProjectListener>();
     private static MAX_CLIENTS_PER_PROJECT = 5000; 
 
+    // --- WEBSOCKET TRANSPORT STATE ---
+    // Key is `${slug}:${env}`, same as the SSE subscribers
+    private static sockets = new Map<string, Set<SocketConnection>>();
+    private static wss: WebSocketServer | null = null;
+    private static readonly WS_PATH = /\/realtime\/v1\/websocket\/?(\?|$)/;
+    private static readonly MAX_CHANNELS_PER_SOCKET = 100;
+    private static readonly MAX_FRAME_BYTES = 1024 * 1024;
+    private static readonly MAX_SOCKET_BUFFER = 4 * 1024 * 1024; // Cliente lento: descarta em vez de acumular RAM
+    private static readonly SOCKET_IDLE_TIMEOUT_MS = 60000; // supabase-js envia heartbeat a cada 25-30s
+    private static readonly MAX_MESSAGES_PER_SECOND = 100;
+    private static readonly MAX_BROADCAST_BYTES = 256 * 1024;
+
+    // --- BROADCAST & PRESENCE (cross-instance via Dragonfly pub/sub) ---
+    private static readonly instanceId = crypto.randomBytes(6).toString('hex');
+    private static dragonflySub: DragonflyClient | null = null; // Instância dedicada para SUBSCRIBE
+    private static presenceTimer: any = null;
+    private static presenceSeq = 0;
+    private static readonly PRESENCE_TTL_MS = 45000;
+    private static readonly PRESENCE_REFRESH_MS = 15000;
+
     // --- HYDRATION BATCHER STATE ---
     // Key is now `${slug}:${env}`
     private static hydrationBuffers = new Map<string, ProjectBuffer>();
@@ -60,6 +163,37 @@ export class RealtimeService {
     private static readonly MAX_BUFFER_SIZE_PER_TABLE = 5000; 
     private static readonly LOCK_TIMEOUT_MS = 30000; // 30s max para um flush
 
+    // --- DELIVERY AUTHORIZATION STATE ---
+    // Entregas serializadas por contexto para preservar a ordem dos eventos de uma mesma linha
+    private static deliveryChains = new Map<string, Promise<void>>();
+    private static pendingDeliveries = new Map<string, number>();
+    private static rlsTableCache = new Map<string, { enabled: boolean, at: number }>();
+    private static primaryKeyCache = new Map<string, { columns: string[], at: number }>();
+    private static readonly MAX_PENDING_DELIVERIES = 1000;
+    private static readonly AUTHORIZATION_CONCURRENCY = 8;
+    private static readonly RLS_CACHE_TTL_MS = 30000;
+
+    // --- REPLAY LOG (SSE Last-Event-ID) ---
+    // Contextos cujo log perdeu eventos (Dragonfly fora): a cobertura é reiniciada no próximo append
+    private static coverageLost = new Set<string>();
+    private static readonly REPLAY_LOG_SIZE = 1000;
+    private static readonly REPLAY_DEDUPE_TTL_MS = 120000;
+    private static readonly LISTENER_ALIVE_TTL_MS = 15000;
+    private static readonly LISTENER_LINGER_MS = 30000;
+    private static readonly MAX_REPLAY_BACKLOG = 1000;
+
+    // Atribui o id do evento uma única vez entre todas as instâncias (todas recebem o mesmo NOTIFY)
+    // e o anexa ao log limitado. KEYS: dedupe, sequência, log. ARGV: ttl do dedupe, entrada, tamanho do log.
+    private static readonly APPEND_EVENT_SCRIPT = `
+        local existing = redis.call('GET', KEYS[1])
+        if existing then return tonumber(existing) end
+        local id = redis.call('INCR', KEYS[2])
+        redis.call('SET', KEYS[1], id, 'PX', ARGV[1])
+        redis.call('ZADD', KEYS[3], id, id .. '|' .. ARGV[2])
+        redis.call('ZREMRANGEBYRANK', KEYS[3], 0, -(tonumber(ARGV[3]) + 1))
+        return id
+    `;
+
     // METRICS STATE
     public static metrics: ServiceMetrics = {
         eventsReceived: 0,
@@ -68,7 +202,8 @@ export class RealtimeService {
         eventsDropped: 0,
         hydrationErrors: 0,
         activeConnections: 0,
-        mirroredEvents: 0
+        mirroredEvents: 0,
+        authorizationErrors: 0
     };
 
     /**
@@ -91,6 +226,9 @@ export class RealtimeService {
     public static async shutdown() {
         console.log('[Realtime] Shutting down... flushing buffers.');
         if (this.flushInterval) clearInterval(this.flushInterval);
+        if (this.presenceTimer) clearInterval(this.presenceTimer);
+        this.closeSockets();
+        this.dragonflySub?.disconnect();
         
         // Coleta todas as promessas de flush pendentes
         const pendingFlushes: Promise<void>[] = [];
@@ -128,7 +266,8 @@ export class RealtimeService {
 
     public static async handleConnection(req: any, res: any) {
         const slug = req.params.slug;
-        const { table, env } = req.query; // Environment param
+        const { table, env, filter } = req.query; // Environment param
+        const lastEventId = req.headers['last-event-id'] ?? req.query.last_event_id;
         const project = req.project;
 
         if (!project) {
@@ -136,6 +275,16 @@ export class RealtimeService {
             return;
         }
 
+        let rowFilter: RowFilter | undefined;
+        if (filter !== undefined) {
+            try {
+                rowFilter = this.parseRowFilter(filter);
+            } catch (e: any) {
+                res.status(400).json({ error: e.message });
+                return;
+            }
+        }
+
         // Determine Environment context
         const targetEnv = env === 'draft' ? 'draft' : 'live';
         const contextKey = `${slug}:${targetEnv}`;
@@ -147,8 +296,7 @@ export class RealtimeService {
             return;
         }
 
-        const currentCount = this.subscribers.get(contextKey)?.size || 0;
-        if (currentCount >= this.MAX_CLIENTS_PER_PROJECT) {
+        if (this.clientCount(contextKey) >= this.MAX_CLIENTS_PER_PROJECT) {
             res.status(429).json({ error: 'Too many realtime connections.' });
             return;
         }
@@ -172,23 +320,42 @@ export class RealtimeService {
                 this.subscribers.set(contextKey, new Set());
             }
             
-            const connection: ClientConnection = { id: clientId, res, tableFilter: table as string };
+            const connection: ClientConnection = {
+                id: clientId,
+                res,
+                tableFilter: table as string,
+                rowFilter,
+                project,
+                role: req.userRole || 'anon',
+                claims: req.user,
+                replaying: lastEventId !== undefined ? [] : undefined
+            };
             this.subscribers.get(contextKey)!.add(connection);
             this.metrics.activeConnections++;
 
             // Ensure loop is running (lazy start safety)
             this.startBatcher();
 
+            // Registrado antes do replay: um cliente que cai durante ele não pode vazar assinatura nem listener
             const heartbeat = setInterval(() => {
                 if (!res.writableEnded) res.write(': ping\n\n');
             }, 15000);
-
-            req.on('close', () => {
+            let cleaned = false;
+            const cleanup = () => {
+                if (cleaned) return;
+                cleaned = true;
                 clearInterval(heartbeat);
                 this.subscribers.get(contextKey)?.delete(connection);
                 this.metrics.activeConnections--;
                 this.releaseListener(contextKey);
-            });
+            };
+            req.on('close', cleanup);
+            // O close pode ter disparado enquanto o listener era adquirido
+            if (res.destroyed || res.writableEnded) return cleanup();
+
+            if (lastEventId !== undefined) {
+                await this.replay(connection, String(lastEventId), slug, targetEnv);
+            }
 
         } catch (e) {
             console.error(`[Realtime] Failed to setup connection for ${contextKey}`, e);
@@ -196,6 +363,690 @@ export class RealtimeService {
         }
     }
 
+    // --- WEBSOCKET TRANSPORT (Phoenix Channels) ---
+
+    /**
+     * Liga o transporte WebSocket ao servidor HTTP do worker.
+     * O upgrade atravessa o mesmo pipeline Express (projeto, CORS, host guard, rate limit, cascataAuth)
+     * com uma resposta sintética presa ao socket: qualquer rejeição sai como HTTP puro e encerra o handshake.
+     */
+    public static attachWebSocket(server: Server, app: (req: any, res: any) => void) {
+        if (this.wss) return;
+        this.wss = new WebSocketServer({ noServer: true, maxPayload: this.MAX_FRAME_BYTES });
+        this.startRelay();
+
+        server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            socket.on('error', () => socket.destroy());
+            if (!req.url || !this.WS_PATH.test(req.url)) {
+                socket.destroy();
+                return;
+            }
+
+            const res = new ServerResponse(req);
+            res.assignSocket(socket as any);
+            res.on('finish', () => socket.end());
+            (req as any).wsUpgrade = { socket, head };
+            app(req, res);
+        });
+    }
+
+    public static closeSockets(code: number = 1001) {
+        for (const set of this.sockets.values()) {
+            set.forEach(conn => conn.ws.close(code, 'Server shutting down'));
+        }
+    }
+
+    public static async handleWebSocket(req: any, res: any) {
+        const upgrade = req.wsUpgrade;
+        if (!upgrade || !this.wss) {
+            res.status(426).json({ error: 'WebSocket upgrade required.' });
+            return;
+        }
+
+        const project = req.project;
+        if (!project) {
+            res.status(404).json({ error: 'Project context missing.' });
+            return;
+        }
+
+        // Browsers não aplicam CORS em WebSocket: replicamos aqui a decisão do dynamicCors
+        const origin = req.headers.origin;
+        if (origin && res.getHeader('Access-Control-Allow-Origin') !== origin) {
+            res.status(403).json({ error: 'Origin not allowed.' });
+            return;
+        }
+
+        const targetEnv = req.query.env === 'draft' ? 'draft' : 'live';
+        const contextKey = `${project.slug}:${targetEnv}`;
+
+        const isPanic = await RateLimitService.checkPanic(project.slug);
+        if (isPanic) {
+            res.status(503).json({ error: 'Service Unavailable (Lockdown Mode)' });
+            return;
+        }
+
+        if (this.clientCount(contextKey) >= this.MAX_CLIENTS_PER_PROJECT) {
+            res.status(429).json({ error: 'Too many realtime connections.' });
+            return;
+        }
+
+        res.removeAllListeners('finish');
+        res.detachSocket(upgrade.socket);
+        this.wss.handleUpgrade(req, upgrade.socket, upgrade.head, (ws) => {
+            const conn: SocketConnection = {
+                id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+                ws,
+                project,
+                env: targetEnv,
+                contextKey,
+                vsn: req.query.vsn === '2.0.0' ? '2.0.0' : '1.0.0',
+                role: req.userRole || 'anon',
+                claims: req.user,
+                channels: new Map(),
+                nextBindingId: 1,
+                listening: false,
+                closed: false,
+                inbox: Promise.resolve(),
+                lastSeen: Date.now(),
+                window: { start: Date.now(), count: 0 }
+            };
+
+            if (!this.sockets.has(contextKey)) {
+                this.sockets.set(contextKey, new Set());
+                this.dragonflySub?.subscribe(`rt:${contextKey}`).catch(() => {});
+            }
+            this.sockets.get(contextKey)!.add(conn);
+            this.metrics.activeConnections++;
+
+            conn.idleTimer = setInterval(() => {
+                if (Date.now() - conn.lastSeen > this.SOCKET_IDLE_TIMEOUT_MS) ws.terminate();
+            }, this.SOCKET_IDLE_TIMEOUT_MS / 2);
+
+            ws.on('message', (data: RawData, isBinary: boolean) => {
+                conn.lastSeen = Date.now();
+                conn.inbox = conn.inbox
+                    .then(() => this.handleSocketMessage(conn, data, isBinary))
+                    .catch(e => console.error(`[Realtime] Socket message error for ${contextKey}`, e.message));
+            });
+            ws.on('close', () => this.dropSocket(conn));
+            ws.on('error', () => ws.terminate());
+        });
+    }
+
+    private static clientCount(contextKey: string): number {
+        return (this.subscribers.get(contextKey)?.size || 0) + (this.sockets.get(contextKey)?.size || 0);
+    }
+
+    private static dropSocket(conn: SocketConnection) {
+        if (conn.closed) return;
+        conn.closed = true;
+
+        const set = this.sockets.get(conn.contextKey);
+        set?.delete(conn);
+        if (set && set.size === 0) {
+            this.sockets.delete(conn.contextKey);
+            this.dragonflySub?.unsubscribe(`rt:${conn.contextKey}`).catch(() => {});
+        }
+
+        clearInterval(conn.idleTimer);
+        for (const channel of conn.channels.values()) {
+            this.untrackPresence(conn, channel).catch(() => {});
+        }
+        conn.channels.clear();
+        this.metrics.activeConnections--;
+        if (conn.listening) {
+            conn.listening = false;
+            this.releaseListener(conn.contextKey);
+        }
+    }
+
+    private static decodeFrame(conn: SocketConnection, data: RawData, isBinary: boolean): PhoenixFrame | null {
+        if (isBinary) return null;
+        try {
+            const parsed = JSON.parse(data.toString());
+            // vsn 2.0.0 serializa como array: [join_ref, ref, topic, event, payload]
+            const frame = Array.isArray(parsed)
+                ? { join_ref: parsed[0], ref: parsed[1], topic: parsed[2], event: parsed[3], payload: parsed[4] }
+                : parsed;
+            if (!frame || typeof frame.topic !== 'string' || typeof frame.event !== 'string') return null;
+            return {
+                join_ref: frame.join_ref ?? null,
+                ref: frame.ref ?? null,
+                topic: frame.topic,
+                event: frame.event,
+                payload: frame.payload && typeof frame.payload === 'object' ? frame.payload : {}
+            };
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private static encodeFrame(conn: SocketConnection, frame: PhoenixFrame): string {
+        if (conn.vsn === '2.0.0') {
+            return JSON.stringify([frame.join_ref, frame.ref, frame.topic, frame.event, frame.payload]);
+        }
+        return JSON.stringify(frame);
+    }
+
+    private static pushFrame(conn: SocketConnection, frame: PhoenixFrame): boolean {
+        if (conn.ws.readyState !== WebSocket.OPEN) return false;
+        if (conn.ws.bufferedAmount > this.MAX_SOCKET_BUFFER) {
+            this.metrics.eventsDropped++;
+            return false;
+        }
+        conn.ws.send(this.encodeFrame(conn, frame));
+        return true;
+    }
+
+    private static reply(conn: SocketConnection, msg: PhoenixFrame, status: 'ok' | 'error', response: any) {
+        this.pushFrame(conn, {
+            join_ref: msg.join_ref,
+            ref: msg.ref,
+            topic: msg.topic,
+            event: 'phx_reply',
+            payload: { status, response }
+        });
+    }
+
+    private static async handleSocketMessage(conn: SocketConnection, data: RawData, isBinary: boolean) {
+        if (conn.closed) return;
+        const msg = this.decodeFrame(conn, data, isBinary);
+        if (!msg) return;
+
+        if (msg.topic === 'phoenix') {
+            if (msg.event === 'heartbeat') this.reply(conn, msg, 'ok', {});
+            return;
+        }
+
+        const now = Date.now();
+        if (now - conn.window.start >= 1000) conn.window = { start: now, count: 0 };
+        if (++conn.window.count > this.MAX_MESSAGES_PER_SECOND) {
+            this.reply(conn, msg, 'error', { reason: 'Too many messages. Slow down.' });
+            return;
+        }
+
+        switch (msg.event) {
+            case 'phx_join':
+                await this.joinChannel(conn, msg);
+                return;
+            case 'phx_leave':
+                this.reply(conn, msg, 'ok', {});
+                this.leaveChannel(conn, msg.topic);
+                return;
+            case 'access_token':
+                await this.refreshAccessToken(conn, msg);
+                return;
+        }
+
+        const channel = conn.channels.get(msg.topic);
+        if (!channel) {
+            this.reply(conn, msg, 'error', { reason: 'unmatched topic' });
+            return;
+        }
+
+        switch (msg.event) {
+            case 'broadcast':
+                this.handleClientBroadcast(conn, channel, msg);
+                return;
+            case 'presence':
+                await this.handleClientPresence(conn, channel, msg);
+                return;
+            default:
+                this.reply(conn, msg, 'error', { reason: `Unsupported event '${msg.event}'` });
+        }
+    }
+
+    private static async joinChannel(conn: SocketConnection, msg: PhoenixFrame) {
+        if (!msg.topic.startsWith('realtime:') || msg.topic.length === 'realtime:'.length) {
+            this.reply(conn, msg, 'error', { reason: 'Topic must be in the form realtime:<channel>' });
+            return;
+        }
+        if (!conn.channels.has(msg.topic) && conn.channels.size >= this.MAX_CHANNELS_PER_SOCKET) {
+            this.reply(conn, msg, 'error', { reason: 'Too many channels on this connection.' });
+            return;
+        }
+
+        if (await RateLimitService.checkPanic(conn.project.slug)) {
+            this.reply(conn, msg, 'error', { reason: 'Service Unavailable (Lockdown Mode)' });
+            return;
+        }
+
+        const token = msg.payload.access_token;
+        if (typeof token === 'string' && token) {
+            try {
+                const auth = await this.authenticateToken(conn.project, token);
+                conn.role = auth.role;
+                conn.claims = auth.claims;
+            } catch (e: any) {
+                this.reply(conn, msg, 'error', { reason: e.message });
+                return;
+            }
+        }
+
+        const requested = msg.payload.config?.postgres_changes;
+        const bindings: ChangeBinding[] = [];
+        if (requested !== undefined && !Array.isArray(requested)) {
+            this.reply(conn, msg, 'error', { reason: 'config.postgres_changes must be an array' });
+            return;
+        }
+        for (const spec of requested || []) {
+            const event = typeof spec?.event === 'string' ? spec.event.toUpperCase() : '';
+            if (!['*', 'INSERT', 'UPDATE', 'DELETE'].includes(event)) {
+                this.reply(conn, msg, 'error', { reason: `Invalid postgres_changes event '${spec?.event}'` });
+                return;
+            }
+            if (spec.schema !== undefined && spec.schema !== 'public') {
+                this.reply(conn, msg, 'error', { reason: `Schema '${spec.schema}' is not exposed to realtime` });
+                return;
+            }
+            let rowFilter: RowFilter | undefined;
+            if (spec.filter !== undefined) {
+                try {
+                    rowFilter = this.parseRowFilter(spec.filter);
+                } catch (e: any) {
+                    this.reply(conn, msg, 'error', { reason: e.message });
+                    return;
+                }
+            }
+            // Os campos voltam exatamente como vieram: o realtime-js compara um a um na resposta do join
+            bindings.push({ id: conn.nextBindingId++, event: spec.event, schema: spec.schema, table: spec.table, filter: spec.filter, rowFilter });
+        }
+
+        if (bindings.length > 0 && !conn.listening) {
+            try {
+                await this.acquireListener(conn.project, conn.env);
+            } catch (e) {
+                this.reply(conn, msg, 'error', { reason: 'Unable to subscribe to database changes' });
+                return;
+            }
+            // Socket fechado durante o acquire: dropSocket já rodou e não verá esta referência
+            if (conn.closed) {
+                this.releaseListener(conn.contextKey);
+                return;
+            }
+            conn.listening = true;
+            this.startBatcher();
+        }
+
+        const config = msg.payload.config || {};
+        const previous = conn.channels.get(msg.topic);
+        if (previous) await this.untrackPresence(conn, previous);
+
+        const channel: SocketChannel = {
+            topic: msg.topic,
+            joinRef: msg.join_ref ?? msg.ref,
+            bindings,
+            broadcastSelf: config.broadcast?.self === true,
+            broadcastAck: config.broadcast?.ack === true,
+            presenceKey: typeof config.presence?.key === 'string' && config.presence.key ? config.presence.key : crypto.randomUUID()
+        };
+        conn.channels.set(msg.topic, channel);
+        this.reply(conn, msg, 'ok', {
+            postgres_changes: bindings.map(({ id, event, schema, table, filter }) => ({ id, event, schema, table, filter }))
+        });
+
+        if (bindings.length > 0) {
+            this.pushFrame(conn, {
+                join_ref: msg.join_ref ?? msg.ref,
+                ref: null,
+                topic: msg.topic,
+                event: 'system',
+                payload: {
+                    channel: msg.topic.slice('realtime:'.length),
+                    extension: 'postgres_changes',
+                    message: 'Subscribed to PostgreSQL',
+                    status: 'ok'
+                }
+            });
+        }
+
+        const state = await this.presenceState(conn.contextKey, msg.topic);
+        this.pushFrame(conn, { join_ref: channel.joinRef, ref: null, topic: msg.topic, event: 'presence_state', payload: state });
+    }
+
+    private static leaveChannel(conn: SocketConnection, topic: string) {
+        const channel = conn.channels.get(topic);
+        if (!channel) return;
+        conn.channels.delete(topic);
+        this.untrackPresence(conn, channel).catch(() => {});
+
+        this.pushFrame(conn, { join_ref: channel.joinRef, ref: null, topic, event: 'phx_close', payload: {} });
+
+        const stillListening = Array.from(conn.channels.values()).some(c => c.bindings.length > 0);
+        if (conn.listening && !stillListening) {
+            conn.listening = false;
+            this.releaseListener(conn.contextKey);
+        }
+    }
+
+    private static async refreshAccessToken(conn: SocketConnection, msg: PhoenixFrame) {
+        const token = msg.payload.access_token;
+        if (!conn.channels.has(msg.topic) || typeof token !== 'string' || !token) return;
+        try {
+            const auth = await this.authenticateToken(conn.project, token);
+            conn.role = auth.role;
+            conn.claims = auth.claims;
+        } catch (e: any) {
+            // Token rejeitado: o canal não pode continuar entregando com a identidade antiga
+            this.pushFrame(conn, {
+                join_ref: conn.channels.get(msg.topic)!.joinRef,
+                ref: null,
+                topic: msg.topic,
+                event: 'system',
+                payload: { channel: msg.topic.slice('realtime:'.length), extension: 'system', message: e.message, status: 'error' }
+            });
+            this.leaveChannel(conn, msg.topic);
+        }
+    }
+
+    /**
+     * Resolve o papel de um token recebido pelo socket (apikey ou JWT de sessão)
+     * com as mesmas regras do cascataAuth: blacklist, assinatura do projeto e neutralização por usuário.
+     */
+    private static async authenticateToken(project: any, token: string): Promise<{ role: string, claims?: any }> {
+        if (token.split('.').length === 3) {
+            if (await RateLimitService.isTokenBlacklisted(token)) throw new Error('Token Revoked');
+
+            let decoded: any;
+            try {
+                decoded = jwt.verify(token, project.jwt_secret, { algorithms: ['HS256'] });
+            } catch (e) {
+                throw new Error('Invalid JWT Token');
+            }
+
+            if (decoded.sub && await RateLimitService.checkUserNeutralized(project.slug, decoded.sub)) {
+                throw new Error('User access neutralized by Sovereign Panic Signal.');
+            }
+            return { role: decoded.role || 'authenticated', claims: decoded };
+        }
+
+        if (token === project.service_key) return { role: 'service_role' };
+        if (token === project.anon_key) return { role: 'anon' };
+        const appClients = Array.isArray(project.metadata?.app_clients) ? project.metadata.app_clients : [];
+        if (appClients.some((c: any) => c.anon_key === token)) return { role: 'anon' };
+
+        throw new Error('Missing or Invalid Authentication Token');
+    }
+
+    // --- BROADCAST & PRESENCE ---
+
+    /**
+     * Conexão dedicada ao SUBSCRIBE dos canais `rt:<slug>:<env>`, no molde do dragonflySub do RateLimitService.
+     * A publicação usa a conexão de comandos do RateLimitService. Sem Dragonfly, tudo fica restrito a esta instância.
+     */
+    private static startRelay() {
+        if (this.dragonflySub) return;
+        try {
+            this.dragonflySub = new DragonflyClient({
+                host: process.env.DRAGONFLY_HOST || 'dragonfly',
+                port: parseInt(process.env.DRAGONFLY_PORT || '6379'),
+                retryStrategy: (times: number) => Math.min(times * 200, 5000),
+                lazyConnect: true
+            });
+            this.dragonflySub.connect().catch((e: any) => console.warn('[Realtime] Relay connect failed:', e.message));
+            this.dragonflySub.on('error', () => {});
+            // Reassina tudo que estiver ativo (inclusive o que falhou enquanto o Dragonfly estava fora)
+            this.dragonflySub.on('ready', () => {
+                const channels = Array.from(this.sockets.keys()).map(key => `rt:${key}`);
+                if (channels.length > 0) this.dragonflySub?.subscribe(...channels).catch(() => {});
+            });
+            this.dragonflySub.on('message', (channel: string, message: string) => this.handleRelayMessage(channel, message));
+        } catch (e) {
+            console.error('[Realtime] Relay init failed', e);
+            this.dragonflySub = null;
+        }
+        this.presenceTimer = setInterval(() => {
+            this.refreshPresence().catch(() => {});
+        }, this.PRESENCE_REFRESH_MS);
+    }
+
+    private static publisher(): any {
+        const dragonfly = (RateLimitService as any).dragonfly;
+        return dragonfly && (RateLimitService as any).isDragonflyHealthy ? dragonfly : null;
+    }
+
+    /**
+     * Entrega local imediata e relay para as demais instâncias.
+     */
+    private static emit(contextKey: string, topic: string, event: string, payload: any, exceptConnId?: string) {
+        this.fanout(contextKey, topic, event, payload, exceptConnId);
+
+        const dragonfly = this.publisher();
+        if (!dragonfly) return;
+        const message: RelayMessage = { origin: this.instanceId, topic, event, payload };
+        dragonfly.publish(`rt:${contextKey}`, JSON.stringify(message)).catch(() => {});
+    }
+
+    private static fanout(contextKey: string, topic: string, event: string, payload: any, exceptConnId?: string) {
+        this.sockets.get(contextKey)?.forEach(conn => {
+            if (conn.id === exceptConnId) return;
+            const channel = conn.channels.get(topic);
+            if (!channel) return;
+            this.pushFrame(conn, { join_ref: channel.joinRef, ref: null, topic, event, payload });
+        });
+    }
+
+    private static handleRelayMessage(channel: string, message: string) {
+        if (!channel.startsWith('rt:')) return;
+        try {
+            const relay: RelayMessage = JSON.parse(message);
+            if (relay.origin === this.instanceId) return;
+            if (relay.event !== 'broadcast' && relay.event !== 'presence_diff') return;
+            this.fanout(channel.slice('rt:'.length), relay.topic, relay.event, relay.payload);
+        } catch (e) {}
+    }
+
+    private static handleClientBroadcast(conn: SocketConnection, channel: SocketChannel, msg: PhoenixFrame) {
+        const { type, event, payload } = msg.payload;
+        if (type !== 'broadcast' || typeof event !== 'string' || !event) {
+            this.reply(conn, msg, 'error', { reason: 'Broadcast requires { type: "broadcast", event, payload }' });
+            return;
+        }
+        if (Buffer.byteLength(JSON.stringify(msg.payload)) > this.MAX_BROADCAST_BYTES) {
+            this.reply(conn, msg, 'error', { reason: 'Broadcast payload too large.' });
+            return;
+        }
+
+        this.emit(
+            conn.contextKey,
+            channel.topic,
+            'broadcast',
+            { type: 'broadcast', event, payload: payload ?? {} },
+            channel.broadcastSelf ? undefined : conn.id
+        );
+        if (channel.broadcastAck) this.reply(conn, msg, 'ok', {});
+    }
+
+    /**
+     * POST /realtime/v1/api/broadcast: envio sem socket (o supabase-js usa antes do subscribe).
+     * Os tópicos chegam sem o prefixo `realtime:`.
+     */
+    public static async handleRestBroadcast(req: any, res: any) {
+        const project = req.project;
+        if (!project) {
+            res.status(404).json({ error: 'Project context missing.' });
+            return;
+        }
+
+        if (await RateLimitService.checkPanic(project.slug)) {
+            res.status(503).json({ error: 'Service Unavailable (Lockdown Mode)' });
+            return;
+        }
+
+        const messages = req.body?.messages;
+        if (!Array.isArray(messages) || messages.length === 0 || messages.length > 100) {
+            res.status(400).json({ error: 'Body must contain between 1 and 100 messages.' });
+            return;
+        }
+        for (const message of messages) {
+            if (!message || typeof message.topic !== 'string' || !message.topic || typeof message.event !== 'string' || !message.event) {
+                res.status(400).json({ error: 'Each message requires a topic and an event.' });
+                return;
+            }
+            if (Buffer.byteLength(JSON.stringify(message)) > this.MAX_BROADCAST_BYTES) {
+                res.status(413).json({ error: 'Broadcast payload too large.' });
+                return;
+            }
+        }
+
+        const contextKey = `${project.slug}:${req.query.env === 'draft' ? 'draft' : 'live'}`;
+        for (const message of messages) {
+            this.emit(contextKey, `realtime:${message.topic}`, 'broadcast', {
+                type: 'broadcast',
+                event: message.event,
+                payload: message.payload ?? {}
+            });
+        }
+        res.status(202).end();
+    }
+
+    private static async handleClientPresence(conn: SocketConnection, channel: SocketChannel, msg: PhoenixFrame) {
+        const { event, payload } = msg.payload;
+
+        if (event === 'track') {
+            if (payload !== undefined && (typeof payload !== 'object' || payload === null || Array.isArray(payload))) {
+                this.reply(conn, msg, 'error', { reason: 'Presence payload must be an object.' });
+                return;
+            }
+            if (Buffer.byteLength(JSON.stringify(payload || {})) > this.MAX_BROADCAST_BYTES) {
+                this.reply(conn, msg, 'error', { reason: 'Presence payload too large.' });
+                return;
+            }
+            await this.trackPresence(conn, channel, payload || {});
+            this.reply(conn, msg, 'ok', {});
+            return;
+        }
+
+        if (event === 'untrack') {
+            await this.untrackPresence(conn, channel);
+            this.reply(conn, msg, 'ok', {});
+            return;
+        }
+
+        this.reply(conn, msg, 'error', { reason: `Unsupported presence event '${event}'` });
+    }
+
+    private static presenceHashKey(contextKey: string, topic: string) {
+        return `rt:presence:${contextKey}:${topic}`;
+    }
+
+    private static async trackPresence(conn: SocketConnection, channel: SocketChannel, meta: any) {
+        const previous = channel.presenceMeta;
+        const ref = `${this.instanceId}.${conn.id}.${++this.presenceSeq}`;
+        const entry: any = { ...meta, phx_ref: ref };
+        if (previous) entry.phx_ref_prev = previous.phx_ref;
+        channel.presenceMeta = entry;
+
+        const dragonfly = this.publisher();
+        if (dragonfly) {
+            const hashKey = this.presenceHashKey(conn.contextKey, channel.topic);
+            try {
+                const tx = dragonfly.multi();
+                if (previous) tx.hdel(hashKey, previous.phx_ref);
+                tx.hset(hashKey, ref, JSON.stringify({ key: channel.presenceKey, meta: entry, exp: Date.now() + this.PRESENCE_TTL_MS }));
+                tx.pexpire(hashKey, this.PRESENCE_TTL_MS * 2);
+                await tx.exec();
+            } catch (e) {}
+        }
+
+        this.emit(conn.contextKey, channel.topic, 'presence_diff', {
+            joins: { [channel.presenceKey]: { metas: [entry] } },
+            leaves: previous ? { [channel.presenceKey]: { metas: [previous] } } : {}
+        });
+    }
+
+    private static async untrackPresence(conn: SocketConnection, channel: SocketChannel) {
+        const previous = channel.presenceMeta;
+        if (!previous) return;
+        channel.presenceMeta = undefined;
+
+        const dragonfly = this.publisher();
+        if (dragonfly) {
+            try {
+                await dragonfly.hdel(this.presenceHashKey(conn.contextKey, channel.topic), previous.phx_ref);
+            } catch (e) {}
+        }
+
+        this.emit(conn.contextKey, channel.topic, 'presence_diff', {
+            joins: {},
+            leaves: { [channel.presenceKey]: { metas: [previous] } }
+        });
+    }
+
+    /**
+     * Estado completo do tópico (todas as instâncias quando há Dragonfly, senão só o local).
+     */
+    private static async presenceState(contextKey: string, topic: string): Promise<Record<string, { metas: any[] }>> {
+        const collect = (entries: { key: string, meta: any }[]) => {
+            const state: Record<string, { metas: any[] }> = {};
+            for (const { key, meta } of entries) {
+                (state[key] = state[key] || { metas: [] }).metas.push(meta);
+            }
+            return state;
+        };
+
+        const dragonfly = this.publisher();
+        if (dragonfly) {
+            try {
+                const raw: Record<string, string> = await dragonfly.hgetall(this.presenceHashKey(contextKey, topic));
+                const now = Date.now();
+                const entries = Object.values(raw)
+                    .map(value => { try { return JSON.parse(value); } catch (e) { return null; } })
+                    .filter(entry => entry && entry.exp > now);
+                return collect(entries);
+            } catch (e) {}
+        }
+
+        const local: { key: string, meta: any }[] = [];
+        this.sockets.get(contextKey)?.forEach(conn => {
+            const channel = conn.channels.get(topic);
+            if (channel?.presenceMeta) local.push({ key: channel.presenceKey, meta: channel.presenceMeta });
+        });
+        return collect(local);
+    }
+
+    /**
+     * Renova o TTL das presenças locais e expurga as de instâncias que caíram sem avisar.
+     * O HDEL só retorna 1 para quem removeu, então um único nó anuncia o leave.
+     */
+    private static async refreshPresence() {
+        const dragonfly = this.publisher();
+        if (!dragonfly) return;
+
+        const now = Date.now();
+        const topics = new Map<string, Set<string>>();
+        for (const [contextKey, set] of this.sockets.entries()) {
+            for (const conn of set) {
+                for (const channel of conn.channels.values()) {
+                    if (!topics.has(contextKey)) topics.set(contextKey, new Set());
+                    topics.get(contextKey)!.add(channel.topic);
+                    if (!channel.presenceMeta) continue;
+
+                    const hashKey = this.presenceHashKey(contextKey, channel.topic);
+                    const value = JSON.stringify({ key: channel.presenceKey, meta: channel.presenceMeta, exp: now + this.PRESENCE_TTL_MS });
+                    await dragonfly.hset(hashKey, channel.presenceMeta.phx_ref, value);
+                    await dragonfly.pexpire(hashKey, this.PRESENCE_TTL_MS * 2);
+                }
+            }
+        }
+
+        for (const [contextKey, set] of topics) {
+            for (const topic of set) {
+                const hashKey = this.presenceHashKey(contextKey, topic);
+                const raw: Record<string, string> = await dragonfly.hgetall(hashKey);
+                for (const [ref, value] of Object.entries(raw)) {
+                    let entry: any = null;
+                    try { entry = JSON.parse(value); } catch (e) {}
+                    if (entry && entry.exp > now) continue;
+
+                    if (await dragonfly.hdel(hashKey, ref) === 1 && entry) {
+                        this.emit(contextKey, topic, 'presence_diff', { joins: {}, leaves: { [entry.key]: { metas: [entry.meta] } } });
+                    }
+                }
+            }
+        }
+    }
+
     private static async acquireListener(project: any, env: string) {
         const slug = project.slug;
         const contextKey = `${slug}:${env}`;
@@ -203,6 +1054,10 @@ export class RealtimeService {
         if (this.activeListeners.has(contextKey)) {
             const listener = this.activeListeners.get(contextKey)!;
             listener.refCount++;
+            if (listener.closeTimer) {
+                clearTimeout(listener.closeTimer);
+                listener.closeTimer = undefined;
+            }
             
             // Refresh Config Cache occasionally
             if (Math.random() < 0.05) {
@@ -264,8 +1119,10 @@ export class RealtimeService {
                 refCount: 1,
                 connectionString,
                 isExternal,
-                cachedConfig
+                cachedConfig,
+                aliveTimer: setInterval(() => this.markCoverage(contextKey), this.LISTENER_ALIVE_TTL_MS / 3)
             });
+            await this.markCoverage(contextKey);
 
         } catch (e: any) {
             console.error(`[Realtime] Connection Failed for ${contextKey}`, e.message);
@@ -278,8 +1135,14 @@ export class RealtimeService {
         if (!listener) return;
         
         listener.refCount--;
-        if (listener.refCount <= 0) {
-            this.forceCloseListener(contextKey);
+        if (listener.refCount <= 0 && !listener.closeTimer) {
+            // Reconexões rápidas encontram o listener vivo e não abrem buraco no replay log
+            listener.closeTimer = setTimeout(() => {
+                listener.closeTimer = undefined;
+                if (listener.refCount <= 0 && this.activeListeners.get(contextKey) === listener) {
+                    this.forceCloseListener(contextKey);
+                }
+            }, this.LISTENER_LINGER_MS);
         }
     }
 
@@ -288,9 +1151,17 @@ export class RealtimeService {
         if (!listener) return;
         
         console.log(`[Realtime] 🔴 Closing idle listener for ${contextKey}`);
+        clearTimeout(listener.closeTimer);
+        clearInterval(listener.aliveTimer);
         listener.client.end().catch(() => {});
         this.activeListeners.delete(contextKey);
         this.hydrationBuffers.delete(contextKey);
+        for (const key of this.rlsTableCache.keys()) {
+            if (key.startsWith(`${contextKey}:`)) this.rlsTableCache.delete(key);
+        }
+        for (const key of this.primaryKeyCache.keys()) {
+            if (key.startsWith(`${contextKey}:`)) this.primaryKeyCache.delete(key);
+        }
     }
 
     public static teardownProjectListener(slug: string) {
@@ -309,7 +1180,7 @@ export class RealtimeService {
             // LOGIC: Hydration Batcher
             // Se o payload vier "seco" (sem record) e não for DELETE, bufferiza.
             if (!rawPayload.record && rawPayload.record_id && rawPayload.table && rawPayload.action !== 'DELETE') {
-                this.addToBatch(slug, env, rawPayload.table, rawPayload.record_id, rawPayload.action);
+                this.addToBatch(slug, env, rawPayload.table, rawPayload.record_id, rawPayload.action, rawPayload.timestamp);
                 return;
             }
 
@@ -410,7 +1281,7 @@ export class RealtimeService {
         this.flushInterval = setInterval(() => this.flushAllBuffers(), this.BATCH_TICK_MS);
     }
 
-    private static addToBatch(slug: string, env: string, table: string, id: string, action: string) {
+    private static addToBatch(slug: string, env: string, table: string, id: string, action: string, timestamp?: string) {
         const contextKey = `${slug}:${env}`;
         
         if (!this.hydrationBuffers.has(contextKey)) {
@@ -431,7 +1302,7 @@ export class RealtimeService {
         }
 
         // Map garante deduplicação (Last Write Wins)
-        tableBuffer.set(id, action);
+        tableBuffer.set(id, { action, timestamp });
         this.metrics.eventsBatched++;
     }
 
@@ -476,7 +1347,7 @@ export class RealtimeService {
         }
     }
 
-    private static async processBatch(slug: string, env: string, table: string, idMap: Map<string, string>, lockKey: string) {
+    private static async processBatch(slug: string, env: string, table: string, idMap: Map<string, BufferedChange>, lockKey: string) {
         const contextKey = `${slug}:${env}`;
         const listener = this.activeListeners.get(contextKey);
         if (!listener) return; // Projeto desconectou
@@ -516,15 +1387,15 @@ export class RealtimeService {
                 // Fan-out: Distribui os resultados
                 for (const row of res.rows) {
                     const recordId = row.id; 
-                    const originalAction = idMap.get(String(recordId)) || 'INSERT';
+                    const change = idMap.get(String(recordId));
 
                     const hydratedPayload = {
                         table: table,
                         schema: 'public',
-                        action: originalAction, 
+                        action: change?.action || 'INSERT', 
                         record: row,
                         record_id: recordId,
-                        timestamp: new Date().toISOString()
+                        timestamp: change?.timestamp || new Date().toISOString()
                     };
 
                     this.processSingleEvent(slug, env, hydratedPayload);
@@ -567,33 +1438,454 @@ export class RealtimeService {
         } catch (e) {}
     }
 
+    /**
+     * Enfileira o evento para entrega. Cada assinante recebe a linha como o seu papel a enxerga (RLS),
+     * já com o masking tier aplicado, e só se ela passar no filtro de linha da assinatura.
+     */
     private static broadcast(slug: string, env: string, payload: any) {
         const contextKey = `${slug}:${env}`;
-        const clients = this.subscribers.get(contextKey);
-        if (!clients || clients.size === 0) return;
-        
-        const message = `data: ${JSON.stringify(payload)}\n\n`;
-        let sentCount = 0;
-        
-        clients.forEach(client => {
-            if (!client.res.writableEnded) {
-                if (!client.tableFilter || client.tableFilter === payload.table) {
-                    client.res.write(message);
-                    sentCount++;
-                }
+
+        const pending = this.pendingDeliveries.get(contextKey) || 0;
+        if (pending >= this.MAX_PENDING_DELIVERIES) {
+            this.metrics.eventsDropped++;
+            return;
+        }
+        this.pendingDeliveries.set(contextKey, pending + 1);
+
+        const previous = this.deliveryChains.get(contextKey) || Promise.resolve();
+        const current: Promise<void> = previous
+            .then(() => this.deliver(slug, env, payload))
+            .catch(e => console.error(`[Realtime] Delivery failed for ${contextKey}`, e.message))
+            .finally(() => {
+                const left = (this.pendingDeliveries.get(contextKey) || 1) - 1;
+                if (left <= 0) this.pendingDeliveries.delete(contextKey);
+                else this.pendingDeliveries.set(contextKey, left);
+                if (this.deliveryChains.get(contextKey) === current) this.deliveryChains.delete(contextKey);
+            });
+        this.deliveryChains.set(contextKey, current);
+    }
+
+    private static async deliver(slug: string, env: string, payload: any) {
+        const contextKey = `${slug}:${env}`;
+        const type = String(payload.action || '').toUpperCase();
+        const table = payload.table;
+
+        // 0. Id monotônico + replay log. Registrado mesmo sem assinantes locais: quem reconectar vai pedir
+        const eventId = await this.assignEventId(contextKey, payload);
+
+        // 1. Candidatos (sem consultas): tabela/evento batem com a assinatura
+        const sseTargets: { client: ClientConnection, key: string }[] = [];
+        const socketTargets: { conn: SocketConnection, channel: SocketChannel, bindings: ChangeBinding[], key: string }[] = [];
+
+        this.subscribers.get(contextKey)?.forEach(client => {
+            if (client.res.writableEnded) return;
+            if (client.tableFilter && client.tableFilter !== table) return;
+            sseTargets.push({ client, key: '' });
+        });
+
+        this.sockets.get(contextKey)?.forEach(conn => {
+            for (const channel of conn.channels.values()) {
+                const bindings = channel.bindings.filter(b =>
+                    (b.event === '*' || b.event.toUpperCase() === type) && (!b.table || b.table === '*' || b.table === table));
+                if (bindings.length === 0) continue;
+                socketTargets.push({ conn, channel, bindings, key: '' });
             }
         });
-        
+
+        if (sseTargets.length === 0 && socketTargets.length === 0) return;
+
+        // DELETE não tem linha para o RLS avaliar, e sem RLS na tabela a visão só depende do papel
+        const coarse = type === 'DELETE' || !(await this.isRlsEnabled(slug, env, table));
+        const identities = new Map<string, { project: any, role: string, claims?: any }>();
+        const track = (project: any, role: string, claims: any) => {
+            const key = this.identityKey(role, claims, coarse);
+            if (!identities.has(key)) identities.set(key, { project, role, claims });
+            return key;
+        };
+        for (const target of sseTargets) {
+            target.key = track(target.client.project, target.client.role, target.client.claims);
+        }
+        for (const target of socketTargets) {
+            target.key = track(target.conn.project, target.conn.role, target.conn.claims);
+        }
+
+        // 2. Uma verificação por identidade distinta, com concorrência limitada
+        const views = new Map<string, { row: any, record: any } | null>();
+        const entries = Array.from(identities.entries());
+        for (let i = 0; i < entries.length; i += this.AUTHORIZATION_CONCURRENCY) {
+            await Promise.all(entries.slice(i, i + this.AUTHORIZATION_CONCURRENCY).map(async ([key, identity]) => {
+                views.set(key, await this.authorizedRecord(slug, env, identity, payload));
+            }));
+        }
+
+        // 3. Entrega
+        let sentCount = 0;
+
+        for (const { client, key } of sseTargets) {
+            const view = views.get(key);
+            if (!view || client.res.writableEnded) continue;
+            if (!this.matchesRowFilter(client.rowFilter, view.row)) continue;
+
+            const message = this.sseMessage(payload, view.record, eventId);
+            if (client.replaying) {
+                if (client.replaying.length < this.MAX_REPLAY_BACKLOG) client.replaying.push({ id: eventId, message });
+                else this.metrics.eventsDropped++;
+                continue;
+            }
+            client.res.write(message);
+            sentCount++;
+        }
+
+        for (const { conn, channel, bindings, key } of socketTargets) {
+            const view = views.get(key);
+            if (!view || conn.closed) continue;
+
+            const ids = bindings.filter(b => this.matchesRowFilter(b.rowFilter, view.row)).map(b => b.id);
+            if (ids.length === 0) continue;
+
+            // O NOTIFY só carrega o id: old_record traz apenas a chave (como REPLICA IDENTITY DEFAULT)
+            const data: any = {
+                schema: payload.schema || 'public',
+                table,
+                commit_timestamp: payload.timestamp || new Date().toISOString(),
+                type,
+                columns: [],
+                errors: null
+            };
+            if (type !== 'DELETE') data.record = view.record;
+            if (type !== 'INSERT') data.old_record = { id: payload.record_id };
+
+            const delivered = this.pushFrame(conn, {
+                join_ref: channel.joinRef,
+                ref: null,
+                topic: channel.topic,
+                event: 'postgres_changes',
+                payload: { ids, data }
+            });
+            if (delivered) sentCount++;
+        }
+
         this.metrics.eventsBroadcasted += sentCount;
     }
 
+    private static identityKey(role: string, claims: any, coarse: boolean): string {
+        if (role === 'service_role' || coarse) return role;
+        return JSON.stringify([role, claims?.sub, claims?.email, claims?.identifier, claims?.provider, claims?.otp_verified]);
+    }
+
+    /**
+     * Linha do evento como a identidade a enxerga: relida sob o RLS do papel/claims pela chave
+     * primária da tabela. `row` é a linha crua (avaliada pelos filtros de linha) e `record` a
+     * versão mascarada, a única que sai para o cliente. Retorna null quando a identidade não
+     * pode ver a linha. Em DELETE só resta a chave, entregue a quem tem SELECT na tabela.
+     */
+    private static async authorizedRecord(slug: string, env: string, identity: { project: any, role: string, claims?: any }, payload: any): Promise<{ row: any, record: any } | null> {
+        const listener = this.activeListeners.get(`${slug}:${env}`);
+        if (!listener) return null;
+
+        const type = String(payload.action || '').toUpperCase();
+        const table = payload.table;
+        const ctx: any = {
+            project: identity.project,
+            projectPool: PoolService.get(`rt_hyd_${slug}_${env}`, { connectionString: listener.connectionString }),
+            user: identity.claims,
+            userRole: identity.role,
+            // Fora de GET: o semáforo de leitura não desvia a consulta para o pool do live
+            method: 'REALTIME'
+        };
+
+        try {
+            if (type === 'DELETE') {
+                const key = { id: payload.record_id };
+                if (identity.role === 'service_role') return { row: key, record: key };
+                const result = await queryWithRLS(ctx, (client) => client.query(
+                    `SELECT has_table_privilege(current_user, $1, 'SELECT') AS allowed`,
+                    [`public.${quoteId(table)}`]
+                ));
+                return result.rows[0]?.allowed ? { row: key, record: key } : null;
+            }
+
+            // Entradas do replay log não carregam a linha: todos releem
+            let row = payload.record;
+            if (identity.role !== 'service_role' || !row) {
+                const pk = await this.primaryKeyColumns(slug, env, table);
+                // Sem a linha hidratada só o record_id (NEW.id do trigger) identifica a linha
+                const values = payload.record
+                    ? pk.map(column => payload.record[column])
+                    : pk.length === 1 ? [payload.record_id] : [];
+                if (values.length === 0 || values.some(v => v === undefined || v === null)) return null;
+
+                const where = pk.map((column, i) => `${quoteId(column)} = $${i + 1}`).join(' AND ');
+                const result = await queryWithRLS(ctx, (client) => client.query(
+                    `SELECT * FROM public.${quoteId(table)} WHERE ${where}`,
+                    values
+                ));
+                row = result.rows[0];
+            }
+            if (!row) return null;
+
+            return { row, record: await DataController.applyMaskingTier(ctx, row, table) };
+        } catch (e: any) {
+            this.metrics.authorizationErrors++;
+            return null;
+        }
+    }
+
+    /**
+     * Colunas da chave primária, na ordem do índice. Tabelas sem PK (ou falha na introspecção)
+     * caem em `id`, a mesma coluna que o trigger publica como record_id.
+     */
+    private static async primaryKeyColumns(slug: string, env: string, table: string): Promise<string[]> {
+        const cacheKey = `${slug}:${env}:${table}`;
+        const cached = this.primaryKeyCache.get(cacheKey);
+        if (cached && Date.now() - cached.at < this.RLS_CACHE_TTL_MS) return cached.columns;
+
+        const listener = this.activeListeners.get(`${slug}:${env}`);
+        if (!listener) return ['id'];
+
+        try {
+            const pool = PoolService.get(`rt_hyd_${slug}_${env}`, { connectionString: listener.connectionString });
+            const result = await pool.query(
+                `SELECT a.attname FROM pg_index i
+                 JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+                 WHERE i.indrelid = to_regclass($1) AND i.indisprimary
+                 ORDER BY array_position(i.indkey::int2[], a.attnum)`,
+                [`public.${quoteId(table)}`]
+            );
+            const columns = result.rows.length > 0 ? result.rows.map((r: any) => r.attname) : ['id'];
+            this.primaryKeyCache.set(cacheKey, { columns, at: Date.now() });
+            return columns;
+        } catch (e) {
+            return ['id'];
+        }
+    }
+
+    private static async isRlsEnabled(slug: string, env: string, table: string): Promise<boolean> {
+        const cacheKey = `${slug}:${env}:${table}`;
+        const cached = this.rlsTableCache.get(cacheKey);
+        if (cached && Date.now() - cached.at < this.RLS_CACHE_TTL_MS) return cached.enabled;
+
+        const listener = this.activeListeners.get(`${slug}:${env}`);
+        if (!listener) return true;
+
+        try {
+            const pool = PoolService.get(`rt_hyd_${slug}_${env}`, { connectionString: listener.connectionString });
+            const result = await pool.query(
+                'SELECT relrowsecurity FROM pg_class WHERE oid = to_regclass($1)',
+                [`public.${quoteId(table)}`]
+            );
+            const enabled = result.rows[0]?.relrowsecurity !== false;
+            this.rlsTableCache.set(cacheKey, { enabled, at: Date.now() });
+            return enabled;
+        } catch (e) {
+            return true; // Na dúvida, verifica identidade por identidade
+        }
+    }
+
+    // --- REPLAY LOG ---
+
+    /**
+     * Id monotônico por projeto/ambiente. O log guarda só a notificação (sem a linha):
+     * no replay a linha é relida sob o RLS de quem reconecta, exatamente como na entrega ao vivo.
+     * Retorna null com o Dragonfly fora; o evento segue ao vivo, mas sem id não há retomada.
+     */
+    private static async assignEventId(contextKey: string, payload: any): Promise<number | null> {
+        const dragonfly = this.publisher();
+        if (!dragonfly) {
+            this.coverageLost.add(contextKey);
+            return null;
+        }
+
+        const entry = JSON.stringify({
+            table: payload.table,
+            schema: payload.schema,
+            action: payload.action,
+            record_id: payload.record_id ?? payload.record?.id,
+            timestamp: payload.timestamp
+        });
+        const fingerprint = crypto.createHash('sha1').update(entry).digest('hex');
+
+        try {
+            if (this.coverageLost.has(contextKey)) {
+                // Ids até aqui podem ter buracos: quem pedir a partir deles recebe resync
+                const current = await dragonfly.get(`rt:seq:${contextKey}`);
+                await dragonfly.set(`rt:coverage:${contextKey}`, current || '0');
+                this.coverageLost.delete(contextKey);
+            }
+            const id = await dragonfly.eval(
+                this.APPEND_EVENT_SCRIPT, 3,
+                `rt:evt:${contextKey}:${fingerprint}`, `rt:seq:${contextKey}`, `rt:log:${contextKey}`,
+                this.REPLAY_DEDUPE_TTL_MS, entry, this.REPLAY_LOG_SIZE
+            );
+            return Number(id);
+        } catch (e) {
+            this.coverageLost.add(contextKey);
+            return null;
+        }
+    }
+
+    /**
+     * Enquanto houver ao menos um listener vivo para o contexto, o log está completo.
+     * Quando nenhum estava vivo (chave expirada), os eventos até a sequência atual podem ter
+     * sido perdidos: a cobertura sobe para ela.
+     */
+    private static async markCoverage(contextKey: string) {
+        const dragonfly = this.publisher();
+        if (!dragonfly) {
+            this.coverageLost.add(contextKey);
+            return;
+        }
+        try {
+            const aliveKey = `rt:alive:${contextKey}`;
+            const created = await dragonfly.set(aliveKey, this.instanceId, 'PX', this.LISTENER_ALIVE_TTL_MS, 'NX');
+            if (created === 'OK') {
+                const current = await dragonfly.get(`rt:seq:${contextKey}`);
+                await dragonfly.set(`rt:coverage:${contextKey}`, current || '0');
+            } else {
+                await dragonfly.pexpire(aliveKey, this.LISTENER_ALIVE_TTL_MS);
+            }
+        } catch (e) {
+            this.coverageLost.add(contextKey);
+        }
+    }
+
+    private static sseMessage(payload: any, record: any, id: number | null): string {
+        const event = { ...payload, record: String(payload.action || '').toUpperCase() === 'DELETE' ? undefined : record };
+        return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(event)}\n\n`;
+    }
+
+    /**
+     * Retomada via Last-Event-ID: reentrega o que o cliente perdeu ou sinaliza `resync`
+     * quando o log não cobre o intervalo. Eventos ao vivo que chegam durante o replay
+     * ficam retidos em `client.replaying` e saem depois, sem duplicar ids já reentregues.
+     */
+    private static async replay(client: ClientConnection, rawLastId: string, slug: string, env: string) {
+        const contextKey = `${slug}:${env}`;
+        let deliveredUpTo = 0;
+
+        const gone = () => client.res.destroyed || client.res.writableEnded;
+        const resync = (reason: string, details: Record<string, number | null> = {}) => {
+            const current = details.current_event_id || 0;
+            deliveredUpTo = current;
+            if (gone()) return;
+            client.res.write(`${current ? `id: ${current}\n` : ''}event: resync\ndata: ${JSON.stringify({
+                type: 'resync', reason, last_event_id: rawLastId, ...details
+            })}\n\n`);
+        };
+
+        try {
+            const lastId = /^\d{1,15}$/.test(rawLastId) ? Number(rawLastId) : NaN;
+            const dragonfly = this.publisher();
+
+            if (!dragonfly) {
+                resync('replay_unavailable');
+            } else if (Number.isNaN(lastId)) {
+                resync('invalid_event_id', { current_event_id: Number(await dragonfly.get(`rt:seq:${contextKey}`)) || 0 });
+            } else {
+                const [seq, coverage, oldest, entries] = await Promise.all([
+                    dragonfly.get(`rt:seq:${contextKey}`),
+                    dragonfly.get(`rt:coverage:${contextKey}`),
+                    dragonfly.zrange(`rt:log:${contextKey}`, 0, 0, 'WITHSCORES'),
+                    dragonfly.zrangebyscore(`rt:log:${contextKey}`, `(${lastId}`, '+inf')
+                ]);
+                const current = Number(seq) || 0;
+                const covered = Number(coverage) || 0;
+                const oldestId = oldest.length > 1 ? Number(oldest[1]) : null;
+
+                if (lastId > current) {
+                    resync('unknown_event_id', { current_event_id: current });
+                } else if (covered > 0 && lastId <= covered) {
+                    resync('gap_too_large', { oldest_event_id: covered + 1, current_event_id: current });
+                } else if (oldestId !== null && oldestId > lastId + 1) {
+                    resync('gap_too_large', { oldest_event_id: oldestId, current_event_id: current });
+                } else if (oldestId === null && current > lastId) {
+                    resync('gap_too_large', { oldest_event_id: null, current_event_id: current });
+                } else {
+                    deliveredUpTo = lastId;
+                    for (const raw of entries as string[]) {
+                        if (gone()) return;
+                        const separator = raw.indexOf('|');
+                        const id = Number(raw.slice(0, separator));
+                        const payload = JSON.parse(raw.slice(separator + 1));
+                        deliveredUpTo = id;
+
+                        if (client.tableFilter && client.tableFilter !== payload.table) continue;
+                        const view = await this.authorizedRecord(slug, env, client, payload);
+                        if (!view || !this.matchesRowFilter(client.rowFilter, view.row)) continue;
+                        if (gone()) return;
+                        client.res.write(this.sseMessage(payload, view.record, id));
+                        this.metrics.eventsBroadcasted++;
+                    }
+                }
+            }
+        } catch (e: any) {
+            console.error(`[Realtime] Replay failed for ${contextKey}`, e.message);
+            resync('replay_unavailable');
+        } finally {
+            const held = client.replaying || [];
+            client.replaying = undefined;
+            for (const { id, message } of held) {
+                if (id !== null && id <= deliveredUpTo) continue;
+                if (gone()) break;
+                client.res.write(message);
+                this.metrics.eventsBroadcasted++;
+            }
+        }
+    }
+
+    // --- ROW FILTERS ---
+
+    private static parseRowFilter(raw: any): RowFilter {
+        const match = typeof raw === 'string' ? raw.match(/^([A-Za-z_][A-Za-z0-9_]*)=(eq|neq|lt|lte|gt|gte|in)\.(.*)$/s) : null;
+        if (!match) {
+            throw new Error(`Invalid filter '${raw}'. Expected column=op.value (eq, neq, lt, lte, gt, gte, in)`);
+        }
+
+        const [, column, op, value] = match;
+        if (op !== 'in') return { column, op, values: [value] };
+
+        const list = value.match(/^\((.*)\)$/s);
+        if (!list) throw new Error(`Invalid filter '${raw}'. The in operator expects a list: in.(a,b)`);
+        const values = list[1].split(',').map(v => v.trim().replace(/^"(.*)"$/s, '$1'));
+        if (values.length > 100) throw new Error('The in filter accepts at most 100 values');
+        return { column, op, values };
+    }
+
+    private static matchesRowFilter(filter: RowFilter | undefined, record: any): boolean {
+        if (!filter) return true;
+
+        const raw = record[filter.column];
+        if (raw === undefined || raw === null) return filter.op === 'neq';
+
+        const value = raw instanceof Date ? raw.toISOString()
+            : typeof raw === 'object' ? JSON.stringify(raw)
+            : String(raw);
+        const target = filter.values[0];
+
+        switch (filter.op) {
+            case 'eq': return value === target;
+            case 'neq': return value !== target;
+            case 'in': return filter.values.includes(value);
+            default: {
+                // Numérico quando os dois lados são números; senão ordem lexicográfica (datas ISO inclusas)
+                const bothNumeric = value.trim() !== '' && target.trim() !== '' && !isNaN(Number(value)) && !isNaN(Number(target));
+                const cmp = bothNumeric ? Number(value) - Number(target) : (value < target ? -1 : value > target ? 1 : 0);
+                if (filter.op === 'lt') return cmp < 0;
+                if (filter.op === 'lte') return cmp <= 0;
+                if (filter.op === 'gt') return cmp > 0;
+                return cmp >= 0;
+            }
+        }
+    }
+
     // --- PUBLIC METRICS ACCESS ---
     public static getMetrics() {
         return {
             ...this.metrics,
             buffers: this.hydrationBuffers.size,
             listeners: this.activeListeners.size,
-            subscribers: Array.from(this.subscribers.values()).reduce((acc, set) => acc + set.size, 0)
+            subscribers: Array.from(this.subscribers.values()).reduce((acc, set) => acc + set.size, 0),
+            sockets: Array.from(this.sockets.values()).reduce((acc, set) => acc + set.size, 0)
         };
     }
 }
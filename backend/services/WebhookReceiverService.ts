@@ -0,0 +1,618 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { systemPool } from '../src/config/main.js';
+import { quoteId, quotePostgresLiteral } from '../src/utils/index.js';
+import { WebhookService } from './WebhookService.js';
+
+/**
+ * Declarative configuration of a receiver (system.webhook_receivers.target_config).
+ * Mapping values starting with `$` are paths into the request: `$.data.object.id`, `$.items[0].sku`,
+ * `$['odd key']`, or `$headers.x-event-id`. Any other value is written as a literal.
+ */
+export interface ReceiverTargetConfig {
+    schema?: string;
+    mapping?: Record<string, any>;
+    records_path?: string;      // Array inside the body: one row per element, paths relative to it
+    upsert_key?: string[];      // Columns of a unique constraint: ON CONFLICT ... DO UPDATE
+    role?: ReceiverRole;
+    idempotency?: {
+        header?: string;        // Defaults to x-idempotency-key
+        path?: string;          // Provider event id, e.g. $.id
+        ttl_hours?: number;
+    };
+}
+
+export type ReceiverRole = 'anon' | 'authenticated' | 'service_role';
+
+export interface IdempotencyClaim {
+    key: string;
+    claimed: boolean;
+    status?: 'processing' | 'done';
+    result?: any;
+}
+
+export interface TableWriteResult {
+    table: string;
+    written: number;
+}
+
+/** system.webhook_receivers.verification */
+export interface ReceiverVerification {
+    tolerance_seconds?: number; // Timestamped schemes (stripe, slack, standard_webhooks)
+    public_url?: string;        // URL the provider signs (twilio) when the gateway sits behind a rewrite
+    header?: string;            // Signature / key header for hmac_sha256 and api_key
+}
+
+/** What a verifier sees: the exact bytes the provider signed, plus the parsed body. */
+export interface IncomingDelivery {
+    rawBody: Buffer;
+    body: any;
+    headers: Record<string, any>;
+    url: string;
+}
+
+export interface VerificationResult {
+    ok: boolean;
+    reason?: string;
+}
+
+/**
+ * One provider scheme. `replayHeader` / `replayPath` locate the provider's delivery id, used as
+ * idempotency key when the receiver doesn't configure one: a replayed call is acknowledged, not re-run.
+ */
+export interface ReceiverVerifier {
+    verify(secret: string, delivery: IncomingDelivery, options: ReceiverVerification): VerificationResult;
+    replayHeader?: string;
+    replayPath?: string;
+}
+
+export type ReceiverOutcome = 'accepted' | 'duplicate' | 'rejected' | 'failed';
+
+export interface ReceiverLogEntry {
+    outcome: ReceiverOutcome;
+    status_code: number;
+    reason?: string | null;
+    idempotency_key?: string | null;
+    source_ip?: string | null;
+    headers?: Record<string, any>;
+    rawBody?: Buffer;
+    latency_ms?: number;
+}
+
+const RECEIVER_ROLES: ReceiverRole[] = ['anon', 'authenticated', 'service_role'];
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]{0,62}$/;
+const MAX_MAPPED_COLUMNS = 100;
+const MAX_ROWS_PER_DELIVERY = 1000;
+const MAX_IDEMPOTENCY_KEY_CHARS = 255;
+const DEFAULT_IDEMPOTENCY_HEADER = 'x-idempotency-key';
+const DEFAULT_IDEMPOTENCY_TTL_HOURS = 72;
+const MAX_IDEMPOTENCY_TTL_HOURS = 30 * 24;
+// A claim still 'processing' after this long belongs to a request that died mid-write
+const STALE_CLAIM_SECONDS = 300;
+const TABLE_WRITE_TIMEOUT_MS = 15000;
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const MIN_TOLERANCE_SECONDS = 30;
+const MAX_TOLERANCE_SECONDS = 24 * 3600;
+const LOG_BODY_EXCERPT_CHARS = 2048;
+// Never persisted in the receiver log
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+const header = (headers: Record<string, any>, name: string): string | undefined => {
+    const value = headers[name];
+    if (Array.isArray(value)) return value[0];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const hmac = (algorithm: 'sha256' | 'sha1', key: string | Buffer, data: string | Buffer, encoding: 'hex' | 'base64'): string =>
+    crypto.createHmac(algorithm, key).update(data).digest(encoding);
+
+const checkTimestamp = (timestamp: string | undefined, options: ReceiverVerification): VerificationResult | null => {
+    const seconds = Number(timestamp);
+    if (!timestamp || !Number.isFinite(seconds)) return { ok: false, reason: 'missing_timestamp' };
+    const tolerance = options.tolerance_seconds || DEFAULT_TOLERANCE_SECONDS;
+    if (Math.abs(Date.now() / 1000 - seconds) > tolerance) return { ok: false, reason: 'timestamp_out_of_tolerance' };
+    return null;
+};
+
+const VERIFIERS: Record<string, ReceiverVerifier> = {
+    // Hex HMAC-SHA256 of the body, optionally prefixed `sha256=` (Cascata's own outbound format)
+    hmac_sha256: {
+        verify(secret, delivery, options) {
+            const names = options.header ? [options.header] : ['x-cascata-signature', 'x-hub-signature-256', 'x-signature'];
+            const raw = names.map(name => header(delivery.headers, name)).find(Boolean);
+            if (!raw) return { ok: false, reason: 'missing_signature' };
+            const signature = raw.replace(/^sha256=/, '').toLowerCase();
+            if (safeEqual(signature, hmac('sha256', secret, delivery.rawBody, 'hex'))) return { ok: true };
+            // Receivers created before raw-body capture were verified against the re-serialized JSON
+            if (delivery.body && typeof delivery.body === 'object'
+                && safeEqual(signature, hmac('sha256', secret, JSON.stringify(delivery.body), 'hex'))) return { ok: true };
+            return { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    api_key: {
+        verify(secret, delivery, options) {
+            const bearer = header(delivery.headers, 'authorization')?.replace(/^Bearer\s+/i, '');
+            const key = header(delivery.headers, options.header || 'x-api-key') || bearer;
+            if (!key) return { ok: false, reason: 'missing_api_key' };
+            return safeEqual(key, secret) ? { ok: true } : { ok: false, reason: 'invalid_api_key' };
+        }
+    },
+
+    // Stripe-Signature: t=<ts>,v1=<hex>[,v1=<hex>] over "<ts>.<body>"
+    stripe: {
+        replayPath: '$.id',
+        verify(secret, delivery, options) {
+            const raw = header(delivery.headers, 'stripe-signature');
+            if (!raw) return { ok: false, reason: 'missing_signature' };
+            const parts = raw.split(',').map(part => part.split('=')).filter(pair => pair.length === 2);
+            const timestamp = parts.find(([k]) => k.trim() === 't')?.[1];
+            const signatures = parts.filter(([k]) => k.trim() === 'v1').map(([, v]) => v.trim());
+            const stale = checkTimestamp(timestamp, options);
+            if (stale) return stale;
+            const expected = hmac('sha256', secret, `${timestamp}.${delivery.rawBody.toString('utf8')}`, 'hex');
+            return signatures.some(sig => safeEqual(sig, expected)) ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    github: {
+        replayHeader: 'x-github-delivery',
+        verify(secret, delivery) {
+            const raw = header(delivery.headers, 'x-hub-signature-256');
+            if (!raw || !raw.startsWith('sha256=')) return { ok: false, reason: 'missing_signature' };
+            return safeEqual(raw.slice(7), hmac('sha256', secret, delivery.rawBody, 'hex'))
+                ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    shopify: {
+        replayHeader: 'x-shopify-webhook-id',
+        verify(secret, delivery) {
+            const raw = header(delivery.headers, 'x-shopify-hmac-sha256');
+            if (!raw) return { ok: false, reason: 'missing_signature' };
+            return safeEqual(raw, hmac('sha256', secret, delivery.rawBody, 'base64'))
+                ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    // X-Slack-Signature: v0=<hex> over "v0:<X-Slack-Request-Timestamp>:<body>"
+    slack: {
+        verify(secret, delivery, options) {
+            const raw = header(delivery.headers, 'x-slack-signature');
+            if (!raw || !raw.startsWith('v0=')) return { ok: false, reason: 'missing_signature' };
+            const timestamp = header(delivery.headers, 'x-slack-request-timestamp');
+            const stale = checkTimestamp(timestamp, options);
+            if (stale) return stale;
+            const expected = 'v0=' + hmac('sha256', secret, `v0:${timestamp}:${delivery.rawBody.toString('utf8')}`, 'hex');
+            return safeEqual(raw, expected) ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    // X-Twilio-Signature: base64 HMAC-SHA1 of the URL followed by the sorted form params. JSON bodies
+    // are covered by the bodySHA256 query param instead, which is part of the signed URL.
+    twilio: {
+        replayHeader: 'i-twilio-idempotency-token',
+        verify(secret, delivery) {
+            const raw = header(delivery.headers, 'x-twilio-signature');
+            if (!raw) return { ok: false, reason: 'missing_signature' };
+            let data = delivery.url;
+            const contentType = header(delivery.headers, 'content-type') || '';
+            if (contentType.includes('application/x-www-form-urlencoded')) {
+                const params = Array.from(new URLSearchParams(delivery.rawBody.toString('utf8')).entries())
+                    .sort(([a, x], [b, y]) => a < b ? -1 : a > b ? 1 : (x < y ? -1 : x > y ? 1 : 0));
+                data += params.map(([k, v]) => k + v).join('');
+            } else {
+                let bodyHash: string | null = null;
+                try { bodyHash = new URL(delivery.url).searchParams.get('bodySHA256'); } catch (e) { /* no URL, no hash */ }
+                const actual = crypto.createHash('sha256').update(delivery.rawBody).digest('hex');
+                if (!bodyHash || !safeEqual(bodyHash.toLowerCase(), actual)) return { ok: false, reason: 'invalid_body_hash' };
+            }
+            return safeEqual(raw, hmac('sha1', secret, data, 'base64')) ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    },
+
+    // Same scheme Cascata signs its outbound webhooks with (webhook-id / webhook-timestamp / webhook-signature)
+    standard_webhooks: {
+        replayHeader: 'webhook-id',
+        verify(secret, delivery, options) {
+            const id = header(delivery.headers, 'webhook-id');
+            const timestamp = header(delivery.headers, 'webhook-timestamp');
+            const raw = header(delivery.headers, 'webhook-signature');
+            if (!id || !raw) return { ok: false, reason: 'missing_signature' };
+            const stale = checkTimestamp(timestamp, options);
+            if (stale) return stale;
+            const expected = WebhookService.sign(secret, id, Number(timestamp), delivery.rawBody.toString('utf8'));
+            return raw.split(' ').some(sig => safeEqual(sig, expected)) ? { ok: true } : { ok: false, reason: 'invalid_signature' };
+        }
+    }
+};
+
+/**
+ * WebhookReceiverService
+ * TABLE target and idempotency of the incoming webhook gateway (/api/webhooks/in/...).
+ * Writes run as the configured role with RLS, never as the pool owner.
+ */
+export class WebhookReceiverService {
+
+    /**
+     * Parses `$`, `$.a.b`, `$.a[0]`, `$['a b']` and `$headers.name` into a root and a list of keys.
+     * Returns null for anything else (filters, wildcards and recursive descent are not supported).
+     */
+    private static parsePath(path: string): { root: 'body' | 'headers'; keys: (string | number)[] } | null {
+        if (path.startsWith('$headers.')) {
+            const name = path.slice('$headers.'.length).toLowerCase();
+            return name ? { root: 'headers', keys: [name] } : null;
+        }
+        if (!path.startsWith('$')) return null;
+        let rest = path.slice(1);
+
+        const keys: (string | number)[] = [];
+        const token = /^(?:\.([a-zA-Z0-9_\-$]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/;
+        while (rest.length > 0) {
+            const m = rest.match(token);
+            if (!m) return null;
+            if (m[1] !== undefined) keys.push(m[1]);
+            else if (m[2] !== undefined) keys.push(parseInt(m[2], 10));
+            else keys.push((m[3] ?? m[4]).replace(/\\(.)/g, '$1'));
+            rest = rest.slice(m[0].length);
+        }
+        return { root: 'body', keys };
+    }
+
+    public static isPath(value: any): value is string {
+        return typeof value === 'string' && value.startsWith('$');
+    }
+
+    public static resolvePath(path: string, body: any, headers: Record<string, any> = {}): any {
+        const parsed = this.parsePath(path);
+        if (!parsed) return undefined;
+        let current: any = parsed.root === 'headers' ? headers : body;
+        for (const key of parsed.keys) {
+            if (current === null || current === undefined || typeof current !== 'object') return undefined;
+            if (!Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+            current = current[key];
+        }
+        // Repeated headers arrive as arrays: the first value is the one providers sign
+        if (parsed.root === 'headers' && Array.isArray(current)) return current[0];
+        return current;
+    }
+
+    /**
+     * Normalizes and validates a target_config before it is stored. Throws with a user-facing message.
+     * The table itself is resolved at delivery time, so renamed columns surface as delivery errors.
+     */
+    public static validateTargetConfig(targetType: string, targetId: string, raw: any): ReceiverTargetConfig {
+        if (raw === undefined || raw === null) raw = {};
+        if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('target_config must be an object.');
+        const config: ReceiverTargetConfig = {};
+
+        if (raw.idempotency !== undefined && raw.idempotency !== null) {
+            const { header, path, ttl_hours } = raw.idempotency;
+            if (header !== undefined && (typeof header !== 'string' || !/^[a-zA-Z0-9-]{1,100}$/.test(header))) {
+                throw new Error('idempotency.header must be a header name.');
+            }
+            if (path !== undefined && (!this.isPath(path) || !this.parsePath(path))) {
+                throw new Error(`idempotency.path "${path}" is not a supported JSONPath.`);
+            }
+            if (ttl_hours !== undefined && (!Number.isFinite(ttl_hours) || ttl_hours < 1 || ttl_hours > MAX_IDEMPOTENCY_TTL_HOURS)) {
+                throw new Error(`idempotency.ttl_hours must be between 1 and ${MAX_IDEMPOTENCY_TTL_HOURS}.`);
+            }
+            config.idempotency = {
+                ...(header ? { header: header.toLowerCase() } : {}),
+                ...(path ? { path } : {}),
+                ...(ttl_hours ? { ttl_hours: Math.floor(ttl_hours) } : {})
+            };
+        }
+
+        if (targetType !== 'TABLE') return config;
+
+        if (!IDENTIFIER.test(targetId || '')) throw new Error('Target table must be a plain table name.');
+        const schema = raw.schema || 'public';
+        if (!IDENTIFIER.test(schema)) throw new Error('Invalid schema name.');
+        if (schema === 'system' || schema.startsWith('pg_') || schema === 'information_schema') {
+            throw new Error(`Schema "${schema}" is not writable by webhook receivers.`);
+        }
+        config.schema = schema;
+
+        const mapping = raw.mapping;
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping) || Object.keys(mapping).length === 0) {
+            throw new Error('TABLE receivers need a mapping of column → JSONPath.');
+        }
+        const columns = Object.keys(mapping);
+        if (columns.length > MAX_MAPPED_COLUMNS) throw new Error(`A mapping can set at most ${MAX_MAPPED_COLUMNS} columns.`);
+        for (const column of columns) {
+            if (!IDENTIFIER.test(column)) throw new Error(`Invalid column name "${column}".`);
+            if (this.isPath(mapping[column]) && !this.parsePath(mapping[column])) {
+                throw new Error(`Mapping for "${column}" is not a supported JSONPath: ${mapping[column]}`);
+            }
+        }
+        config.mapping = mapping;
+
+        if (raw.records_path !== undefined && raw.records_path !== null && raw.records_path !== '') {
+            if (!this.isPath(raw.records_path) || !this.parsePath(raw.records_path)?.keys.length || raw.records_path.startsWith('$headers')) {
+                throw new Error('records_path must be a JSONPath into the body, e.g. $.data');
+            }
+            config.records_path = raw.records_path;
+        }
+
+        if (raw.upsert_key !== undefined && raw.upsert_key !== null) {
+            const key = typeof raw.upsert_key === 'string' ? [raw.upsert_key] : raw.upsert_key;
+            if (!Array.isArray(key) || key.length === 0) throw new Error('upsert_key must be a column or a list of columns.');
+            for (const column of key) {
+                if (!columns.includes(column)) throw new Error(`upsert_key column "${column}" must be part of the mapping.`);
+            }
+            config.upsert_key = Array.from(new Set(key));
+        }
+
+        const role = raw.role || 'anon';
+        if (!RECEIVER_ROLES.includes(role)) throw new Error(`role must be one of: ${RECEIVER_ROLES.join(', ')}.`);
+        config.role = role;
+
+        return config;
+    }
+
+    // --- Idempotency ---
+
+    /**
+     * The configured header (or x-idempotency-key) wins over the body path, then over the delivery id
+     * of the auth_method's provider. Returns null when the delivery carries no key; throws on keys too long to store.
+     */
+    public static resolveIdempotencyKey(config: ReceiverTargetConfig, body: any, headers: Record<string, any>, authMethod?: string): string | null {
+        const preset = authMethod ? VERIFIERS[authMethod] : undefined;
+        const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+        let key: any = header(headers, config.idempotency?.header || DEFAULT_IDEMPOTENCY_HEADER);
+        if (isEmpty(key) && config.idempotency?.path) key = this.resolvePath(config.idempotency.path, body, headers);
+        if (isEmpty(key) && preset?.replayHeader) key = header(headers, preset.replayHeader);
+        if (isEmpty(key) && preset?.replayPath) key = this.resolvePath(preset.replayPath, body, headers);
+        if (key === undefined || key === null || key === '' || typeof key === 'object') return null;
+        key = String(key);
+        if (key.length > MAX_IDEMPOTENCY_KEY_CHARS) {
+            throw Object.assign(new Error(`Idempotency key exceeds ${MAX_IDEMPOTENCY_KEY_CHARS} characters.`), { status: 400 });
+        }
+        return key;
+    }
+
+    /**
+     * Claims the key for this delivery. Expired keys and stale 'processing' claims are taken over;
+     * otherwise the existing claim is returned with claimed = false.
+     */
+    public static async claimIdempotency(receiverId: string, key: string, config: ReceiverTargetConfig): Promise<IdempotencyClaim> {
+        const ttlHours = config.idempotency?.ttl_hours || DEFAULT_IDEMPOTENCY_TTL_HOURS;
+        const claim = await systemPool.query(
+            `INSERT INTO system.webhook_receiver_idempotency (receiver_id, idempotency_key, expires_at)
+             VALUES ($1, $2, NOW() + make_interval(hours => $3))
+             ON CONFLICT (receiver_id, idempotency_key) DO UPDATE
+                SET status = 'processing', result = NULL, created_at = NOW(), expires_at = EXCLUDED.expires_at
+                WHERE system.webhook_receiver_idempotency.expires_at < NOW()
+                   OR (system.webhook_receiver_idempotency.status = 'processing'
+                       AND system.webhook_receiver_idempotency.created_at < NOW() - make_interval(secs => $4))
+             RETURNING idempotency_key`,
+            [receiverId, key, ttlHours, STALE_CLAIM_SECONDS]
+        );
+        if (claim.rows.length > 0) return { key, claimed: true };
+
+        const existing = await systemPool.query(
+            `SELECT status, result FROM system.webhook_receiver_idempotency WHERE receiver_id = $1 AND idempotency_key = $2`,
+            [receiverId, key]
+        );
+        // Released between the two statements: let the provider retry rather than race the other request
+        const row = existing.rows[0];
+        return { key, claimed: false, status: row?.status || 'processing', result: row?.result ?? null };
+    }
+
+    public static async completeIdempotency(receiverId: string, key: string, result: any): Promise<void> {
+        await systemPool.query(
+            `UPDATE system.webhook_receiver_idempotency SET status = 'done', result = $3
+             WHERE receiver_id = $1 AND idempotency_key = $2`,
+            [receiverId, key, JSON.stringify(result ?? null)]
+        );
+    }
+
+    public static async releaseIdempotency(receiverId: string, key: string): Promise<void> {
+        await systemPool.query(
+            `DELETE FROM system.webhook_receiver_idempotency WHERE receiver_id = $1 AND idempotency_key = $2 AND status = 'processing'`,
+            [receiverId, key]
+        );
+    }
+
+    public static async purgeExpiredIdempotency(): Promise<number> {
+        const res = await systemPool.query(`DELETE FROM system.webhook_receiver_idempotency WHERE expires_at < NOW()`);
+        return res.rowCount || 0;
+    }
+
+    // --- Verification ---
+
+    public static authMethods(): string[] {
+        return ['none', ...Object.keys(VERIFIERS)];
+    }
+
+    public static validateVerification(authMethod: string, hasSecret: boolean, raw: any): ReceiverVerification {
+        if (!this.authMethods().includes(authMethod)) {
+            throw new Error(`auth_method must be one of: ${this.authMethods().join(', ')}.`);
+        }
+        if (authMethod !== 'none' && !hasSecret) throw new Error(`auth_method "${authMethod}" requires a secret_key.`);
+        if (raw === undefined || raw === null) return {};
+        if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('verification must be an object.');
+
+        const verification: ReceiverVerification = {};
+        if (raw.tolerance_seconds !== undefined) {
+            const tolerance = Number(raw.tolerance_seconds);
+            if (!Number.isFinite(tolerance) || tolerance < MIN_TOLERANCE_SECONDS || tolerance > MAX_TOLERANCE_SECONDS) {
+                throw new Error(`verification.tolerance_seconds must be between ${MIN_TOLERANCE_SECONDS} and ${MAX_TOLERANCE_SECONDS}.`);
+            }
+            verification.tolerance_seconds = Math.floor(tolerance);
+        }
+        if (raw.public_url !== undefined && raw.public_url !== '') {
+            let url: URL;
+            try { url = new URL(raw.public_url); } catch (e) { throw new Error('verification.public_url must be an absolute URL.'); }
+            if (!['http:', 'https:'].includes(url.protocol)) throw new Error('verification.public_url must be http(s).');
+            verification.public_url = url.origin + url.pathname;
+        }
+        if (raw.header !== undefined && raw.header !== '') {
+            if (typeof raw.header !== 'string' || !/^[a-zA-Z0-9-]{1,100}$/.test(raw.header)) {
+                throw new Error('verification.header must be a header name.');
+            }
+            verification.header = raw.header.toLowerCase();
+        }
+        return verification;
+    }
+
+    /** Unknown methods fail closed: a receiver whose method was removed must not become public. */
+    public static verify(authMethod: string, secret: string | null, delivery: IncomingDelivery, options: ReceiverVerification = {}): VerificationResult {
+        if (!authMethod || authMethod === 'none') return { ok: true };
+        const verifier = VERIFIERS[authMethod];
+        if (!verifier) return { ok: false, reason: 'unsupported_auth_method' };
+        if (!secret) return { ok: false, reason: 'missing_secret' };
+        return verifier.verify(secret, delivery, options);
+    }
+
+    /** JSON and form bodies are parsed; anything else reaches the target as text. */
+    public static parseBody(rawBody: Buffer, contentType: string = ''): any {
+        if (rawBody.length === 0) return {};
+        const text = rawBody.toString('utf8');
+        if (contentType.includes('application/x-www-form-urlencoded')) {
+            return Object.fromEntries(new URLSearchParams(text).entries());
+        }
+        if (contentType.includes('json') || (!contentType && /^\s*[\[{]/.test(text))) {
+            try { return JSON.parse(text); } catch (e) {
+                throw Object.assign(new Error('Body is not valid JSON.'), { status: 400, reason: 'invalid_body' });
+            }
+        }
+        return text;
+    }
+
+    // --- Receiver log ---
+
+    /** Best effort: a log failure never changes the answer given to the provider. */
+    public static recordCall(receiver: { id: string; project_slug: string; verification?: ReceiverVerification }, entry: ReceiverLogEntry): void {
+        const redacted = [...CREDENTIAL_HEADERS, ...(receiver.verification?.header ? [receiver.verification.header] : [])];
+        const headers: Record<string, any> = {};
+        for (const [name, value] of Object.entries(entry.headers || {})) {
+            headers[name] = redacted.includes(name) ? '[redacted]' : value;
+        }
+        systemPool.query(
+            `INSERT INTO system.webhook_receiver_logs
+                (receiver_id, project_slug, outcome, status_code, reason, idempotency_key, source_ip, headers, body_excerpt, latency_ms)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+            [
+                receiver.id,
+                receiver.project_slug,
+                entry.outcome,
+                entry.status_code,
+                entry.reason || null,
+                entry.idempotency_key || null,
+                entry.source_ip || null,
+                JSON.stringify(headers),
+                entry.rawBody ? entry.rawBody.toString('utf8').slice(0, LOG_BODY_EXCERPT_CHARS) : null,
+                entry.latency_ms ?? null
+            ]
+        ).catch((e: any) => console.error('[WebhookReceiver] Log write failed:', e.message));
+    }
+
+    public static async listCalls(projectSlug: string, receiverId: string, outcome?: string, limit: number = 50): Promise<any[]> {
+        const res = await systemPool.query(
+            `SELECT id, outcome, status_code, reason, idempotency_key, source_ip, headers, body_excerpt, latency_ms, created_at
+             FROM system.webhook_receiver_logs
+             WHERE project_slug = $1 AND receiver_id = $2 AND ($3::text IS NULL OR outcome = $3)
+             ORDER BY created_at DESC LIMIT $4`,
+            [projectSlug, receiverId, outcome || null, Math.min(Math.max(limit, 1), 200)]
+        );
+        return res.rows;
+    }
+
+    // --- TABLE target ---
+
+    /** Applies the mapping to the delivery: one row per element of records_path (or of a top-level array). */
+    public static buildRows(config: ReceiverTargetConfig, body: any, headers: Record<string, any>): Record<string, any>[] {
+        let records: any[];
+        if (config.records_path) {
+            const found = this.resolvePath(config.records_path, body, headers);
+            if (found === undefined || found === null) records = [];
+            else records = Array.isArray(found) ? found : [found];
+        } else {
+            records = Array.isArray(body) ? body : [body];
+        }
+
+        if (records.length > MAX_ROWS_PER_DELIVERY) {
+            throw Object.assign(new Error(`A delivery can write at most ${MAX_ROWS_PER_DELIVERY} rows.`), { status: 413 });
+        }
+
+        const mapping = config.mapping || {};
+        return records.map(record => {
+            const row: Record<string, any> = {};
+            for (const [column, source] of Object.entries(mapping)) {
+                const value = this.isPath(source) ? this.resolvePath(source, record, headers) : source;
+                // Missing paths are left to the column default rather than forced to NULL
+                if (value !== undefined) row[column] = value;
+            }
+            return row;
+        });
+    }
+
+    /**
+     * Inserts (or upserts on upsert_key) the mapped rows under the receiver role.
+     * No RETURNING: an insert-only policy must be enough for a receiver to work.
+     */
+    public static async writeToTable(
+        pool: Pool,
+        projectSlug: string,
+        table: string,
+        config: ReceiverTargetConfig,
+        body: any,
+        headers: Record<string, any>
+    ): Promise<TableWriteResult> {
+        const rows = this.buildRows(config, body, headers).filter(row => Object.keys(row).length > 0);
+        if (rows.length === 0) return { table, written: 0 };
+
+        const columns = Object.keys(config.mapping || {}).filter(column => rows.some(row => column in row));
+        const values: any[] = [];
+        const tuples = rows.map(row => {
+            const placeholders = columns.map(column => {
+                if (!(column in row)) return 'DEFAULT';
+                const value = row[column];
+                // pg would serialize arrays as Postgres arrays: JSON is what a webhook body means
+                values.push(value !== null && typeof value === 'object' ? JSON.stringify(value) : value);
+                return `$${values.length}`;
+            });
+            return `(${placeholders.join(', ')})`;
+        });
+
+        let sql = `INSERT INTO ${quoteId(config.schema || 'public')}.${quoteId(table)} (${columns.map(quoteId).join(', ')}) VALUES ${tuples.join(', ')}`;
+        if (config.upsert_key && config.upsert_key.length > 0) {
+            const updates = columns.filter(column => !config.upsert_key!.includes(column));
+            sql += ` ON CONFLICT (${config.upsert_key.map(quoteId).join(', ')}) `;
+            sql += updates.length > 0
+                ? `DO UPDATE SET ${updates.map(column => `${quoteId(column)} = EXCLUDED.${quoteId(column)}`).join(', ')}`
+                : 'DO NOTHING';
+        }
+
+        const role = RECEIVER_ROLES.includes(config.role as ReceiverRole) ? config.role! : 'anon';
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            await client.query(`
+                SET LOCAL ROLE ${quotePostgresLiteral(role)};
+                SET LOCAL "request.jwt.claim.sub" = '';
+                SET LOCAL "request.jwt.claim.role" = ${quotePostgresLiteral(role)};
+                SET LOCAL "request.jwt.claim.project_slug" = ${quotePostgresLiteral(projectSlug)};
+                SET LOCAL "request.jwt.claim.otp_verified" = 'false';
+                SET LOCAL statement_timeout = '${TABLE_WRITE_TIMEOUT_MS}';
+            `);
+            const result = await client.query(sql, values);
+            await client.query('COMMIT');
+            return { table, written: result.rowCount || 0 };
+        } catch (e) {
+            await client.query('ROLLBACK').catch(() => { });
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+}
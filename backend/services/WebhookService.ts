@@ -1,6 +1,8 @@
 
 import { Pool } from 'pg';
+import crypto from 'crypto';
 import { QueueService } from './QueueService.js';
+import { systemPool } from '../src/config/main.js';
 
 interface WebhookPayload {
     event_type: 'INSERT' | 'UPDATE' | 'DELETE';
@@ -11,36 +13,299 @@ interface WebhookPayload {
     timestamp: string;
 }
 
+/**
+ * Job data of the cascata-webhooks queue. `eventId` is the Standard-Webhooks `webhook-id`:
+ * stable across retries and redeliveries so receivers can deduplicate.
+ */
+export interface WebhookJob {
+    webhookId?: string;
+    projectSlug?: string;
+    eventId?: string;
+    targetUrl: string;
+    payload: any;
+    secret?: string; // Jobs queued before signing secrets existed
+    eventType: string;
+    tableName: string;
+    fallbackUrl?: string | null;
+    retryPolicy?: string | null;
+    redeliveryOf?: string;
+}
+
+export interface DeliveryResult {
+    ok: boolean;
+    status_code: number | null;
+    latency_ms: number;
+    response_excerpt: string | null;
+    error: string | null;
+}
+
+const SIGNING_SECRET_PREFIX = 'whsec_';
+const RESPONSE_EXCERPT_CHARS = 1024;
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+/**
+ * A filter is a rule or a group. `filters` stored as a plain array is an AND group (the original format).
+ * Change operators compare against old_record and never match when the event has none (inserts,
+ * sources that don't capture the previous row).
+ */
 interface FilterRule {
     field: string;
-    operator: 'eq' | 'neq' | 'gt' | 'lt' | 'contains' | 'starts_with';
-    value: string;
+    operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'starts_with' | 'ends_with'
+        | 'in' | 'not_in' | 'regex' | 'is_null' | 'is_not_null'
+        | 'changed' | 'changed_from' | 'changed_to' | 'changed_from_to';
+    value?: any;
+    from?: any; // changed_from_to
+    to?: any;   // changed_from_to
 }
 
+interface FilterGroup {
+    op: 'and' | 'or';
+    conditions: FilterNode[];
+}
+
+type FilterNode = FilterRule | FilterGroup;
+
+const FILTER_OPERATORS = [
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'starts_with', 'ends_with',
+    'in', 'not_in', 'regex', 'is_null', 'is_not_null',
+    'changed', 'changed_from', 'changed_to', 'changed_from_to'
+];
+const MAX_FILTER_DEPTH = 5;
+const MAX_FILTER_RULES = 50;
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_SUBJECT = 10000;
+const MAX_REGEX_REPETITIONS = 25;
+const CHANGE_FILTER_CACHE_MS = 30 * 1000;
+
+// HTTP semantic actions (logging middleware) → the row events webhooks subscribe to
+const ROW_EVENTS: Record<string, string> = {
+    INSERT_ROWS: 'INSERT', REST_INSERT: 'INSERT',
+    UPDATE_ROWS: 'UPDATE', REST_UPDATE: 'UPDATE',
+    DELETE_ROWS: 'DELETE', REST_DELETE: 'DELETE'
+};
+
 export class WebhookService {
-    
-    private static matchesFilters(record: any, filters: FilterRule[]): boolean {
-        if (!filters || filters.length === 0) return true;
+
+    private static regexCache = new Map<string, RegExp>();
+    private static changeFilterCache = new Map<string, { needed: boolean, loadedAt: number }>();
+
+    private static isGroup(node: FilterNode): node is FilterGroup {
+        return !!node && typeof node === 'object' && Array.isArray((node as FilterGroup).conditions);
+    }
+
+    private static matchesFilters(record: any, filters: FilterNode[] | FilterGroup, oldRecord?: any): boolean {
+        const root: FilterGroup = Array.isArray(filters) ? { op: 'and', conditions: filters } : filters;
+        if (!root || !Array.isArray(root.conditions) || root.conditions.length === 0) return true;
         if (!record) return false;
 
-        for (const rule of filters) {
-            const recordValue = record[rule.field];
-            const valA = recordValue; 
-            const valB = rule.value;
-
-            if (valA === undefined) return false;
-
-            switch (rule.operator) {
-                case 'eq': if (valA != valB) return false; break;
-                case 'neq': if (valA == valB) return false; break;
-                case 'gt': if (Number(valA) <= Number(valB)) return false; break;
-                case 'lt': if (Number(valA) >= Number(valB)) return false; break;
-                case 'contains': if (!String(valA).toLowerCase().includes(String(valB).toLowerCase())) return false; break;
-                case 'starts_with': if (!String(valA).startsWith(String(valB))) return false; break;
-                default: return false;
+        // Batch writes: the event matches when any row does (old rows are paired by position)
+        if (Array.isArray(record)) {
+            return record.some((row, i) => this.evaluate(root, row, Array.isArray(oldRecord) ? oldRecord[i] : undefined));
+        }
+        return this.evaluate(root, record, Array.isArray(oldRecord) ? oldRecord[0] : oldRecord);
+    }
+
+    private static evaluate(node: FilterNode, record: any, oldRecord: any): boolean {
+        if (this.isGroup(node)) {
+            return node.op === 'or'
+                ? node.conditions.some(c => this.evaluate(c, record, oldRecord))
+                : node.conditions.every(c => this.evaluate(c, record, oldRecord));
+        }
+        if (!record || typeof record !== 'object') return false;
+
+        const rule = node as FilterRule;
+        const valA = record[rule.field];
+        const valB = rule.value;
+
+        switch (rule.operator) {
+            case 'is_null': return valA === null || valA === undefined;
+            case 'is_not_null': return valA !== null && valA !== undefined;
+            case 'changed':
+            case 'changed_from':
+            case 'changed_to':
+            case 'changed_from_to': {
+                if (!oldRecord || typeof oldRecord !== 'object' || !(rule.field in oldRecord)) return false;
+                const before = oldRecord[rule.field];
+                if (this.sameValue(before, valA)) return false;
+                if (rule.operator === 'changed_from') return this.looseEquals(before, valB);
+                if (rule.operator === 'changed_to') return this.looseEquals(valA, valB);
+                if (rule.operator === 'changed_from_to') return this.looseEquals(before, rule.from) && this.looseEquals(valA, rule.to);
+                return true;
             }
         }
-        return true;
+
+        if (valA === undefined) return false;
+
+        switch (rule.operator) {
+            case 'eq': return this.looseEquals(valA, valB);
+            case 'neq': return !this.looseEquals(valA, valB);
+            case 'gt': return Number(valA) > Number(valB);
+            case 'gte': return Number(valA) >= Number(valB);
+            case 'lt': return Number(valA) < Number(valB);
+            case 'lte': return Number(valA) <= Number(valB);
+            case 'contains': return String(valA).toLowerCase().includes(String(valB).toLowerCase());
+            case 'starts_with': return String(valA).startsWith(String(valB));
+            case 'ends_with': return String(valA).endsWith(String(valB));
+            case 'in': return this.listValue(valB).some(v => this.looseEquals(valA, v));
+            case 'not_in': return !this.listValue(valB).some(v => this.looseEquals(valA, v));
+            case 'regex': {
+                const re = this.compileRegex(String(valB));
+                return !!re && valA !== null && re.test(String(valA).slice(0, MAX_REGEX_SUBJECT));
+            }
+            default: return false;
+        }
+    }
+
+    // Same loose comparison as the original eq/neq ('10' == 10), extended to JSON values
+    private static looseEquals(a: any, b: any): boolean {
+        if (a !== null && typeof a === 'object') return JSON.stringify(a) === (typeof b === 'string' ? b : JSON.stringify(b));
+        return a == b;
+    }
+
+    private static sameValue(a: any, b: any): boolean {
+        if (a === b) return true;
+        if ((a === null || a === undefined) !== (b === null || b === undefined)) return false;
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+
+    // 'in' accepts an array or a comma-separated string (what the dashboard inputs produce)
+    private static listValue(value: any): any[] {
+        if (Array.isArray(value)) return value;
+        if (value === null || value === undefined) return [];
+        return String(value).split(',').map(v => v.trim());
+    }
+
+    /**
+     * Rejects patterns that can backtrack catastrophically, since filters run synchronously on the event
+     * path: repeated groups that contain a quantifier or an alternation (`(a+)+`, `(a|a)*$`), adjacent
+     * unbounded quantifiers (`\d*\d*\d*x`), backreferences, and more than MAX_REGEX_REPETITIONS repetitions.
+     */
+    private static isSafeRegex(pattern: string): boolean {
+        // Per open group: whether it holds a quantifier/alternation, and whether its last atom repeats unboundedly
+        const frames: { risky: boolean, lastUnbounded: boolean }[] = [{ risky: false, lastUnbounded: false }];
+        let repetitions = 0;
+        let i = 0;
+        while (i < pattern.length) {
+            const ch = pattern[i];
+            let closed: { risky: boolean, lastUnbounded: boolean } | null = null;
+            if (ch === '(') {
+                i++;
+                if (pattern[i] === '?') {
+                    if (':=!'.includes(pattern[i + 1] || '')) i += 2;
+                    else if (pattern[i + 1] === '<' && '=!'.includes(pattern[i + 2] || '')) i += 3;
+                    else if (pattern[i + 1] === '<') { const end = pattern.indexOf('>', i); if (end === -1) return false; i = end + 1; }
+                    else return false;
+                }
+                frames.push({ risky: false, lastUnbounded: false });
+                continue;
+            } else if (ch === ')') {
+                if (frames.length === 1) return false;
+                closed = frames.pop()!;
+                i++;
+            } else if (ch === '|') {
+                const top = frames[frames.length - 1];
+                top.risky = true;
+                top.lastUnbounded = false;
+                i++;
+                continue;
+            } else if (ch === '\\') {
+                if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+                i += 2;
+            } else if (ch === '[') {
+                for (i++; i < pattern.length && pattern[i] !== ']'; i++) if (pattern[i] === '\\') i++;
+                i++;
+            } else {
+                i++;
+            }
+
+            const top = frames[frames.length - 1];
+            const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(i));
+            if (!quantifier) {
+                if (closed?.risky) top.risky = true;
+                top.lastUnbounded = closed ? closed.lastUnbounded : false;
+                continue;
+            }
+            i += quantifier[0].length;
+            if (pattern[i] === '?') i++; // Lazy
+            const q = quantifier[0];
+            const unbounded = q === '*' || q === '+' || (quantifier[2] !== undefined && quantifier[3] === '');
+            const max = q === '?' ? 1 : quantifier[1] === undefined ? Infinity : quantifier[2] === undefined ? Number(quantifier[1]) : unbounded ? Infinity : Number(quantifier[3]);
+            if (max > 1) {
+                if (closed?.risky) return false;
+                if (++repetitions > MAX_REGEX_REPETITIONS) return false;
+            }
+            if (unbounded && top.lastUnbounded) return false;
+            top.risky = true;
+            top.lastUnbounded = unbounded;
+        }
+        return frames.length === 1;
+    }
+
+    private static compileRegex(pattern: string): RegExp | null {
+        if (pattern.length > MAX_REGEX_LENGTH || !this.isSafeRegex(pattern)) return null;
+        let re = this.regexCache.get(pattern);
+        if (!re) {
+            try { re = new RegExp(pattern); } catch (e) { return null; }
+            if (this.regexCache.size > 500) this.regexCache.clear();
+            this.regexCache.set(pattern, re);
+        }
+        return re;
+    }
+
+    /**
+     * Whether an active webhook on this table uses change operators, i.e. whether writers
+     * should capture the previous row for old_record. Cached briefly: it's asked on every update.
+     */
+    public static async needsOldRecord(projectSlug: string, tableName: string): Promise<boolean> {
+        const key = `${projectSlug}:${tableName}`;
+        const cached = this.changeFilterCache.get(key);
+        if (cached && Date.now() - cached.loadedAt < CHANGE_FILTER_CACHE_MS) return cached.needed;
+
+        try {
+            const res = await systemPool.query(
+                `SELECT 1 FROM system.webhooks
+                 WHERE project_slug = $1 AND is_active = true
+                 AND (table_name = '*' OR table_name = $2)
+                 AND filters::text LIKE '%"changed%'
+                 LIMIT 1`,
+                [projectSlug, tableName]
+            );
+            const needed = res.rows.length > 0;
+            if (this.changeFilterCache.size > 1000) this.changeFilterCache.clear();
+            this.changeFilterCache.set(key, { needed, loadedAt: Date.now() });
+            return needed;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Structural check for webhook filters before they are stored. Returns an error message or null.
+     */
+    public static validateFilters(filters: any): string | null {
+        if (filters === undefined || filters === null) return null;
+        let rules = 0;
+        const walk = (node: any, depth: number): string | null => {
+            if (depth > MAX_FILTER_DEPTH) return `Filters can nest at most ${MAX_FILTER_DEPTH} levels.`;
+            if (Array.isArray(node)) node = { op: 'and', conditions: node };
+            if (this.isGroup(node)) {
+                if (node.op !== 'and' && node.op !== 'or') return `Invalid filter group op: ${node.op}`;
+                for (const child of node.conditions) {
+                    const err = walk(child, depth + 1);
+                    if (err) return err;
+                }
+                return null;
+            }
+            if (!node || typeof node !== 'object' || typeof node.field !== 'string' || !node.field) return 'Each filter rule needs a field.';
+            if (!FILTER_OPERATORS.includes(node.operator)) return `Invalid filter operator: ${node.operator}`;
+            if (node.operator === 'regex' && !this.compileRegex(String(node.value ?? ''))) {
+                return `Invalid or unsafe regex for ${node.field} (max ${MAX_REGEX_LENGTH} chars, no nested repetition or backreferences).`;
+            }
+            if (++rules > MAX_FILTER_RULES) return `At most ${MAX_FILTER_RULES} filter rules per webhook.`;
+            return null;
+        };
+        if (!Array.isArray(filters) && !this.isGroup(filters)) return 'filters must be an array of rules or a { op, conditions } group.';
+        return walk(filters, 0);
     }
 
     public static async dispatch(
@@ -49,18 +314,21 @@ export class WebhookService {
         eventType: string,
         payloadData: any,
         systemPool: Pool,
-        projectSecret: string
+        projectSecret: string,
+        oldRecord?: any
     ) {
         try {
+            const rowEvent = ROW_EVENTS[eventType] || eventType;
+
             // 1. Buscar webhooks com fallback e retry policy
             const res = await systemPool.query(
-                `SELECT target_url, secret_header, event_type, filters, fallback_url, retry_policy 
+                `SELECT id, target_url, event_type, filters, fallback_url, retry_policy 
                  FROM system.webhooks 
                  WHERE project_slug = $1 
                  AND is_active = true 
                  AND (table_name = '*' OR table_name = $2)
-                 AND (event_type = '*' OR event_type = $3)`,
-                [projectSlug, tableName, eventType]
+                 AND (event_type = '*' OR event_type = $3 OR event_type = $4)`,
+                [projectSlug, tableName, eventType, rowEvent]
             );
 
             if (res.rows.length === 0) return;
@@ -70,21 +338,25 @@ export class WebhookService {
                 table: tableName,
                 schema: 'public',
                 record: payloadData,
+                ...(oldRecord !== undefined ? { old_record: oldRecord } : {}),
                 timestamp: new Date().toISOString()
             };
 
             let dispatchedCount = 0;
 
             for (const hook of res.rows) {
-                const filters = hook.filters as FilterRule[];
-                if (!this.matchesFilters(payloadData, filters)) {
+                const filters = hook.filters as FilterNode[] | FilterGroup;
+                if (!this.matchesFilters(payloadData, filters, oldRecord)) {
                     continue; 
                 }
 
+                // Secrets stay out of the queue: the worker reads them when it signs, so a rotation applies to retries too
                 await QueueService.addWebhookJob({
+                    webhookId: hook.id,
+                    projectSlug,
+                    eventId: `msg_${crypto.randomUUID()}`,
                     targetUrl: hook.target_url,
                     payload: fullPayload,
-                    secret: hook.secret_header || projectSecret,
                     eventType: eventType,
                     tableName: tableName,
                     // New Reliability Fields
@@ -102,4 +374,167 @@ export class WebhookService {
             console.error('[WebhookService] Enqueue Error:', e);
         }
     }
+
+    // =========================================================================
+    // SIGNING (Standard Webhooks: webhook-id / webhook-timestamp / webhook-signature)
+    // signature = base64(HMAC-SHA256(base64decode(secret), `${id}.${timestamp}.${body}`))
+    // During a rotation both the new and the previous secret sign, space separated.
+    // =========================================================================
+
+    public static generateSigningSecret(): string {
+        return SIGNING_SECRET_PREFIX + crypto.randomBytes(32).toString('base64');
+    }
+
+    /**
+     * A new signing secret and its ciphertext for system.webhooks. Only the ciphertext is stored:
+     * the plaintext goes back to the caller once (create, rotate) and is decrypted again only to sign.
+     */
+    public static async issueSigningSecret(): Promise<{ secret: string, sealed: string }> {
+        const { CryptoService } = await import('./CryptoService.js');
+        const secret = this.generateSigningSecret();
+        return { secret, sealed: await CryptoService.encrypt('webhook_auth', secret) };
+    }
+
+    public static sign(secret: string, eventId: string, timestamp: number, body: string): string {
+        const key = Buffer.from(secret.startsWith(SIGNING_SECRET_PREFIX) ? secret.slice(SIGNING_SECRET_PREFIX.length) : secret, 'base64');
+        return 'v1,' + crypto.createHmac('sha256', key).update(`${eventId}.${timestamp}.${body}`).digest('base64');
+    }
+
+    /**
+     * Headers for one delivery attempt. Returns null when the webhook was deleted meanwhile.
+     * `X-Cascata-Signature` carries the legacy secret itself on webhooks flagged `legacy_signature`
+     * (the pre-signing behaviour existing receivers compare against), otherwise a hex HMAC-SHA256
+     * of the body keyed with it.
+     */
+    public static async buildHeaders(job: WebhookJob, body: string): Promise<Record<string, string> | null> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+        if (!job.webhookId) {
+            if (job.secret) headers['X-Cascata-Signature'] = crypto.createHmac('sha256', job.secret).update(body).digest('hex');
+            return headers;
+        }
+
+        const res = await systemPool.query(
+            `SELECT w.signing_secret, w.secret_header, w.legacy_signature, p.jwt_secret,
+                    CASE WHEN w.previous_secret_expires_at > NOW() THEN w.previous_signing_secret END AS previous_signing_secret
+             FROM system.webhooks w
+             JOIN system.projects p ON p.slug = w.project_slug
+             WHERE w.id = $1`,
+            [job.webhookId]
+        );
+        const hook = res.rows[0];
+        if (!hook) return null;
+
+        const timestamp = Math.floor(Date.now() / 1000);
+        const eventId = job.eventId || `msg_${crypto.randomUUID()}`;
+        const { CryptoService } = await import('./CryptoService.js');
+        // Rows written before secrets were sealed hold plaintext, which decryptBatch passes through
+        const secrets = await CryptoService.decryptBatch([hook.signing_secret, hook.previous_signing_secret].filter(Boolean));
+        const signatures = secrets
+            .filter((secret: string) => secret !== '(decryption-failed)')
+            .map((secret: string) => this.sign(secret, eventId, timestamp, body));
+
+        headers['webhook-id'] = eventId;
+        headers['webhook-timestamp'] = String(timestamp);
+        if (signatures.length > 0) headers['webhook-signature'] = signatures.join(' ');
+
+        let legacySecret = hook.secret_header;
+        if (!legacySecret && hook.jwt_secret) {
+            legacySecret = await CryptoService.decrypt(hook.jwt_secret);
+        }
+        if (legacySecret) {
+            headers['X-Cascata-Signature'] = hook.legacy_signature
+                ? legacySecret
+                : crypto.createHmac('sha256', legacySecret).update(body).digest('hex');
+        }
+
+        return headers;
+    }
+
+    /**
+     * Starts a rotation: a new secret signs from now on, the old one keeps co-signing for `graceHours`.
+     * The result carries the new secret in plaintext; it is not retrievable afterwards.
+     */
+    public static async rotateSecret(projectSlug: string, webhookId: string, graceHours: number = 24): Promise<any | null> {
+        const grace = Math.min(Math.max(Number(graceHours) || 0, 0), MAX_ROTATION_GRACE_HOURS);
+        const { secret, sealed } = await this.issueSigningSecret();
+        const res = await systemPool.query(
+            `UPDATE system.webhooks
+             SET previous_signing_secret = signing_secret,
+                 previous_secret_expires_at = NOW() + make_interval(secs => $3),
+                 signing_secret = $4,
+                 updated_at = NOW()
+             WHERE id = $1 AND project_slug = $2
+             RETURNING id, previous_secret_expires_at`,
+            [webhookId, projectSlug, grace * 3600, sealed]
+        );
+        return res.rows[0] ? { ...res.rows[0], signing_secret: secret } : null;
+    }
+
+    // =========================================================================
+    // DELIVERY LOG
+    // =========================================================================
+
+    public static async recordDelivery(job: WebhookJob, attempt: number, maxAttempts: number, result: DeliveryResult, isFallback: boolean = false) {
+        if (!job.webhookId || !job.projectSlug) return;
+        try {
+            await systemPool.query(
+                `INSERT INTO system.webhook_deliveries
+                    (webhook_id, project_slug, event_id, event_type, table_name, target_url, attempt, max_attempts, is_fallback,
+                     redelivery_of, status, status_code, latency_ms, response_excerpt, error, payload)
+                 SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+                 WHERE EXISTS (SELECT 1 FROM system.webhooks WHERE id = $1)`,
+                [
+                    job.webhookId,
+                    job.projectSlug,
+                    job.eventId || null,
+                    job.eventType,
+                    job.tableName,
+                    isFallback ? job.fallbackUrl : job.targetUrl,
+                    attempt,
+                    maxAttempts,
+                    isFallback,
+                    job.redeliveryOf || null,
+                    result.ok ? 'success' : 'failed',
+                    result.status_code,
+                    result.latency_ms,
+                    result.response_excerpt ? result.response_excerpt.slice(0, RESPONSE_EXCERPT_CHARS) : null,
+                    result.error,
+                    JSON.stringify(job.payload ?? null)
+                ]
+            );
+        } catch (e: any) {
+            console.error('[WebhookService] Failed to record delivery:', e.message);
+        }
+    }
+
+    /**
+     * Queues a delivery again with its original payload and event id, to the webhook's current URL and retry policy.
+     */
+    public static async redeliver(projectSlug: string, webhookId: string, deliveryId: string): Promise<{ event_id: string } | null> {
+        const res = await systemPool.query(
+            `SELECT d.id, d.event_id, d.event_type, d.table_name, d.payload, w.target_url, w.fallback_url, w.retry_policy
+             FROM system.webhook_deliveries d
+             JOIN system.webhooks w ON w.id = d.webhook_id
+             WHERE d.id = $1 AND d.webhook_id = $2 AND w.project_slug = $3`,
+            [deliveryId, webhookId, projectSlug]
+        );
+        const delivery = res.rows[0];
+        if (!delivery) return null;
+
+        const eventId = delivery.event_id || `msg_${crypto.randomUUID()}`;
+        await QueueService.addWebhookJob({
+            webhookId,
+            projectSlug,
+            eventId,
+            targetUrl: delivery.target_url,
+            payload: delivery.payload,
+            eventType: delivery.event_type,
+            tableName: delivery.table_name,
+            fallbackUrl: delivery.fallback_url,
+            retryPolicy: delivery.retry_policy,
+            redeliveryOf: delivery.id
+        });
+        return { event_id: eventId };
+    }
 }
@@ -832,7 +832,9 @@ export class AdminController {
     static async listWebhooks(req: CascataRequest, res: any, next: any) {
         try {
             const result = await systemPool.query(
-                'SELECT id, project_slug, target_url, event_type, table_name, secret_header, filters, fallback_url, retry_policy, created_at, updated_at FROM system.webhooks WHERE project_slug = $1 ORDER BY created_at DESC',
+                `SELECT id, project_slug, target_url, event_type, table_name, secret_header, previous_secret_expires_at,
+                        legacy_signature, filters, fallback_url, retry_policy, created_at, updated_at
+                 FROM system.webhooks WHERE project_slug = $1 ORDER BY created_at DESC`,
                 [req.params.slug]
             );
             res.json(result.rows);
@@ -849,6 +851,8 @@ export class AdminController {
             if (!target_url || !event_type || !table_name) {
                 return res.status(400).json({ error: 'Missing requried fields: target_url, event_type, table_name' });
             }
+            const filterError = WebhookService.validateFilters(filters);
+            if (filterError) return res.status(400).json({ error: filterError });
 
             // Get project JWT secret (cipher)
             const secretRes = await systemPool.query(
@@ -858,15 +862,17 @@ export class AdminController {
 
             if (secretRes.rows.length === 0) return res.status(404).json({ error: 'Project not found' });
             const secret = await CryptoService.decrypt(secretRes.rows[0].jwt_secret);
+            const signing = await WebhookService.issueSigningSecret();
 
             const result = await systemPool.query(
                 `INSERT INTO system.webhooks 
-                (project_slug, target_url, event_type, table_name, secret_header, filters, fallback_url, retry_policy) 
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
-                RETURNING id, project_slug, target_url, event_type, table_name, secret_header, filters, fallback_url, retry_policy`,
-                [req.params.slug, target_url, event_type, table_name, secret, JSON.stringify(filters || []), fallback_url, retry_policy]
+                (project_slug, target_url, event_type, table_name, secret_header, filters, fallback_url, retry_policy, signing_secret) 
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+                RETURNING id, project_slug, target_url, event_type, table_name, secret_header, legacy_signature, filters, fallback_url, retry_policy`,
+                [req.params.slug, target_url, event_type, table_name, secret, JSON.stringify(filters || []), fallback_url, retry_policy, signing.sealed]
             );
-            res.status(201).json(result.rows[0]);
+            // The only time the signing secret is returned in plaintext (besides a rotation)
+            res.status(201).json({ ...result.rows[0], signing_secret: signing.secret });
         } catch (e: any) {
             next(e);
         }
@@ -887,7 +893,12 @@ export class AdminController {
 
     static async updateWebhook(req: CascataRequest, res: any, next: any) {
         try {
-            const { target_url, event_type, table_name, filters, fallback_url, retry_policy } = req.body;
+            const { target_url, event_type, table_name, filters, fallback_url, retry_policy, legacy_signature } = req.body;
+            const filterError = WebhookService.validateFilters(filters);
+            if (filterError) return res.status(400).json({ error: filterError });
+            if (legacy_signature !== undefined && typeof legacy_signature !== 'boolean') {
+                return res.status(400).json({ error: 'legacy_signature must be a boolean.' });
+            }
             const fields: string[] = [];
             const values: any[] = [];
             let idx = 1;
@@ -898,6 +909,7 @@ export class AdminController {
             if (filters !== undefined) { fields.push(`filters = $${idx++}`); values.push(JSON.stringify(filters)); }
             if (fallback_url !== undefined) { fields.push(`fallback_url = $${idx++}`); values.push(fallback_url); }
             if (retry_policy !== undefined) { fields.push(`retry_policy = $${idx++}`); values.push(JSON.stringify(retry_policy)); }
+            if (legacy_signature !== undefined) { fields.push(`legacy_signature = $${idx++}`); values.push(legacy_signature); }
 
             if (fields.length === 0) return res.json({ success: true });
 
@@ -907,7 +919,51 @@ export class AdminController {
             const result = await systemPool.query(query, values);
             if (result.rows.length === 0) return res.status(404).json({ error: 'Webhook not found' });
 
-            res.json(result.rows[0]);
+            const { signing_secret, previous_signing_secret, ...hook } = result.rows[0];
+            res.json(hook);
+        } catch (e: any) {
+            next(e);
+        }
+    }
+
+    static async rotateWebhookSecret(req: CascataRequest, res: any, next: any) {
+        try {
+            const rotated = await WebhookService.rotateSecret(req.params.slug, req.params.id, req.body?.grace_hours ?? 24);
+            if (!rotated) return res.status(404).json({ error: 'Webhook not found' });
+            res.json(rotated);
+        } catch (e: any) {
+            next(e);
+        }
+    }
+
+    static async listWebhookDeliveries(req: CascataRequest, res: any, next: any) {
+        try {
+            const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+            const params: any[] = [req.params.id, req.params.slug, limit];
+            let statusFilter = '';
+            if (req.query.status) {
+                params.push(req.query.status);
+                statusFilter = `AND status = $4`;
+            }
+            const result = await systemPool.query(
+                `SELECT id, event_id, event_type, table_name, target_url, attempt, max_attempts, is_fallback, redelivery_of,
+                        status, status_code, latency_ms, response_excerpt, error, created_at
+                 FROM system.webhook_deliveries
+                 WHERE webhook_id = $1 AND project_slug = $2 ${statusFilter}
+                 ORDER BY created_at DESC LIMIT $3`,
+                params
+            );
+            res.json(result.rows);
+        } catch (e: any) {
+            next(e);
+        }
+    }
+
+    static async redeliverWebhook(req: CascataRequest, res: any, next: any) {
+        try {
+            const queued = await WebhookService.redeliver(req.params.slug, req.params.id, req.params.deliveryId);
+            if (!queued) return res.status(404).json({ error: 'Delivery not found' });
+            res.json({ success: true, ...queued });
         } catch (e: any) {
             next(e);
         }
@@ -7,6 +7,7 @@ import { AuthService } from '../../services/AuthService.js';
 import { GoTrueService } from '../../services/GoTrueService.js';
 import { RateLimitService, AuthSecurityConfig } from '../../services/RateLimitService.js';
 import { WebhookService } from '../../services/WebhookService.js';
+import { AuthEventName } from '../../services/AutomationService.js';
 import { quoteId } from '../utils/index.js';
 import { Buffer } from 'buffer';
 
@@ -49,6 +50,11 @@ export class DataAuthController {
         return { ip, userAgent, fingerprint };
     }
 
+    // --- HELPER: AUTH_EVENT automations ---
+    private static emitAuthEvent(req: CascataRequest, event: AuthEventName, details: Parameters<typeof AuthService.emitAutomationEvent>[4]) {
+        AuthService.emitAutomationEvent(req.project.slug, req.projectPool!, req.project.jwt_secret, event, details);
+    }
+
     private static validateOrigin(req: CascataRequest, origin: string): boolean {
         const allowed = req.project.metadata?.allowed_origins || [];
         if (allowed.length === 0 || allowed.includes('*')) return true;
@@ -157,6 +163,12 @@ export class DataAuthController {
                     }
                 }
                 await client.query('COMMIT');
+                DataAuthController.emitAuthEvent(req, 'signup', {
+                    userId,
+                    provider: strategies?.[0]?.provider,
+                    identifier: strategies?.[0]?.identifier,
+                    method: 'admin'
+                });
                 res.json({ success: true, id: userId });
             } finally { client.release(); }
         } catch (e: any) { next(e); }
@@ -279,6 +291,10 @@ export class DataAuthController {
                 provider,
                 deviceInfo
             );
+            DataAuthController.emitAuthEvent(req, 'login', {
+                userId: identity.user_id, provider, identifier, method: otp_code ? 'password_otp' : 'password',
+                ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+            });
 
             DataAuthController.setAuthCookies(res, session);
             res.json(session);
@@ -469,6 +485,9 @@ export class DataAuthController {
                 provider,
                 deviceInfo
             );
+            DataAuthController.emitAuthEvent(req, 'login', {
+                userId, provider, identifier, method: 'otp', ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+            });
 
             DataAuthController.setAuthCookies(res, session);
             res.json(session);
@@ -590,6 +609,7 @@ export class DataAuthController {
                 if (userId) {
                     await req.projectPool!.query(`UPDATE auth.refresh_tokens SET revoked = true WHERE user_id = $1`, [userId]);
                     await RateLimitService.setUserNeutralized(req.project.slug, userId, true);
+                    DataAuthController.emitAuthEvent(req, 'session_revoked', { userId, reason: 'panic' });
                 }
             } else if (target_type === 'global' || target_value === 'ALL') {
                 await req.projectPool!.query(`UPDATE auth.refresh_tokens SET revoked = true`);
@@ -639,6 +659,7 @@ export class DataAuthController {
                 WHERE user_id = $1 AND id != $2 AND revoked = false
             `;
             await req.projectPool!.query(query, [req.params.id, current_session_id || '00000000-0000-0000-0000-000000000000']);
+            DataAuthController.emitAuthEvent(req, 'session_revoked', { userId: req.params.id, reason: 'revoked_others' });
             res.json({ success: true, message: 'Other sessions revoked successfully.' });
         } catch (e: any) { next(e); }
     }
@@ -648,7 +669,10 @@ export class DataAuthController {
             return res.status(403).json({ error: 'Access Denied: Only Service Role can revoke sessions.' });
         }
         try {
-            await req.projectPool!.query(`UPDATE auth.refresh_tokens SET revoked = true WHERE id = $1 AND user_id = $2`, [req.params.sessionId, req.params.id]);
+            const revoked = await req.projectPool!.query(`UPDATE auth.refresh_tokens SET revoked = true WHERE id = $1 AND user_id = $2`, [req.params.sessionId, req.params.id]);
+            if ((revoked.rowCount ?? 0) > 0) {
+                DataAuthController.emitAuthEvent(req, 'session_revoked', { userId: req.params.id, sessionId: req.params.sessionId, reason: 'revoked' });
+            }
             res.json({ success: true, message: 'Session revoked.' });
         } catch (e: any) { next(e); }
     }
@@ -663,7 +687,13 @@ export class DataAuthController {
                 provider: req.body.provider || 'email',
                 language 
             };
-            res.json(await GoTrueService.handleSignup(req.projectPool!, payload, req.project.jwt_secret, req.project.metadata || {}, deviceInfo));
+            const result: any = await GoTrueService.handleSignup(req.projectPool!, payload, req.project.jwt_secret, req.project.metadata || {}, deviceInfo);
+            // Confirmation flows return the bare user, the others a session
+            DataAuthController.emitAuthEvent(req, 'signup', {
+                userId: result.user?.id || result.id, provider: payload.provider, identifier: payload.identifier,
+                ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+            });
+            res.json(result);
         } catch (e: any) { next(e); }
     }
 
@@ -698,6 +728,12 @@ export class DataAuthController {
             const response = await GoTrueService.handleToken(req.projectPool!, req.body, req.project.jwt_secret, req.project.metadata || {}, deviceInfo);
 
             if (req.body.grant_type === 'password') await RateLimitService.clearAuthFailure(req.project.slug, deviceInfo.ip!, identifier);
+            if (req.body.grant_type === 'password' || req.body.grant_type === 'id_token') {
+                DataAuthController.emitAuthEvent(req, 'login', {
+                    userId: response.user?.id, provider, identifier: req.body.grant_type === 'password' ? identifier : null,
+                    method: req.body.grant_type, ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+                });
+            }
 
             DataAuthController.setAuthCookies(res, response);
             res.json(response);
@@ -715,6 +751,7 @@ export class DataAuthController {
     static async goTrueLogout(req: CascataRequest, res: any, next: any) {
         try {
             await GoTrueService.handleLogout(req.projectPool!, req.headers.authorization?.replace('Bearer ', '').trim() || '', req.project.jwt_secret);
+            if (req.user?.sub) DataAuthController.emitAuthEvent(req, 'session_revoked', { userId: req.user.sub, reason: 'logout' });
 
             // Clear Cookies
             res.clearCookie('cascata_access_token', { path: '/' });
@@ -728,6 +765,10 @@ export class DataAuthController {
         const deviceInfo = DataAuthController.getDeviceInfo(req);
         try {
             const session = await GoTrueService.handleVerify(req.projectPool!, req.query.token as string, req.query.type as string, req.project.jwt_secret, req.project.metadata, deviceInfo);
+            DataAuthController.emitAuthEvent(req, 'login', {
+                userId: session.user?.id, provider: 'email', identifier: session.user?.identifier,
+                method: req.query.type as string, ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+            });
 
             DataAuthController.setAuthCookies(res, session);
 
@@ -793,6 +834,10 @@ export class DataAuthController {
                 providerName,
                 deviceInfo
             );
+            DataAuthController.emitAuthEvent(req, 'login', {
+                userId, provider: providerName, identifier: session.user?.identifier, method: 'oauth',
+                ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+            });
 
             DataAuthController.setAuthCookies(res, session);
 
@@ -834,7 +879,7 @@ export class DataAuthController {
             const emailConfig = req.project.metadata?.auth_config?.auth_strategies?.email || { delivery_method: 'smtp' };
             const language = req.body.language || 'en-US';
 
-            await GoTrueService.handleRecover(
+            const recovery = await GoTrueService.handleRecover(
                 req.projectPool!,
                 identifier,
                 provider,
@@ -846,6 +891,12 @@ export class DataAuthController {
                 req.project.metadata?.auth_config?.messaging_templates,
                 req.project.metadata?.auth_config?.auth_strategies?.email?.template_bindings
             );
+            // Unknown identifiers stay silent here too: no event, same response
+            if (recovery.user_id) {
+                DataAuthController.emitAuthEvent(req, 'password_recovery', {
+                    userId: recovery.user_id, provider, identifier, ip: deviceInfo.ip, userAgent: deviceInfo.userAgent
+                });
+            }
 
             res.json({ success: true, message: "If an account exists, a recovery instruction was sent." });
         } catch (e: any) {
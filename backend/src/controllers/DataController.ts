@@ -1,13 +1,15 @@
 
 import { NextFunction } from 'express';
 import { CascataRequest } from '../types.js';
-import { queryWithRLS, quoteId, parseColumnFormat, validateFormatPattern, quotePostgresLiteral } from '../utils/index.js';
+import { queryWithRLS, streamWithRLS, quoteId, parseColumnFormat, validateFormatPattern, quotePostgresLiteral } from '../utils/index.js';
 import { DatabaseService } from '../../services/DatabaseService.js';
-import { PostgrestService } from '../../services/PostgrestService.js';
+import { PostgrestService, PostgrestQuery, PostgrestFormat, EmbedShape } from '../../services/PostgrestService.js';
 import { OpenApiService } from '../../services/OpenApiService.js';
+import { GraphQLService } from '../../services/GraphQLService.js';
 import { ExtensionService } from '../../services/ExtensionService.js';
 import { RateLimitService } from '../../services/RateLimitService.js';
 import { AutomationService } from '../../services/AutomationService.js';
+import { WebhookService } from '../../services/WebhookService.js';
 import { CronService } from '../../services/CronService.js';
 import { SecurityUtils } from '../utils/SecurityUtils.js';
 import { systemPool } from '../config/main.js';
@@ -255,7 +257,11 @@ export class DataController {
         } catch (e: any) { next(e); }
     }
 
-    static async applyMaskingTier(req: CascataRequest, responseData: any, tableName: string): Promise<any> {
+    /**
+     * `sources` maps aliased response keys to the column they were read from
+     * (`PostgrestQuery.sources`); masks are always looked up by source column.
+     */
+    static async applyMaskingTier(req: CascataRequest, responseData: any, tableName: string, sources?: Record<string, string>): Promise<any> {
         if (!responseData || !req.project.metadata?.masked_columns) return responseData;
 
         const masks = req.project.metadata.masked_columns[tableName] || {};
@@ -275,7 +281,7 @@ export class DataController {
             if (!row) return row;
             const newRow = { ...row };
             for (const col of Object.keys(newRow)) {
-                const maskType = masks[col];
+                const maskType = masks[sources?.[col] ?? col];
                 if (!maskType) continue;
 
                 // 1. ADMIN BYPASS & AUTO-DECRYPTION (Professional Sinergy)
@@ -320,6 +326,32 @@ export class DataController {
         return responseData;
     }
 
+    /**
+     * Applies the masking tier of each embedded table to the nested JSON produced by
+     * PostgREST resource embedding, so `select=*,users(*)` cannot leak masked columns.
+     */
+    static async applyEmbeddedMasking(req: CascataRequest, responseData: any, embeds: EmbedShape[]): Promise<any> {
+        if (!responseData || !req.project.metadata?.masked_columns) return responseData;
+
+        const maskRow = async (row: any) => {
+            if (!row || typeof row !== 'object') return row;
+            for (const embed of embeds) {
+                if (row[embed.alias] === undefined || row[embed.alias] === null) continue;
+                let nested = await DataController.applyMaskingTier(req, row[embed.alias], embed.table, embed.sources);
+                if (embed.embeds.length > 0) {
+                    nested = await DataController.applyEmbeddedMasking(req, nested, embed.embeds);
+                }
+                row[embed.alias] = nested;
+            }
+            return row;
+        };
+
+        if (Array.isArray(responseData)) {
+            return Promise.all(responseData.map(maskRow));
+        }
+        return maskRow(responseData);
+    }
+
     static async queryRows(req: CascataRequest, res: any, next: any) {
         try {
             if (!req.params.tableName) throw new Error("Table name required");
@@ -516,9 +548,31 @@ export class DataController {
             const updates = Object.keys(data).map((k, i) => `${quoteId(k)} = $${i + 1}`).join(', ');
             const values = Object.values(data);
             const pkValIndex = values.length + 1;
+            // Webhooks with change conditions ("status changed to paid") need the row as it was:
+            // captured in the same statement, locked, so a concurrent write can't slip in between.
+            const captureOld = await WebhookService.needsOldRecord(req.project.slug, req.params.tableName);
+            const safePk = quoteId(pkColumn);
             const result = await queryWithRLS(req, async (client) => {
+                if (captureOld) {
+                    return await client.query(
+                        `WITH __old AS (SELECT * FROM ${safeSchema}.${safeTable} WHERE ${safePk} = $${pkValIndex} FOR UPDATE)
+                         UPDATE ${safeSchema}.${safeTable} AS __new SET ${updates} FROM __old
+                         WHERE __new.${safePk} = __old.${safePk}
+                         RETURNING __new.*, to_jsonb(__old.*) AS __cascata_old`,
+                        [...values, pkValue]
+                    );
+                }
                 return await client.query(`UPDATE ${safeSchema}.${safeTable} SET ${updates} WHERE ${quoteId(pkColumn)} = $${pkValIndex} RETURNING *`, [...values, pkValue], 'updRowsSingle');
             });
+            if (captureOld) {
+                const oldRows = result.rows.map((row: any) => {
+                    const old = row.__cascata_old;
+                    delete row.__cascata_old;
+                    return old;
+                });
+                // Picked up by the logging middleware's webhook dispatch
+                res.locals.webhookOldRecord = await DataController.applyMaskingTier(req, oldRows, req.params.tableName);
+            }
             // --- CASCATA PRIVACY ENGINE (Centralized) ---
             const maskedRows = await DataController.applyMaskingTier(req, result.rows, req.params.tableName);
             res.json(maskedRows);
@@ -722,6 +776,10 @@ export class DataController {
                 // Auto-grant: After DDL, ensure cascata_api_role can access all user schemas
                 const cmd = (result.command || '').toUpperCase();
                 if (['CREATE', 'ALTER', 'DROP'].includes(cmd)) {
+                    // New/dropped FKs must be visible to PostgREST resource embedding (and GraphQL) right away
+                    PostgrestService.invalidateRelationships(req.projectPool!);
+                    GraphQLService.invalidate(req.projectPool!);
+
                     // CASCATA HYBRID REFRESH: Force Pool Service to eject all connections for this tenant
                     // This is the nuclear option to prevent "cached plan" errors after schema changes.
                     try {
@@ -872,6 +930,8 @@ export class DataController {
             if (description) await req.projectPool!.query(`COMMENT ON TABLE ${safeSchema}.${safeName} IS $1`, [description]);
             
             // SECURITY HYBRID FLUSH: Ensure new table structure is recognized immediately
+            PostgrestService.invalidateRelationships(req.projectPool!);
+            GraphQLService.invalidate(req.projectPool!);
             try {
                 const PoolSvc = (await import('../../services/PoolService.js')).PoolService;
                 await PoolSvc.reload(req.project.slug);
@@ -898,6 +958,8 @@ export class DataController {
             }
 
             // Pool Refresh to clear cached plans of the modified table
+            PostgrestService.invalidateRelationships(req.projectPool!);
+            GraphQLService.invalidate(req.projectPool!);
             try {
                 const PoolSvc = (await import('../../services/PoolService.js')).PoolService;
                 await PoolSvc.reload(req.project.slug);
@@ -1034,7 +1096,15 @@ export class DataController {
 
     static async upsertAutomation(req: CascataRequest, res: any, next: any) {
         if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
-        const { id, name, description, trigger_type, trigger_config, nodes, is_active } = req.body;
+        const { id, name, description, trigger_type, nodes, is_active } = req.body;
+        let { trigger_config } = req.body;
+        if (trigger_type === 'CRON') {
+            try {
+                trigger_config = CronService.validateTriggerConfig(typeof trigger_config === 'string' ? JSON.parse(trigger_config) : trigger_config);
+            } catch (e: any) {
+                return res.status(400).json({ error: e.message });
+            }
+        }
         try {
             if (id) {
                 // Update
@@ -1060,7 +1130,7 @@ export class DataController {
                 // CRON SYNC: Ensure repeatable jobs are updated
                 await CronService.unregisterAutomation(id);
                 if ((is_active ?? true) && trigger_type === 'CRON') {
-                    await CronService.registerAutomation(result.rows[0]);
+                    await CronService.registerAutomation(result.rows[0], true);
                 }
 
                 res.json(result.rows[0]);
@@ -1105,6 +1175,47 @@ export class DataController {
         } catch (e: any) { next(e); }
     }
 
+    static async getAutomationSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const schedule = await CronService.getSchedule(req.project.slug, req.params.id, parseInt(req.query.limit as string, 10) || 20);
+            if (!schedule) return res.status(404).json({ error: 'Automation not found.' });
+            if ('error' in schedule) return res.status(409).json(schedule);
+            res.json(schedule);
+        } catch (e: any) { next(e); }
+    }
+
+    static async pauseAutomationSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await CronService.pause(req.project.slug, req.params.id);
+            if (!result) return res.status(404).json({ error: 'Automation not found.' });
+            if ('error' in result) return res.status(409).json(result);
+            res.json({ success: true, ...result });
+        } catch (e: any) { next(e); }
+    }
+
+    static async resumeAutomationSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await CronService.resume(req.project.slug, req.params.id);
+            if (!result) return res.status(404).json({ error: 'Automation not found.' });
+            if ('error' in result) return res.status(409).json(result);
+            res.json({ success: true, ...result });
+        } catch (e: any) { next(e); }
+    }
+
+    static async previewAutomationSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const config = CronService.validateTriggerConfig(req.body || {});
+            const count = Math.min(parseInt(req.body?.count, 10) || 5, 50);
+            res.json({ cron: config.cron, timezone: config.timezone, next_runs: CronService.nextRuns(config.cron, config.timezone, count) });
+        } catch (e: any) {
+            res.status(400).json({ error: e.message });
+        }
+    }
+
     static async listAutomationRuns(req: CascataRequest, res: any, next: any) {
         if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
         const { automation_id } = req.query;
@@ -1126,6 +1237,110 @@ export class DataController {
         } catch (e: any) { next(e); }
     }
 
+    static async getAutomationRunTrace(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const trace = await AutomationService.getRunTrace(req.project.slug, req.params.id);
+            if (!trace) return res.status(404).json({ error: 'Run not found.' });
+            res.json(trace);
+        } catch (e: any) { next(e); }
+    }
+
+    static async replayAutomationRun(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            // Same identity as testNode: the replay runs with the operator's role and claims
+            const result = await AutomationService.replayRun(req.project.slug, req.params.id, {
+                projectSlug: req.project.slug,
+                projectPool: req.projectPool!,
+                jwtSecret: req.project.jwt_secret,
+                userRole: req.user.role || 'authenticated',
+                jwtClaims: req.user
+            });
+            if (!result) return res.status(404).json({ error: 'Run not found.' });
+            res.json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async listAutomationExecutions(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        const { automation_id } = req.query;
+        try {
+            // In-flight runs only: finished runs are in system.automation_runs
+            let query = `SELECT id, automation_id, status, next_node, steps, wait_state - 'nonce' AS wait_state,
+                                vars->(wait_state->>'node') AS waiting_on, started_at, heartbeat_at
+                         FROM system.automation_executions
+                         WHERE project_slug = $1`;
+            const params = [req.project.slug];
+
+            if (automation_id) {
+                query += ` AND automation_id = $2`;
+                params.push(automation_id as string);
+            }
+
+            query += ` ORDER BY started_at DESC LIMIT 100`;
+
+            const result = await systemPool.query(query, params);
+            res.json(result.rows);
+        } catch (e: any) { next(e); }
+    }
+
+    static async cancelAutomationExecution(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const cancelled = await AutomationService.cancelExecution(req.project.slug, req.params.id);
+            if (!cancelled) return res.status(404).json({ error: 'Execution not found or already finished.' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
+
+    static async listAutomationDeadLetters(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        const { automation_id, status } = req.query;
+        try {
+            let query = `SELECT id, run_id, automation_id, failed_node, error_message, error_class, trigger_payload,
+                                vars->failed_node AS failed_node_state, status, redrive_run_id, created_at, resolved_at
+                         FROM system.automation_dead_letters
+                         WHERE project_slug = $1`;
+            const params = [req.project.slug];
+
+            if (automation_id) {
+                params.push(automation_id as string);
+                query += ` AND automation_id = $${params.length}`;
+            }
+            params.push((status as string) || 'pending');
+            query += ` AND status = $${params.length}`;
+
+            query += ` ORDER BY created_at DESC LIMIT 100`;
+
+            const result = await systemPool.query(query, params);
+            res.json(result.rows);
+        } catch (e: any) { next(e); }
+    }
+
+    static async redriveAutomationDeadLetter(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        const mode = req.body?.mode || 'restart';
+        if (mode !== 'restart' && mode !== 'resume') {
+            return res.status(400).json({ error: "mode must be 'restart' or 'resume'." });
+        }
+        try {
+            const result = await AutomationService.redriveDeadLetter(req.project.slug, req.params.id, mode);
+            if (!result) return res.status(404).json({ error: 'Dead letter not found.' });
+            if ('error' in result) return res.status(409).json(result);
+            res.json({ success: true, ...result });
+        } catch (e: any) { next(e); }
+    }
+
+    static async dismissAutomationDeadLetter(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const dismissed = await AutomationService.dismissDeadLetter(req.project.slug, req.params.id);
+            if (!dismissed) return res.status(404).json({ error: 'Dead letter not found or already resolved.' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
+
     static async getAutomationStats(req: CascataRequest, res: any, next: any) {
         if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
         try {
@@ -1219,37 +1434,58 @@ export class DataController {
 
     // --- POSTGREST COMPATIBILITY ---
 
+    /**
+     * TIER-3 UNIVERSAL PADLOCK (Gateway Extraction & Injection)
+     * Exposes the locked/masked column metadata configured via the Frontend Table Builder
+     * to PostgrestService.buildQuery through request headers.
+     */
+    static injectSecurityHeaders(req: CascataRequest) {
+        const lockedColumns = req.project.metadata?.locked_columns;
+        if (lockedColumns) {
+            req.headers['x-cascata-locked-columns'] = JSON.stringify(lockedColumns);
+            req.headers['x-cascata-role'] = req.userRole;
+            req.headers['x-cascata-project-id'] = req.project.id;
+            req.headers['x-cascata-jwt-secret'] = req.project.jwt_secret;
+        }
+        const maskedColumns = req.project.metadata?.masked_columns;
+        if (maskedColumns) {
+            req.headers['x-cascata-masked-columns'] = JSON.stringify(maskedColumns);
+        }
+    }
+
     static async handlePostgrest(req: CascataRequest, res: any, next: any) {
         if (!['GET', 'POST', 'PATCH', 'PUT', 'DELETE'].includes(req.method)) return next();
         try {
-            // TIER-3 UNIVERSAL PADLOCK (Gateway Extraction & Injection)
-            // Extract the locked columns metadata configured via the Frontend Table Builder
-            const lockedColumns = req.project.metadata?.locked_columns;
-            if (lockedColumns) {
-                req.headers['x-cascata-locked-columns'] = JSON.stringify(lockedColumns);
-                req.headers['x-cascata-role'] = req.userRole;
-                req.headers['x-cascata-project-id'] = req.project.id;
-                req.headers['x-cascata-jwt-secret'] = req.project.jwt_secret;
-            }
-            const maskedColumns = req.project.metadata?.masked_columns;
-            if (maskedColumns) {
-                req.headers['x-cascata-masked-columns'] = JSON.stringify(maskedColumns);
-            }
+            DataController.injectSecurityHeaders(req);
+
+            // Resource embedding (select=*,author:users(*)) resolves against the FK graph
+            const relationships = req.method === 'GET' && PostgrestService.hasEmbeds(req.query.select)
+                ? await PostgrestService.getRelationships(req.projectPool!)
+                : undefined;
+            // Webhooks with change conditions need the rows as they were (see updateRows)
+            const captureOld = req.method === 'PATCH' && await WebhookService.needsOldRecord(req.project.slug, req.params.tableName);
 
             const buildResult = PostgrestService.buildQuery(
                 req.params.tableName,
                 req.method,
                 req.query,
                 req.body,
-                req.headers
+                req.headers,
+                relationships,
+                captureOld
             );
 
+            // Alternative representations (CSV, GeoJSON, NDJSON) are read-only
+            let format: PostgrestFormat = PostgrestService.negotiateFormat(req.headers.accept as string);
+            if (req.method !== 'GET' && format !== 'object') format = 'json';
+            const cacheableFormat = format === 'json' || format === 'object';
+
             // --- DRAGONFLY SEMANTIC CACHE INTERCEPTOR (Fase 1.3) ---
             // Bypass completo de Banco de Dados se a Query já foi resolvida e está viva na RAM Multi-Thread.
             const dfly = (RateLimitService as any).dragonfly;
             let fromCache = false;
 
-            if (buildResult.cacheKey && req.method === 'GET' && dfly && (RateLimitService as any).isDragonflyHealthy) {
+            if (buildResult.cacheKey && req.method === 'GET' && cacheableFormat && dfly && (RateLimitService as any).isDragonflyHealthy) {
                 try {
                     const cachedData = await dfly.get(buildResult.cacheKey);
                     if (cachedData) {
@@ -1262,25 +1498,76 @@ export class DataController {
                 }
             }
 
+            const prefs = buildResult.preferences;
+            if (buildResult.preferenceApplied) {
+                res.setHeader('Preference-Applied', buildResult.preferenceApplied);
+            }
+            const queryOptions = {
+                rollback: prefs?.tx === 'rollback',
+                maxAffected: prefs?.handling === 'strict' && ['PATCH', 'DELETE'].includes(req.method) ? prefs.maxAffected : undefined
+            };
+
+            // CSV/NDJSON stream straight from a server-side cursor. A response interceptor needs
+            // the whole payload, so tables with one fall back to the buffered path below.
+            if ((format === 'csv' || format === 'ndjson') &&
+                !(await AutomationService.hasInterceptors(req.project.slug, req.params.tableName, req.method))) {
+                return await DataController.streamPostgrest(req, res, buildResult, format);
+            }
+
+            const mainText = format === 'geojson' ? PostgrestService.wrapGeoJson(buildResult.text) : buildResult.text;
+            const mainName = format === 'geojson' ? undefined : buildResult.name;
+
             const result = await queryWithRLS(req, async (client) => {
-                if (buildResult.countQuery) {
-                    await client.query("SET LOCAL statement_timeout = '5s'");
-                    const countRes = await client.query(buildResult.countQuery, buildResult.values, buildResult.name ? buildResult.name + '_cnt' : undefined);
-                    const total = parseInt((countRes.rows[0] as any)?.total || '0');
-                    const mainRes = await client.query(buildResult.text, buildResult.values, buildResult.name);
+                if (buildResult.countQuery || buildResult.plannedCountQuery) {
+                    const total = await DataController.resolveTotalCount(client, buildResult);
+                    const mainRes = await client.query(mainText, buildResult.values, mainName);
                     const offset = parseInt(req.query.offset as string || '0');
                     const start = offset;
                     const end = Math.min(offset + mainRes.rows.length - 1, total - 1);
                     res.setHeader('Content-Range', mainRes.rows.length === 0 ? `*/${total}` : `${start}-${end}/${total}`);
                     return mainRes;
                 }
-                return await client.query(buildResult.text, buildResult.values, buildResult.name);
+                return await client.query(mainText, buildResult.values, mainName, queryOptions);
             });
 
-            let responseData = req.headers.accept === 'application/vnd.pgrst.object+json'
+            if (buildResult.capturesOld) {
+                const oldRows = result.rows.map((row: any) => {
+                    const old = row.__cascata_old;
+                    delete row.__cascata_old;
+                    return old;
+                });
+                // Picked up by the logging middleware's webhook dispatch, along with the new rows when the client gets none
+                res.locals.webhookOldRecord = await DataController.applyMaskingTier(req, oldRows, req.params.tableName);
+                if (prefs?.return !== 'representation') {
+                    res.locals.webhookRecord = await DataController.applyMaskingTier(req, result.rows, req.params.tableName);
+                    result.rows = [];
+                }
+            }
+
+            // return=headers-only: 201 with a Location pointing at the inserted row, no body
+            if (req.method === 'POST' && prefs?.return === 'headers-only') {
+                const location = await DataController.buildLocationHeader(req, req.params.tableName, result.rows[0]);
+                if (location) res.setHeader('Location', location);
+                return res.status(201).end();
+            }
+
+            let responseData = format === 'object'
                 ? (result.rows[0] || null)
                 : result.rows;
 
+            // GeoJSON: mask the feature properties first, then the collection is the response
+            if (format === 'geojson') {
+                const features = result.rows.map((r: any) => r.feature);
+                let properties = await DataController.applyMaskingTier(req, features.map((f: any) => f.properties || {}), req.params.tableName, buildResult.sources);
+                if (buildResult.embeds && buildResult.embeds.length > 0) {
+                    properties = await DataController.applyEmbeddedMasking(req, properties, buildResult.embeds);
+                }
+                responseData = {
+                    type: 'FeatureCollection',
+                    features: features.map((f: any, i: number) => ({ ...f, properties: properties[i] }))
+                };
+            }
+
             // --- CASCATA AUTOMATIONS: LOGIC INTERCEPTOR ---
             // Allows the user to hijack and transform the API response via a No-Code workflow
             if (responseData && !fromCache) {
@@ -1310,19 +1597,33 @@ export class DataController {
             }
             
             // --- CASCATA PRIVACY ENGINE (Centralized Synergy) ---
-            if (req.method === 'GET') {
-                responseData = await DataController.applyMaskingTier(req, responseData, req.params.tableName);
+            if (req.method === 'GET' && format !== 'geojson') {
+                responseData = await DataController.applyMaskingTier(req, responseData, req.params.tableName, buildResult.sources);
+                if (buildResult.embeds && buildResult.embeds.length > 0) {
+                    responseData = await DataController.applyEmbeddedMasking(req, responseData, buildResult.embeds);
+                }
             }
 
             // Finally, render the (potentially modified/masked) response
             // FIX: Set cache header BEFORE sending response body — headers cannot be set after res.json()
-            if (buildResult.cacheKey && !fromCache) {
+            if (buildResult.cacheKey && !fromCache && cacheableFormat) {
                 res.setHeader('X-Cascata-Cache', 'MISS');
             }
+            if (format === 'csv' || format === 'ndjson') {
+                const rows = Array.isArray(responseData) ? responseData : (responseData ? [responseData] : []);
+                res.setHeader('Content-Type', PostgrestService.contentTypeFor(format));
+                if (format === 'ndjson') return res.send(PostgrestService.toNdjson(rows));
+                const columns = rows.length > 0 ? Object.keys(rows[0]) : result.fields.map((f: any) => f.name);
+                return res.send(PostgrestService.toCsv(rows, columns, true));
+            }
+            if (format === 'geojson') {
+                res.setHeader('Content-Type', PostgrestService.contentTypeFor(format));
+                return res.send(JSON.stringify(responseData));
+            }
             res.json(responseData);
 
             // Fire-And-Forget: Escreve no Dragonfly pós-resposta para não bloquear o Event Loop do client atual
-            if (buildResult.cacheKey && !fromCache && dfly && (RateLimitService as any).isDragonflyHealthy) {
+            if (buildResult.cacheKey && !fromCache && cacheableFormat && dfly && (RateLimitService as any).isDragonflyHealthy) {
                 // A key expira sozinha pelo TTL exigido
                 dfly.set(buildResult.cacheKey, JSON.stringify(responseData), 'EX', buildResult.ttl || 60).catch(() => {});
             }
@@ -1330,6 +1631,102 @@ export class DataController {
         } catch (e: any) { next(e); }
     }
 
+    /**
+     * Total for Content-Range according to Prefer: count=exact|planned|estimated.
+     */
+    static async resolveTotalCount(client: { query: (sql: string, params?: any[], name?: string) => Promise<any> }, buildResult: PostgrestQuery): Promise<number> {
+        await client.query("SET LOCAL statement_timeout = '5s'");
+        const countValues = buildResult.countValues || buildResult.values;
+        let total: number | null = null;
+        if (buildResult.countQuery) {
+            const countRes = await client.query(buildResult.countQuery, countValues, buildResult.name ? buildResult.name + '_cnt' : undefined);
+            total = parseInt((countRes.rows[0] as any)?.total || '0');
+        }
+        // count=planned always, count=estimated only when the exact count hit the threshold
+        if (buildResult.plannedCountQuery && (total === null || total > PostgrestService.ESTIMATED_COUNT_THRESHOLD)) {
+            const planRes = await client.query(buildResult.plannedCountQuery, countValues);
+            const plan = (planRes.rows[0] as any)?.['QUERY PLAN'];
+            total = Math.round(plan?.[0]?.Plan?.['Plan Rows'] || 0);
+        }
+        return total || 0;
+    }
+
+    /**
+     * CSV / NDJSON export through a server-side cursor: rows are masked and written batch by
+     * batch with backpressure, so memory stays flat regardless of the result size.
+     */
+    static async streamPostgrest(req: CascataRequest, res: any, buildResult: PostgrestQuery, format: 'csv' | 'ndjson') {
+        const tableName = req.params.tableName;
+
+        if (buildResult.countQuery || buildResult.plannedCountQuery) {
+            const total = await queryWithRLS(req, client => DataController.resolveTotalCount(client, buildResult));
+            const start = parseInt(req.query.offset as string || '0');
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : total;
+            const end = Math.min(start + limit - 1, total - 1);
+            res.setHeader('Content-Range', end < start ? `*/${total}` : `${start}-${end}/${total}`);
+        }
+
+        // Columns hidden by the privacy engine must not even appear in the CSV header
+        const masks = req.project.metadata?.masked_columns?.[tableName] || {};
+        const hidden = req.userRole === 'service_role' ? [] : Object.keys(masks).filter(c => masks[c] === 'hide');
+
+        let closed = false;
+        res.on('close', () => { closed = true; });
+        const write = (chunk: string) => new Promise<void>(resolve => {
+            if (closed || res.write(chunk)) return resolve();
+            const done = () => { res.off('drain', done); res.off('close', done); resolve(); };
+            res.once('drain', done);
+            res.once('close', done);
+        });
+
+        let columns: string[] | null = null;
+        try {
+            await streamWithRLS(req, buildResult.text, buildResult.values, async (rows, fields) => {
+                if (closed) return false;
+                if (!columns) {
+                    columns = fields.map(f => f.name).filter(c => !hidden.includes(buildResult.sources?.[c] ?? c));
+                    res.status(200);
+                    res.setHeader('Content-Type', PostgrestService.contentTypeFor(format));
+                    if (format === 'csv') await write(PostgrestService.toCsv([], columns, true));
+                }
+
+                let batch = await DataController.applyMaskingTier(req, rows, tableName, buildResult.sources);
+                if (buildResult.embeds && buildResult.embeds.length > 0) {
+                    batch = await DataController.applyEmbeddedMasking(req, batch, buildResult.embeds);
+                }
+                if (batch.length > 0) {
+                    await write(format === 'csv' ? PostgrestService.toCsv(batch, columns, false) : PostgrestService.toNdjson(batch));
+                }
+                return !closed;
+            });
+        } catch (e: any) {
+            // Once bytes are on the wire the status can no longer change: abort the connection instead
+            if (!res.headersSent) throw e;
+            console.error(`[Postgrest] Stream aborted for ${tableName}:`, e.message);
+            return res.destroy(e);
+        }
+
+        if (!closed) res.end();
+    }
+
+    /**
+     * PostgREST-style Location (`/table?id=eq.1`) built from the primary key of the inserted row.
+     */
+    static async buildLocationHeader(req: CascataRequest, tableName: string, row: any): Promise<string | null> {
+        if (!row) return null;
+        const pkRes = await req.projectPool!.query(`
+            SELECT a.attname FROM pg_index i
+            JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+            WHERE i.indrelid = ('public.' || quote_ident($1))::regclass AND i.indisprimary
+            ORDER BY array_position(i.indkey::int2[], a.attnum)
+        `, [tableName]);
+        const pkColumns: string[] = pkRes.rows.map((r: any) => r.attname);
+        if (pkColumns.length === 0 || pkColumns.some(c => row[c] === undefined)) return null;
+
+        const filters = pkColumns.map(c => `${encodeURIComponent(c)}=eq.${encodeURIComponent(String(row[c]))}`);
+        return `/${tableName}?${filters.join('&')}`;
+    }
+
     // --- SPEC GENERATION ---
 
     static async getOpenApiSpec(req: CascataRequest, res: any, next: any) {
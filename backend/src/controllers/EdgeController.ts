@@ -1,9 +1,15 @@
 
 import { NextFunction } from 'express';
 import axios from 'axios';
+import crypto from 'crypto';
 import { CascataRequest } from '../types.js';
 import { systemPool } from '../config/main.js';
 import { EdgeService } from '../../services/EdgeService.js';
+import { EdgeVersionService } from '../../services/EdgeVersionService.js';
+import { EdgeIsolatePool } from '../../services/EdgeIsolatePool.js';
+import { EdgeLogService, EdgeInvocationFilters } from '../../services/EdgeLogService.js';
+import { EdgeTriggerService } from '../../services/EdgeTriggerService.js';
+import { EdgeQueueService } from '../../services/EdgeQueueService.js';
 
 export class EdgeController {
     static async execute(req: CascataRequest, res: any, next: any) {
@@ -11,51 +17,65 @@ export class EdgeController {
             const assetRes = await systemPool.query("SELECT * FROM system.assets WHERE project_slug = $1 AND name = $2 AND type = 'edge_function'", [req.project.slug, req.params.name]);
             if (assetRes.rows.length === 0) return res.status(404).json({ error: "Edge Function Not Found" });
             const asset = assetRes.rows[0];
-            
-            // INTEGRAÇÃO SEGURA COM CRYPTO ENGINE: Buscar ciphertexts e descriptografar via Go
-            const { CryptoService } = await import('../../services/CryptoService.js');
-            const vaultRes = await systemPool.query(`
-                SELECT name, secret_value
-                FROM system.project_secrets
-                WHERE project_slug = $1 AND type != 'folder'
-            `, [req.project.slug]);
-            
-            const globalSecrets: Record<string, string> = {};
-            if (vaultRes.rows.length > 0) {
-                const ciphertexts = vaultRes.rows.map((r: any) => r.secret_value);
-                const plaintexts = await CryptoService.decryptBatch(ciphertexts);
-                for (let i = 0; i < vaultRes.rows.length; i++) {
-                    globalSecrets[vaultRes.rows[i].name] = plaintexts[i];
-                }
-            }
 
-            const localEnv = asset.metadata.env_vars || {};
-            const finalEnv = { ...globalSecrets, ...localEnv };
-
-            // DETERMINAÇÃO DE CONNECTION STRING PARA O ENGINE
-            // O Engine não tem acesso ao middleware `resolveProject`, então precisamos
-            // passar a string de conexão explicitamente no contexto.
-            let dbConnectionString = '';
-            if (req.project.metadata?.external_db_url) {
-                dbConnectionString = req.project.metadata.external_db_url;
-            } else {
-                const dbHost = process.env.DB_DIRECT_HOST || 'db';
-                const dbPort = process.env.DB_DIRECT_PORT || '5432';
-                const user = process.env.DB_USER || 'cascata_admin';
-                const pass = process.env.DB_PASS || 'secure_pass';
-                dbConnectionString = `postgresql://${user}:${pass}@${dbHost}:${dbPort}/${req.project.db_name}`;
+            // DEPLOY SELECTION: alias (default 'prod', canary-aware) or, for the dashboard, a pinned version.
+            // Functions never deployed run the draft in asset.metadata.
+            const aliasHeader = req.headers['x-cascata-edge-alias'];
+            const versionHeader = req.headers['x-cascata-edge-version'];
+            if (aliasHeader !== undefined && !EdgeVersionService.isValidAlias(String(aliasHeader))) {
+                return res.status(400).json({ error: 'Invalid edge alias.' });
             }
+            let pinnedVersion: number | undefined;
+            if (versionHeader !== undefined) {
+                if (!req.isSystemRequest) return res.status(403).json({ error: 'Pinning an edge function version requires management access.' });
+                pinnedVersion = parseInt(String(versionHeader), 10);
+                if (!Number.isInteger(pinnedVersion) || pinnedVersion < 1) return res.status(400).json({ error: 'Invalid edge version.' });
+            }
+            const deployment = await EdgeVersionService.resolve(asset, {
+                alias: aliasHeader !== undefined ? String(aliasHeader) : undefined,
+                version: pinnedVersion,
+                routingKey: req.user?.sub
+            });
+            if (!deployment) return res.status(404).json({ error: 'Edge Function Version Not Found' });
+            if (!deployment.code) return res.status(404).json({ error: 'Edge Function Not Found' });
+
+            const versionLabel = deployment.version !== null ? `v${deployment.version}` : 'draft';
+            res.setHeader('X-Cascata-Edge-Version', versionLabel);
+            res.locals.edgeVersion = {
+                version: deployment.version,
+                version_id: deployment.versionId,
+                alias: deployment.alias,
+                canary: deployment.canary
+            };
+            const logTag = `${req.project.slug}:${asset.name}@${versionLabel}`;
+
+            // Correlates the invocation record with the caller's logs; generated unless a sane one was sent
+            const incomingRequestId = req.headers['x-request-id'];
+            const requestId = typeof incomingRequestId === 'string' && /^[\w.:-]{1,128}$/.test(incomingRequestId) ? incomingRequestId : crypto.randomUUID();
+            res.setHeader('X-Request-Id', requestId);
+            const invocationMeta = { functionName: asset.name, requestId, version: deployment.version, alias: deployment.alias };
+
+            const finalEnv = await EdgeService.resolveEnv(req.project.slug, deployment.config.env_vars || {});
+            const dbConnectionString = EdgeService.connectionString(req.project);
+
+            // Bytes exatos do corpo para o `Request` dos handlers fetch(); `body` segue parseado para os handlers legados
+            const rawBody: Buffer | undefined = req.rawBody || (Buffer.isBuffer(req.body) ? req.body : undefined);
+            const forwardedProto = String(req.headers['x-forwarded-proto'] || req.protocol).split(',')[0].trim();
+            let url = `http://localhost${req.originalUrl}`;
+            try { url = new URL(req.originalUrl, `${forwardedProto}://${req.headers['x-forwarded-host'] || req.headers.host}`).toString(); } catch (e) { /* Malformed Host */ }
 
             const context = { 
                 method: req.method, 
-                body: req.body, 
+                url,
+                body: Buffer.isBuffer(req.body) ? {} : req.body, 
+                rawBody: rawBody?.length ? rawBody.toString('base64') : undefined,
                 query: req.query, 
                 headers: req.headers, 
                 user: req.user,
                 _db_connection_string: dbConnectionString // Contexto privilegiado para o Engine
             };
 
-            const timeoutMs = (asset.metadata.timeout || 5) * 1000;
+            const timeoutMs = (deployment.config.timeout || 5) * 1000;
 
             // --- ENGINE OFFLOAD LOGIC ---
             // Se houver um ENGINE_URL configurado (Docker Service), delegamos a execução
@@ -64,17 +84,29 @@ export class EdgeController {
                 try {
                     // Comunicação síncrona interna (rápida na rede Docker)
                     const engineRes = await axios.post(`${process.env.ENGINE_URL}/internal/run`, {
-                        code: asset.metadata.sql,
+                        code: deployment.code,
                         context,
                         envVars: finalEnv,
                         timeout: timeoutMs,
-                        slug: req.project.slug
+                        slug: req.project.slug,
+                        logTag,
+                        ...invocationMeta
                     }, {
                         timeout: timeoutMs + 1000, // Margem de segurança para rede
-                        validateStatus: () => true // Captura status code do engine
+                        validateStatus: () => true, // Captura status code do engine
+                        responseType: 'stream' // O Engine devolve a resposta da função como está (inclusive streams)
                     });
 
-                    return res.status(engineRes.status).json(engineRes.data);
+                    res.status(engineRes.status);
+                    const engineHeaders: [string, string][] = [];
+                    for (const [name, value] of Object.entries(engineRes.headers)) {
+                        if (['date', 'x-powered-by'].includes(name) || value === undefined || value === null) continue;
+                        if (Array.isArray(value)) value.forEach(v => engineHeaders.push([name, String(v)]));
+                        else engineHeaders.push([name, String(value)]);
+                    }
+                    EdgeService.applyHeaders(res, engineHeaders);
+                    engineRes.data.on('error', () => res.destroy());
+                    return engineRes.data.pipe(res);
                 } catch (engineErr: any) {
                     console.error('[EdgeController] Engine Offload Failed:', engineErr.message);
                     // Fallback se o Engine estiver offline? Não. Fail-Closed.
@@ -87,15 +119,299 @@ export class EdgeController {
             // --- LOCAL FALLBACK (Legacy/Dev Mode) ---
             // Se não houver Engine configurado, roda no processo atual.
             const result = await EdgeService.execute(
-                asset.metadata.sql, 
+                deployment.code,
                 context,
                 finalEnv, 
                 req.projectPool!, 
                 timeoutMs,
-                req.project.slug
+                req.project.slug,
+                { logTag, ...invocationMeta, stream: EdgeService.streamTo(res) }
             );
-            res.status(result.status).json(result.body);
+            EdgeService.send(res, result);
             
         } catch (e: any) { next(e); }
     }
+
+    // Warm pool and cold/warm start metrics. Pools live where functions run: the Engine when there is one.
+    static async poolStats(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const key = `${req.project.slug}:${req.params.name}`;
+            if (process.env.ENGINE_URL) {
+                const engineRes = await axios.get(`${process.env.ENGINE_URL}/internal/pool`, { params: { key }, timeout: 5000 });
+                return res.json(engineRes.data);
+            }
+            res.json(EdgeIsolatePool.stats(key) || { function: key, idle: 0, busy: 0, invocations: 0 });
+        } catch (e: any) { next(e); }
+    }
+
+    // --- INVOCATION LOG ---
+
+    static async listInvocations(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const q = req.query as Record<string, any>;
+            const int = (v: any) => v !== undefined && Number.isInteger(Number(v)) ? Number(v) : undefined;
+            const filters: EdgeInvocationFilters = {
+                outcome: typeof q.outcome === 'string' ? q.outcome : undefined,
+                status: int(q.status),
+                request_id: typeof q.request_id === 'string' ? q.request_id : undefined,
+                trigger: typeof q.trigger === 'string' ? q.trigger : undefined,
+                version: int(q.version),
+                cold: q.cold === 'true' ? true : q.cold === 'false' ? false : undefined,
+                min_duration_ms: int(q.min_duration_ms),
+                q: typeof q.q === 'string' && q.q ? q.q.substring(0, 200) : undefined,
+                limit: int(q.limit)
+            };
+            for (const field of ['since', 'until', 'before'] as const) {
+                if (q[field] === undefined) continue;
+                if (typeof q[field] !== 'string' || isNaN(Date.parse(q[field]))) return res.status(400).json({ error: `Invalid '${field}' timestamp.` });
+                filters[field] = q[field];
+            }
+            res.json(await EdgeLogService.list(req.project.slug, req.params.name, filters));
+        } catch (e: any) { next(e); }
+    }
+
+    static async getInvocation(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            if (!/^[0-9a-f-]{36}$/i.test(req.params.id)) return res.status(404).json({ error: 'Invocation Not Found' });
+            const invocation = await EdgeLogService.get(req.project.slug, req.params.name, req.params.id);
+            if (!invocation) return res.status(404).json({ error: 'Invocation Not Found' });
+            res.json(invocation);
+        } catch (e: any) { next(e); }
+    }
+
+    static async invocationMetrics(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const hours = parseInt(String(req.query.hours || '24'), 10);
+            res.json(await EdgeLogService.metrics(req.project.slug, req.params.name, Number.isInteger(hours) ? hours : 24));
+        } catch (e: any) { next(e); }
+    }
+
+    // Live tail over SSE: `/edge-functions/:name/logs/tail` for one function, `/edge-functions/logs/tail` for all
+    static async tailInvocations(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            EdgeLogService.tail(req, res, req.project.slug, req.params.name);
+        } catch (e: any) { next(e); }
+    }
+
+    // --- DEPLOYMENTS ---
+
+    static async listVersions(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const versions = await EdgeVersionService.listVersions(req.project.slug, req.params.name);
+            if (!versions) return res.status(404).json({ error: 'Edge Function Not Found' });
+            res.json(versions);
+        } catch (e: any) { next(e); }
+    }
+
+    static async getVersion(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const version = await EdgeVersionService.getVersion(req.project.slug, req.params.name, parseInt(req.params.version, 10));
+            if (!version) return res.status(404).json({ error: 'Edge Function Version Not Found' });
+            res.json(version);
+        } catch (e: any) { next(e); }
+    }
+
+    static async deploy(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const { description, alias } = req.body || {};
+            if (alias !== undefined && !EdgeVersionService.isValidAlias(alias)) {
+                return res.status(400).json({ error: 'Alias must be lowercase letters, digits, "-" or "_" (max 32).' });
+            }
+            const result = await EdgeVersionService.deploy(req.project.slug, req.params.name, {
+                description: typeof description === 'string' ? description.substring(0, 500) : undefined,
+                alias,
+                createdBy: req.userRole
+            });
+            if (!result) return res.status(404).json({ error: 'Edge Function Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.status(201).json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async listAliases(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const aliases = await EdgeVersionService.listAliases(req.project.slug, req.params.name);
+            if (!aliases) return res.status(404).json({ error: 'Edge Function Not Found' });
+            res.json(aliases);
+        } catch (e: any) { next(e); }
+    }
+
+    static async setAlias(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const { alias } = req.params;
+            if (!EdgeVersionService.isValidAlias(alias)) {
+                return res.status(400).json({ error: 'Alias must be lowercase letters, digits, "-" or "_" (max 32).' });
+            }
+            const { version, canary_version, canary_percent } = req.body || {};
+            if (!Number.isInteger(version)) return res.status(400).json({ error: 'version is required.' });
+            if (canary_version !== undefined && canary_version !== null && !Number.isInteger(canary_version)) {
+                return res.status(400).json({ error: 'canary_version must be a version number.' });
+            }
+            const result = await EdgeVersionService.setAlias(req.project.slug, req.params.name, alias, { version, canary_version, canary_percent }, req.userRole);
+            if (!result) return res.status(404).json({ error: 'Edge Function Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async rollbackAlias(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const { version } = req.body || {};
+            if (version !== undefined && !Number.isInteger(version)) return res.status(400).json({ error: 'version must be a version number.' });
+            const result = await EdgeVersionService.rollback(req.project.slug, req.params.name, req.params.alias, version, req.userRole);
+            if (!result) return res.status(404).json({ error: 'Edge Function Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async deleteAlias(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const deleted = await EdgeVersionService.deleteAlias(req.project.slug, req.params.name, req.params.alias);
+            if (!deleted) return res.status(404).json({ error: 'Alias Not Found' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
+
+    // --- SCHEDULES ---
+
+    static async listSchedules(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const schedules = await EdgeTriggerService.listSchedules(req.project.slug, req.params.name);
+            if (!schedules) return res.status(404).json({ error: 'Edge Function Not Found' });
+            res.json(schedules);
+        } catch (e: any) { next(e); }
+    }
+
+    static async createSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await EdgeTriggerService.createSchedule(req.project.slug, req.params.name, req.body);
+            if (!result) return res.status(404).json({ error: 'Edge Function Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.status(201).json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async updateSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await EdgeTriggerService.updateSchedule(req.project.slug, req.params.name, req.params.id, req.body);
+            if (!result) return res.status(404).json({ error: 'Schedule Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async deleteSchedule(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const deleted = await EdgeTriggerService.deleteSchedule(req.project.slug, req.params.name, req.params.id);
+            if (!deleted) return res.status(404).json({ error: 'Schedule Not Found' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
+
+    // --- QUEUES ---
+
+    static async listQueues(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            res.json(await EdgeQueueService.list(req.project.slug));
+        } catch (e: any) { next(e); }
+    }
+
+    static async getQueue(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const queue = await EdgeQueueService.get(req.project.slug, req.params.queue);
+            if (!queue) return res.status(404).json({ error: 'Queue Not Found' });
+            res.json(queue);
+        } catch (e: any) { next(e); }
+    }
+
+    static async createQueue(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await EdgeQueueService.create(req.project.slug, req.body);
+            if (result.error) return res.status(400).json(result);
+            res.status(201).json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async updateQueue(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await EdgeQueueService.update(req.project.slug, req.params.queue, req.body);
+            if (!result) return res.status(404).json({ error: 'Queue Not Found' });
+            if (result.error) return res.status(400).json(result);
+            res.json(result);
+        } catch (e: any) { next(e); }
+    }
+
+    static async deleteQueue(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const deleted = await EdgeQueueService.remove(req.project.slug, req.params.queue);
+            if (!deleted) return res.status(404).json({ error: 'Queue Not Found' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
+
+    static async sendMessages(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const { messages, body, delay_seconds } = req.body || {};
+            const bodies = Array.isArray(messages) ? messages : (body !== undefined ? [body] : []);
+            const ids = await EdgeQueueService.send(req.project.slug, req.params.queue, bodies, { delaySeconds: delay_seconds });
+            res.status(202).json({ message_ids: ids });
+        } catch (e: any) {
+            if (e.status) return res.status(e.status).json({ error: e.message });
+            next(e);
+        }
+    }
+
+    static async listDeadLetters(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const limit = parseInt(req.query.limit as string, 10);
+            const deadLetters = await EdgeQueueService.listDeadLetters(req.project.slug, req.params.queue, Number.isInteger(limit) ? limit : 50);
+            if (!deadLetters) return res.status(404).json({ error: 'Queue Not Found' });
+            res.json(deadLetters);
+        } catch (e: any) { next(e); }
+    }
+
+    static async replayDeadLetter(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const result = await EdgeQueueService.replayDeadLetter(req.project.slug, req.params.queue, req.params.id);
+            if (!result) return res.status(404).json({ error: 'Dead Letter Not Found' });
+            res.json(result);
+        } catch (e: any) {
+            if (e.status) return res.status(e.status).json({ error: e.message });
+            next(e);
+        }
+    }
+
+    static async deleteDeadLetter(req: CascataRequest, res: any, next: any) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        try {
+            const deleted = await EdgeQueueService.deleteDeadLetter(req.project.slug, req.params.queue, req.params.id);
+            if (!deleted) return res.status(404).json({ error: 'Dead Letter Not Found' });
+            res.json({ success: true });
+        } catch (e: any) { next(e); }
+    }
 }
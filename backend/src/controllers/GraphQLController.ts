@@ -0,0 +1,68 @@
+import { CascataRequest } from '../types.js';
+import { queryWithRLS } from '../utils/index.js';
+import { GraphQLService, GraphQLContext } from '../../services/GraphQLService.js';
+import { DataController } from './DataController.js';
+
+/**
+ * GraphQLController
+ * `/graphql/v1` over the PostgREST engine: same RLS pipeline, same masking tier.
+ */
+export class GraphQLController {
+
+    static async execute(req: CascataRequest, res: any, next: any) {
+        if (!['GET', 'POST'].includes(req.method)) return next();
+        try {
+            const isGet = req.method === 'GET';
+            const payload: any = isGet ? req.query : (req.body || {});
+            const source = payload.query;
+            if (!source || typeof source !== 'string') {
+                return res.status(400).json({ errors: [{ message: 'Must provide query string.' }] });
+            }
+
+            let variables = payload.variables;
+            if (typeof variables === 'string') {
+                try { variables = JSON.parse(variables); } catch (e) {
+                    return res.status(400).json({ errors: [{ message: 'Variables are invalid JSON.' }] });
+                }
+            }
+
+            DataController.injectSecurityHeaders(req);
+
+            const context: GraphQLContext = {
+                headers: req.headers,
+                execute: async (build, table, options = {}) => {
+                    let total: number | undefined;
+                    const result = await queryWithRLS(req, async (client) => {
+                        if (options.count && build.countQuery) {
+                            total = await DataController.resolveTotalCount(client, build);
+                        }
+                        return await client.query(build.text, build.values, build.name, { maxAffected: options.maxAffected });
+                    });
+
+                    let rows = result.rows;
+                    if (table) {
+                        rows = await DataController.applyMaskingTier(req, rows, table, build.sources);
+                        if (build.embeds && build.embeds.length > 0) {
+                            rows = await DataController.applyEmbeddedMasking(req, rows, build.embeds);
+                        }
+                    }
+                    return { rows, total };
+                }
+            };
+
+            // Introspection follows the same switch as the OpenAPI spec (schema_exposure)
+            const allowIntrospection = !!req.isSystemRequest || req.project.metadata?.schema_exposure === true;
+            const bundle = await GraphQLService.getSchema(req.projectPool!, req.project.metadata?.masked_columns);
+            const result = await GraphQLService.run(
+                bundle,
+                source,
+                variables || undefined,
+                typeof payload.operationName === 'string' ? payload.operationName : undefined,
+                context,
+                { allowIntrospection, allowMutations: !isGet }
+            );
+
+            res.status(result.status).json(result.body);
+        } catch (e: any) { next(e); }
+    }
+}
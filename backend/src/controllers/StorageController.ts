@@ -8,6 +8,7 @@ import { getSectorForExt, validateMagicBytesAsync, parseBytes, resolveStorageCon
 import { StorageService, StorageConfig } from '../../services/StorageService.js';
 import { StorageIndexer } from '../../services/StorageIndexer.js';
 import { RateLimitService } from '../../services/RateLimitService.js';
+import { AutomationService, StorageEventName, StorageEventPayload } from '../../services/AutomationService.js';
 
 export class StorageController {
 
@@ -31,6 +32,19 @@ export class StorageController {
         return resolvedTarget;
     }
 
+    // Helper: STORAGE_EVENT automations (fire-and-forget, after the operation succeeded)
+    private static emitStorageEvent(req: CascataRequest, event: StorageEventName, bucket: string, object: StorageEventPayload['object']) {
+        AutomationService.dispatchEvent(req.project.slug, 'STORAGE_EVENT', event, { bucket, path: object.path }, async () => ({
+            type: 'storage',
+            event,
+            bucket,
+            object,
+            user_id: req.user?.sub || null,
+            role: req.userRole || null,
+            timestamp: new Date().toISOString()
+        }), { projectPool: req.projectPool!, jwtSecret: req.project.jwt_secret });
+    }
+
     // Helper: Check Quota Usage with Logical Priority + Cache + Reservation
     private static async checkQuota(
         projectSlug: string,
@@ -355,6 +369,14 @@ export class StorageController {
                 isFolder: false,
                 provider: storageConfig.provider
             });
+            StorageController.emitStorageEvent(req, 'upload', bucket, {
+                path: fullKey,
+                name: req.file.originalname,
+                size: req.file.size,
+                mime_type: req.file.mimetype,
+                provider: storageConfig.provider,
+                url: storageConfig.provider === 'local' ? null : resultUrl
+            });
 
             // Invalidate Cache to force recount on next quota check
             await RateLimitService.invalidateProjectStorageUsage(req.project.slug);
@@ -477,6 +499,11 @@ export class StorageController {
             }
 
             await StorageIndexer.unindexObject(systemPool, req.project.slug, req.params.bucket, objectPath);
+            StorageController.emitStorageEvent(req, 'delete', req.params.bucket, {
+                path: objectPath.replace(/^\/+/, ''),
+                name: path.basename(objectPath),
+                provider: storageConfig.provider
+            });
 
             // Invalidate Cache to force recount
             await RateLimitService.invalidateProjectStorageUsage(req.project.slug);
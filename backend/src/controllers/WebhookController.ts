@@ -5,7 +5,7 @@ import { systemPool } from '../config/main.js';
 import { CryptoService } from '../../services/CryptoService.js';
 import { AutomationService } from '../../services/AutomationService.js';
 import { PoolService } from '../../services/PoolService.js';
-import crypto from 'crypto';
+import { WebhookReceiverService, ReceiverOutcome } from '../../services/WebhookReceiverService.js';
 
 export class WebhookController {
 
@@ -16,7 +16,7 @@ export class WebhookController {
         const { slug } = req.params;
         try {
             const result = await systemPool.query(
-                `SELECT id, name, path_slug, auth_method, target_type, target_id, is_active, created_at 
+                `SELECT id, name, path_slug, auth_method, target_type, target_id, target_config, verification, is_active, created_at 
                  FROM system.webhook_receivers WHERE project_slug = $1 ORDER BY created_at DESC`,
                 [slug]
             );
@@ -37,19 +37,27 @@ export class WebhookController {
     static async create(req: CascataRequest, res: Response, next: NextFunction) {
         if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
         const { slug } = req.params;
-        let { name, path_slug, auth_method, secret_key, target_type, target_id } = req.body;
+        let { name, path_slug, auth_method, secret_key, target_type, target_id, target_config, verification } = req.body;
+        auth_method = auth_method || 'none';
         
         path_slug = WebhookController.sanitizeSlug(path_slug || '');
         if (!path_slug) return res.status(400).json({ error: 'Invalid or missing path slug.' });
 
+        try {
+            target_config = WebhookReceiverService.validateTargetConfig(target_type, target_id, target_config);
+            verification = WebhookReceiverService.validateVerification(auth_method, !!secret_key, verification);
+        } catch (e: any) {
+            return res.status(400).json({ error: e.message });
+        }
+
         try {
             // Hardening: Encrypt webhook secret via Go Engine
             const encryptedSecret = secret_key ? await CryptoService.encrypt('webhook_auth', secret_key) : null;
 
             const result = await systemPool.query(
-                `INSERT INTO system.webhook_receivers (project_slug, name, path_slug, auth_method, secret_key, target_type, target_id)
-                 VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
-                [slug, name, path_slug, auth_method, encryptedSecret, target_type, target_id]
+                `INSERT INTO system.webhook_receivers (project_slug, name, path_slug, auth_method, secret_key, target_type, target_id, target_config, verification)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING id`,
+                [slug, name, path_slug, auth_method, encryptedSecret, target_type, target_id, JSON.stringify(target_config), JSON.stringify(verification)]
             );
             res.json(result.rows[0]);
         } catch (e: any) {
@@ -67,17 +75,47 @@ export class WebhookController {
         } catch (e) { next(e); }
     }
 
+    static async listLogs(req: CascataRequest, res: Response, next: NextFunction) {
+        if (!req.isSystemRequest) return res.status(403).json({ error: 'Unauthorized' });
+        const { slug, id } = req.params;
+        const outcome = typeof req.query.outcome === 'string' ? req.query.outcome : undefined;
+        const limit = parseInt(String(req.query.limit || '50'), 10) || 50;
+        try {
+            res.json(await WebhookReceiverService.listCalls(slug, id, outcome, limit));
+        } catch (e) { next(e); }
+    }
+
     // --- Execution (Public Gateway) ---
 
     static async handleIncoming(req: any, res: Response) {
         const { projectSlug, pathSlug } = req.params;
-        const payload = req.body;
         const headers = req.headers;
+        const startedAt = Date.now();
+        // The route keeps the body raw: providers sign bytes, not the JSON we would re-serialize
+        const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+        let receiver: any = null;
+        let idempotencyKey: string | null = null;
+        const reply = (status: number, body: any, outcome: ReceiverOutcome, reason?: string) => {
+            if (receiver) {
+                WebhookReceiverService.recordCall(receiver, {
+                    outcome,
+                    status_code: status,
+                    reason,
+                    idempotency_key: idempotencyKey,
+                    source_ip: req.ip,
+                    headers,
+                    rawBody,
+                    latency_ms: Date.now() - startedAt
+                });
+            }
+            return res.status(status).json(body);
+        };
 
         try {
             // 1. Fetch receiver + project context
             const query = `
-                SELECT r.*, p.db_name, p.jwt_secret as jwt_secret_cipher
+                SELECT r.*, p.db_name, p.metadata, p.jwt_secret as jwt_secret_cipher
                 FROM system.webhook_receivers r
                 JOIN system.projects p ON r.project_slug = p.slug
                 WHERE r.project_slug = $1 AND r.path_slug = $2 AND r.is_active = true
@@ -88,56 +126,141 @@ export class WebhookController {
                 return res.status(404).json({ error: 'Webhook receiver not found or inactive.' });
             }
 
-            const receiver = result.rows[0];
+            receiver = result.rows[0];
 
-            // Decrypt jwt_secret via Crypto Engine
-            const jwtSecret = await CryptoService.decrypt(receiver.jwt_secret_cipher);
+            let payload: any;
+            try {
+                payload = WebhookReceiverService.parseBody(rawBody, headers['content-type']);
+            } catch (e: any) {
+                return reply(400, { error: e.message }, 'rejected', e.reason);
+            }
 
-            // 2. Validate Security (HMAC SHA256)
+            // 2. Validate Security (provider scheme over the raw body)
             // Hardening: Decrypt webhook secret via Go Engine if present
-            if (receiver.auth_method === 'hmac_sha256' && receiver.secret_key) {
-                const signature = headers['x-cascata-signature'] || headers['x-hub-signature-256'] || headers['x-signature'];
-                if (!signature) return res.status(401).json({ error: 'Missing security signature.' });
+            const secret = receiver.secret_key ? await CryptoService.decrypt(receiver.secret_key) : null;
+            const verification = receiver.verification || {};
+            const forwardedProto = String(headers['x-forwarded-proto'] || req.protocol).split(',')[0].trim();
+            let url = verification.public_url || '';
+            try {
+                const requestUrl = new URL(req.originalUrl, `${forwardedProto}://${headers['x-forwarded-host'] || headers.host}`);
+                url = verification.public_url ? verification.public_url + requestUrl.search : requestUrl.toString();
+            } catch (e) { /* Malformed Host: only URL-signing schemes care, and they will reject */ }
+            const verified = WebhookReceiverService.verify(receiver.auth_method, secret, { rawBody, body: payload, headers, url }, verification);
+            if (!verified.ok) {
+                return reply(401, { error: 'Invalid or missing security signature.' }, 'rejected', verified.reason);
+            }
 
-                const decryptedSecret = await CryptoService.decrypt(receiver.secret_key);
-                const hmac = crypto.createHmac('sha256', decryptedSecret);
-                const bodyStr = typeof payload === 'string' ? payload : JSON.stringify(payload);
-                const expected = hmac.update(bodyStr).digest('hex');
+            // Decrypt jwt_secret via Crypto Engine
+            const jwtSecret = await CryptoService.decrypt(receiver.jwt_secret_cipher);
 
-                if (signature !== expected) {
-                    return res.status(401).json({ error: 'Invalid security signature.' });
+            // 3. Idempotency: a provider retry of a delivery that already succeeded is acknowledged, not replayed
+            const config = receiver.target_config || {};
+            try {
+                idempotencyKey = WebhookReceiverService.resolveIdempotencyKey(config, payload, headers, receiver.auth_method);
+            } catch (e: any) {
+                return reply(e.status || 400, { error: e.message }, 'rejected', 'invalid_idempotency_key');
+            }
+            if (idempotencyKey) {
+                const claim = await WebhookReceiverService.claimIdempotency(receiver.id, idempotencyKey, config);
+                if (!claim.claimed) {
+                    if (claim.status === 'done') {
+                        return reply(200, { ...(claim.result || { success: true }), duplicate: true }, 'duplicate');
+                    }
+                    return reply(409, { error: 'A delivery with this idempotency key is still being processed.' }, 'duplicate', 'in_progress');
                 }
             }
 
-            // 3. Dispatch to Target
-            if (receiver.target_type === 'AUTOMATION') {
-                const autoRes = await systemPool.query(`SELECT nodes FROM system.automations WHERE id = $1`, [receiver.target_id]);
-                if (autoRes.rows.length > 0) {
-                    const projectPool = PoolService.get(receiver.db_name);
-                    AutomationService.dispatchAsyncTrigger(
-                        receiver.target_id,
-                        projectSlug,
-                        autoRes.rows[0].nodes,
-                        payload,
-                        {
-                            vars: {},
-                            payload,
+            // 4. Dispatch to Target
+            let response: any;
+            try {
+                const projectPool = PoolService.get(receiver.db_name, { connectionString: receiver.metadata?.external_db_url });
+                if (receiver.target_type === 'AUTOMATION') {
+                    const autoRes = await systemPool.query(`SELECT nodes FROM system.automations WHERE id = $1`, [receiver.target_id]);
+                    if (autoRes.rows.length > 0) {
+                        AutomationService.dispatchAsyncTrigger(
+                            receiver.target_id,
                             projectSlug,
-                            jwtSecret: jwtSecret,
-                            projectPool
-                        }
-                    );
+                            autoRes.rows[0].nodes,
+                            payload,
+                            {
+                                vars: {},
+                                payload,
+                                projectSlug,
+                                jwtSecret: jwtSecret,
+                                projectPool
+                            }
+                        );
+                    }
+                    response = { success: true, message: 'Event received and processing.' };
+                } else if (receiver.target_type === 'TABLE') {
+                    const written = await WebhookReceiverService.writeToTable(projectPool, projectSlug, receiver.target_id, config, payload, headers);
+                    response = { success: true, ...written };
+                } else {
+                    response = { success: true, message: 'Event received and processing.' };
                 }
-            } else if (receiver.target_type === 'TABLE') {
-                // Future: Simple direct insert mode
-                console.log(`[WebhookReceiver] Target TABLE not yet implemented. Receiver: ${receiver.id}`);
+            } catch (e: any) {
+                if (idempotencyKey) await WebhookReceiverService.releaseIdempotency(receiver.id, idempotencyKey).catch(() => { });
+                if (e.status) return reply(e.status, { error: e.message }, 'rejected', 'invalid_payload');
+                // Constraint, RLS and mapping errors won't heal on retry: tell the provider to stop
+                if (e.code && /^(22|23|42)/.test(e.code)) {
+                    console.error(`[WebhookReceiver] Table write rejected (${e.code}) for receiver ${receiver.id}:`, e.message);
+                    return reply(422, { error: 'Delivery rejected by the target table.', code: e.code }, 'failed', `pg_${e.code}`);
+                }
+                throw e;
             }
 
-            res.json({ success: true, message: 'Event received and processing.' });
+            if (idempotencyKey) {
+                await WebhookReceiverService.completeIdempotency(receiver.id, idempotencyKey, response)
+                    .catch((e: any) => console.error('[WebhookReceiver] Idempotency completion failed:', e.message));
+            }
+            reply(200, response, 'accepted');
 
         } catch (e: any) {
             console.error('[WebhookReceiver] Error:', e.message);
-            res.status(500).json({ error: 'Internal failure processing incoming webhook.' });
+            reply(500, { error: 'Internal failure processing incoming webhook.' }, 'failed', 'internal_error');
+        }
+    }
+
+    // --- Automation Approvals (Public Gateway, signed links) ---
+
+    static async handleApproval(req: any, res: Response) {
+        const { executionId } = req.params;
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(executionId)) {
+            return res.status(404).json({ error: 'Approval not found.' });
+        }
+
+        // The signature is the only credential: it binds execution, wait instance, decision and expiry
+        const verified = AutomationService.verifyApprovalLink(executionId, req.query);
+        if (!verified) return res.status(403).json({ error: 'Invalid or expired approval link.' });
+
+        try {
+            if (req.method === 'GET') {
+                // Mail scanners and chat unfurlers prefetch links: GET only reports, never decides
+                const result = await systemPool.query(
+                    `SELECT status, wait_state FROM system.automation_executions WHERE id = $1`,
+                    [executionId]
+                );
+                const row = result.rows[0];
+                return res.json({
+                    execution_id: executionId,
+                    decision: verified.decision,
+                    pending: row?.status === 'waiting' && row.wait_state?.nonce === verified.nonce,
+                    expires_at: row?.wait_state?.until || null
+                });
+            }
+
+            const comment = typeof req.body?.comment === 'string' ? req.body.comment.slice(0, 2000) : undefined;
+            const claimed = await AutomationService.resumeExecution(executionId, {
+                nonce: verified.nonce,
+                decision: verified.decision,
+                comment
+            });
+            if (!claimed) return res.status(409).json({ error: 'This approval was already decided, expired or cancelled.' });
+
+            res.json({ success: true, decision: verified.decision });
+        } catch (e: any) {
+            console.error('[ApprovalCallback] Error:', e.message);
+            res.status(500).json({ error: 'Internal failure processing approval.' });
         }
     }
 }
@@ -25,6 +25,7 @@ export const detectSemanticAction = (method: string, path: string): string | nul
     if (path.includes('/storage') && method === 'POST' && path.includes('/upload')) return 'UPLOAD_FILE';
     if (path.includes('/storage') && method === 'DELETE') return 'DELETE_FILE';
     if (path.includes('/edge/')) return 'EDGE_INVOKE';
+    if (path.includes('/graphql/v1')) return 'GRAPHQL';
     
     if (path.includes('/auth/v1/signup')) return 'GOTRUE_SIGNUP';
     if (path.includes('/auth/v1/token')) return 'GOTRUE_TOKEN';
@@ -123,9 +124,10 @@ export const auditLogger: RequestHandler = (req: any, res: any, next: any) => {
              r.project.slug, 
              tableName, 
              semanticAction || req.method, 
-             data, 
+             res.locals?.webhookRecord ?? data, 
              systemPool, 
-             r.project.jwt_secret
+             r.project.jwt_secret,
+             res.locals?.webhookOldRecord
          ).catch(e => console.error("Webhook Dispatch Error", e));
     }
     return oldJson.apply(res, arguments as any);
@@ -175,7 +177,7 @@ export const auditLogger: RequestHandler = (req: any, res: any, next: any) => {
             duration_ms: duration,
             user_role: r.userRole || 'unauthorized',
             payload: safeStringify(inputPayload), // Now uses the scrubbed inputPayload
-            headers: safeStringify({ referer: req.headers.referer, userAgent: req.headers['user-agent'] }),
+            headers: safeStringify({ referer: req.headers.referer, userAgent: req.headers['user-agent'], edgeVersion: res.locals?.edgeVersion }),
             geo_info: JSON.stringify(geoInfo),
             response_size: responseSize // NEW TELEMETRY
         });
@@ -13,7 +13,7 @@ export const dynamicCors: RequestHandler = (req: any, res: any, next: any) => {
     res.setHeader('Access-Control-Allow-Credentials', 'true');
     res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type,Authorization,apikey,x-cascata-client,Prefer,Range,x-client-info,x-supabase-auth,content-profile,accept-profile,x-supabase-api-version,x-cascata-signature,x-cascata-event');
-    res.setHeader('Access-Control-Expose-Headers', 'Content-Range, X-Total-Count, Link');
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Range, X-Total-Count, Link, Location, Preference-Applied');
 
     // SECURITY FIX: Removed implicit trust for FlutterFlow/AppSmith.
     // Logic now depends entirely on `req.project` context resolved by the previous middleware.
@@ -151,7 +151,11 @@ export const dynamicBodyParser: RequestHandler = (req, res, next) => {
     const requestedBytes = parseBytes(limitStr);
     const safeLimit = Math.min(requestedBytes, SYSTEM_HARD_CAP_BYTES);
 
-    express.json({ limit: safeLimit })(req, res, (err) => {
+    // Edge functions also get the exact request bytes (web `Request` bodies), whatever the content type
+    const isEdge = req.path.includes('/edge/');
+    const keepRaw = isEdge ? (r: any, _res: any, buf: Buffer) => { r.rawBody = buf; } : undefined;
+
+    express.json({ limit: safeLimit, verify: keepRaw })(req, res, (err) => {
         if (err) {
             return res.status(413).json({
                 error: 'Payload Too Large',
@@ -159,7 +163,11 @@ export const dynamicBodyParser: RequestHandler = (req, res, next) => {
                 code: 'PAYLOAD_TOO_LARGE'
             });
         }
-        express.urlencoded({ extended: true, limit: safeLimit })(req, res, next);
+        if (!isEdge) return express.urlencoded({ extended: true, limit: safeLimit })(req, res, next);
+        express.urlencoded({ extended: true, limit: safeLimit, verify: keepRaw })(req, res, (urlErr) => {
+            if (urlErr) return next(urlErr);
+            express.raw({ type: () => true, limit: safeLimit })(req, res, next);
+        });
     });
 };
 
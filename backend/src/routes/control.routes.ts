@@ -86,6 +86,9 @@ router.get('/projects/:slug/webhooks', AdminController.listWebhooks as any);
 router.post('/projects/:slug/webhooks', AdminController.createWebhook as any);
 router.patch('/projects/:slug/webhooks/:id', AdminController.updateWebhook as any);
 router.delete('/projects/:slug/webhooks/:id', AdminController.deleteWebhook as any);
+router.post('/projects/:slug/webhooks/:id/rotate-secret', AdminController.rotateWebhookSecret as any);
+router.get('/projects/:slug/webhooks/:id/deliveries', AdminController.listWebhookDeliveries as any);
+router.post('/projects/:slug/webhooks/:id/deliveries/:deliveryId/redeliver', AdminController.redeliverWebhook as any);
 
 // IMPORT ENGINE V3 (Migration Flow)
 router.post('/projects/import/upload', backupUpload.single('file') as any, AdminController.uploadImport as any);
@@ -9,6 +9,7 @@ import { DataAuthController } from '../controllers/DataAuthController.js';
 import { VectorController } from '../controllers/VectorController.js';
 import { McpController } from '../controllers/McpController.js';
 import { BranchController } from '../controllers/BranchController.js';
+import { GraphQLController } from '../controllers/GraphQLController.js';
 import { upload } from '../config/main.js';
 import { cascataAuth, requireManagementRole } from '../middlewares/core.js';
 import { dynamicBodyParser, dynamicRateLimiter } from '../middlewares/security.js';
@@ -37,6 +38,9 @@ router.post('/branch/rollback', BranchController.rollback as any);
 
 // Realtime (SSE)
 router.get('/realtime', (req: any, res: any) => RealtimeService.handleConnection(req, res));
+// Realtime (WebSocket / Phoenix Channels, supabase-js compatible)
+router.get('/realtime/v1/websocket', (req: any, res: any) => RealtimeService.handleWebSocket(req, res));
+router.post('/realtime/v1/api/broadcast', (req: any, res: any) => RealtimeService.handleRestBroadcast(req, res));
 
 // MCP Gateway (AI Agent Protocol)
 router.get('/mcp/sse', McpController.connectSSE as any);
@@ -99,6 +103,9 @@ router.all('/rest/v1/:tableName', DataController.handlePostgrest as any);
 router.post('/rest/v1/rpc/:name', DataController.executeRpc as any);
 router.all('/rest/v1', DataController.getOpenApiSpec as any);
 
+// GraphQL (reflected from the project schema, executed through the PostgREST engine)
+router.all('/graphql/v1', GraphQLController.execute as any);
+
 // AI & Docs
 router.get('/ai/sessions', AiController.listSessions as any);
 router.patch('/ai/sessions/:id', AiController.updateSession as any);
@@ -112,7 +119,34 @@ router.post('/ai/draft-doc', AiController.draftDoc as any);
 router.get('/docs/openapi', AiController.getOpenApiSpec as any);
 
 // Edge
-router.post('/edge/:name', EdgeController.execute as any);
+router.all('/edge/:name', EdgeController.execute as any);
+router.all('/edge/:name/*', EdgeController.execute as any);
+router.get('/edge-functions/:name/versions', requireManagementRole as any, EdgeController.listVersions as any);
+router.get('/edge-functions/:name/versions/:version', requireManagementRole as any, EdgeController.getVersion as any);
+router.post('/edge-functions/:name/deploy', requireManagementRole as any, EdgeController.deploy as any);
+router.get('/edge-functions/:name/aliases', requireManagementRole as any, EdgeController.listAliases as any);
+router.put('/edge-functions/:name/aliases/:alias', requireManagementRole as any, EdgeController.setAlias as any);
+router.delete('/edge-functions/:name/aliases/:alias', requireManagementRole as any, EdgeController.deleteAlias as any);
+router.post('/edge-functions/:name/aliases/:alias/rollback', requireManagementRole as any, EdgeController.rollbackAlias as any);
+router.get('/edge-functions/:name/pool', requireManagementRole as any, EdgeController.poolStats as any);
+router.get('/edge-functions/logs/tail', requireManagementRole as any, EdgeController.tailInvocations as any);
+router.get('/edge-functions/:name/logs/tail', requireManagementRole as any, EdgeController.tailInvocations as any);
+router.get('/edge-functions/:name/invocations', requireManagementRole as any, EdgeController.listInvocations as any);
+router.get('/edge-functions/:name/invocations/:id', requireManagementRole as any, EdgeController.getInvocation as any);
+router.get('/edge-functions/:name/metrics', requireManagementRole as any, EdgeController.invocationMetrics as any);
+router.get('/edge-functions/:name/schedules', requireManagementRole as any, EdgeController.listSchedules as any);
+router.post('/edge-functions/:name/schedules', requireManagementRole as any, EdgeController.createSchedule as any);
+router.patch('/edge-functions/:name/schedules/:id', requireManagementRole as any, EdgeController.updateSchedule as any);
+router.delete('/edge-functions/:name/schedules/:id', requireManagementRole as any, EdgeController.deleteSchedule as any);
+router.get('/edge-queues', requireManagementRole as any, EdgeController.listQueues as any);
+router.post('/edge-queues', requireManagementRole as any, EdgeController.createQueue as any);
+router.get('/edge-queues/:queue', requireManagementRole as any, EdgeController.getQueue as any);
+router.patch('/edge-queues/:queue', requireManagementRole as any, EdgeController.updateQueue as any);
+router.delete('/edge-queues/:queue', requireManagementRole as any, EdgeController.deleteQueue as any);
+router.post('/edge-queues/:queue/messages', requireManagementRole as any, EdgeController.sendMessages as any);
+router.get('/edge-queues/:queue/dead-letters', requireManagementRole as any, EdgeController.listDeadLetters as any);
+router.post('/edge-queues/:queue/dead-letters/:id/replay', requireManagementRole as any, EdgeController.replayDeadLetter as any);
+router.delete('/edge-queues/:queue/dead-letters/:id', requireManagementRole as any, EdgeController.deleteDeadLetter as any);
 
 // Security
 router.get('/security/status', requireManagementRole as any, SecurityController.getStatus as any);
@@ -151,7 +185,18 @@ router.get('/automations', requireManagementRole as any, DataController.listAuto
 router.post('/automations', requireManagementRole as any, DataController.upsertAutomation as any);
 router.delete('/automations/:id', requireManagementRole as any, DataController.deleteAutomation as any);
 router.get('/automations/stats', requireManagementRole as any, DataController.getAutomationStats as any);
+router.post('/automations/schedule/preview', requireManagementRole as any, DataController.previewAutomationSchedule as any);
+router.get('/automations/:id/schedule', requireManagementRole as any, DataController.getAutomationSchedule as any);
+router.post('/automations/:id/schedule/pause', requireManagementRole as any, DataController.pauseAutomationSchedule as any);
+router.post('/automations/:id/schedule/resume', requireManagementRole as any, DataController.resumeAutomationSchedule as any);
 router.get('/automations/runs', requireManagementRole as any, DataController.listAutomationRuns as any);
+router.get('/automations/runs/:id/trace', requireManagementRole as any, DataController.getAutomationRunTrace as any);
+router.post('/automations/runs/:id/replay', requireManagementRole as any, DataController.replayAutomationRun as any);
+router.get('/automations/executions', requireManagementRole as any, DataController.listAutomationExecutions as any);
+router.post('/automations/executions/:id/cancel', requireManagementRole as any, DataController.cancelAutomationExecution as any);
+router.get('/automations/dead-letters', requireManagementRole as any, DataController.listAutomationDeadLetters as any);
+router.post('/automations/dead-letters/:id/redrive', requireManagementRole as any, DataController.redriveAutomationDeadLetter as any);
+router.post('/automations/dead-letters/:id/dismiss', requireManagementRole as any, DataController.dismissAutomationDeadLetter as any);
 router.post('/automations/test-node', requireManagementRole as any, DataController.testNode as any);
 
 // Auth (Data Plane)
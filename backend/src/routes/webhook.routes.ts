@@ -1,16 +1,23 @@
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { WebhookController } from '../controllers/WebhookController.js';
 import { cascataAuth } from '../middlewares/core.js';
 
 const router = Router();
 
 // 1. PUBLIC GATEWAY: No Auth middleware here, auth is handled inside handleIncoming
-router.post('/in/:projectSlug/:pathSlug', WebhookController.handleIncoming as any);
+// Raw body: provider signatures are computed over the exact bytes sent
+router.post('/in/:projectSlug/:pathSlug', express.raw({ type: () => true, limit: '5mb' }) as any, WebhookController.handleIncoming as any);
+
+router.use(express.json({ limit: '1mb' }) as any);
+
+router.get('/approvals/:executionId', WebhookController.handleApproval as any);
+router.post('/approvals/:executionId', WebhookController.handleApproval as any);
 
 // 2. MANAGEMENT (Requires Admin/Project Token)
 router.get('/:slug/receivers', cascataAuth as any, WebhookController.list as any);
 router.post('/:slug/receivers', cascataAuth as any, WebhookController.create as any);
 router.delete('/:slug/receivers/:id', cascataAuth as any, WebhookController.delete as any);
+router.get('/:slug/receivers/:id/logs', cascataAuth as any, WebhookController.listLogs as any);
 
 export default router;
@@ -11,6 +11,7 @@ export interface CascataRequest extends Request {
   userRole?: 'service_role' | 'authenticated' | 'anon';
   appClient?: any;
   isSystemRequest?: boolean;
+  rawBody?: Buffer; // Edge routes only (dynamicBodyParser)
   file?: any;
   files?: any;
 
@@ -8,6 +8,10 @@ import { CascataRequest } from '../types.js';
 import pg from 'pg';
 import dns from 'dns/promises';
 import { URL } from 'url';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const Cursor = require('pg-cursor');
 
 // --- SSRF SECURITY UTILS ---
 
@@ -334,8 +338,21 @@ export const quotePostgresLiteral = (str: string | undefined | null): string =>
     return `'${String(str).replace(/'/g, "''")}'`;
 };
 
+const RLS_STATEMENT_TIMEOUT_MS = 30000;
+// Streaming exports legitimately run longer than a regular request, but stay bounded
+const RLS_STREAM_TIMEOUT_MS = 300000;
+
+/**
+ * Per-statement controls for queryWithRLS (PostgREST `Prefer: tx=rollback` / `max-affected`).
+ * Either option forces the statement into an explicit transaction.
+ */
+export interface RLSQueryOptions {
+    rollback?: boolean;     // Execute, then ROLLBACK instead of COMMIT (dry run)
+    maxAffected?: number;   // ROLLBACK and fail with PGRST124 when rowCount exceeds this
+}
+
 // HARDENED RLS WRAPPER (Fast Path + Optimized Transaction Pipeline)
-export const queryWithRLS = async (req: CascataRequest, callback: (client: { query: (sql: string, params?: any[], name?: string) => Promise<any> }) => Promise<any>) => {
+export const queryWithRLS = async (req: CascataRequest, callback: (client: { query: (sql: string, params?: any[], name?: string, options?: RLSQueryOptions) => Promise<any> }) => Promise<any>) => {
     if (!req.projectPool) {
         throw { status: 500, message: 'Project context missing or database pool not initialized.' };
     }
@@ -349,7 +366,7 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
     // Proxy intercepta e empacota a query garantindo Performance Fast-Path para Admins
     // e Segurança Transacional para roles restritas (RLS Planner enforcement)
     const proxyClient = {
-        query: async (queryText: string, params: any[] = [], statementName?: string) => {
+        query: async (queryText: string, params: any[] = [], statementName?: string, options: RLSQueryOptions = {}) => {
 
             // ======================================================================
             // CAMADA 1: DETECÇÃO DE TIPO E AFFECTED TABLE
@@ -358,6 +375,8 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
             const isWriteDml = /^\s*(INSERT\s+INTO|UPDATE|DELETE\s+FROM)\s/i.test(queryText);
             const isRead = /^\s*SELECT\s/i.test(queryText) && !isWriteDml;
 
+            const needsTx = options.rollback === true || options.maxAffected !== undefined;
+
             let affectedTable = '';
             if (isWriteDml) {
                 const match = queryText.match(/(?:INSERT\s+INTO|UPDATE|DELETE\s+FROM)\s+(?:[\w]+\.)?(\"?[a-zA-Z0-9_]+\"?)/i);
@@ -417,6 +436,24 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
                 const projectSlug = req.project?.slug || '';
                 const otpVerified = (req.user as any)?.otp_verified || 'false';
 
+                // Commits (or rolls back a dry run) after enforcing the max-affected guard
+                const finish = async (results: any): Promise<boolean> => {
+                    const last = (Array.isArray(results) && results.length > 0) ? results[results.length - 1] : results;
+                    if (options.maxAffected !== undefined && (last?.rowCount || 0) > options.maxAffected) {
+                        throw Object.assign(new Error('Query result exceeds max-affected preference constraint'), {
+                            status: 400,
+                            code: 'PGRST124',
+                            details: `The query affects ${last.rowCount} rows`
+                        });
+                    }
+                    if (options.rollback) {
+                        await client.query('ROLLBACK');
+                        return false;
+                    }
+                    await client.query('COMMIT');
+                    return true;
+                };
+
                 const execute = async (useRetry = true): Promise<any> => {
                     try {
                         // 🚀 FAST-PATH: Admin Services
@@ -424,7 +461,7 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
                             // FIX Bug #8: Write operations MUST set project_slug in a transaction
                             // so the enforce_dynamic_locks trigger can read it via current_setting().
                             // Without this, _project_slug is NULL and the trigger skips ALL checks.
-                            if (isWriteDml && projectSlug) {
+                            if ((isWriteDml && projectSlug) || needsTx) {
                                 const safeSlug = quotePostgresLiteral(projectSlug);
                                 const safeOtp = quotePostgresLiteral(otpVerified);
                                 const safeRoleLit = quotePostgresLiteral(role);
@@ -439,9 +476,9 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
                                     values: params,
                                     name: statementName
                                 });
-                                await client.query('COMMIT');
+                                const committed = await finish(results);
 
-                                if (affectedTable && dfly) {
+                                if (committed && affectedTable && dfly) {
                                     const semaforoKey = `cascata_rw_lock:${req.project?.slug || 'unknown'}:${affectedTable}`;
                                     try { dfly.set(semaforoKey, 'LOCKED', 'PX', 2500).catch(() => {}); } catch (e) {}
                                 }
@@ -487,7 +524,7 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
                             SET LOCAL "request.jwt.claim.provider" = ${safeProvider};
                             SET LOCAL "request.jwt.claim.project_slug" = ${safeProjectSlug};
                             SET LOCAL "request.jwt.claim.otp_verified" = ${safeOtpVerified};
-                            SET LOCAL statement_timeout = '30000';
+                            SET LOCAL statement_timeout = '${RLS_STATEMENT_TIMEOUT_MS}';
                         `;
                         
                         await client.query(setupSql);
@@ -498,10 +535,10 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
                             name: statementName
                         });
 
-                        await client.query('COMMIT');
+                        const committed = await finish(results);
 
                         // Set Semáforo Pós-Write
-                        if (isWriteDml && affectedTable && dfly) {
+                        if (committed && isWriteDml && affectedTable && dfly) {
                             const semaforoKey = `cascata_rw_lock:${req.project?.slug || 'unknown'}:${affectedTable}`;
                             try { dfly.set(semaforoKey, 'LOCKED', 'PX', 2500).catch(() => {}); } catch (e) {}
                         }
@@ -533,3 +570,72 @@ export const queryWithRLS = async (req: CascataRequest, callback: (client: { que
     };
     return await callback(proxyClient);
 };
+
+/**
+ * Streams a read-only query through a server-side cursor (pg-cursor) under the same
+ * security context as queryWithRLS, so large exports never buffer in memory.
+ * `onBatch` is called once per batch (and once with an empty batch when there are no
+ * rows, so callers still get the column list). Returning false stops the stream early.
+ */
+export const streamWithRLS = async (
+    req: CascataRequest,
+    queryText: string,
+    params: any[],
+    onBatch: (rows: any[], fields: { name: string }[]) => Promise<boolean | void>,
+    batchSize = 500
+): Promise<number> => {
+    if (!req.projectPool) {
+        throw { status: 500, message: 'Project context missing or database pool not initialized.' };
+    }
+
+    const role = req.userRole || 'anon';
+    const client = await req.projectPool.connect();
+    let cursor: any = null;
+    let cursorFailed = false;
+    try {
+        // READ ONLY: a cursor can only ever be used for exports, never to smuggle writes
+        await client.query('BEGIN READ ONLY');
+        if (role !== 'service_role') {
+            await client.query(`
+                SET LOCAL ROLE ${quotePostgresLiteral(role)};
+                SET LOCAL "request.jwt.claim.sub" = ${quotePostgresLiteral(req.user?.sub)};
+                SET LOCAL "request.jwt.claim.role" = ${quotePostgresLiteral(role)};
+                SET LOCAL "request.jwt.claim.email" = ${quotePostgresLiteral(req.user?.email)};
+                SET LOCAL "request.jwt.claim.identifier" = ${quotePostgresLiteral((req.user as any)?.identifier)};
+                SET LOCAL "request.jwt.claim.provider" = ${quotePostgresLiteral((req.user as any)?.provider)};
+                SET LOCAL "request.jwt.claim.project_slug" = ${quotePostgresLiteral(req.project?.slug)};
+                SET LOCAL "request.jwt.claim.otp_verified" = ${quotePostgresLiteral((req.user as any)?.otp_verified || 'false')};
+            `);
+        }
+        await client.query(`SET LOCAL statement_timeout = '${RLS_STREAM_TIMEOUT_MS}'`);
+
+        cursor = client.query(new Cursor(queryText, params));
+        const readNext = () => new Promise<{ rows: any[], fields: any[] }>((resolve, reject) => {
+            cursor.read(batchSize, (err: Error, rows: any[], result: any) =>
+                err ? (cursorFailed = true, reject(err)) : resolve({ rows, fields: result?.fields || [] }));
+        });
+
+        let total = 0;
+        let first = true;
+        while (true) {
+            const { rows, fields } = await readNext();
+            if (rows.length === 0 && !first) break;
+            first = false;
+            total += rows.length;
+            const proceed = await onBatch(rows, fields);
+            if (rows.length === 0 || proceed === false) break;
+        }
+
+        await new Promise<void>(resolve => cursor.close(() => resolve()));
+        cursor = null;
+        await client.query('COMMIT');
+        return total;
+    } catch (error) {
+        // A failed cursor already released the portal; an aborted consumer must close it first
+        if (cursor && !cursorFailed) await new Promise<void>(resolve => cursor.close(() => resolve()));
+        await client.query('ROLLBACK').catch(() => {});
+        throw error;
+    } finally {
+        client.release();
+    }
+};
@@ -43,6 +43,17 @@ interface ExecutionRun {
    created_at: string;
 }
 
+interface DeadLetter {
+   id: string;
+   run_id: string;
+   automation_id: string;
+   failed_node: string | null;
+   error_message: string | null;
+   error_class: string | null;
+   status: 'pending' | 'redriven' | 'dismissed';
+   created_at: string;
+}
+
 interface AutomationStats {
    total_runs: number;
    success_count: number;
@@ -59,8 +70,10 @@ const AutomationManager: React.FC<{ projectId: string }> = ({ projectId }: { pro
    const [columns, setColumns] = useState<Record<string, string[]>>({});
    const [loading, setLoading] = useState(true);
    const [view, setView] = useState<'list' | 'composer'>('list');
-   const [activeTab, setActiveTab] = useState<'editor' | 'runs'>('editor');
+   const [activeTab, setActiveTab] = useState<'editor' | 'runs' | 'dead_letters'>('editor');
    const [runs, setRuns] = useState<ExecutionRun[]>([]);
+   const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+   const [redrivingId, setRedrivingId] = useState<string | null>(null);
    const [stats, setStats] = useState<Record<string, AutomationStats>>({});
    const [runsFilter, setRunsFilter] = useState<string | null>(null);
    const [vaultSecrets, setVaultSecrets] = useState<any[]>([]);
@@ -159,6 +172,47 @@ const AutomationManager: React.FC<{ projectId: string }> = ({ projectId }: { pro
       } catch (e) { console.error("Runs fetch error"); }
    };
 
+   const fetchDeadLetters = async () => {
+      try {
+         const res = await fetch(`/api/data/${projectId}/automations/dead-letters`, {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` }
+         });
+         const data = await res.json();
+         setDeadLetters(Array.isArray(data) ? data : []);
+      } catch (e) { console.error("Dead letters fetch error"); }
+   };
+
+   // 'restart' replays the trigger payload; 'resume' continues at the failed node with its saved variables
+   const handleRedrive = async (deadLetter: DeadLetter, mode: 'restart' | 'resume') => {
+      setRedrivingId(deadLetter.id);
+      try {
+         const res = await fetch(`/api/data/${projectId}/automations/dead-letters/${deadLetter.id}/redrive`, {
+            method: 'POST',
+            body: JSON.stringify({ mode }),
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` }
+         });
+         const data = await res.json();
+         if (!res.ok) throw new Error(data.error || 'Falha ao reprocessar.');
+         setDeadLetters((prev: DeadLetter[]) => prev.filter((d: DeadLetter) => d.id !== deadLetter.id));
+         setSuccess(mode === 'resume' ? 'Execução retomada do nó com falha.' : 'Execução reiniciada.');
+         setTimeout(() => setSuccess(null), 3000);
+      } catch (e: any) { setError(e.message || 'Falha ao reprocessar.'); setTimeout(() => setError(null), 5000); }
+      finally { setRedrivingId(null); }
+   };
+
+   const handleDismissDeadLetter = async (deadLetter: DeadLetter) => {
+      try {
+         const res = await fetch(`/api/data/${projectId}/automations/dead-letters/${deadLetter.id}/dismiss`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` }
+         });
+         if (!res.ok) { const d = await res.json(); throw new Error(d.error || 'Falha ao descartar.'); }
+         setDeadLetters((prev: DeadLetter[]) => prev.filter((d: DeadLetter) => d.id !== deadLetter.id));
+         setSuccess('Dead letter descartada.');
+         setTimeout(() => setSuccess(null), 3000);
+      } catch (e: any) { setError(e.message || 'Falha ao descartar.'); setTimeout(() => setError(null), 5000); }
+   };
+
    const sortedNodesForJump = [...nodes].sort((a, b) => (a.y - b.y) || (a.x - b.x));
    const getNodeNumber = (id: string) => sortedNodesForJump.findIndex(n => n.id === id) + 1;
 
@@ -235,7 +289,7 @@ const AutomationManager: React.FC<{ projectId: string }> = ({ projectId }: { pro
 
 
    useEffect(() => {
-      Promise.all([fetchAutomations(), fetchRuns(), fetchStats(), fetchTables(), fetchVault(), fetchFunctions()]).then(() => setLoading(false));
+      Promise.all([fetchAutomations(), fetchRuns(), fetchStats(), fetchDeadLetters(), fetchTables(), fetchVault(), fetchFunctions()]).then(() => setLoading(false));
    }, [projectId]);
 
    useEffect(() => {
@@ -2474,6 +2528,10 @@ const AutomationManager: React.FC<{ projectId: string }> = ({ projectId }: { pro
             <div className="flex bg-slate-100 p-1 rounded-2xl shadow-inner">
                <button onClick={() => setActiveTab('workflows')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'workflows' ? 'bg-white text-slate-900 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Orquestrações</button>
                <button onClick={() => setActiveTab('runs')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'runs' ? 'bg-white text-slate-900 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Logs de Execução</button>
+               <button onClick={() => { setActiveTab('dead_letters'); fetchDeadLetters(); }} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'dead_letters' ? 'bg-white text-slate-900 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>
+                  Dead Letters
+                  {deadLetters.length > 0 && <span className="bg-rose-500 text-white px-1.5 py-0.5 rounded-md text-[8px]">{deadLetters.length}</span>}
+               </button>
             </div>
             <button onClick={handleCreateNew} className="bg-slate-900 text-white px-8 py-4 rounded-[2rem] font-black text-[10px] uppercase tracking-widest flex items-center gap-3 hover:bg-black transition-all shadow-2xl hover:scale-[1.02] active:scale-95">
                <div className="w-5 h-5 bg-indigo-500 rounded-lg flex items-center justify-center"><Plus size={14} /></div>
@@ -2553,6 +2611,59 @@ const AutomationManager: React.FC<{ projectId: string }> = ({ projectId }: { pro
                   </div>
                )}
             </div>
+         ) : activeTab === 'dead_letters' ? (
+            <div className="bg-white border border-slate-100 rounded-[3rem] overflow-hidden shadow-2xl">
+               <table className="w-full text-left">
+                  <thead>
+                     <tr className="bg-slate-50/50 border-b border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">
+                        <th className="px-10 py-8">Fluxo</th>
+                        <th className="px-10 py-8">Falha</th>
+                        <th className="px-10 py-8">Timestamp</th>
+                        <th className="px-10 py-8 text-right">Ação</th>
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                     {deadLetters.map((deadLetter: DeadLetter) => (
+                        <tr key={deadLetter.id} className="hover:bg-slate-50/30 transition-all font-medium">
+                           <td className="px-10 py-8">
+                              <span className="text-[10px] font-black text-slate-900 uppercase tracking-widest">
+                                 {automations.find((a: Automation) => a.id === deadLetter.automation_id)?.name || deadLetter.automation_id}
+                              </span>
+                           </td>
+                           <td className="px-10 py-8 max-w-md">
+                              <div className="flex items-center gap-2 mb-1">
+                                 <AlertCircle size={14} className="text-rose-500" />
+                                 {deadLetter.failed_node && <code className="text-[9px] bg-rose-50 text-rose-700 px-2 py-0.5 rounded font-mono">{deadLetter.failed_node}</code>}
+                                 {deadLetter.error_class && <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{deadLetter.error_class}</span>}
+                              </div>
+                              <p className="text-[10px] text-slate-500 truncate" title={deadLetter.error_message || ''}>{deadLetter.error_message || '—'}</p>
+                           </td>
+                           <td className="px-10 py-8 font-mono text-[10px] text-slate-500">{new Date(deadLetter.created_at).toLocaleString()}</td>
+                           <td className="px-10 py-8 text-right">
+                              <div className="flex items-center justify-end gap-2">
+                                 <button onClick={() => handleRedrive(deadLetter, 'restart')} disabled={redrivingId === deadLetter.id} className="text-[9px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest bg-indigo-50/50 px-4 py-2 rounded-lg transition-all flex items-center gap-1 disabled:opacity-50">
+                                    {redrivingId === deadLetter.id ? <Loader2 size={10} className="animate-spin" /> : <RefreshCcw size={10} />} Reiniciar
+                                 </button>
+                                 {deadLetter.failed_node && (
+                                    <button onClick={() => handleRedrive(deadLetter, 'resume')} disabled={redrivingId === deadLetter.id} className="text-[9px] font-black text-emerald-600 hover:text-emerald-800 uppercase tracking-widest bg-emerald-50/50 px-4 py-2 rounded-lg transition-all flex items-center gap-1 disabled:opacity-50">
+                                       <Play size={10} /> Retomar
+                                    </button>
+                                 )}
+                                 <button onClick={() => handleDismissDeadLetter(deadLetter)} className="text-[9px] font-black text-slate-400 hover:text-rose-600 uppercase tracking-widest px-3 py-2 rounded-lg transition-all">
+                                    <X size={12} />
+                                 </button>
+                              </div>
+                           </td>
+                        </tr>
+                     ))}
+                     {deadLetters.length === 0 && (
+                        <tr>
+                           <td colSpan={4} className="px-10 py-20 text-center text-[10px] font-black text-slate-300 uppercase tracking-[0.2em]">Nenhuma execução aguardando reprocessamento.</td>
+                        </tr>
+                     )}
+                  </tbody>
+               </table>
+            </div>
          ) : (
             <div className="bg-white border border-slate-100 rounded-[3rem] overflow-hidden shadow-2xl">
                <table className="w-full text-left">
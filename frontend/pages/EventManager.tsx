@@ -31,10 +31,16 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
       fallback_url: '',
       retry_policy: 'standard' // 'standard', 'none', 'linear'
   });
+  const [matchAny, setMatchAny] = useState(false);
   
   const [submitting, setSubmitting] = useState(false);
   const [testLoading, setTestLoading] = useState<string | null>(null);
   const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  // Signing secrets are stored encrypted: the plaintext only arrives in the create/rotate response
+  const [issuedSecrets, setIssuedSecrets] = useState<Record<string, string>>({});
+  const [openDeliveries, setOpenDeliveries] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<any[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
@@ -89,15 +95,22 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
     if (!newHook.target_url) { setError("URL é obrigatória."); return; }
     setSubmitting(true);
     try {
-      await fetch(`/api/control/projects/${projectId}/webhooks`, {
+      const res = await fetch(`/api/control/projects/${projectId}/webhooks`, {
         method: 'POST',
         headers: { 
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${localStorage.getItem('cascata_token')}`
         },
-        body: JSON.stringify(newHook)
+        // "Match any" stores the rules as an OR group; the default plain array is AND
+        body: JSON.stringify({ ...newHook, filters: matchAny ? { op: 'or', conditions: newHook.filters } : newHook.filters })
       });
+      const created = await res.json();
+      if (created?.id && created.signing_secret) {
+          setIssuedSecrets(prev => ({ ...prev, [created.id]: created.signing_secret }));
+          setRevealedSecret(created.id);
+      }
       setShowAdd(false);
+      setMatchAny(false);
       setNewHook({ target_url: '', event_type: 'INSERT', table_name: '*', filters: [], fallback_url: '', retry_policy: 'standard' });
       fetchHooks();
       setSuccess("Webhook criado com sucesso.");
@@ -152,6 +165,79 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
       }
   };
 
+  const fetchDeliveries = async (hookId: string) => {
+      setDeliveriesLoading(true);
+      try {
+          const res = await fetch(`/api/control/projects/${projectId}/webhooks/${hookId}/deliveries`, {
+              headers: { 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` }
+          });
+          const data = await res.json();
+          setDeliveries(Array.isArray(data) ? data : []);
+      } catch (e) { setDeliveries([]); }
+      finally { setDeliveriesLoading(false); }
+  };
+
+  const toggleDeliveries = (hookId: string) => {
+      if (openDeliveries === hookId) { setOpenDeliveries(null); return; }
+      setOpenDeliveries(hookId);
+      setDeliveries([]);
+      fetchDeliveries(hookId);
+  };
+
+  const handleRedeliver = async (hookId: string, deliveryId: string) => {
+      try {
+          const res = await fetch(`/api/control/projects/${projectId}/webhooks/${hookId}/deliveries/${deliveryId}/redeliver`, {
+              method: 'POST',
+              headers: { 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` }
+          });
+          if (res.ok) {
+              setSuccess("Reenvio enfileirado.");
+              setTimeout(() => fetchDeliveries(hookId), 1500);
+          } else setError("Falha ao reenviar.");
+      } catch (e) { setError("Falha ao reenviar."); }
+      setTimeout(() => setSuccess(null), 3000);
+      setTimeout(() => setError(null), 3000);
+  };
+
+  const handleRotate = async (hookId: string) => {
+      if (!confirm("Gerar um novo segredo? O segredo atual continua assinando por 24h.")) return;
+      try {
+          const res = await fetch(`/api/control/projects/${projectId}/webhooks/${hookId}/rotate-secret`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` },
+              body: JSON.stringify({ grace_hours: 24 })
+          });
+          if (res.ok) {
+              const rotated = await res.json();
+              if (rotated?.signing_secret) {
+                  setIssuedSecrets(prev => ({ ...prev, [hookId]: rotated.signing_secret }));
+                  setRevealedSecret(hookId);
+              }
+              fetchHooks();
+              setSuccess("Segredo rotacionado. Copie agora: ele não será exibido novamente.");
+          } else setError("Falha ao rotacionar segredo.");
+      } catch (e) { setError("Falha ao rotacionar segredo."); }
+      setTimeout(() => setSuccess(null), 3000);
+      setTimeout(() => setError(null), 3000);
+  };
+
+  const handleLegacySignature = async (hook: any) => {
+      if (!confirm("Desativar o header legado? X-Cascata-Signature passa a levar um HMAC do corpo em vez do segredo.")) return;
+      try {
+          const res = await fetch(`/api/control/projects/${projectId}/webhooks/${hook.id}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${localStorage.getItem('cascata_token')}` },
+              body: JSON.stringify({ legacy_signature: false })
+          });
+          if (res.ok) {
+              fetchHooks();
+              setSuccess("Header legado desativado.");
+          } else setError("Falha ao atualizar assinatura.");
+      } catch (e) { setError("Falha ao atualizar assinatura."); }
+      setTimeout(() => setSuccess(null), 3000);
+      setTimeout(() => setError(null), 3000);
+  };
+
   const copySecret = (text: string) => {
       navigator.clipboard.writeText(text);
       setSuccess("Segredo copiado!");
@@ -172,6 +258,20 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
       }));
   };
 
+  const VALUELESS_OPERATORS = ['is_null', 'is_not_null', 'changed'];
+
+  const describeFilters = (filters: any): string[] => {
+      if (!filters) return [];
+      const group = Array.isArray(filters) ? { op: 'and', conditions: filters } : filters;
+      if (!Array.isArray(group.conditions)) return [];
+      return group.conditions.map((c: any, i: number) => {
+          const text = Array.isArray(c.conditions)
+              ? `(${describeFilters(c).join(c.op === 'or' ? ' OR ' : ' AND ')})`
+              : c.operator === 'changed_from_to' ? `${c.field} ${c.from} → ${c.to}` : `${c.field} ${c.operator} ${c.value ?? ''}`.trim();
+          return i > 0 && group.op === 'or' ? `OR ${text}` : text;
+      });
+  };
+
   const updateFilter = (idx: number, field: string, val: any) => {
       const updated = [...newHook.filters];
       updated[idx] = { ...updated[idx], [field]: val };
@@ -250,6 +350,9 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                      <button onClick={() => toggleDeliveries(hook.id)} className={`p-2 rounded-xl transition-all ${openDeliveries === hook.id ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600'}`} title="Deliveries">
+                          <Activity size={18}/>
+                      </button>
                       <button onClick={() => handleTest(hook.id)} disabled={testLoading === hook.id} className="p-2 bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600 rounded-xl transition-all" title="Test Payload">
                           {testLoading === hook.id ? <Loader2 size={18} className="animate-spin"/> : <Play size={18}/>}
                       </button>
@@ -260,11 +363,11 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                 </div>
                 
                 {/* Active Filters Display */}
-                {hook.filters && hook.filters.length > 0 && (
+                {describeFilters(hook.filters).length > 0 && (
                     <div className="flex flex-wrap gap-2 mb-4 pl-16">
-                        {hook.filters.map((f: any, i: number) => (
+                        {describeFilters(hook.filters).map((f: string, i: number) => (
                             <span key={i} className="text-[9px] bg-indigo-50 text-indigo-700 px-2 py-1 rounded border border-indigo-100 font-mono">
-                                {f.field} {f.operator} {f.value}
+                                {f}
                             </span>
                         ))}
                     </div>
@@ -283,21 +386,72 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                 <div className="bg-slate-50 rounded-xl p-3 flex items-center justify-between mb-4 border border-slate-100">
                     <div className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
                         <ShieldCheck size={12} className="text-indigo-400"/>
-                        <span>Secret:</span>
-                        <span className="bg-white px-2 py-0.5 rounded border border-slate-200">
-                            {revealedSecret === hook.id ? (hook.secret_header || 'default_jwt_secret') : '••••••••••••••••••••••••'}
+                        <span>Signing Secret:</span>
+                        <span className="bg-white px-2 py-0.5 rounded border border-slate-200 truncate max-w-[260px]">
+                            {revealedSecret === hook.id && issuedSecrets[hook.id] ? issuedSecrets[hook.id] : '••••••••••••••••••••••••'}
                         </span>
+                        {hook.previous_secret_expires_at && new Date(hook.previous_secret_expires_at) > new Date() && (
+                            <span className="text-[9px] font-bold text-amber-600" title="The previous secret still co-signs until then">
+                                rotating until {new Date(hook.previous_secret_expires_at).toLocaleString()}
+                            </span>
+                        )}
+                        {hook.legacy_signature && (
+                            <button onClick={() => handleLegacySignature(hook)} className="text-[9px] font-bold text-amber-600 hover:text-amber-700" title="X-Cascata-Signature still carries the raw secret. Click to send an HMAC instead">
+                                legacy header
+                            </button>
+                        )}
                     </div>
                     <div className="flex gap-1">
-                        <button onClick={() => setRevealedSecret(revealedSecret === hook.id ? null : hook.id)} className="p-1.5 hover:bg-white rounded-lg text-slate-400 hover:text-indigo-600 transition-all">
-                            {revealedSecret === hook.id ? <EyeOff size={14}/> : <Eye size={14}/>}
-                        </button>
-                        <button onClick={() => copySecret(hook.secret_header || 'default_jwt_secret')} className="p-1.5 hover:bg-white rounded-lg text-slate-400 hover:text-indigo-600 transition-all">
-                            <Copy size={14}/>
+                        {issuedSecrets[hook.id] ? (
+                            <>
+                                <button onClick={() => setRevealedSecret(revealedSecret === hook.id ? null : hook.id)} className="p-1.5 hover:bg-white rounded-lg text-slate-400 hover:text-indigo-600 transition-all">
+                                    {revealedSecret === hook.id ? <EyeOff size={14}/> : <Eye size={14}/>}
+                                </button>
+                                <button onClick={() => copySecret(issuedSecrets[hook.id])} className="p-1.5 hover:bg-white rounded-lg text-slate-400 hover:text-indigo-600 transition-all">
+                                    <Copy size={14}/>
+                                </button>
+                            </>
+                        ) : (
+                            <span className="self-center text-[9px] font-bold text-slate-400 mr-1" title="Stored encrypted; rotate to issue a new one">hidden</span>
+                        )}
+                        <button onClick={() => handleRotate(hook.id)} className="p-1.5 hover:bg-white rounded-lg text-slate-400 hover:text-amber-600 transition-all" title="Rotate Secret">
+                            <RefreshCcw size={14}/>
                         </button>
                     </div>
                 </div>
 
+                {/* Delivery Log */}
+                {openDeliveries === hook.id && (
+                    <div className="mb-4 border border-slate-100 rounded-xl overflow-hidden">
+                        <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-b border-slate-100">
+                            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Recent Deliveries</span>
+                            <button onClick={() => fetchDeliveries(hook.id)} className="p-1 text-slate-400 hover:text-indigo-600"><RefreshCcw size={12}/></button>
+                        </div>
+                        {deliveriesLoading ? (
+                            <div className="py-6 flex justify-center text-slate-300"><Loader2 size={18} className="animate-spin"/></div>
+                        ) : deliveries.length === 0 ? (
+                            <p className="py-6 text-center text-[10px] text-slate-400 italic">No deliveries yet.</p>
+                        ) : (
+                            <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+                                {deliveries.map(d => (
+                                    <div key={d.id} className="px-4 py-2 flex items-center gap-3 text-[10px]">
+                                        {d.status === 'success' ? <CheckCircle2 size={12} className="text-emerald-500 shrink-0"/> : <AlertCircle size={12} className="text-rose-500 shrink-0"/>}
+                                        <span className="font-mono font-bold text-slate-700 w-10">{d.status_code ?? '—'}</span>
+                                        <span className="text-slate-400 w-14">{d.latency_ms ?? 0}ms</span>
+                                        <span className="text-slate-400 w-12">#{d.attempt}/{d.max_attempts}</span>
+                                        {d.is_fallback && <span className="text-[9px] font-black bg-rose-50 text-rose-600 px-1.5 rounded">FALLBACK</span>}
+                                        <span className="flex-1 truncate font-mono text-slate-500" title={d.error || d.response_excerpt || ''}>{d.error || d.response_excerpt || ''}</span>
+                                        <span className="text-slate-300 shrink-0">{new Date(d.created_at).toLocaleString()}</span>
+                                        <button onClick={() => handleRedeliver(hook.id, d.id)} className="p-1 text-slate-400 hover:text-indigo-600 shrink-0" title="Redeliver">
+                                            <Send size={12}/>
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 <div className="pt-4 border-t border-slate-50 flex items-center justify-between">
                   <div className="flex items-center gap-2">
                       <div className={`w-2 h-2 rounded-full ${hook.is_active ? 'bg-emerald-500 animate-pulse' : 'bg-slate-300'}`}></div>
@@ -318,10 +472,10 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                   <ShieldCheck className="text-indigo-400" size={20} /> Segurança de Eventos
                 </h3>
                 <p className="text-xs text-slate-400 leading-relaxed mb-6 font-medium">
-                  Cada webhook enviado inclui um header <code>X-Cascata-Signature</code>. Use o segredo exibido ao lado para validar a autenticidade (HMAC SHA256).
+                  Cada entrega segue o padrão Standard Webhooks: headers <code>webhook-id</code>, <code>webhook-timestamp</code> e <code>webhook-signature</code> (HMAC SHA256 com o Signing Secret). Durante uma rotação, os dois segredos assinam.
                 </p>
-                <div className="bg-white/10 p-4 rounded-xl border border-white/5 font-mono text-[10px] text-emerald-300">
-                    verify_signature(payload, secret, header_sig)
+                <div className="bg-white/10 p-4 rounded-xl border border-white/5 font-mono text-[10px] text-emerald-300 break-all">
+                    base64(hmac_sha256(base64decode(secret - "whsec_"), id + "." + timestamp + "." + body))
                 </div>
             </div>
           </aside>
@@ -373,7 +527,14 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                  <div className="bg-slate-50 rounded-3xl p-6 border border-slate-100">
                      <div className="flex justify-between items-center mb-4">
                          <h4 className="text-xs font-black text-slate-600 uppercase tracking-widest flex items-center gap-2"><Filter size={12}/> Trigger Conditions (Optional)</h4>
+                         <div className="flex items-center gap-2">
+                         {newHook.filters.length > 1 && (
+                             <button onClick={() => setMatchAny(!matchAny)} className="text-[10px] bg-white border border-slate-200 px-3 py-1.5 rounded-lg font-bold text-slate-600 hover:bg-indigo-50">
+                                 {matchAny ? 'Match ANY (OR)' : 'Match ALL (AND)'}
+                             </button>
+                         )}
                          <button onClick={addFilter} disabled={newHook.table_name === '*'} className="text-[10px] bg-white border border-slate-200 px-3 py-1.5 rounded-lg font-bold text-indigo-600 hover:bg-indigo-50 disabled:opacity-50">+ Add Condition</button>
+                         </div>
                      </div>
                      
                      {newHook.table_name === '*' && <p className="text-[10px] text-amber-600 font-bold mb-2">Select a specific table to enable filters.</p>}
@@ -391,8 +552,18 @@ const EventManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                                      <option value="lt">&lt;</option>
                                      <option value="contains">has</option>
                                      <option value="starts_with">starts</option>
+                                     <option value="in">in (a,b)</option>
+                                     <option value="not_in">not in</option>
+                                     <option value="regex">regex</option>
+                                     <option value="is_null">is null</option>
+                                     <option value="is_not_null">not null</option>
+                                     <option value="changed">changed</option>
+                                     <option value="changed_from">changed from</option>
+                                     <option value="changed_to">changed to</option>
                                  </select>
-                                 <input value={filter.value} onChange={(e) => updateFilter(idx, 'value', e.target.value)} className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none flex-1" placeholder="Value..."/>
+                                 {VALUELESS_OPERATORS.includes(filter.operator)
+                                     ? <span className="flex-1 text-[10px] text-slate-400 italic px-3">{filter.operator === 'changed' ? 'UPDATE only: compares with the previous row' : 'no value'}</span>
+                                     : <input value={filter.value} onChange={(e) => updateFilter(idx, 'value', e.target.value)} className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none flex-1" placeholder="Value..."/>}
                                  <button onClick={() => removeFilter(idx)} className="p-2 text-slate-300 hover:text-rose-500"><X size={14}/></button>
                              </div>
                          ))}
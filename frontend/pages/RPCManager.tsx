@@ -381,8 +381,9 @@ const RPCManager: React.FC<{ projectId: string }> = ({ projectId }) => {
                 if (type === 'edge_function') {
                     // UPDATED TEMPLATE FOR STEP 3: SHOWCASING POWER
                     template = `// Edge Function: ${name}
-// Available Globals: crypto, $fetch, $db, env
+// Available Globals: crypto, $fetch, $db, env (+ fetch, Request, Response, URL, streams...)
 // req = { body, query, headers, user }
+// Workers/Deno style also works: export default { fetch(request, env, ctx) { return new Response('ok'); } }
 
 export default async function(req) {
   // 1. Use Native Crypto (UUID)